@@ -1,4 +1,5 @@
-import { GameState, Player, Resources, HeuristicWeights, ParsedAction } from '../types';
+import { GameState, Player, Resources, ResourceType, HexCoordinate, HeuristicWeights, ParsedAction } from '../types';
+import { CatanRuleEngine, BoardAnalyzer, RobberManager, TradingManager } from '@cajun-catan/rule-engine';
 import { Logger } from 'winston';
 import { createLogger } from '../utils/logger';
 
@@ -44,8 +45,26 @@ export class HeuristicAI {
         return this.makeProductionDecision(gameState, player, validActions);
       
       case 'ACTION':
+      case 'SPECIAL_BUILDING':
         return this.makeActionDecision(gameState, player, validActions);
       
+      case 'DISCARD':
+        return this.makeDiscardDecision(gameState, player, validActions);
+      
+      case 'GOLD':
+        return this.makeGoldDecision(gameState, player, validActions);
+      
+      case 'MOVE_ROBBER':
+      case 'STEAL':
+        return this.makeRobberDecision(gameState, player, validActions);
+      
+      case 'ROAD_BUILDING': {
+        const freeRoad = this.findBestRoadLocation(gameState, player);
+        return freeRoad
+          ? { type: 'BUILD_ROAD', playerId: player.id, payload: { edgeId: freeRoad } }
+          : this.makeDefaultDecision(player, validActions);
+      }
+      
       default:
         return this.makeDefaultDecision(player, validActions);
     }
@@ -55,22 +74,26 @@ export class HeuristicAI {
     if (validActions.includes('BUILD_SETTLEMENT')) {
       // For setup, choose locations with good resource diversity and number probability
       const bestLocation = this.findBestSettlementLocation(gameState, player, true);
-      return {
-        type: 'BUILD_SETTLEMENT',
-        playerId: player.id,
-        payload: { intersectionId: bestLocation || 'i_0,0' }
-      };
+      if (bestLocation) {
+        return {
+          type: 'BUILD_SETTLEMENT',
+          playerId: player.id,
+          payload: { intersectionId: bestLocation }
+        };
+      }
     }
 
     if (validActions.includes('BUILD_ROAD')) {
       // Build road adjacent to last settlement
       const lastSettlement = player.buildings.settlements[player.buildings.settlements.length - 1];
-      const roadLocation = this.findAdjacentRoadLocation(gameState, lastSettlement);
-      return {
-        type: 'BUILD_ROAD',
-        playerId: player.id,
-        payload: { edgeId: roadLocation || 'e_0,0_1,-1' }
-      };
+      const roadLocation = this.findAdjacentRoadLocation(gameState, player, lastSettlement);
+      if (roadLocation) {
+        return {
+          type: 'BUILD_ROAD',
+          playerId: player.id,
+          payload: { edgeId: roadLocation }
+        };
+      }
     }
 
     return this.makeDefaultDecision(player, validActions);
@@ -83,15 +106,11 @@ export class HeuristicAI {
       const threatPlayer = opponents.find(p => p.victoryPoints >= 8);
       
       if (threatPlayer) {
-        // Play knight to disrupt threatening player
+        // Play knight to disrupt threatening player (the robber is placed in the MOVE_ROBBER phase)
         return {
           type: 'PLAY_DEVELOPMENT_CARD',
           playerId: player.id,
-          payload: {
-            cardType: 'knight',
-            robberLocation: { q: 0, r: 1 }, // Simple heuristic location
-            targetPlayerId: threatPlayer.id
-          }
+          payload: { cardType: 'knight' }
         };
       }
     }
@@ -108,6 +127,74 @@ export class HeuristicAI {
     return this.makeDefaultDecision(player, validActions);
   }
 
+  private makeDiscardDecision(gameState: GameState, player: Player, validActions: string[]): ParsedAction {
+    if (!validActions.includes('DISCARD_RESOURCES')) {
+      return this.makeDefaultDecision(player, validActions);
+    }
+
+    // Give up cards from the largest piles first
+    const hand = { ...player.resources };
+    const resourcesToDiscard: Partial<Resources> = {};
+    for (let owed = gameState.pendingDiscards?.[player.id] ?? 0; owed > 0; owed--) {
+      const resource = (Object.keys(hand) as (keyof Resources)[])
+        .reduce((most, type) => hand[type] > hand[most] ? type : most);
+      hand[resource]--;
+      resourcesToDiscard[resource] = (resourcesToDiscard[resource] ?? 0) + 1;
+    }
+
+    return {
+      type: 'DISCARD_RESOURCES',
+      playerId: player.id,
+      payload: { resourcesToDiscard }
+    };
+  }
+
+  private makeGoldDecision(gameState: GameState, player: Player, validActions: string[]): ParsedAction {
+    if (!validActions.includes('CHOOSE_GOLD')) {
+      return this.makeDefaultDecision(player, validActions);
+    }
+
+    // Take whatever the player holds least of, as long as the bank still has it
+    const hand = { ...player.resources };
+    const bank = gameState.bank ? { ...gameState.bank } : undefined;
+    const resources: Partial<Resources> = {};
+    for (let owed = gameState.seafarers?.pendingGold?.[player.id] ?? 0; owed > 0; owed--) {
+      const available = (Object.keys(hand) as (keyof Resources)[]).filter(type => !bank || bank[type] > 0);
+      if (available.length === 0) break;
+      const resource = available.reduce((least, type) => hand[type] < hand[least] ? type : least);
+      hand[resource]++;
+      if (bank) bank[resource]--;
+      resources[resource] = (resources[resource] ?? 0) + 1;
+    }
+
+    return {
+      type: 'CHOOSE_GOLD',
+      playerId: player.id,
+      payload: { resources }
+    };
+  }
+
+  private makeRobberDecision(gameState: GameState, player: Player, validActions: string[]): ParsedAction {
+    if (validActions.includes('STEAL_RESOURCE')) {
+      const targets = RobberManager.getValidStealTargets(gameState, player.id);
+      return {
+        type: 'STEAL_RESOURCE',
+        playerId: player.id,
+        payload: { targetPlayerId: this.findBestStealTarget(gameState, player.id, targets) }
+      };
+    }
+
+    if (validActions.includes('MOVE_ROBBER')) {
+      return {
+        type: 'MOVE_ROBBER',
+        playerId: player.id,
+        payload: { robberLocation: this.findBestRobberLocation(gameState, player.id) }
+      };
+    }
+
+    return this.makeDefaultDecision(player, validActions);
+  }
+
   private makeActionDecision(gameState: GameState, player: Player, validActions: string[]): ParsedAction {
     const decisions = [
       () => this.considerVictoryPoints(gameState, player, validActions),
@@ -132,18 +219,8 @@ export class HeuristicAI {
   }
 
   private considerVictoryPoints(gameState: GameState, player: Player, validActions: string[]): ParsedAction | null {
-    // If close to winning, prioritize victory point actions
-    if (player.victoryPoints >= 8) {
-      
-      // Play victory point cards immediately
-      if (validActions.includes('PLAY_DEVELOPMENT_CARD') && player.developmentCards.victoryPoint > 0) {
-        return {
-          type: 'PLAY_DEVELOPMENT_CARD',
-          playerId: player.id,
-          payload: { cardType: 'victoryPoint' }
-        };
-      }
-
+    // If close to winning (counting our hidden victory point cards), prioritize victory point actions
+    if (player.victoryPoints + player.developmentCards.victoryPoint >= 8) {
       // Build cities for quick VP
       if (validActions.includes('BUILD_CITY') && this.canAffordCity(player)) {
         const cityLocation = this.findBestCityLocation(gameState, player);
@@ -197,8 +274,9 @@ export class HeuristicAI {
       }
     }
 
-    // Build roads for connectivity or longest road
-    if (validActions.includes('BUILD_ROAD') && this.canAffordRoad(player)) {
+    // Build roads for connectivity or longest road, unless the same cards would already buy a settlement
+    if (validActions.includes('BUILD_ROAD') && this.canAffordRoad(player) &&
+        !this.findBestSettlementLocation(gameState, player, false)) {
       const roadLocation = this.findBestRoadLocation(gameState, player);
       if (roadLocation) {
         return {
@@ -221,7 +299,7 @@ export class HeuristicAI {
     const excessResources = this.findExcessResources(player);
 
     if (resourceNeeds.length > 0 && excessResources.length > 0) {
-      const tradeRatio = this.getBestTradeRatio(player); // Simplified to 4:1 for heuristic
+      const tradeRatio = this.getBestTradeRatio(gameState, player, excessResources[0] as ResourceType);
       
       if (player.resources[excessResources[0] as keyof Resources] >= tradeRatio) {
         return {
@@ -258,11 +336,7 @@ export class HeuristicAI {
         return {
           type: 'PLAY_DEVELOPMENT_CARD',
           playerId: player.id,
-          payload: {
-            cardType: 'knight',
-            robberLocation: { q: 0, r: 1 },
-            targetPlayerId: this.findBestStealTarget(gameState, player.id)
-          }
+          payload: { cardType: 'knight' }
         };
       }
 
@@ -343,34 +417,90 @@ export class HeuristicAI {
     return excess;
   }
 
-  private getBestTradeRatio(player: Player): number {
-    // Simplified - assume 4:1 ratio. In real implementation, check for ports
-    return 4;
+  private getBestTradeRatio(gameState: GameState, player: Player, resource: ResourceType): number {
+    // The game's bank ratio, improved by any harbors the player has reached
+    return TradingManager.getAvailableTradeRatios(gameState, player.id)[resource];
   }
 
   private findBestSettlementLocation(gameState: GameState, player: Player, isSetup: boolean): string | null {
-    // Simplified heuristic - return a reasonable location
-    // In real implementation, analyze board for resource diversity and numbers
-    return 'i_1,0';
+    // During setup any open spot is legal, so favour diversity more than later in the game
+    const diversityWeight = isSetup ? this.weights.resourceDiversity * 2 : this.weights.resourceDiversity;
+    return this.pickBest(
+      this.getLegalPayloads(gameState, player, 'BUILD_SETTLEMENT').map(payload => payload.intersectionId),
+      intersectionId => this.scoreIntersection(gameState, intersectionId, diversityWeight)
+    );
   }
 
   private findBestCityLocation(gameState: GameState, player: Player): string | null {
-    // Upgrade the first settlement (simplified heuristic)
-    return player.buildings.settlements[0] || null;
+    return this.pickBest(
+      this.getLegalPayloads(gameState, player, 'BUILD_CITY').map(payload => payload.intersectionId),
+      intersectionId => this.scoreIntersection(gameState, intersectionId, 0)
+    );
+  }
+
+  private findBestRoadLocation(gameState: GameState, player: Player, touching?: string): string | null {
+    const edgeIds = this.getLegalPayloads(gameState, player, 'BUILD_ROAD')
+      .map(payload => payload.edgeId as string)
+      .filter(edgeId => !touching || gameState.board.edges.get(edgeId)!.intersections.includes(touching));
+
+    // Head for the best unoccupied spot the road reaches
+    return this.pickBest(edgeIds, edgeId => Math.max(
+      ...gameState.board.edges.get(edgeId)!.intersections
+        .filter(intersectionId => !gameState.board.intersections.get(intersectionId)?.building)
+        .map(intersectionId => this.scoreIntersection(gameState, intersectionId, this.weights.resourceDiversity)),
+      0
+    ));
+  }
+
+  private findAdjacentRoadLocation(gameState: GameState, player: Player, settlementId?: string): string | null {
+    return (settlementId && this.findBestRoadLocation(gameState, player, settlementId)) ||
+      this.findBestRoadLocation(gameState, player);
   }
 
-  private findBestRoadLocation(gameState: GameState, player: Player): string | null {
-    // Simplified - find a location that extends from existing roads
-    return 'e_1,0_2,0';
+  private getLegalPayloads(gameState: GameState, player: Player, type: string): any[] {
+    return CatanRuleEngine.getLegalMoves(gameState, player.id)
+      .filter(move => move.type === type)
+      .map(move => move.payload);
   }
 
-  private findAdjacentRoadLocation(gameState: GameState, settlementId: string): string | null {
-    // Simplified - return a reasonable adjacent road location
-    return 'e_0,0_1,0';
+  // Expected production (pips) around an intersection plus a bonus per distinct resource
+  private scoreIntersection(gameState: GameState, intersectionId: string, diversityWeight: number): number {
+    const analysis = BoardAnalyzer.analyzeIntersection(gameState, intersectionId);
+    if (!analysis) return 0;
+
+    return analysis.pips * this.weights.buildingPotential + analysis.diversity * diversityWeight;
+  }
+
+  private pickBest(candidates: string[], score: (candidate: string) => number): string | null {
+    let best: string | null = null;
+    let bestScore = -Infinity;
+    candidates.forEach(candidate => {
+      const candidateScore = score(candidate);
+      if (candidateScore > bestScore) {
+        best = candidate;
+        bestScore = candidateScore;
+      }
+    });
+    return best;
+  }
+
+  private findBestRobberLocation(gameState: GameState, playerId: string): HexCoordinate {
+    const impacts = BoardAnalyzer.getRobberImpacts(gameState);
+    const targetId = this.findBestStealTarget(gameState, playerId);
+
+    // Cut the most production from opponents, the target above all, without blocking our own hexes
+    const harmless = impacts.filter(impact => !impact.lost[playerId]);
+    const candidates = harmless.length > 0 ? harmless : impacts;
+    const score = (impact: typeof impacts[number]) =>
+      impact.total - (impact.lost[playerId] ?? 0) * 2 + (targetId ? impact.lost[targetId] ?? 0 : 0);
+
+    return candidates.reduce((best, impact) => score(impact) > score(best) ? impact : best).hex;
   }
 
-  private findBestStealTarget(gameState: GameState, playerId: string): string | undefined {
-    const opponents = gameState.players.filter(p => p.id !== playerId);
+  private findBestStealTarget(gameState: GameState, playerId: string, candidateIds?: string[]): string | undefined {
+    const opponents = gameState.players.filter(p =>
+      p.id !== playerId && (!candidateIds || candidateIds.includes(p.id))
+    );
     // Target player with most resources or highest VP
     const target = opponents.reduce((best, current) => {
       const currentScore = current.victoryPoints * 2 + this.getTotalResources(current.resources);
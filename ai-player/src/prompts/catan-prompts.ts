@@ -10,7 +10,7 @@ KEY RULES TO REMEMBER:
 - Cities can only be built on your existing settlements
 - Development cards cost 1 ore + 1 wool + 1 wheat
 - Knight cards move the robber and steal resources
-- You can only play 1 dev card per turn (except VP cards)
+- You can only play 1 dev card per turn, and not one bought this turn; VP cards are never played, they count from your hand
 
 RESPONSE FORMAT: Always end your response with a valid action in this format:
 <action>
@@ -111,7 +111,7 @@ Or to skip trading:
       roadBuilding: 'Build 2 roads for free, great for longest road strategy',
       invention: 'Take any 2 resources from supply, very flexible',
       monopoly: 'Take all of one resource type from all opponents',
-      victoryPoint: 'Immediate 1 VP, can be played anytime (even when bought)'
+      victoryPoint: 'Never played: counts 1 VP from your hand and is revealed when you win'
     };
 
     return `${this.SYSTEM_PROMPT}
@@ -131,12 +131,11 @@ Examples:
 {
   "type": "PLAY_DEVELOPMENT_CARD",
   "payload": {
-    "cardType": "knight",
-    "robberLocation": { "q": 0, "r": 1 },
-    "targetPlayerId": "opponent_id"
+    "cardType": "knight"
   }
 }
 </action>
+(You place the robber and choose who to rob in the next decisions.)
 
 <action>
 {
@@ -149,28 +148,46 @@ Examples:
 </action>`;
   }
 
-  static createRobberPrompt(gameState: string, validLocations: Array<{q: number, r: number}>, stealTargets: string[]): string {
+  static createRobberPrompt(gameState: string, validLocations: Array<{q: number, r: number}>): string {
     return `${this.SYSTEM_PROMPT}
 
 ${gameState}
 
 ## ROBBER PLACEMENT DECISION
-You must move the robber and may steal a resource.
+You must move the robber. If an opponent with cards has a building on the new hex, you rob them next.
 
 Valid robber locations: ${validLocations.map(loc => `(${loc.q},${loc.r})`).join(', ')}
-Players you can steal from: ${stealTargets.join(', ') || 'None'}
 
 Strategy:
 1. Block the most productive hex for opponents
-2. Target the player with the most resources or closest to winning
+2. Pick a hex touching the player with the most resources or closest to winning
 3. Avoid blocking your own important hexes
 
 <action>
 {
   "type": "MOVE_ROBBER",
   "payload": {
-    "robberLocation": { "q": 0, "r": 1 },
-    "targetPlayerId": "player_to_steal_from_or_null"
+    "robberLocation": { "q": 0, "r": 1 }
+  }
+}
+</action>`;
+  }
+
+  static createStealPrompt(gameState: string, stealTargets: string[]): string {
+    return `${this.SYSTEM_PROMPT}
+
+${gameState}
+
+## STEAL DECISION
+Choose who to take a random resource card from.
+
+Players you can steal from: ${stealTargets.join(', ')}
+
+<action>
+{
+  "type": "STEAL_RESOURCE",
+  "payload": {
+    "targetPlayerId": "${stealTargets[0] ?? 'opponent_id'}"
   }
 }
 </action>`;
@@ -209,7 +226,7 @@ Strategy:
     const isFirstRound = phase === 'SETUP_ROUND_1';
     const advice = isFirstRound 
       ? 'Focus on resource diversity and good number probabilities (6,8 are best, 5,9 good, avoid 2,12)'
-      : 'Consider your first settlement and aim for different resources or better numbers';
+      : 'Consider your first settlement and aim for different resources or better numbers. This settlement also collects one card from each adjoining tile right away';
 
     return `${this.SYSTEM_PROMPT}
 
@@ -221,7 +238,7 @@ Available settlement locations: ${availableLocations.join(', ')}
 Setup strategy (${isFirstRound ? 'first' : 'second'} settlement):
 ${advice}
 
-After placing settlement, you must place a road adjacent to it.
+After placing settlement, you must place a road adjacent to it. Your turn then passes automatically.
 
 <action>
 {
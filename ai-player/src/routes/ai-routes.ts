@@ -1,53 +1,17 @@
 import { Router, Request, Response } from 'express';
 import { AIDecisionService } from '../services/ai-decision-service';
+import { GameStateViewAdapter } from '../services/game-state-view';
 import { AIDecisionRequest, AIPlayerConfig } from '../types';
 import { createLogger } from '../utils/logger';
 import Joi from 'joi';
+import { decodeGameStateView, GameStateCodecError } from '@cajun-catan/rule-engine';
 
 const logger = createLogger('AIRoutes');
 
 // Validation schemas
 const decisionRequestSchema = Joi.object({
-  gameState: Joi.object({
-    id: Joi.string().required(),
-    phase: Joi.string().valid('SETUP_ROUND_1', 'SETUP_ROUND_2', 'PRODUCTION', 'ACTION', 'GAME_OVER').required(),
-    currentPlayerIndex: Joi.number().min(0).required(),
-    players: Joi.array().items(Joi.object({
-      id: Joi.string().required(),
-      color: Joi.string().required(),
-      resources: Joi.object({
-        wood: Joi.number().min(0).required(),
-        brick: Joi.number().min(0).required(),
-        wool: Joi.number().min(0).required(),
-        wheat: Joi.number().min(0).required(),
-        ore: Joi.number().min(0).required()
-      }).required(),
-      developmentCards: Joi.object({
-        knight: Joi.number().min(0).required(),
-        roadBuilding: Joi.number().min(0).required(),
-        invention: Joi.number().min(0).required(),
-        monopoly: Joi.number().min(0).required(),
-        victoryPoint: Joi.number().min(0).required()
-      }).required(),
-      buildings: Joi.object({
-        roads: Joi.array().items(Joi.string()).required(),
-        settlements: Joi.array().items(Joi.string()).required(),
-        cities: Joi.array().items(Joi.string()).required()
-      }).required(),
-      specialCards: Joi.object({
-        longestRoad: Joi.boolean().required(),
-        largestArmy: Joi.boolean().required()
-      }).required(),
-      knightsPlayed: Joi.number().min(0).required(),
-      victoryPoints: Joi.number().min(0).required(),
-      canPlayDevCard: Joi.boolean().required()
-    })).min(2).max(4).required(),
-    board: Joi.object().required(),
-    developmentCardDeck: Joi.array().items(Joi.string()).required(),
-    turn: Joi.number().min(1).required(),
-    diceRoll: Joi.array().items(Joi.number().min(1).max(6)).length(2).optional(),
-    winner: Joi.string().optional()
-  }).required(),
+  // The requesting player's view of the game; its structure is checked by the rule engine's codec when decoding
+  gameState: Joi.object().required(),
   playerId: Joi.string().required(),
   validActions: Joi.array().items(Joi.string()).min(1).required(),
   timeoutMs: Joi.number().min(1000).max(30000).optional()
@@ -76,7 +40,21 @@ export function createAIRoutes(aiService: AIDecisionService): Router {
         });
       }
 
-      const request: AIDecisionRequest = value;
+      let gameState;
+      try {
+        gameState = GameStateViewAdapter.toGameState(decodeGameStateView(value.gameState));
+      } catch (decodeError) {
+        if (!(decodeError instanceof GameStateCodecError)) {
+          throw decodeError;
+        }
+        logger.warn('Invalid game state in decision request', { error: decodeError.message });
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: `"gameState" ${decodeError.message}`
+        });
+      }
+
+      const request: AIDecisionRequest = { ...value, gameState };
       
       logger.info('Processing AI decision request', {
         playerId: request.playerId,
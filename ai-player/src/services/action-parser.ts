@@ -76,9 +76,14 @@ export class ActionParser {
       /BUY_DEVELOPMENT_CARD/i,
       /PLAY_DEVELOPMENT_CARD/i,
       /TRADE_WITH_BANK/i,
-      /TRADE_WITH_PLAYER/i,
+      /PROPOSE_TRADE/i,
+      /COUNTER_TRADE/i,
+      /ACCEPT_TRADE/i,
+      /REJECT_TRADE/i,
+      /CANCEL_TRADE/i,
       /MOVE_ROBBER/i,
-      /DISCARD_RESOURCES/i
+      /DISCARD_RESOURCES/i,
+      /STEAL_RESOURCE/i
     ];
 
     for (const pattern of patterns) {
@@ -126,6 +131,11 @@ export class ActionParser {
         }
         break;
 
+      case 'STEAL_RESOURCE':
+        const targetMatch = text.match(/target[^a-z0-9]*([a-z0-9_-]+)/i);
+        if (targetMatch) payload.targetPlayerId = targetMatch[1];
+        break;
+
       case 'TRADE_WITH_BANK':
         // Try to extract basic trade information
         const giveMatch = text.match(/give\s+(\d+)\s+(\w+)/i);
@@ -170,7 +180,7 @@ export class ActionParser {
     const validActionTypes = [
       'ROLL_DICE', 'BUILD_ROAD', 'BUILD_SETTLEMENT', 'BUILD_CITY',
       'BUY_DEVELOPMENT_CARD', 'PLAY_DEVELOPMENT_CARD', 'TRADE_WITH_BANK',
-      'TRADE_WITH_PLAYER', 'MOVE_ROBBER', 'DISCARD_RESOURCES', 'END_TURN'
+      'PROPOSE_TRADE', 'COUNTER_TRADE', 'ACCEPT_TRADE', 'REJECT_TRADE', 'CANCEL_TRADE', 'MOVE_ROBBER', 'DISCARD_RESOURCES', 'STEAL_RESOURCE', 'END_TURN'
     ];
 
     if (!validActionTypes.includes(action.type)) {
@@ -211,13 +221,20 @@ export class ActionParser {
         }
         break;
 
+      case 'STEAL_RESOURCE':
+        if (!action.payload?.targetPlayerId) {
+          this.logger.warn('STEAL_RESOURCE missing targetPlayerId');
+          return null;
+        }
+        break;
+
       case 'PLAY_DEVELOPMENT_CARD':
         if (!action.payload?.cardType) {
           this.logger.warn('PLAY_DEVELOPMENT_CARD missing cardType');
           return null;
         }
         
-        const validCardTypes = ['knight', 'roadBuilding', 'invention', 'monopoly', 'victoryPoint'];
+        const validCardTypes = ['knight', 'roadBuilding', 'invention', 'monopoly'];
         if (!validCardTypes.includes(action.payload.cardType)) {
           this.logger.warn('PLAY_DEVELOPMENT_CARD invalid cardType', { 
             cardType: action.payload.cardType,
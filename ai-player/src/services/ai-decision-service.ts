@@ -3,6 +3,7 @@ import { GameStateSerializer } from './game-state-serializer';
 import { ActionParser } from './action-parser';
 import { HeuristicAI } from '../heuristics/heuristic-ai';
 import { CatanPrompts } from '../prompts/catan-prompts';
+import { RobberManager, DevelopmentCardManager } from '@cajun-catan/rule-engine';
 import { 
   AIDecisionRequest, 
   AIDecisionResponse, 
@@ -213,8 +214,8 @@ export class AIDecisionService {
     // Use specific prompts for different scenarios
     const player = gameState.players.find(p => p.id === playerId)!;
 
-    // Special prompts for specific situations
-    if (gameState.phase === 'SETUP_ROUND_1' || gameState.phase === 'SETUP_ROUND_2') {
+    // Special prompts for specific situations (a setup road goes through the general prompt)
+    if (validActions.includes('BUILD_SETTLEMENT') && (gameState.phase === 'SETUP_ROUND_1' || gameState.phase === 'SETUP_ROUND_2')) {
       return CatanPrompts.createSetupPrompt(gameStateText, gameState.phase, validActions);
     }
 
@@ -224,17 +225,20 @@ export class AIDecisionService {
 
     // Action phase decisions
     if (validActions.includes('MOVE_ROBBER')) {
-      return CatanPrompts.createRobberPrompt(gameStateText, [], []); // Simplified for heuristic
+      return CatanPrompts.createRobberPrompt(gameStateText, RobberManager.getValidRobberLocations(gameState));
+    }
+
+    if (validActions.includes('STEAL_RESOURCE')) {
+      return CatanPrompts.createStealPrompt(gameStateText, RobberManager.getValidStealTargets(gameState, playerId));
     }
 
     if (validActions.includes('DISCARD_RESOURCES')) {
-      const totalResources = this.getTotalResources(player.resources);
-      const mustDiscard = Math.floor(totalResources / 2);
+      const mustDiscard = gameState.pendingDiscards?.[playerId] ?? Math.floor(this.getTotalResources(player.resources) / 2);
       return CatanPrompts.createDiscardPrompt(gameStateText, mustDiscard);
     }
 
     if (validActions.length === 1 && validActions.includes('PLAY_DEVELOPMENT_CARD')) {
-      const availableCards = this.getPlayableDevelopmentCards(player);
+      const availableCards = DevelopmentCardManager.getPlayableDevelopmentCards(player);
       return CatanPrompts.createDevelopmentCardPrompt(gameStateText, availableCards);
     }
 
@@ -246,16 +250,6 @@ export class AIDecisionService {
     return resources.wood + resources.brick + resources.wool + resources.wheat + resources.ore;
   }
 
-  private getPlayableDevelopmentCards(player: any): string[] {
-    const cards = [];
-    if (player.developmentCards.knight > 0) cards.push('knight');
-    if (player.developmentCards.roadBuilding > 0) cards.push('roadBuilding');
-    if (player.developmentCards.invention > 0) cards.push('invention');
-    if (player.developmentCards.monopoly > 0) cards.push('monopoly');
-    if (player.developmentCards.victoryPoint > 0) cards.push('victoryPoint');
-    return cards;
-  }
-
   /**
    * Check if the AI service is healthy
    */
@@ -307,7 +301,9 @@ export class AIDecisionService {
         ],
         board: {} as any,
         developmentCardDeck: [],
-        turn: 1
+        turn: 1,
+        seed: 1,
+        rng: { algorithm: 'mulberry32', state: 1 }
       };
 
       const request: AIDecisionRequest = {
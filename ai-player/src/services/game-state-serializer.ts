@@ -1,4 +1,7 @@
-import { GameState, Player, Resources, GameAnalysis } from '../types';
+import { GameState, GameEvent, GameRules, Player, Resources, GameAnalysis } from '../types';
+import { EventLog, getRules } from '@cajun-catan/rule-engine';
+
+const RECENT_EVENT_COUNT = 10;
 
 export class GameStateSerializer {
   
@@ -15,9 +18,10 @@ export class GameStateSerializer {
       this.createGameOverview(gameState),
       this.createPlayerStatus(player, gameState.players),
       this.createBoardSituation(gameState),
-      this.createResourceSituation(player),
-      this.createBuildingSituation(player),
+      this.createResourceSituation(player, getRules(gameState)),
+      this.createBuildingSituation(player, getRules(gameState)),
       this.createOpponentAnalysis(gameState.players, playerId),
+      this.createRecentEvents(gameState, playerId),
       this.createCurrentSituation(gameState, playerId)
     ];
 
@@ -41,7 +45,7 @@ ${gameState.diceRoll ? `Last Dice Roll: ${gameState.diceRoll[0]} + ${gameState.d
     const position = this.getPlayerPosition(player, allPlayers);
     
     return `## YOUR STATUS (${player.id})
-Victory Points: ${player.victoryPoints}/10 ${vpBreakdown}
+Victory Points: ${player.victoryPoints + player.developmentCards.victoryPoint}/10 ${vpBreakdown}
 Position: ${position}
 Resources: ${this.getTotalResources(player.resources)} total
 - Wood: ${player.resources.wood}
@@ -59,33 +63,37 @@ ${player.specialCards.largestArmy ? '🗡️ LARGEST ARMY' : ''}`;
   private static createBoardSituation(gameState: GameState): string {
     const robberInfo = `Robber at: (${gameState.board.robberLocation.q}, ${gameState.board.robberLocation.r})`;
     const devCardsLeft = gameState.developmentCardDeck.length;
+    const bankInfo = gameState.bank
+      ? `\nBank: ${Object.entries(gameState.bank).map(([resource, count]) => `${resource} ${count}`).join(', ')}`
+      : '';
     
     return `## BOARD SITUATION
 ${robberInfo}
-Development Cards Remaining: ${devCardsLeft}
+Development Cards Remaining: ${devCardsLeft}${bankInfo}
 Phase: ${gameState.phase}`;
   }
 
-  private static createResourceSituation(player: Player): string {
+  private static createResourceSituation(player: Player, rules: GameRules): string {
     const totalResources = this.getTotalResources(player.resources);
     const resourceNeeds = this.analyzeResourceNeeds(player);
     
     return `## RESOURCE ANALYSIS
 Total Resources: ${totalResources}
-${totalResources > 7 ? '⚠️ MUST DISCARD ON 7!' : ''}
+${totalResources > rules.discardLimit ? '⚠️ MUST DISCARD ON 7!' : ''}
 Resource Needs: ${resourceNeeds.join(', ') || 'None identified'}
-Can Trade: ${totalResources >= 4 ? 'Yes (4:1)' : 'No - need more resources'}`;
+Can Trade: ${totalResources >= rules.bankTradeRatio ? `Yes (${rules.bankTradeRatio}:1)` : 'No - need more resources'}`;
   }
 
-  private static createBuildingSituation(player: Player): string {
-    const roadsLeft = 15 - player.buildings.roads.length;
-    const settlementsLeft = 5 - player.buildings.settlements.length;
-    const citiesLeft = 4 - player.buildings.cities.length;
+  private static createBuildingSituation(player: Player, rules: GameRules): string {
+    const limits = rules.buildingLimits;
+    const roadsLeft = limits.roads - player.buildings.roads.length;
+    const settlementsLeft = limits.settlements - player.buildings.settlements.length;
+    const citiesLeft = limits.cities - player.buildings.cities.length;
     
     return `## BUILDING SITUATION
-Roads: ${player.buildings.roads.length}/15 (${roadsLeft} remaining)
-Settlements: ${player.buildings.settlements.length}/5 (${settlementsLeft} remaining)
-Cities: ${player.buildings.cities.length}/4 (${citiesLeft} remaining)
+Roads: ${player.buildings.roads.length}/${limits.roads} (${roadsLeft} remaining)
+Settlements: ${player.buildings.settlements.length}/${limits.settlements} (${settlementsLeft} remaining)
+Cities: ${player.buildings.cities.length}/${limits.cities} (${citiesLeft} remaining)
 
 Current Buildings:
 ${player.buildings.roads.length > 0 ? `Roads at: ${player.buildings.roads.slice(0, 3).join(', ')}${player.buildings.roads.length > 3 ? '...' : ''}` : 'No roads'}
@@ -105,12 +113,112 @@ ${player.buildings.cities.length > 0 ? `Cities at: ${player.buildings.cities.joi
 ${analysis.join('\n')}`;
   }
 
+  private static createRecentEvents(gameState: GameState, playerId: string): string {
+    const events = EventLog.forPlayer(gameState.events ?? [], playerId).slice(-RECENT_EVENT_COUNT);
+    if (events.length === 0) {
+      return '';
+    }
+
+    return `## RECENT EVENTS
+${events.map(event => `Turn ${event.turn}: ${this.describeEvent(event)}`).join('\n')}`;
+  }
+
+  private static describeEvent(event: GameEvent): string {
+    const resources = (amounts: Partial<Record<string, number>>) =>
+      Object.entries(amounts).map(([resource, amount]) => `${amount} ${resource}`).join(', ');
+
+    switch (event.type) {
+      case 'DICE_ROLLED':
+        return `${event.playerId} rolled ${event.dice[0] + event.dice[1]}`;
+      case 'RESOURCES_PRODUCED':
+        return Object.entries(event.production)
+          .map(([producer, amounts]) => `${producer} received ${resources(amounts)}`)
+          .join('; ');
+      case 'ROAD_BUILT':
+        return `${event.playerId} built a ${event.free ? 'free ' : ''}road at ${event.edgeId}`;
+      case 'SETTLEMENT_BUILT':
+        return `${event.playerId} built a settlement at ${event.intersectionId}`;
+      case 'CITY_BUILT':
+        return `${event.playerId} built a city at ${event.intersectionId}`;
+      case 'DEVELOPMENT_CARD_BOUGHT':
+        return `${event.playerId} bought a development card${event.secret ? ` (${event.secret.cardType})` : ''}`;
+      case 'DEVELOPMENT_CARD_PLAYED':
+        return `${event.playerId} played ${event.cardType}${event.resources ? ` for ${resources(event.resources)}` : ''}`;
+      case 'TRADED':
+        return `${event.playerId} traded ${resources(event.offering)} for ${resources(event.requesting)} ` +
+          `with ${event.toPlayerId ?? 'the bank'}`;
+      case 'TRADE_PROPOSED':
+        return `${event.playerId} offered ${resources(event.offer.offering)} for ${resources(event.offer.requesting)} ` +
+          `to ${event.offer.toPlayerId ?? 'everyone'} (${event.offer.id})`;
+      case 'TRADE_REJECTED':
+        return `${event.playerId} rejected trade ${event.offerId}`;
+      case 'TRADE_CANCELLED':
+        return `${event.playerId} withdrew trade ${event.offerId}`;
+      case 'ROBBER_MOVED':
+        return `${event.playerId} moved the robber to (${event.location.q}, ${event.location.r})`;
+      case 'RESOURCE_STOLEN':
+        return `${event.playerId} stole ${event.secret ? event.secret.resource : 'a card'} from ${event.targetPlayerId}`;
+      case 'RESOURCES_DISCARDED':
+        return `${event.playerId} discarded ${resources(event.resources)}`;
+      case 'AWARD_CHANGED':
+        return `${event.award === 'longestRoad' ? 'Longest road' : 'Largest army'} went to ${event.toPlayerId ?? 'nobody'}`;
+      case 'TURN_ENDED':
+        return `${event.playerId} ended their turn`;
+      case 'GAME_WON':
+        return `${event.playerId} won the game`;
+      case 'EVENT_DIE_ROLLED':
+        return `The event die showed ${event.face}`;
+      case 'COMMODITIES_PRODUCED':
+        return Object.entries(event.production)
+          .map(([producer, amounts]) => `${producer} received ${resources(amounts)}`)
+          .join('; ');
+      case 'BARBARIANS_ATTACKED':
+        return `Barbarians (strength ${event.attack.strength}) attacked against defense ${event.attack.defense}` +
+          (event.attack.defenderId ? `; ${event.attack.defenderId} is Defender of Catan` : '') +
+          (event.attack.pillaged.length > 0 ? `; cities pillaged at ${event.attack.pillaged.join(', ')}` : '');
+      case 'PROGRESS_CARD_DRAWN': {
+        const cardType = event.cardType ?? event.secret?.cardType;
+        return `${event.playerId} drew a ${event.track} progress card${cardType ? ` (${cardType})` : ''}`;
+      }
+      case 'PROGRESS_CARD_PLAYED':
+        return `${event.playerId} played ${event.cardType}`;
+      case 'KNIGHT_BUILT':
+        return `${event.playerId} built a knight at ${event.intersectionId}`;
+      case 'KNIGHT_ACTIVATED':
+        return `${event.playerId} activated the knight at ${event.intersectionId}`;
+      case 'KNIGHT_PROMOTED':
+        return `${event.playerId} promoted the knight at ${event.intersectionId}`;
+      case 'CITY_IMPROVED':
+        return `${event.playerId} raised ${event.track} to level ${event.level}` +
+          (event.metropolis ? ` and took its metropolis at ${event.metropolis}` : '');
+      case 'SHIP_BUILT':
+        return `${event.playerId} built a ship at ${event.edgeId}`;
+      case 'SHIP_MOVED':
+        return `${event.playerId} moved a ship from ${event.fromEdgeId} to ${event.edgeId}`;
+      case 'PIRATE_MOVED':
+        return `${event.playerId} moved the pirate to (${event.location.q}, ${event.location.r})`;
+      case 'GOLD_CHOSEN':
+        return `${event.playerId} took ${resources(event.resources)} from a gold field`;
+      case 'ISLAND_SETTLED':
+        return `${event.playerId} settled island ${event.island} for ${event.bonus} bonus points`;
+    }
+  }
+
   private static createCurrentSituation(gameState: GameState, playerId: string): string {
     const isMyTurn = gameState.players[gameState.currentPlayerIndex].id === playerId;
     const player = gameState.players.find(p => p.id === playerId)!;
     
     let situation = `## CURRENT SITUATION\n`;
     situation += isMyTurn ? '🔥 YOUR TURN' : `Waiting for ${gameState.players[gameState.currentPlayerIndex].id}`;
+
+    const mustDiscard = gameState.phase === 'DISCARD' ? gameState.pendingDiscards?.[playerId] : undefined;
+    if (mustDiscard) {
+      situation += `\n- A 7 was rolled: you must discard ${mustDiscard} cards`;
+    }
+    const goldOwed = gameState.phase === 'GOLD' ? gameState.seafarers?.pendingGold?.[playerId] : undefined;
+    if (goldOwed) {
+      situation += `\n- Your gold field produced: pick ${goldOwed} resources`;
+    }
     
     if (isMyTurn) {
       situation += `\nPhase: ${gameState.phase}`;
@@ -119,14 +227,25 @@ ${analysis.join('\n')}`;
         situation += '\n- Must roll dice';
       } else if (gameState.phase === 'ACTION') {
         situation += '\n- Can build, trade, play cards, or end turn';
+      } else if (gameState.phase === 'SPECIAL_BUILDING') {
+        situation += '\n- Special building phase: can build, trade with the bank, play cards, or end turn';
+      } else if (gameState.phase === 'MOVE_ROBBER') {
+        situation += '\n- Must move the robber';
+      } else if (gameState.phase === 'STEAL') {
+        situation += '\n- Must choose a player to steal from';
+      } else if (gameState.phase === 'ROAD_BUILDING') {
+        situation += `\n- Place ${gameState.freeRoadsRemaining} more free road(s)`;
       } else if (gameState.phase.includes('SETUP')) {
-        situation += '\n- Must place settlement and road';
+        situation += player.buildings.settlements.length + player.buildings.cities.length > player.buildings.roads.length
+          ? '\n- Must place a road touching the settlement just placed'
+          : '\n- Must place a settlement, then a road touching it';
       }
       
       // Add urgent warnings
       const resourceCount = this.getTotalResources(player.resources);
-      if (resourceCount > 7) {
-        situation += '\n⚠️ URGENT: You have >7 resources - will lose half on next 7 roll!';
+      const { discardLimit } = getRules(gameState);
+      if (resourceCount > discardLimit) {
+        situation += `\n⚠️ URGENT: You have >${discardLimit} resources - will lose half on next 7 roll!`;
       }
     }
     
@@ -151,6 +270,8 @@ ${analysis.join('\n')}`;
     if (player.developmentCards.invention > 0) cards.push(`Invention: ${player.developmentCards.invention}`);
     if (player.developmentCards.monopoly > 0) cards.push(`Monopoly: ${player.developmentCards.monopoly}`);
     if (player.developmentCards.victoryPoint > 0) cards.push(`Victory Points: ${player.developmentCards.victoryPoint}`);
+    const bought = Object.values(player.newDevelopmentCards ?? {}).reduce((sum, count) => sum + (count ?? 0), 0);
+    if (bought > 0) cards.push(`(${bought} bought this turn, playable from next turn)`);
     
     return cards.length > 0 ? `- ${cards.join('\n- ')}` : '- None';
   }
@@ -167,6 +288,7 @@ ${analysis.join('\n')}`;
     const devCardVP = player.victoryPoints - buildingVP - specialVP;
     
     if (devCardVP > 0) parts.push(`${devCardVP} from dev cards`);
+    if (player.developmentCards.victoryPoint > 0) parts.push(`${player.developmentCards.victoryPoint} hidden VP cards`);
     
     return parts.length > 0 ? `(${parts.join(', ')})` : '';
   }
@@ -229,6 +351,6 @@ ${analysis.join('\n')}`;
     const resourceCount = this.getTotalResources(player.resources);
     const isMyTurn = gameState.players[gameState.currentPlayerIndex].id === playerId;
     
-    return `Quick Status: ${player.victoryPoints}/10 VP, ${resourceCount} resources, ${gameState.phase}${isMyTurn ? ' (YOUR TURN)' : ''}`;
+    return `Quick Status: ${player.victoryPoints}/${getRules(gameState).victoryPointsToWin} VP, ${resourceCount} resources, ${gameState.phase}${isMyTurn ? ' (YOUR TURN)' : ''}`;
   }
 }
\ No newline at end of file
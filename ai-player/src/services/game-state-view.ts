@@ -0,0 +1,64 @@
+import {
+  GameState,
+  GameStateView,
+  PlayerView,
+  Player,
+  CitiesAndKnightsView,
+  CitiesAndKnightsState,
+  ProgressCardType,
+  IMPROVEMENT_TRACKS
+} from '../types';
+
+/**
+ * The AI is sent the game as its own player sees it, but the rule engine
+ * helpers it leans on (legal moves, steal targets, trade ratios) take a full
+ * GameState. Hidden parts are filled with stand-ins that only get the sizes
+ * right: an opponent's hand is that many wool, their development cards,
+ * commodities and progress cards are empty, and the decks hold that many
+ * placeholder cards. The AI never draws or rolls, so the random state is left
+ * at zero.
+ */
+export class GameStateViewAdapter {
+
+  static toGameState(view: GameStateView): GameState {
+    const { viewerId, players, developmentCardsRemaining, citiesAndKnights, ...publicState } = view;
+
+    return {
+      ...publicState,
+      players: players.map(player => this.toPlayer(player)),
+      developmentCardDeck: Array(developmentCardsRemaining).fill('knight'),
+      seed: 0,
+      rng: { algorithm: 'mulberry32', state: 0 },
+      ...(citiesAndKnights ? { citiesAndKnights: this.toCitiesAndKnights(citiesAndKnights) } : {})
+    };
+  }
+
+  private static toPlayer(player: PlayerView): Player {
+    const { resourceCount, developmentCardCount, resources, developmentCards, ...publicPlayer } = player;
+
+    return {
+      ...publicPlayer,
+      resources: resources ?? { wood: 0, brick: 0, wool: resourceCount, wheat: 0, ore: 0 },
+      developmentCards: developmentCards ?? { knight: 0, roadBuilding: 0, invention: 0, monopoly: 0, victoryPoint: 0 }
+    };
+  }
+
+  private static toCitiesAndKnights(view: CitiesAndKnightsView): CitiesAndKnightsState {
+    const { players, progressCardsRemaining, ...publicState } = view;
+
+    return {
+      ...publicState,
+      players: Object.fromEntries(Object.entries(players).map(([playerId, player]) => {
+        const { commodityCount, progressCardCount, commodities, progressCards, ...publicPlayer } = player;
+        return [playerId, {
+          ...publicPlayer,
+          commodities: commodities ?? { paper: 0, cloth: 0, coin: 0 },
+          progressCards: progressCards ?? []
+        }];
+      })),
+      progressDecks: Object.fromEntries(IMPROVEMENT_TRACKS.map(track =>
+        [track, Array<ProgressCardType>(progressCardsRemaining[track]).fill('irrigation')]
+      )) as CitiesAndKnightsState['progressDecks']
+    };
+  }
+}
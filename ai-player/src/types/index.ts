@@ -1,61 +1,7 @@
-// Import types from rule engine
-export interface GameState {
-  id: string;
-  phase: 'SETUP_ROUND_1' | 'SETUP_ROUND_2' | 'PRODUCTION' | 'ACTION' | 'GAME_OVER';
-  currentPlayerIndex: number;
-  players: Player[];
-  board: GameBoard;
-  developmentCardDeck: string[];
-  diceRoll?: [number, number];
-  turn: number;
-  winner?: string;
-}
-
-export interface Player {
-  id: string;
-  color: string;
-  resources: Resources;
-  developmentCards: DevelopmentCards;
-  buildings: Buildings;
-  specialCards: SpecialCards;
-  knightsPlayed: number;
-  victoryPoints: number;
-  canPlayDevCard: boolean;
-}
+import { GameState } from '@cajun-catan/shared-types';
 
-export interface Resources {
-  wood: number;
-  brick: number;
-  wool: number;
-  wheat: number;
-  ore: number;
-}
-
-export interface DevelopmentCards {
-  knight: number;
-  roadBuilding: number;
-  invention: number;
-  monopoly: number;
-  victoryPoint: number;
-}
-
-export interface Buildings {
-  roads: string[];
-  settlements: string[];
-  cities: string[];
-}
-
-export interface SpecialCards {
-  longestRoad: boolean;
-  largestArmy: boolean;
-}
-
-export interface GameBoard {
-  tiles: Map<string, any>;
-  intersections: Map<string, any>;
-  edges: Map<string, any>;
-  robberLocation: { q: number; r: number };
-}
+// Game state contract shared with the rule engine and game engine
+export * from '@cajun-catan/shared-types';
 
 export interface AIDecisionRequest {
   gameState: GameState;
@@ -0,0 +1,40 @@
+import { GameStateViewAdapter } from '../src/services/game-state-view';
+import { CatanRuleEngine, RobberManager, projectForPlayer, encodeGameStateView, decodeGameStateView } from '@cajun-catan/rule-engine';
+
+describe('GameStateViewAdapter', () => {
+  const gameState = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 3, citiesAndKnights: true });
+  gameState.players[0].resources = { wood: 1, brick: 0, wool: 0, wheat: 2, ore: 0 };
+  gameState.players[1].resources = { wood: 0, brick: 3, wool: 0, wheat: 0, ore: 1 };
+  gameState.citiesAndKnights!.players.player2.progressCards = ['warlord'];
+
+  const fromView = (viewerId: string) => {
+    const encoded = JSON.parse(JSON.stringify(encodeGameStateView(projectForPlayer(gameState, viewerId))));
+    return GameStateViewAdapter.toGameState(decodeGameStateView(encoded));
+  };
+
+  it('should keep the viewer\'s own hand', () => {
+    const state = fromView('player1');
+
+    expect(state.players[0].resources).toEqual(gameState.players[0].resources);
+    expect(state.players[0].developmentCards).toEqual(gameState.players[0].developmentCards);
+  });
+
+  it('should keep only the sizes of what the viewer cannot see', () => {
+    const state = fromView('player1');
+
+    expect(state.players[1].resources).toEqual({ wood: 0, brick: 0, wool: 4, wheat: 0, ore: 0 });
+    expect(state.developmentCardDeck).toHaveLength(gameState.developmentCardDeck.length);
+    expect(state.citiesAndKnights!.players.player2.progressCards).toEqual([]);
+    expect(state.citiesAndKnights!.progressDecks.trade).toHaveLength(gameState.citiesAndKnights!.progressDecks.trade.length);
+  });
+
+  it('should let the rule engine find opponents worth robbing', () => {
+    const state = fromView('player1');
+    const { robberLocation } = state.board;
+    const [besideRobber] = [...state.board.intersections.values()]
+      .filter(intersection => intersection.hexes.some(hex => hex.q === robberLocation.q && hex.r === robberLocation.r));
+    besideRobber.building = { type: 'settlement', playerId: 'player2' };
+
+    expect(RobberManager.getValidStealTargets(state, 'player1')).toEqual(['player2']);
+  });
+});
@@ -1,5 +1,6 @@
 import { HeuristicAI } from '../src/heuristics/heuristic-ai';
 import { GameState, Player } from '../src/types';
+import { CatanRuleEngine } from '@cajun-catan/rule-engine';
 
 describe('HeuristicAI', () => {
   let heuristicAI: HeuristicAI;
@@ -14,7 +15,7 @@ describe('HeuristicAI', () => {
       color: 'red',
       resources: { wood: 2, brick: 1, wool: 1, wheat: 1, ore: 0 },
       developmentCards: { knight: 0, roadBuilding: 0, invention: 0, monopoly: 0, victoryPoint: 0 },
-      buildings: { roads: [], settlements: [], cities: [] },
+      buildings: { roads: ['e_0,-1_0,0', 'e_0,-1_0,-2'], settlements: ['i_0,0'], cities: [] },
       specialCards: { longestRoad: false, largestArmy: false },
       knightsPlayed: 0,
       victoryPoints: 0,
@@ -26,10 +27,18 @@ describe('HeuristicAI', () => {
       phase: 'ACTION',
       currentPlayerIndex: 0,
       players: [mockPlayer],
-      board: {} as any,
+      board: CatanRuleEngine.createNewGame(['player1', 'player2']).board,
       developmentCardDeck: [],
-      turn: 1
+      turn: 1,
+      seed: 1,
+      rng: { algorithm: 'mulberry32', state: 1 }
     };
+
+    // A settlement with a two-road branch leading to an open spot at i_0,-2
+    mockGameState.board.intersections.get('i_0,0')!.building = { type: 'settlement', playerId: 'player1' };
+    mockPlayer.buildings.roads.forEach(edgeId => {
+      mockGameState.board.edges.get(edgeId)!.road = { playerId: 'player1' };
+    });
   });
 
   describe('makeDecision', () => {
@@ -53,14 +62,15 @@ describe('HeuristicAI', () => {
     });
 
     it('should prioritize victory points when close to winning', () => {
-      mockPlayer.victoryPoints = 9;
+      mockPlayer.victoryPoints = 7;
       mockPlayer.developmentCards.victoryPoint = 1;
-      const validActions = ['PLAY_DEVELOPMENT_CARD', 'BUILD_ROAD', 'END_TURN'];
+      mockPlayer.resources = { wood: 0, brick: 0, wool: 0, wheat: 2, ore: 3 };
+      const validActions = ['BUILD_CITY', 'BUILD_ROAD', 'END_TURN'];
 
       const decision = heuristicAI.makeDecision(mockGameState, 'player1', validActions);
 
-      expect(decision.type).toBe('PLAY_DEVELOPMENT_CARD');
-      expect(decision.payload?.cardType).toBe('victoryPoint');
+      expect(decision.type).toBe('BUILD_CITY');
+      expect(decision.payload?.intersectionId).toBe('i_0,0');
     });
 
     it('should consider building when resources are available', () => {
@@ -127,8 +137,35 @@ describe('HeuristicAI', () => {
       const decision = heuristicAI.makeDecision(mockGameState, 'player1', validActions);
 
       expect(decision.type).toBe('PLAY_DEVELOPMENT_CARD');
-      expect(decision.payload?.cardType).toBe('knight');
-      expect(decision.payload?.targetPlayerId).toBe('player2');
+      expect(decision.payload).toEqual({ cardType: 'knight' });
+    });
+
+    it('should discard the owed cards from its largest piles', () => {
+      mockGameState.phase = 'DISCARD';
+      mockGameState.pendingDiscards = { player1: 4 };
+      mockPlayer.resources = { wood: 5, brick: 1, wool: 1, wheat: 1, ore: 0 };
+
+      const decision = heuristicAI.makeDecision(mockGameState, 'player1', ['DISCARD_RESOURCES']);
+
+      expect(decision.type).toBe('DISCARD_RESOURCES');
+      expect(decision.payload?.resourcesToDiscard).toEqual({ wood: 4 });
+    });
+
+    it('should move the robber next to the leading opponent and rob them', () => {
+      const gameState = CatanRuleEngine.createNewGame(['player1', 'player2', 'player3']);
+      gameState.phase = 'MOVE_ROBBER';
+      gameState.players[1].victoryPoints = 8;
+      gameState.players[1].resources.ore = 2;
+      gameState.board.intersections.get('i_0,0')!.building = { type: 'settlement', playerId: 'player2' };
+
+      const move = heuristicAI.makeDecision(gameState, 'player1', ['MOVE_ROBBER']);
+      expect(move.type).toBe('MOVE_ROBBER');
+      expect(gameState.board.intersections.get('i_0,0')!.hexes).toContainEqual(move.payload?.robberLocation);
+
+      gameState.phase = 'STEAL';
+      gameState.board.robberLocation = move.payload!.robberLocation;
+      const steal = heuristicAI.makeDecision(gameState, 'player1', ['STEAL_RESOURCE']);
+      expect(steal).toEqual({ type: 'STEAL_RESOURCE', playerId: 'player1', payload: { targetPlayerId: 'player2' } });
     });
 
     it('should handle unknown player gracefully', () => {
@@ -4,10 +4,25 @@ import helmet from 'helmet';
 import { WebSocketManager } from './services/websocket-manager';
 import { GameSessionManager } from './services/game-session-manager';
 import { AICoordinator } from './services/ai-coordinator';
-import { GameEngineConfig, WebSocketMessage, GameActionRequest, CreateGameRequest, JoinGameRequest } from './types';
+import {
+  GameEngineConfig,
+  WebSocketMessage,
+  GameActionRequest,
+  UndoActionRequest,
+  SpectateGameRequest,
+  CreateGameRequest,
+  JoinGameRequest,
+  Action,
+  ActionType,
+  GameState
+} from './types';
 import { RuleEngineClient } from './services/rule-engine-client';
+import { encodeGameStateView, projectForPlayer } from '@cajun-catan/rule-engine';
 import { WebSocket } from 'ws';
 
+// Actions players take on someone else's turn, in answer to a trade offer
+const TRADE_ANSWERS: ActionType[] = ['COUNTER_TRADE', 'ACCEPT_TRADE', 'REJECT_TRADE', 'CANCEL_TRADE'];
+
 export class GameEngine {
   private app: express.Application;
   private wsManager: WebSocketManager;
@@ -57,11 +72,16 @@ export class GameEngine {
     // Create game endpoint (REST fallback)
     this.app.post('/games', async (req, res) => {
       try {
-        const { playerIds, aiPlayers } = req.body as CreateGameRequest;
-        const session = await this.sessionManager.createGame(playerIds, aiPlayers || []);
+        const { playerIds, aiPlayers, rules, citiesAndKnights, seafarers, scenario } = req.body as CreateGameRequest;
+        const session = await this.sessionManager.createGame(playerIds, aiPlayers || [], {
+          rules,
+          citiesAndKnights,
+          seafarers,
+          scenario
+        });
         res.json({
           gameId: session.id,
-          gameState: session.gameState,
+          gameState: encodeGameStateView(projectForPlayer(session.gameState, playerIds[0])),
           players: Array.from(session.players.keys())
         });
       } catch (error) {
@@ -105,6 +125,14 @@ export class GameEngine {
           await this.handleGameAction(ws, message);
           break;
 
+        case 'UNDO_ACTION':
+          await this.handleUndoAction(ws, message);
+          break;
+
+        case 'SPECTATE_GAME':
+          this.handleSpectateGame(ws, message);
+          break;
+
         default:
           this.wsManager.sendError(ws, `Unknown message type: ${message.type}`);
       }
@@ -116,7 +144,12 @@ export class GameEngine {
 
   private async handleCreateGame(ws: WebSocket, message: WebSocketMessage): Promise<void> {
     const request = message.payload as CreateGameRequest;
-    const session = await this.sessionManager.createGame(request.playerIds, request.aiPlayers || []);
+    const session = await this.sessionManager.createGame(request.playerIds, request.aiPlayers || [], {
+      rules: request.rules,
+      citiesAndKnights: request.citiesAndKnights,
+      seafarers: request.seafarers,
+      scenario: request.scenario
+    });
 
     // Register creator's connection
     if (request.playerIds.length > 0) {
@@ -128,7 +161,7 @@ export class GameEngine {
       gameId: session.id,
       payload: {
         gameId: session.id,
-        gameState: session.gameState,
+        gameState: encodeGameStateView(projectForPlayer(session.gameState, request.playerIds[0])),
         players: Array.from(session.players.keys())
       }
     });
@@ -147,7 +180,7 @@ export class GameEngine {
       type: 'GAME_JOINED',
       gameId: session.id,
       payload: {
-        gameState: session.gameState,
+        gameState: encodeGameStateView(projectForPlayer(session.gameState, request.playerId)),
         playerId: request.playerId
       }
     });
@@ -165,6 +198,19 @@ export class GameEngine {
     await this.checkAndStartGame(session.id);
   }
 
+  private handleSpectateGame(ws: WebSocket, message: WebSocketMessage): void {
+    const request = message.payload as SpectateGameRequest;
+    const session = this.sessionManager.getGame(request.gameId);
+
+    if (!session) {
+      this.wsManager.sendError(ws, 'Game not found', request.gameId);
+      return;
+    }
+
+    this.wsManager.registerSpectator(session.id, ws);
+    this.wsManager.send(ws, this.wsManager.gameStateUpdate(session.id, session.gameState));
+  }
+
   private async handleLeaveGame(ws: WebSocket, message: WebSocketMessage): Promise<void> {
     if (!message.playerId) {
       this.wsManager.sendError(ws, 'Player ID required');
@@ -190,45 +236,70 @@ export class GameEngine {
 
   private async handleGameAction(ws: WebSocket, message: WebSocketMessage): Promise<void> {
     const request = message.payload as GameActionRequest;
-    const session = this.sessionManager.getGame(request.gameId);
+    await this.applyPlayerAction(ws, request.gameId, request.playerId, request.action);
+  }
+
+  private async handleUndoAction(ws: WebSocket, message: WebSocketMessage): Promise<void> {
+    const request = message.payload as UndoActionRequest;
+    await this.applyPlayerAction(ws, request.gameId, request.playerId, { type: 'UNDO', playerId: request.playerId });
+  }
+
+  private async applyPlayerAction(ws: WebSocket, gameId: string, playerId: string, action: Action): Promise<void> {
+    const session = this.sessionManager.getGame(gameId);
 
     if (!session) {
-      this.wsManager.sendError(ws, 'Game not found', request.gameId);
+      this.wsManager.sendError(ws, 'Game not found', gameId);
       return;
     }
 
-    // Validate it's the player's turn
+    // Validate it's the player's turn (anyone who owes cards may discard after a 7 or pick gold, and opponents answer trade offers)
     const currentPlayer = session.gameState.players[session.gameState.currentPlayerIndex];
-    if (currentPlayer.id !== request.playerId) {
-      this.wsManager.sendError(ws, 'Not your turn', request.gameId);
+    const owesDiscard = session.gameState.phase === 'DISCARD' && !!session.gameState.pendingDiscards?.[playerId];
+    const owesGold = session.gameState.phase === 'GOLD' && !!session.gameState.seafarers?.pendingGold?.[playerId];
+    if (currentPlayer.id !== playerId && !owesDiscard && !owesGold && !TRADE_ANSWERS.includes(action.type)) {
+      this.wsManager.sendError(ws, 'Not your turn', gameId, {
+        code: 'NOT_YOUR_TURN',
+        message: 'Not your turn',
+        details: { currentPlayerId: currentPlayer.id }
+      });
       return;
     }
 
     // Apply action through rule engine
-    const result = await this.ruleEngineClient.processAction(session.gameState, request.action);
+    const result = await this.ruleEngineClient.processAction(session.gameState, action);
 
     if (result.success && result.gameState) {
       // Update session with new game state
-      this.sessionManager.updateGameState(request.gameId, result.gameState);
+      const previousState = session.gameState;
+      this.sessionManager.updateGameState(gameId, result.gameState);
 
       // Broadcast updated game state to all players
       const allPlayerIds = Array.from(session.players.keys());
-      this.wsManager.broadcastToGame(request.gameId, allPlayerIds, {
-        type: 'GAME_STATE_UPDATE',
-        payload: {
-          gameId: request.gameId,
-          gameState: result.gameState
-        }
-      });
+      this.wsManager.broadcastToGame(gameId, allPlayerIds, result.gameState);
+      this.announceTradeOffers(gameId, previousState, result.gameState);
 
       // Check if it's now an AI player's turn
-      await this.processAITurnIfNeeded(request.gameId);
+      await this.processAITurnIfNeeded(gameId);
     } else {
       // Send error back to the player
-      this.wsManager.sendErrorToPlayer(request.playerId, result.error || 'Invalid action', request.gameId);
+      this.wsManager.sendErrorToPlayer(playerId, result.error || 'Invalid action', gameId, result.violation);
     }
   }
 
+  // Let the players a new offer was made to know it is waiting for their answer
+  private announceTradeOffers(gameId: string, before: GameState, after: GameState): void {
+    const previousIds = new Set((before.tradeOffers ?? []).map(offer => offer.id));
+
+    (after.tradeOffers ?? [])
+      .filter(offer => !previousIds.has(offer.id))
+      .forEach(offer => {
+        const recipients = offer.toPlayerId
+          ? [offer.toPlayerId]
+          : after.players.map(player => player.id).filter(id => id !== offer.fromPlayerId);
+        this.wsManager.sendToPlayers(recipients, { type: 'TRADE_OFFERED', gameId, payload: { gameId, offer } });
+      });
+  }
+
   private async checkAndStartGame(gameId: string): Promise<void> {
     const session = this.sessionManager.getGame(gameId);
     if (!session) return;
@@ -240,13 +311,7 @@ export class GameEngine {
     if (allHumansConnected && session.gameState.phase === 'SETUP_ROUND_1') {
       // Game can start
       const allPlayerIds = Array.from(session.players.keys());
-      this.wsManager.broadcastToGame(gameId, allPlayerIds, {
-        type: 'GAME_STATE_UPDATE',
-        payload: {
-          gameId,
-          gameState: session.gameState
-        }
-      });
+      this.wsManager.broadcastToGame(gameId, allPlayerIds, session.gameState);
 
       // Process AI turn if the first player is AI
       await this.processAITurnIfNeeded(gameId);
@@ -257,19 +322,25 @@ export class GameEngine {
     const session = this.sessionManager.getGame(gameId);
     if (!session) return;
 
-    const currentPlayer = session.gameState.players[session.gameState.currentPlayerIndex];
-    const playerConnection = session.players.get(currentPlayer.id);
-
-    if (playerConnection?.isAI) {
-      console.log(`Processing AI turn for player ${currentPlayer.id}`);
+    // During the discard and gold phases the AI players who owe cards act, whoever's turn it is
+    const owed = session.gameState.phase === 'DISCARD' ? session.gameState.pendingDiscards
+      : session.gameState.phase === 'GOLD' ? session.gameState.seafarers?.pendingGold
+      : undefined;
+    const actingPlayerId = owed
+      ? Object.keys(owed).find(playerId => session.players.get(playerId)?.isAI)
+      : session.gameState.players[session.gameState.currentPlayerIndex].id;
+    const playerConnection = actingPlayerId ? session.players.get(actingPlayerId) : undefined;
+
+    if (actingPlayerId && playerConnection?.isAI) {
+      console.log(`Processing AI turn for player ${actingPlayerId}`);
       
       // Get valid actions for current game state
-      const validActions = await this.ruleEngineClient.getValidActions(session.gameState, currentPlayer.id);
+      const validActions = await this.ruleEngineClient.getValidActions(session.gameState, actingPlayerId);
       
       // Get AI decision
       const aiAction = await this.aiCoordinator.getAIDecision(
         session.gameState,
-        currentPlayer.id,
+        actingPlayerId,
         validActions
       );
 
@@ -278,25 +349,21 @@ export class GameEngine {
         const result = await this.ruleEngineClient.processAction(session.gameState, aiAction);
         
         if (result.success && result.gameState) {
+          const previousState = session.gameState;
           this.sessionManager.updateGameState(gameId, result.gameState);
           
           // Broadcast update to all players
           const allPlayerIds = Array.from(session.players.keys());
-          this.wsManager.broadcastToGame(gameId, allPlayerIds, {
-            type: 'GAME_STATE_UPDATE',
-            payload: {
-              gameId,
-              gameState: result.gameState
-            }
-          });
+          this.wsManager.broadcastToGame(gameId, allPlayerIds, result.gameState);
+          this.announceTradeOffers(gameId, previousState, result.gameState);
 
           // Check if another AI turn is needed
           setTimeout(() => this.processAITurnIfNeeded(gameId), 1000); // Small delay for better UX
         } else {
-          console.error(`AI action failed for player ${currentPlayer.id}:`, result.error);
+          console.error(`AI action failed for player ${actingPlayerId}:`, result.error);
         }
       } else {
-        console.warn(`No valid AI action found for player ${currentPlayer.id}`);
+        console.warn(`No valid AI action found for player ${actingPlayerId}`);
       }
     }
   }
@@ -1,8 +1,9 @@
 import axios from 'axios';
-import { GameState, Action } from '../types/game-types';
+import { EncodedGameStateView, encodeGameStateView, projectForPlayer, RobberManager } from '@cajun-catan/rule-engine';
+import { GameState, Action, Resources, ResourceType } from '../types';
 
 export interface AIDecisionRequest {
-  gameState: GameState;
+  gameState: EncodedGameStateView; // the AI player's own view, like any other player gets
   playerId: string;
   validActions: string[];
 }
@@ -28,7 +29,7 @@ export class AICoordinator {
 
     try {
       const request: AIDecisionRequest = {
-        gameState,
+        gameState: encodeGameStateView(projectForPlayer(gameState, playerId)),
         playerId,
         validActions
       };
@@ -74,8 +75,23 @@ export class AICoordinator {
       return { type: 'END_TURN', playerId };
     }
 
-    // For setup phases, try to build
-    if (gameState.phase === 'SETUP_ROUND_1' || gameState.phase === 'SETUP_ROUND_2') {
+    // Robber sub-phases: discard from the largest piles, block the first other hex, rob the first target
+    if (validActions.includes('DISCARD_RESOURCES')) {
+      return { type: 'DISCARD_RESOURCES', playerId, payload: { resourcesToDiscard: this.chooseDiscard(gameState, playerId) } };
+    }
+
+    if (validActions.includes('MOVE_ROBBER')) {
+      const [robberLocation] = RobberManager.getValidRobberLocations(gameState);
+      return { type: 'MOVE_ROBBER', playerId, payload: { robberLocation } };
+    }
+
+    if (validActions.includes('STEAL_RESOURCE')) {
+      const [targetPlayerId] = RobberManager.getValidStealTargets(gameState, playerId);
+      return { type: 'STEAL_RESOURCE', playerId, payload: { targetPlayerId } };
+    }
+
+    // For setup phases (and free roads from road building), try to build
+    if (gameState.phase === 'SETUP_ROUND_1' || gameState.phase === 'SETUP_ROUND_2' || gameState.phase === 'ROAD_BUILDING') {
       if (validActions.includes('BUILD_SETTLEMENT')) {
         // Find first available intersection for settlement
         const availableIntersections = this.getAvailableIntersections(gameState);
@@ -89,8 +105,11 @@ export class AICoordinator {
       }
       
       if (validActions.includes('BUILD_ROAD')) {
-        // Find first available edge for road
-        const availableEdges = this.getAvailableEdges(gameState, playerId);
+        // Find first available edge for road; a setup road must touch the settlement just placed
+        const settlements = gameState.players.find(p => p.id === playerId)?.buildings.settlements ?? [];
+        const lastSettlement = settlements[settlements.length - 1];
+        const availableEdges = this.getAvailableEdges(gameState, playerId).filter(edgeId =>
+          gameState.phase === 'ROAD_BUILDING' || gameState.board.edges.get(edgeId)!.intersections.includes(lastSettlement));
         if (availableEdges.length > 0) {
           return {
             type: 'BUILD_ROAD',
@@ -106,6 +125,20 @@ export class AICoordinator {
     return { type: actionType, playerId };
   }
 
+  private chooseDiscard(gameState: GameState, playerId: string): Partial<Resources> {
+    const player = gameState.players.find(p => p.id === playerId)!;
+    const hand = { ...player.resources };
+    const discard: Partial<Resources> = {};
+
+    for (let owed = gameState.pendingDiscards?.[playerId] ?? 0; owed > 0; owed--) {
+      const resource = (Object.keys(hand) as ResourceType[]).reduce((most, type) => hand[type] > hand[most] ? type : most);
+      hand[resource]--;
+      discard[resource] = (discard[resource] ?? 0) + 1;
+    }
+
+    return discard;
+  }
+
   private getAvailableIntersections(gameState: GameState): string[] {
     const available: string[] = [];
     
@@ -143,7 +176,7 @@ export class AICoordinator {
 
   private getAvailableEdges(gameState: GameState, playerId: string): string[] {
     const available: string[] = [];
-    const player = gameState.players.find((p: any) => p.id === playerId);
+    const player = gameState.players.find(p => p.id === playerId);
     
     if (!player || !gameState.board.edges) return available;
 
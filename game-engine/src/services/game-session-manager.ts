@@ -1,6 +1,5 @@
 import { v4 as uuidv4 } from 'uuid';
-import { GameSession, PlayerConnection } from '../types';
-import { GameState, Player } from '../types/game-types';
+import { GameSession, PlayerConnection, GameState, GameOptions } from '../types';
 import { RuleEngineClient } from './rule-engine-client';
 
 export class GameSessionManager {
@@ -19,14 +18,14 @@ export class GameSessionManager {
     setInterval(() => this.cleanupInactiveGames(), 300000);
   }
 
-  async createGame(playerIds: string[], aiPlayers: string[] = []): Promise<GameSession> {
+  async createGame(playerIds: string[], aiPlayers: string[] = [], options: GameOptions = {}): Promise<GameSession> {
     if (this.sessions.size >= this.maxGames) {
       throw new Error('Maximum number of games reached');
     }
 
     const allPlayerIds = [...playerIds, ...aiPlayers];
-    if (allPlayerIds.length < 2 || allPlayerIds.length > 4) {
-      throw new Error('Game requires 2-4 players');
+    if (allPlayerIds.length < 2 || allPlayerIds.length > 6) {
+      throw new Error('Game requires 2-6 players');
     }
 
     // Check if any players are already in a game
@@ -37,7 +36,7 @@ export class GameSessionManager {
     }
 
     const gameId = uuidv4();
-    const gameState = await this.ruleEngineClient.createNewGame(allPlayerIds);
+    const gameState = await this.ruleEngineClient.createNewGame(allPlayerIds, options);
     
     const players = new Map<string, PlayerConnection>();
     const aiPlayerSet = new Set(aiPlayers);
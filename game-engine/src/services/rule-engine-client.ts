@@ -1,5 +1,6 @@
 import axios from 'axios';
-import { GameState, Action, GameResult } from '../types/game-types';
+import { encodeGameState, decodeGameState, RandomManager, BuildingManager } from '@cajun-catan/rule-engine';
+import { GameState, GameOptions, Action, ActionResult, RuleViolation } from '../types';
 
 export class RuleEngineClient {
   private baseUrl: string;
@@ -8,12 +9,16 @@ export class RuleEngineClient {
     this.baseUrl = baseUrl;
   }
 
-  async createNewGame(playerIds: string[]): Promise<GameState> {
+  async createNewGame(playerIds: string[], options: GameOptions = {}): Promise<GameState> {
     try {
-      const response = await axios.post<GameState>(`${this.baseUrl}/game/create`, {
-        playerIds
+      const response = await axios.post(`${this.baseUrl}/game/create`, {
+        playerIds,
+        rules: options.rules,
+        citiesAndKnights: options.citiesAndKnights,
+        seafarers: options.seafarers,
+        scenario: options.scenario
       });
-      return response.data;
+      return decodeGameState(response.data);
     } catch (error) {
       console.error('Failed to create game via rule engine:', error);
       // Fallback: create a basic game state
@@ -21,13 +26,16 @@ export class RuleEngineClient {
     }
   }
 
-  async processAction(gameState: GameState, action: Action): Promise<GameResult> {
+  async processAction(gameState: GameState, action: Action): Promise<ActionResult> {
     try {
-      const response = await axios.post<GameResult>(`${this.baseUrl}/game/action`, {
-        gameState,
+      const response = await axios.post<{ success: boolean; gameState?: unknown; error?: string; violation?: RuleViolation }>(`${this.baseUrl}/game/action`, {
+        gameState: encodeGameState(gameState),
         action
       });
-      return response.data;
+      return {
+        ...response.data,
+        gameState: response.data.gameState ? decodeGameState(response.data.gameState) : undefined
+      };
     } catch (error) {
       console.error('Failed to process action via rule engine:', error);
       return {
@@ -40,7 +48,7 @@ export class RuleEngineClient {
   async getValidActions(gameState: GameState, playerId: string): Promise<string[]> {
     try {
       const response = await axios.post<{actions: string[]}>(`${this.baseUrl}/game/valid-actions`, {
-        gameState,
+        gameState: encodeGameState(gameState),
         playerId
       });
       return response.data.actions || [];
@@ -52,40 +60,65 @@ export class RuleEngineClient {
   }
 
   private createFallbackGameState(playerIds: string[]): GameState {
+    const seed = RandomManager.createSeed();
     const players = playerIds.map((id, index) => ({
       id,
-      name: `Player ${index + 1}`,
-      color: ['red', 'blue', 'green', 'yellow'][index] || 'gray',
+      color: ['red', 'blue', 'white', 'orange', 'green', 'brown'][index] || 'gray',
       resources: {
-        BRICK: 0,
-        LUMBER: 0,
-        WOOL: 0,
-        GRAIN: 0,
-        ORE: 0
+        wood: 0,
+        brick: 0,
+        wool: 0,
+        wheat: 0,
+        ore: 0
+      },
+      developmentCards: {
+        knight: 0,
+        roadBuilding: 0,
+        invention: 0,
+        monopoly: 0,
+        victoryPoint: 0
       },
-      developmentCards: [],
       buildings: {
-        settlements: 5,
-        cities: 4,
-        roads: 15
+        roads: [],
+        settlements: [],
+        cities: []
       },
+      specialCards: {
+        longestRoad: false,
+        largestArmy: false
+      },
+      knightsPlayed: 0,
       victoryPoints: 0,
-      longestRoad: 0,
-      largestArmy: 0,
-      isBot: false
+      canPlayDevCard: true
     }));
 
     return {
       id: `game-${Date.now()}`,
-      players,
-      board: {}, // Simplified board
-      currentPlayerIndex: 0,
       phase: 'SETUP_ROUND_1',
-      turnCounter: 1
+      currentPlayerIndex: 0,
+      players,
+      board: {
+        tiles: new Map(),
+        intersections: new Map(),
+        edges: new Map(),
+        harbors: [],
+        robberLocation: { q: 0, r: 0 }
+      }, // Simplified board
+      developmentCardDeck: [],
+      turn: 1,
+      seed,
+      rng: RandomManager.createState(seed)
     };
   }
 
   private getFallbackActions(gameState: GameState, playerId: string): string[] {
+    if (gameState.phase === 'DISCARD') {
+      return gameState.pendingDiscards?.[playerId] ? ['DISCARD_RESOURCES'] : [];
+    }
+    if (gameState.phase === 'GOLD') {
+      return gameState.seafarers?.pendingGold?.[playerId] ? ['CHOOSE_GOLD'] : [];
+    }
+
     const currentPlayer = gameState.players[gameState.currentPlayerIndex];
     if (currentPlayer.id !== playerId) {
       return [];
@@ -93,12 +126,20 @@ export class RuleEngineClient {
 
     switch (gameState.phase) {
       case 'SETUP_ROUND_1':
-      case 'SETUP_ROUND_2':
-        return ['BUILD_SETTLEMENT', 'BUILD_ROAD'];
-      case 'PLAY':
-        if (!gameState.diceRoll) {
-          return ['ROLL_DICE'];
-        }
+      case 'SETUP_ROUND_2': {
+        const piece = BuildingManager.getSetupPiece(gameState, currentPlayer);
+        return piece === 'settlement' ? ['BUILD_SETTLEMENT'] : piece === 'road' ? ['BUILD_ROAD'] : [];
+      }
+      case 'PRODUCTION':
+        return ['ROLL_DICE'];
+      case 'MOVE_ROBBER':
+        return ['MOVE_ROBBER'];
+      case 'STEAL':
+        return ['STEAL_RESOURCE'];
+      case 'ROAD_BUILDING':
+        return ['BUILD_ROAD'];
+      case 'ACTION':
+      case 'SPECIAL_BUILDING':
         return ['BUILD_ROAD', 'BUILD_SETTLEMENT', 'BUILD_CITY', 'BUY_DEVELOPMENT_CARD', 'END_TURN'];
       case 'GAME_OVER':
         return [];
@@ -1,11 +1,13 @@
 import { WebSocket, WebSocketServer } from 'ws';
 import { IncomingMessage } from 'http';
 import { parse } from 'url';
-import { WebSocketMessage, PlayerConnection } from '../types';
+import { encodeGameStateView, projectForPlayer } from '@cajun-catan/rule-engine';
+import { WebSocketMessage, PlayerConnection, ErrorMessagePayload, RuleViolation, GameState } from '../types';
 
 export class WebSocketManager {
   private wss?: WebSocketServer;
   private connections: Map<string, WebSocket> = new Map();
+  private spectators: Map<string, Set<WebSocket>> = new Map(); // gameId -> sockets watching without a seat
 
   initialize(port: number): void {
     this.wss = new WebSocketServer({ port });
@@ -60,7 +62,21 @@ export class WebSocketManager {
     console.log(`Registered connection for player: ${playerId}`);
   }
 
+  registerSpectator(gameId: string, ws: WebSocket): void {
+    if (!this.spectators.has(gameId)) {
+      this.spectators.set(gameId, new Set());
+    }
+    this.spectators.get(gameId)!.add(ws);
+    console.log(`Registered spectator for game: ${gameId}`);
+  }
+
   removeConnection(ws: WebSocket): void {
+    for (const [gameId, sockets] of this.spectators) {
+      if (sockets.delete(ws) && sockets.size === 0) {
+        this.spectators.delete(gameId);
+      }
+    }
+
     for (const [playerId, socket] of this.connections) {
       if (socket === ws) {
         this.connections.delete(playerId);
@@ -90,25 +106,45 @@ export class WebSocketManager {
     }
   }
 
-  broadcastToGame(gameId: string, playerIds: string[], message: WebSocketMessage): void {
+  // Each player gets the state as they may see it; spectators get the public view
+  broadcastToGame(gameId: string, playerIds: string[], gameState: GameState): void {
     for (const playerId of playerIds) {
-      const gameMessage = { ...message, gameId };
-      this.sendToPlayer(playerId, gameMessage);
+      this.sendToPlayer(playerId, this.gameStateUpdate(gameId, gameState, playerId));
     }
+
+    const spectators = this.spectators.get(gameId);
+    if (spectators) {
+      const update = this.gameStateUpdate(gameId, gameState);
+      for (const ws of spectators) {
+        this.send(ws, update);
+      }
+    }
+  }
+
+  gameStateUpdate(gameId: string, gameState: GameState, viewerId?: string): WebSocketMessage {
+    return {
+      type: 'GAME_STATE_UPDATE',
+      gameId,
+      payload: {
+        gameId,
+        gameState: encodeGameStateView(projectForPlayer(gameState, viewerId))
+      }
+    };
   }
 
-  sendError(ws: WebSocket, error: string, gameId?: string): void {
+  sendError(ws: WebSocket, error: string, gameId?: string, violation?: RuleViolation): void {
+    const payload: ErrorMessagePayload = violation ? { error, violation } : { error };
     this.send(ws, {
       type: 'ERROR',
       gameId,
-      payload: { error }
+      payload
     });
   }
 
-  sendErrorToPlayer(playerId: string, error: string, gameId?: string): void {
+  sendErrorToPlayer(playerId: string, error: string, gameId?: string, violation?: RuleViolation): void {
     const ws = this.connections.get(playerId);
     if (ws) {
-      this.sendError(ws, error, gameId);
+      this.sendError(ws, error, gameId, violation);
     }
   }
 
@@ -127,6 +163,7 @@ export class WebSocketManager {
       console.log('WebSocket server closed');
     }
     this.connections.clear();
+    this.spectators.clear();
   }
 
   // Simple event emitter pattern
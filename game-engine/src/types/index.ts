@@ -1,5 +1,9 @@
 import { WebSocket } from 'ws';
-import { GameState, Action } from './game-types';
+import { GameState, GameRuleOverrides, Action, RuleViolation } from '@cajun-catan/shared-types';
+import { Scenario, SeafarersScenario } from '@cajun-catan/rule-engine';
+
+// Game state contract shared with the rule engine and AI player
+export * from '@cajun-catan/shared-types';
 
 export interface GameSession {
   id: string;
@@ -39,17 +43,28 @@ export type MessageType =
   | 'JOIN_GAME'
   | 'LEAVE_GAME'
   | 'GAME_ACTION'
+  | 'UNDO_ACTION'
+  | 'SPECTATE_GAME'
   | 'GAME_STATE_UPDATE'
   | 'GAME_CREATED'
   | 'GAME_JOINED'
   | 'PLAYER_JOINED'
   | 'PLAYER_LEFT'
+  | 'TRADE_OFFERED'
   | 'ACTION_RESULT'
   | 'ERROR'
   | 'PING'
   | 'PONG';
 
-export interface CreateGameRequest {
+// How a new game is played, passed through to the rule engine
+export interface GameOptions {
+  rules?: GameRuleOverrides; // house rules, e.g. { allowUndo: true, victoryPointsToWin: 12 }
+  citiesAndKnights?: boolean; // play with the Cities & Knights expansion
+  seafarers?: string | SeafarersScenario; // a bundled Seafarers scenario id or a custom map
+  scenario?: string | Scenario; // a fixed map: a bundled scenario id or a custom map
+}
+
+export interface CreateGameRequest extends GameOptions {
   playerIds: string[];
   aiPlayers?: string[];
 }
@@ -66,6 +81,17 @@ export interface GameActionRequest {
   action: Action;
 }
 
+// Takes back the player's last reversible action, when the game's rules allow it
+export interface UndoActionRequest {
+  gameId: string;
+  playerId: string;
+}
+
+// Watch a game without a seat; spectators only see public information
+export interface SpectateGameRequest {
+  gameId: string;
+}
+
 export interface GameStateUpdate {
   gameId: string;
   gameState: GameState;
@@ -76,6 +102,12 @@ export interface ActionResult {
   success: boolean;
   gameState?: GameState;
   error?: string;
+  violation?: RuleViolation;
+}
+
+export interface ErrorMessagePayload {
+  error: string;
+  violation?: RuleViolation;
 }
 
 export interface GameEngineStats {
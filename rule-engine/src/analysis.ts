@@ -0,0 +1,135 @@
+import { GameState, Harbor, HexCoordinate, Resources, Tile, COMMODITY_TERRAINS } from './types';
+import { BoardGenerator } from './board';
+import { BuildingManager } from './building';
+import { ResourceManager } from './resources';
+import { RobberManager } from './robber';
+import { SeafarersManager } from './seafarers';
+
+// Two dice roll 36 equally likely combinations; a number disc's pips are its share of them
+const DICE_COMBINATIONS = 36;
+
+export interface IntersectionAnalysis {
+  intersectionId: string;
+  pips: number; // dice combinations that pay a settlement here; robbed hexes count for nothing
+  production: Resources; // expected cards per roll for a settlement here
+  diversity: number; // distinct resources the surrounding hexes produce
+  harbors: Harbor[];
+  available: boolean; // unoccupied, on land and clear of the distance rule
+}
+
+export interface PlayerIncome {
+  playerId: string;
+  production: Resources; // expected cards per roll from the player's buildings
+  total: number;
+}
+
+export interface RobberImpact {
+  hex: HexCoordinate;
+  lost: Record<string, number>; // expected cards per roll each player would lose with the robber here
+  total: number;
+}
+
+/**
+ * Read-only statistics about the board for AIs and UIs. Expectations assume
+ * every roll but 7 pays out in full; bank shortages are ignored. Gold fields
+ * count toward pips but not toward any one resource.
+ */
+export class BoardAnalyzer {
+  static analyzeIntersection(gameState: GameState, intersectionId: string): IntersectionAnalysis | undefined {
+    const intersection = gameState.board.intersections.get(intersectionId);
+    if (!intersection) {
+      return undefined;
+    }
+
+    const tiles = this.getTiles(gameState, intersection.hexes);
+    const production = ResourceManager.createEmptyResources();
+    let pips = 0;
+    tiles.filter(tile => !tile.hasRobber).forEach(tile => {
+      pips += BoardGenerator.getNumberPips(tile.numberDisc);
+      const resource = ResourceManager.getProducedResource(tile.terrain);
+      if (resource) {
+        production[resource] += this.getOdds(tile);
+      }
+    });
+
+    return {
+      intersectionId,
+      pips,
+      production,
+      diversity: new Set(tiles.map(tile => ResourceManager.getProducedResource(tile.terrain)).filter(Boolean)).size,
+      harbors: BoardGenerator.getIntersectionHarbors(gameState.board, intersectionId),
+      available: !intersection.building &&
+        BuildingManager.checkDistanceRule(gameState, intersectionId).valid &&
+        (!SeafarersManager.isEnabled(gameState) || SeafarersManager.isLandIntersection(gameState.board, intersectionId))
+    };
+  }
+
+  // Best spots first: most expected cards, then the widest spread of resources
+  static rankIntersections(gameState: GameState, options: { availableOnly?: boolean } = {}): IntersectionAnalysis[] {
+    return Array.from(gameState.board.intersections.keys())
+      .map(intersectionId => this.analyzeIntersection(gameState, intersectionId)!)
+      .filter(analysis => !options.availableOnly || analysis.available)
+      .sort((a, b) =>
+        ResourceManager.getTotalResources(b.production) - ResourceManager.getTotalResources(a.production) ||
+        b.diversity - a.diversity);
+  }
+
+  static getExpectedIncome(gameState: GameState, playerId: string): PlayerIncome {
+    const production = ResourceManager.createEmptyResources();
+    gameState.board.intersections.forEach(intersection => {
+      if (intersection.building?.playerId !== playerId) return;
+      this.getTiles(gameState, intersection.hexes).forEach(tile => {
+        const resource = ResourceManager.getProducedResource(tile.terrain);
+        if (resource && !tile.hasRobber) {
+          production[resource] += this.getOdds(tile) * this.getCardsPerRoll(gameState, tile, intersection.building!.type);
+        }
+      });
+    });
+
+    return { playerId, production, total: ResourceManager.getTotalResources(production) };
+  }
+
+  // What each player would stop collecting if the robber sat on this hex
+  static getRobberImpact(gameState: GameState, hex: HexCoordinate): RobberImpact {
+    const lost: Record<string, number> = {};
+    const tile = gameState.board.tiles.get(BoardGenerator.coordToKey(hex));
+    if (tile && ResourceManager.getProducedResource(tile.terrain)) {
+      gameState.board.intersections.forEach(intersection => {
+        if (!intersection.building || !intersection.hexes.some(other => other.q === hex.q && other.r === hex.r)) return;
+        const { playerId, type } = intersection.building;
+        lost[playerId] = (lost[playerId] ?? 0) + this.getOdds(tile) * this.getCardsPerRoll(gameState, tile, type);
+      });
+    }
+
+    return {
+      hex: { q: hex.q, r: hex.r },
+      lost,
+      total: Object.values(lost).reduce((sum, amount) => sum + amount, 0)
+    };
+  }
+
+  // Every hex the robber may move to, the most damaging first
+  static getRobberImpacts(gameState: GameState): RobberImpact[] {
+    return RobberManager.getValidRobberLocations(gameState)
+      .map(hex => this.getRobberImpact(gameState, hex))
+      .sort((a, b) => b.total - a.total);
+  }
+
+  private static getTiles(gameState: GameState, hexes: HexCoordinate[]): Tile[] {
+    return hexes
+      .map(hex => gameState.board.tiles.get(BoardGenerator.coordToKey(hex)))
+      .filter((tile): tile is Tile => tile !== undefined);
+  }
+
+  private static getOdds(tile: Tile): number {
+    return BoardGenerator.getNumberPips(tile.numberDisc) / DICE_COMBINATIONS;
+  }
+
+  // Matches distributeResources: with Cities & Knights a city's second card may be a commodity instead
+  private static getCardsPerRoll(gameState: GameState, tile: Tile, type: 'settlement' | 'city'): number {
+    if (type === 'settlement') {
+      return 1;
+    }
+    return gameState.citiesAndKnights && COMMODITY_TERRAINS[tile.terrain] ? 1 : 2;
+  }
+}
@@ -1,62 +1,278 @@
-import { HexCoordinate, Tile, Intersection, Edge, GameBoard, TerrainType, ResourceType } from './types';
+import { HexCoordinate, Tile, Intersection, Edge, GameBoard, TerrainType, Harbor } from './types';
+import { RandomGenerator, RandomManager } from './random';
+import { Scenario } from './scenario';
+import standardScenario from './scenarios/standard.json';
+
+export interface RandomBoardOptions {
+  seed?: number; // ignored when rng is given
+  rng?: RandomGenerator;
+  separateRedNumbers?: boolean; // rulebook: 6s and 8s never touch (default true)
+  balancedPips?: boolean; // no equal neighbours, capped pips per intersection
+  shuffleHarbors?: boolean; // default true
+  extended?: boolean; // 30-hex frame for 5-6 players
+}
+
+// The standard map ships as a scenario file; random boards shuffle its terrains and harbors
+const STANDARD_SCENARIO = standardScenario as Scenario;
+
+const STANDARD_LAYOUT: { coord: HexCoordinate; terrain: TerrainType; number?: number }[] =
+  STANDARD_SCENARIO.hexes.map(({ q, r, terrain, number }) => ({ coord: { q, r }, terrain, number }));
+
+const STANDARD_HARBORS: Harbor[] = STANDARD_SCENARIO.harbors;
+
+// 5-6 player extension: 30 hexes in rows of 3-4-5-6-5-4-3, two deserts and 28 number discs
+const EXTENDED_LAYOUT: { coord: HexCoordinate; terrain: TerrainType; number?: number }[] = [
+  // Row r = -3
+  { coord: { q: 0, r: -3 }, terrain: 'pasture', number: 12 },
+  { coord: { q: 1, r: -3 }, terrain: 'mountain', number: 3 },
+  { coord: { q: 2, r: -3 }, terrain: 'forest', number: 5 },
+
+  // Row r = -2
+  { coord: { q: -1, r: -2 }, terrain: 'forest', number: 4 },
+  { coord: { q: 0, r: -2 }, terrain: 'hill', number: 2 },
+  { coord: { q: 1, r: -2 }, terrain: 'field', number: 10 },
+  { coord: { q: 2, r: -2 }, terrain: 'pasture', number: 6 },
+
+  // Row r = -1
+  { coord: { q: -2, r: -1 }, terrain: 'pasture', number: 8 },
+  { coord: { q: -1, r: -1 }, terrain: 'field', number: 3 },
+  { coord: { q: 0, r: -1 }, terrain: 'pasture', number: 8 },
+  { coord: { q: 1, r: -1 }, terrain: 'hill', number: 4 },
+  { coord: { q: 2, r: -1 }, terrain: 'mountain', number: 11 },
+
+  // Row r = 0
+  { coord: { q: -3, r: 0 }, terrain: 'field', number: 5 },
+  { coord: { q: -2, r: 0 }, terrain: 'mountain', number: 11 },
+  { coord: { q: -1, r: 0 }, terrain: 'mountain', number: 12 },
+  { coord: { q: 0, r: 0 }, terrain: 'field', number: 2 },
+  { coord: { q: 1, r: 0 }, terrain: 'pasture', number: 5 },
+  { coord: { q: 2, r: 0 }, terrain: 'hill', number: 6 },
+
+  // Row r = 1
+  { coord: { q: -3, r: 1 }, terrain: 'forest', number: 4 },
+  { coord: { q: -2, r: 1 }, terrain: 'forest', number: 10 },
+  { coord: { q: -1, r: 1 }, terrain: 'forest', number: 9 },
+  { coord: { q: 0, r: 1 }, terrain: 'desert' },
+  { coord: { q: 1, r: 1 }, terrain: 'pasture', number: 10 },
+
+  // Row r = 2
+  { coord: { q: -3, r: 2 }, terrain: 'mountain', number: 9 },
+  { coord: { q: -2, r: 2 }, terrain: 'desert' },
+  { coord: { q: -1, r: 2 }, terrain: 'hill', number: 8 },
+  { coord: { q: 0, r: 2 }, terrain: 'forest', number: 11 },
+
+  // Row r = 3
+  { coord: { q: -3, r: 3 }, terrain: 'field', number: 6 },
+  { coord: { q: -2, r: 3 }, terrain: 'field', number: 3 },
+  { coord: { q: -1, r: 3 }, terrain: 'hill', number: 9 }
+];
+
+// The extension adds a 3:1 harbor and a second wool harbor
+const EXTENDED_HARBORS: Harbor[] = [
+  { edgeId: 'e_-3,-1_-3,0', type: 'generic', ratio: 3 },
+  { edgeId: 'e_-1,-2_-2,-2', type: 'ore', ratio: 2 },
+  { edgeId: 'e_0,-4_1,-4', type: 'generic', ratio: 3 },
+  { edgeId: 'e_1,-3_2,-4', type: 'wool', ratio: 2 },
+  { edgeId: 'e_2,-3_3,-3', type: 'generic', ratio: 3 },
+  { edgeId: 'e_2,-1_3,-1', type: 'wheat', ratio: 2 },
+  { edgeId: 'e_1,0_2,0', type: 'generic', ratio: 3 },
+  { edgeId: 'e_0,2_1,1', type: 'wood', ratio: 2 },
+  { edgeId: 'e_-1,2_-1,3', type: 'generic', ratio: 3 },
+  { edgeId: 'e_-2,2_-3,2', type: 'brick', ratio: 2 },
+  { edgeId: 'e_-2,1_-3,1', type: 'wool', ratio: 2 }
+];
+
+const MAX_PLACEMENT_STEPS = 100000;
+const BALANCED_MAX_INTERSECTION_PIPS = 11;
 
 export class BoardGenerator {
   static generateStandardBoard(): GameBoard {
-    const tiles = this.createStandardTiles();
+    return this.generateScenarioBoard(STANDARD_SCENARIO);
+  }
+
+  static generateExtendedBoard(): GameBoard {
+    const tiles = this.createTiles(
+      EXTENDED_LAYOUT.map(({ coord }) => coord),
+      EXTENDED_LAYOUT.map(({ terrain }) => terrain),
+      EXTENDED_LAYOUT.filter(({ number }) => number !== undefined).map(({ number }) => number!)
+    );
     const { intersections, edges } = this.createIntersectionsAndEdges(tiles);
-    
+
     return {
       tiles,
       intersections,
       edges,
-      robberLocation: { q: 0, r: 0 } // desert at center
+      harbors: EXTENDED_HARBORS.map(harbor => ({ ...harbor })),
+      robberLocation: this.findRobberStart(tiles)
     };
   }
 
-  private static createStandardTiles(): Map<string, Tile> {
+  // A scenario's fixed map; ScenarioLoader.validate has checked it fits together
+  static generateScenarioBoard(scenario: Scenario): GameBoard {
     const tiles = new Map<string, Tile>();
-    
-    // Standard terrain distribution
-    const terrainLayout: { coord: HexCoordinate; terrain: TerrainType; number?: number }[] = [
-      // Center
-      { coord: { q: 0, r: 0 }, terrain: 'desert' },
-      
-      // Ring 1 (6 hexes)
-      { coord: { q: 1, r: 0 }, terrain: 'pasture', number: 9 },
-      { coord: { q: 0, r: 1 }, terrain: 'field', number: 12 },
-      { coord: { q: -1, r: 1 }, terrain: 'forest', number: 6 },
-      { coord: { q: -1, r: 0 }, terrain: 'hill', number: 4 },
-      { coord: { q: 0, r: -1 }, terrain: 'mountain', number: 10 },
-      { coord: { q: 1, r: -1 }, terrain: 'hill', number: 5 },
-      
-      // Ring 2 (12 hexes) - using fixed setup from technical supplement
-      { coord: { q: 2, r: 0 }, terrain: 'forest', number: 11 },
-      { coord: { q: 1, r: 1 }, terrain: 'field', number: 3 },
-      { coord: { q: 0, r: 2 }, terrain: 'pasture', number: 8 },
-      { coord: { q: -1, r: 2 }, terrain: 'hill', number: 8 },
-      { coord: { q: -2, r: 2 }, terrain: 'mountain', number: 3 },
-      { coord: { q: -2, r: 1 }, terrain: 'forest', number: 4 },
-      { coord: { q: -2, r: 0 }, terrain: 'pasture', number: 2 },
-      { coord: { q: -1, r: -1 }, terrain: 'field', number: 6 },
-      { coord: { q: 0, r: -2 }, terrain: 'mountain', number: 11 },
-      { coord: { q: 1, r: -2 }, terrain: 'forest', number: 9 },
-      { coord: { q: 2, r: -2 }, terrain: 'pasture', number: 5 },
-      { coord: { q: 2, r: -1 }, terrain: 'field', number: 10 }
-    ];
+    scenario.hexes.forEach(({ q, r, terrain, number }) => {
+      tiles.set(this.coordToKey({ q, r }), {
+        coordinate: { q, r },
+        terrain,
+        numberDisc: number,
+        hasRobber: q === scenario.robber.q && r === scenario.robber.r
+      });
+    });
+    const { intersections, edges } = this.createIntersectionsAndEdges(tiles);
 
-    terrainLayout.forEach(({ coord, terrain, number }) => {
-      const key = this.coordToKey(coord);
-      tiles.set(key, {
+    return {
+      tiles,
+      intersections,
+      edges,
+      harbors: scenario.harbors.map(harbor => ({ ...harbor })),
+      robberLocation: { ...scenario.robber },
+      ...(scenario.pirate ? { pirateLocation: { ...scenario.pirate } } : {})
+    };
+  }
+
+  /**
+   * Shuffles the terrains, number discs and harbor types over the standard
+   * 19-hex frame (or the 30-hex one with `extended`). Number discs are placed
+   * in shuffled order with backtracking, so the constraints always hold and the
+   * result is still determined by the seed.
+   */
+  static generateRandomBoard(options: RandomBoardOptions = {}): GameBoard {
+    const rng = options.rng ??
+      RandomManager.fromState(RandomManager.createState(options.seed ?? RandomManager.createSeed()));
+    const separateRedNumbers = options.separateRedNumbers ?? true;
+    const balancedPips = options.balancedPips ?? false;
+
+    const layout = options.extended ? EXTENDED_LAYOUT : STANDARD_LAYOUT;
+    const fixedHarbors = options.extended ? EXTENDED_HARBORS : STANDARD_HARBORS;
+
+    const coordinates = layout.map(({ coord }) => coord);
+    const terrains = RandomManager.shuffle(layout.map(({ terrain }) => terrain), rng);
+    const numbers = layout.filter(({ number }) => number !== undefined).map(({ number }) => number!);
+
+    const tiles = this.createTiles(coordinates, terrains, []);
+    const placed = this.placeNumberDiscs(
+      Array.from(tiles.values()).filter(tile => tile.terrain !== 'desert'),
+      RandomManager.shuffle(numbers, rng),
+      tiles,
+      { separateRedNumbers, balancedPips, steps: 0 }
+    );
+    if (!placed) {
+      throw new Error('Could not generate a board satisfying the number disc constraints');
+    }
+
+    const harbors = options.shuffleHarbors === false
+      ? fixedHarbors.map(harbor => ({ ...harbor }))
+      : this.shuffleHarbors(fixedHarbors, rng);
+    const { intersections, edges } = this.createIntersectionsAndEdges(tiles);
+
+    return {
+      tiles,
+      intersections,
+      edges,
+      harbors,
+      robberLocation: this.findRobberStart(tiles)
+    };
+  }
+
+  static getNumberPips(numberDisc?: number): number {
+    return numberDisc === undefined ? 0 : 6 - Math.abs(7 - numberDisc);
+  }
+
+  private static createTiles(
+    coordinates: HexCoordinate[],
+    terrains: TerrainType[],
+    numbers: number[]
+  ): Map<string, Tile> {
+    const tiles = new Map<string, Tile>();
+    const remainingNumbers = [...numbers];
+    let robberPlaced = false;
+
+    coordinates.forEach((coord, index) => {
+      const terrain = terrains[index];
+      const hasRobber = terrain === 'desert' && !robberPlaced;
+      robberPlaced = robberPlaced || hasRobber;
+      tiles.set(this.coordToKey(coord), {
         coordinate: coord,
         terrain,
-        numberDisc: number,
-        hasRobber: terrain === 'desert'
+        numberDisc: terrain === 'desert' ? undefined : remainingNumbers.shift(),
+        hasRobber
       });
     });
 
     return tiles;
   }
 
+  // The robber starts on the first desert (the extended board has two)
+  private static findRobberStart(tiles: Map<string, Tile>): HexCoordinate {
+    return Array.from(tiles.values()).find(tile => tile.hasRobber)!.coordinate;
+  }
+
+  private static placeNumberDiscs(
+    unnumbered: Tile[],
+    numbers: number[],
+    tiles: Map<string, Tile>,
+    search: { separateRedNumbers: boolean; balancedPips: boolean; steps: number }
+  ): boolean {
+    if (unnumbered.length === 0) {
+      return true;
+    }
+
+    const [tile, ...rest] = unnumbered;
+    const tried = new Set<number>();
+    for (let index = 0; index < numbers.length; index++) {
+      const numberDisc = numbers[index];
+      if (tried.has(numberDisc) || ++search.steps > MAX_PLACEMENT_STEPS) continue;
+      tried.add(numberDisc);
+
+      tile.numberDisc = numberDisc;
+      if (this.isValidPlacement(tile, tiles, search.separateRedNumbers, search.balancedPips) &&
+          this.placeNumberDiscs(rest, [...numbers.slice(0, index), ...numbers.slice(index + 1)], tiles, search)) {
+        return true;
+      }
+    }
+
+    tile.numberDisc = undefined;
+    return false;
+  }
+
+  // Checks the constraints around a freshly numbered tile against its numbered neighbours
+  private static isValidPlacement(
+    tile: Tile,
+    tiles: Map<string, Tile>,
+    separateRedNumbers: boolean,
+    balancedPips: boolean
+  ): boolean {
+    const isRed = (numberDisc?: number) => numberDisc === 6 || numberDisc === 8;
+
+    for (const neighbor of this.getNeighbors(tile.coordinate)) {
+      const neighborNumber = tiles.get(this.coordToKey(neighbor))?.numberDisc;
+      if (separateRedNumbers && isRed(tile.numberDisc) && isRed(neighborNumber)) {
+        return false;
+      }
+      if (balancedPips && neighborNumber === tile.numberDisc) {
+        return false;
+      }
+    }
+
+    if (balancedPips) {
+      // An intersection shares its coordinate with the hex it tops, so include that one too
+      for (const corner of [tile.coordinate, ...this.getHexIntersections(tile.coordinate)]) {
+        const pips = this.getAdjacentHexes(corner, tiles)
+          .reduce((sum, hex) => sum + this.getNumberPips(tiles.get(this.coordToKey(hex))!.numberDisc), 0);
+        if (pips > BALANCED_MAX_INTERSECTION_PIPS) {
+          return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  private static shuffleHarbors(harbors: Harbor[], rng: RandomGenerator): Harbor[] {
+    const kinds = RandomManager.shuffle(harbors.map(({ type, ratio }) => ({ type, ratio })), rng);
+    return harbors.map(({ edgeId }, index) => ({ edgeId, ...kinds[index] }));
+  }
+
   private static createIntersectionsAndEdges(tiles: Map<string, Tile>): {
     intersections: Map<string, Intersection>;
     edges: Map<string, Edge>;
@@ -78,8 +294,7 @@ export class BoardGenerator {
           intersections.set(intersectionId, {
             id: intersectionId,
             hexes: adjacentHexes,
-            edges: connectedEdges,
-            port: this.getPortForIntersection(intersectionCoord)
+            edges: connectedEdges
           });
         }
       });
@@ -149,32 +364,37 @@ export class BoardGenerator {
     );
   }
 
-  private static getPortForIntersection(coord: HexCoordinate): { type: 'generic' | ResourceType; ratio: number } | undefined {
-    // Port locations based on technical supplement
-    const portLocations: Array<{
-      coord: HexCoordinate;
-      type: 'generic' | ResourceType;
-      ratio: number;
-    }> = [
-      // Generic 3:1 ports
-      { coord: { q: -2, r: 0 }, type: 'generic', ratio: 3 },
-      { coord: { q: 2, r: -1 }, type: 'generic', ratio: 3 },
-      { coord: { q: 1, r: 1 }, type: 'generic', ratio: 3 },
-      { coord: { q: -1, r: 2 }, type: 'generic', ratio: 3 },
-      
-      // Specific 2:1 ports
-      { coord: { q: 0, r: -2 }, type: 'ore', ratio: 2 },
-      { coord: { q: 2, r: 0 }, type: 'wheat', ratio: 2 },
-      { coord: { q: 1, r: -2 }, type: 'wood', ratio: 2 },
-      { coord: { q: 0, r: 2 }, type: 'brick', ratio: 2 },
-      { coord: { q: -2, r: 1 }, type: 'wool', ratio: 2 }
-    ];
+  static getHarbors(board: GameBoard): Harbor[] {
+    return board.harbors.map(harbor => ({ ...harbor }));
+  }
 
-    const match = portLocations.find(port => 
-      port.coord.q === coord.q && port.coord.r === coord.r
+  static getIntersectionHarbors(board: GameBoard, intersectionId: string): Harbor[] {
+    return board.harbors.filter(harbor =>
+      board.edges.get(harbor.edgeId)?.intersections.includes(intersectionId)
     );
+  }
 
-    return match ? { type: match.type, ratio: match.ratio } : undefined;
+  /**
+   * Edges a harbor may sit on: both ends are on the board, at least one is not
+   * surrounded by land, and the edge borders exactly one hex of the outer ring.
+   */
+  static getCoastalEdges(board: GameBoard): string[] {
+    const isInland = (intersection: Intersection) => intersection.hexes.length === 3;
+    const isOuterHex = (coord: HexCoordinate) =>
+      this.getNeighbors(coord).some(neighbor => !board.tiles.has(this.coordToKey(neighbor)));
+
+    return Array.from(board.edges.values())
+      .filter(edge => {
+        const [first, second] = edge.intersections.map(id => board.intersections.get(id));
+        if (!first || !second || (isInland(first) && isInland(second))) {
+          return false;
+        }
+        const sharedHexes = first.hexes.filter(hex =>
+          second.hexes.some(other => other.q === hex.q && other.r === hex.r)
+        );
+        return sharedHexes.length === 1 && isOuterHex(sharedHexes[0]);
+      })
+      .map(edge => edge.id);
   }
 
   static coordToKey(coord: HexCoordinate): string {
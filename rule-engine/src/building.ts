@@ -1,37 +1,61 @@
-import { GameState, Player, Resources, BUILDING_COSTS } from './types';
+import { GameState, GameRules, Player, Resources, BUILDING_COSTS } from './types';
 import { ResourceManager } from './resources';
+import { ValidationResult, RuleViolationError, invalid, insufficientResources } from './errors';
+import { updatePlayer, updateIntersection, updateEdge } from './state';
+import { DEFAULT_GAME_RULES, getRules } from './rules';
+import { SeafarersManager } from './seafarers';
 
 export class BuildingManager {
   static canBuildRoad(
     gameState: GameState, 
     playerId: string, 
     edgeId: string
-  ): { valid: boolean; error?: string } {
+  ): ValidationResult {
     const player = gameState.players.find(p => p.id === playerId);
     if (!player) {
-      return { valid: false, error: 'Player not found' };
+      return invalid('PLAYER_NOT_FOUND', 'Player not found', { playerId });
+    }
+
+    if (this.getRemainingBuildings(player, getRules(gameState)).roads === 0) {
+      return invalid('NO_PIECES_REMAINING', 'No roads remaining', { piece: 'road' });
+    }
+
+    const isSetup = this.isSetupPhase(gameState);
+    if (isSetup && this.getSetupPiece(gameState, player) !== 'road') {
+      return invalid('SETUP_SEQUENCE', 'Place a settlement before its road', { piece: 'road' });
     }
 
     // Check if player has resources (skip during setup)
-    if (gameState.phase !== 'SETUP_ROUND_1' && gameState.phase !== 'SETUP_ROUND_2') {
+    if (!isSetup) {
       if (!ResourceManager.hasResources(player.resources, BUILDING_COSTS.road)) {
-        return { valid: false, error: 'Insufficient resources for road' };
+        return insufficientResources('Insufficient resources for road', player.resources, BUILDING_COSTS.road);
       }
     }
 
     // Check if edge exists and is empty
     const edge = gameState.board.edges.get(edgeId);
     if (!edge) {
-      return { valid: false, error: 'Invalid edge location' };
+      return invalid('INVALID_LOCATION', 'Invalid edge location', { edgeId });
     }
 
     if (edge.road) {
-      return { valid: false, error: 'Edge already has a road' };
+      return invalid('LOCATION_OCCUPIED', 'Edge already has a road', { edgeId, playerId: edge.road.playerId });
     }
 
-    // Check connectivity - road must connect to existing road or building
-    if (!this.isRoadConnected(gameState, playerId, edgeId)) {
-      return { valid: false, error: 'Road must connect to existing road or building' };
+    const onLand = SeafarersManager.canHoldRoad(gameState, edgeId);
+    if (!onLand.valid) {
+      return onLand;
+    }
+
+    // A setup road belongs to the settlement just placed (a city in Cities & Knights' second round); later roads extend the network
+    if (isSetup) {
+      const { settlements, cities } = player.buildings;
+      const settlementId = cities[cities.length - 1] ?? settlements[settlements.length - 1];
+      if (!edge.intersections.includes(settlementId)) {
+        return invalid('NOT_CONNECTED', 'Road must touch the settlement just placed', { edgeId, intersectionId: settlementId });
+      }
+    } else if (!this.isRoadConnected(gameState, playerId, edgeId)) {
+      return invalid('NOT_CONNECTED', 'Road must connect to existing road or building', { edgeId });
     }
 
     return { valid: true };
@@ -41,27 +65,52 @@ export class BuildingManager {
     gameState: GameState, 
     playerId: string, 
     intersectionId: string
-  ): { valid: boolean; error?: string } {
+  ): ValidationResult {
     const player = gameState.players.find(p => p.id === playerId);
     if (!player) {
-      return { valid: false, error: 'Player not found' };
+      return invalid('PLAYER_NOT_FOUND', 'Player not found', { playerId });
+    }
+
+    if (this.getRemainingBuildings(player, getRules(gameState)).settlements === 0) {
+      return invalid('NO_PIECES_REMAINING', 'No settlements remaining', { piece: 'settlement' });
+    }
+
+    const isSetup = this.isSetupPhase(gameState);
+    if (isSetup && this.getSetupPiece(gameState, player) !== 'settlement') {
+      return invalid('SETUP_SEQUENCE', 'Place a road next to the settlement just placed', { piece: 'settlement' });
     }
 
     // Check if player has resources (skip during setup)
-    if (gameState.phase !== 'SETUP_ROUND_1' && gameState.phase !== 'SETUP_ROUND_2') {
+    if (!isSetup) {
       if (!ResourceManager.hasResources(player.resources, BUILDING_COSTS.settlement)) {
-        return { valid: false, error: 'Insufficient resources for settlement' };
+        return insufficientResources(
+          'Insufficient resources for settlement',
+          player.resources,
+          BUILDING_COSTS.settlement
+        );
       }
     }
 
     // Check if intersection exists and is empty
     const intersection = gameState.board.intersections.get(intersectionId);
     if (!intersection) {
-      return { valid: false, error: 'Invalid intersection location' };
+      return invalid('INVALID_LOCATION', 'Invalid intersection location', { intersectionId });
     }
 
     if (intersection.building) {
-      return { valid: false, error: 'Intersection already has a building' };
+      return invalid('LOCATION_OCCUPIED', 'Intersection already has a building', {
+        intersectionId,
+        building: intersection.building
+      });
+    }
+
+    if (gameState.seafarers && !SeafarersManager.isLandIntersection(gameState.board, intersectionId)) {
+      return invalid('INVALID_LOCATION', 'Settlements cannot be built on the sea', { intersectionId });
+    }
+
+    const knight = gameState.citiesAndKnights?.knights.find(other => other.intersectionId === intersectionId);
+    if (knight) {
+      return invalid('LOCATION_OCCUPIED', 'Intersection has a knight', { intersectionId, playerId: knight.playerId });
     }
 
     // Check distance rule - no settlements within 2 edges
@@ -71,13 +120,13 @@ export class BuildingManager {
     }
 
     // During setup phase, no connectivity check needed
-    if (gameState.phase === 'SETUP_ROUND_1' || gameState.phase === 'SETUP_ROUND_2') {
+    if (isSetup) {
       return { valid: true };
     }
 
-    // Check connectivity - settlement must connect to player's road
+    // Check connectivity - settlement must connect to player's road (or, with Seafarers, ship)
     if (!this.isSettlementConnected(gameState, playerId, intersectionId)) {
-      return { valid: false, error: 'Settlement must connect to your road' };
+      return invalid('NOT_CONNECTED', 'Settlement must connect to your road', { intersectionId });
     }
 
     return { valid: true };
@@ -87,27 +136,31 @@ export class BuildingManager {
     gameState: GameState, 
     playerId: string, 
     intersectionId: string
-  ): { valid: boolean; error?: string } {
+  ): ValidationResult {
     const player = gameState.players.find(p => p.id === playerId);
     if (!player) {
-      return { valid: false, error: 'Player not found' };
+      return invalid('PLAYER_NOT_FOUND', 'Player not found', { playerId });
+    }
+
+    if (this.getRemainingBuildings(player, getRules(gameState)).cities === 0) {
+      return invalid('NO_PIECES_REMAINING', 'No cities remaining', { piece: 'city' });
     }
 
     // Check if player has resources
     if (!ResourceManager.hasResources(player.resources, BUILDING_COSTS.city)) {
-      return { valid: false, error: 'Insufficient resources for city' };
+      return insufficientResources('Insufficient resources for city', player.resources, BUILDING_COSTS.city);
     }
 
     // Check if intersection has player's settlement
     const intersection = gameState.board.intersections.get(intersectionId);
     if (!intersection) {
-      return { valid: false, error: 'Invalid intersection location' };
+      return invalid('INVALID_LOCATION', 'Invalid intersection location', { intersectionId });
     }
 
     if (!intersection.building || 
         intersection.building.type !== 'settlement' || 
         intersection.building.playerId !== playerId) {
-      return { valid: false, error: 'Can only upgrade your own settlements to cities' };
+      return invalid('NOT_OWNER', 'Can only upgrade your own settlements to cities', { intersectionId });
     }
 
     return { valid: true };
@@ -116,98 +169,101 @@ export class BuildingManager {
   static buildRoad(gameState: GameState, playerId: string, edgeId: string): GameState {
     const validation = this.canBuildRoad(gameState, playerId, edgeId);
     if (!validation.valid) {
-      throw new Error(validation.error);
+      throw RuleViolationError.fromValidation(validation);
     }
 
-    const newState = { ...gameState };
-    const playerIndex = newState.players.findIndex(p => p.id === playerId);
-    const player = newState.players[playerIndex];
+    const isSetup = this.isSetupPhase(gameState);
 
-    // Deduct resources
-    newState.players[playerIndex].resources = ResourceManager.subtractResources(
-      player.resources,
-      BUILDING_COSTS.road
-    );
+    // Deduct resources (except during setup) and add to player's buildings
+    const newState = updatePlayer(gameState, playerId, player => ({
+      resources: isSetup ? player.resources : ResourceManager.subtractResources(player.resources, BUILDING_COSTS.road),
+      buildings: { ...player.buildings, roads: [...player.buildings.roads, edgeId] }
+    }));
 
     // Place road
-    const edge = newState.board.edges.get(edgeId)!;
-    edge.road = { playerId };
-    
-    // Add to player's buildings
-    newState.players[playerIndex].buildings.roads.push(edgeId);
-
-    return newState;
+    return updateEdge(
+      isSetup ? newState : ResourceManager.returnToBank(newState, BUILDING_COSTS.road),
+      edgeId,
+      { road: { playerId } }
+    );
   }
 
   static buildSettlement(gameState: GameState, playerId: string, intersectionId: string): GameState {
     const validation = this.canBuildSettlement(gameState, playerId, intersectionId);
     if (!validation.valid) {
-      throw new Error(validation.error);
+      throw RuleViolationError.fromValidation(validation);
     }
 
-    const newState = { ...gameState };
-    const playerIndex = newState.players.findIndex(p => p.id === playerId);
-    const player = newState.players[playerIndex];
-
-    // Deduct resources (except during setup)
-    if (gameState.phase !== 'SETUP_ROUND_1' && gameState.phase !== 'SETUP_ROUND_2') {
-      newState.players[playerIndex].resources = ResourceManager.subtractResources(
-        player.resources,
-        BUILDING_COSTS.settlement
-      );
-    }
+    const isSetup = this.isSetupPhase(gameState);
+    const startingResources = gameState.phase === 'SETUP_ROUND_2'
+      ? ResourceManager.getStartingResources(gameState, intersectionId)
+      : {};
+
+    // Pay for the settlement (or, for the second setup settlement, collect its starting resources),
+    // add to player's buildings and update victory points
+    const newState = updatePlayer(gameState, playerId, player => ({
+      resources: isSetup
+        ? ResourceManager.addResources(player.resources, startingResources)
+        : ResourceManager.subtractResources(player.resources, BUILDING_COSTS.settlement),
+      buildings: { ...player.buildings, settlements: [...player.buildings.settlements, intersectionId] },
+      victoryPoints: player.victoryPoints + 1
+    }));
 
     // Place settlement
-    const intersection = newState.board.intersections.get(intersectionId)!;
-    intersection.building = { type: 'settlement', playerId };
-    
-    // Add to player's buildings
-    newState.players[playerIndex].buildings.settlements.push(intersectionId);
-
-    // Update victory points
-    newState.players[playerIndex].victoryPoints += 1;
-
-    return newState;
+    return updateIntersection(
+      isSetup
+        ? ResourceManager.takeFromBank(newState, startingResources)
+        : ResourceManager.returnToBank(newState, BUILDING_COSTS.settlement),
+      intersectionId,
+      { building: { type: 'settlement', playerId } }
+    );
   }
 
   static buildCity(gameState: GameState, playerId: string, intersectionId: string): GameState {
     const validation = this.canBuildCity(gameState, playerId, intersectionId);
     if (!validation.valid) {
-      throw new Error(validation.error);
+      throw RuleViolationError.fromValidation(validation);
     }
 
-    const newState = { ...gameState };
-    const playerIndex = newState.players.findIndex(p => p.id === playerId);
-    const player = newState.players[playerIndex];
-
-    // Deduct resources
-    newState.players[playerIndex].resources = ResourceManager.subtractResources(
-      player.resources,
-      BUILDING_COSTS.city
-    );
+    // Deduct resources, move from settlements to cities and update victory points
+    // (city worth 2, settlement worth 1, so +1 net)
+    const newState = updatePlayer(gameState, playerId, player => ({
+      resources: ResourceManager.subtractResources(player.resources, BUILDING_COSTS.city),
+      buildings: {
+        ...player.buildings,
+        settlements: player.buildings.settlements.filter(id => id !== intersectionId),
+        cities: [...player.buildings.cities, intersectionId]
+      },
+      victoryPoints: player.victoryPoints + 1
+    }));
 
     // Upgrade settlement to city
-    const intersection = newState.board.intersections.get(intersectionId)!;
-    intersection.building = { type: 'city', playerId };
-    
-    // Remove from settlements, add to cities
-    const settlementIndex = newState.players[playerIndex].buildings.settlements.indexOf(intersectionId);
-    newState.players[playerIndex].buildings.settlements.splice(settlementIndex, 1);
-    newState.players[playerIndex].buildings.cities.push(intersectionId);
+    return updateIntersection(ResourceManager.returnToBank(newState, BUILDING_COSTS.city), intersectionId, {
+      building: { type: 'city', playerId }
+    });
+  }
 
-    // Update victory points (city worth 2, settlement worth 1, so +1 net)
-    newState.players[playerIndex].victoryPoints += 1;
+  static isSetupPhase(gameState: GameState): boolean {
+    return gameState.phase === 'SETUP_ROUND_1' || gameState.phase === 'SETUP_ROUND_2';
+  }
 
-    return newState;
+  // Each setup round a player places one settlement and then one road touching it
+  static getSetupPiece(gameState: GameState, player: Player): 'settlement' | 'road' | undefined {
+    const round = gameState.phase === 'SETUP_ROUND_1' ? 1 : 2;
+    if (player.buildings.settlements.length + player.buildings.cities.length < round) {
+      return 'settlement';
+    }
+    return player.buildings.roads.length < round ? 'road' : undefined;
   }
 
-  private static checkDistanceRule(
+  // No building on the intersection's neighbours (the spot itself may still be taken)
+  static checkDistanceRule(
     gameState: GameState, 
     intersectionId: string
-  ): { valid: boolean; error?: string } {
+  ): ValidationResult {
     const intersection = gameState.board.intersections.get(intersectionId);
     if (!intersection) {
-      return { valid: false, error: 'Invalid intersection' };
+      return invalid('INVALID_LOCATION', 'Invalid intersection', { intersectionId });
     }
 
     // Check all adjacent intersections (connected by edges)
@@ -221,10 +277,10 @@ export class BuildingManager {
 
       const otherIntersection = gameState.board.intersections.get(otherIntersectionId);
       if (otherIntersection?.building) {
-        return { 
-          valid: false, 
-          error: 'Cannot place settlement adjacent to another building (distance rule)' 
-        };
+        return invalid('DISTANCE_RULE', 'Cannot place settlement adjacent to another building (distance rule)', {
+          intersectionId,
+          conflictingIntersectionId: otherIntersectionId
+        });
       }
     }
 
@@ -270,10 +326,10 @@ export class BuildingManager {
     const intersection = gameState.board.intersections.get(intersectionId);
     if (!intersection) return false;
 
-    // Check if any connected edge has player's road
+    // Check if any connected edge has player's road or ship
     for (const edgeId of intersection.edges) {
       const edge = gameState.board.edges.get(edgeId);
-      if (edge?.road?.playerId === playerId) {
+      if (edge?.road?.playerId === playerId || edge?.ship?.playerId === playerId) {
         return true;
       }
     }
@@ -281,16 +337,24 @@ export class BuildingManager {
     return false;
   }
 
-  static getRemainingBuildings(player: Player): { roads: number; settlements: number; cities: number } {
+  static getRemainingBuildings(
+    player: Player,
+    rules: GameRules = DEFAULT_GAME_RULES
+  ): { roads: number; settlements: number; cities: number } {
+    const limits = rules.buildingLimits;
     return {
-      roads: 15 - player.buildings.roads.length,
-      settlements: 5 - player.buildings.settlements.length,
-      cities: 4 - player.buildings.cities.length
+      roads: limits.roads - player.buildings.roads.length,
+      settlements: limits.settlements - player.buildings.settlements.length,
+      cities: limits.cities - player.buildings.cities.length
     };
   }
 
-  static canPlayerBuild(player: Player, buildingType: 'road' | 'settlement' | 'city'): boolean {
-    const remaining = this.getRemainingBuildings(player);
+  static canPlayerBuild(
+    player: Player,
+    buildingType: 'road' | 'settlement' | 'city',
+    rules: GameRules = DEFAULT_GAME_RULES
+  ): boolean {
+    const remaining = this.getRemainingBuildings(player, rules);
     
     switch (buildingType) {
       case 'road':
@@ -0,0 +1,676 @@
+import {
+  GameState,
+  ActionType,
+  Player,
+  Commodities,
+  CommodityType,
+  ImprovementTrack,
+  ProgressCardType,
+  Knight,
+  CitiesAndKnightsState,
+  CitiesAndKnightsPlayer,
+  BarbarianAttack,
+  Resources,
+  ResourceType,
+  TerrainType,
+  COMMODITY_TYPES,
+  COMMODITY_TERRAINS,
+  IMPROVEMENT_TRACKS,
+  EVENT_DIE_FACES,
+  RESOURCE_TYPES
+} from './types';
+import { BoardGenerator } from './board';
+import { ResourceManager } from './resources';
+import { RandomGenerator, RandomManager } from './random';
+import { ValidationResult, RuleViolationError, invalid, insufficientResources } from './errors';
+import { updatePlayer, updateIntersection } from './state';
+
+export const CITIES_AND_KNIGHTS_VICTORY_POINTS = 13;
+
+// The barbarian ship attacks when it has sailed this many steps
+export const BARBARIAN_TRACK_LENGTH = 7;
+
+export const KNIGHT_COSTS: Record<'build' | 'activate' | 'promote', Partial<Resources>> = {
+  build: { wool: 1, ore: 1 },
+  activate: { wheat: 1 },
+  promote: { wool: 1, ore: 1 }
+};
+
+// Which commodity pays for each improvement track
+export const TRACK_COMMODITIES: Record<ImprovementTrack, CommodityType> = {
+  trade: 'cloth',
+  politics: 'coin',
+  science: 'paper'
+};
+
+export const PROGRESS_DECKS: Record<ImprovementTrack, Partial<Record<ProgressCardType, number>>> = {
+  trade: { resourceMonopoly: 4, tradeMonopoly: 2 },
+  politics: { warlord: 2, constitution: 1 },
+  science: { irrigation: 2, mining: 2, printer: 1 }
+};
+
+const VICTORY_PROGRESS_CARDS: ProgressCardType[] = ['printer', 'constitution'];
+const MAX_IMPROVEMENT_LEVEL = 5;
+const METROPOLIS_LEVEL = 4;
+export const METROPOLIS_POINTS = 2;
+const MIGHTY_KNIGHT_POLITICS_LEVEL = 3;
+const KNIGHTS_PER_LEVEL = 2;
+const PROGRESS_HAND_LIMIT = 4;
+
+export interface ProgressCardChoice {
+  resourceType?: ResourceType; // resource monopoly
+  commodityType?: CommodityType; // trade monopoly
+}
+
+/**
+ * The Cities & Knights expansion. Its state lives in `gameState.citiesAndKnights`,
+ * which only games created with the expansion have; everything here refuses to
+ * act on a base game.
+ *
+ * Simplified from the printed rules:
+ * - commodities don't count toward the hand limit when a 7 is rolled;
+ * - a player holding four progress cards doesn't draw a fifth, instead of
+ *   drawing it and discarding one;
+ * - a defense tied at the top scores nothing, where the tied leaders would each
+ *   draw a progress card;
+ * - commodities can't be traded with the bank.
+ */
+export class CitiesAndKnightsManager {
+  static createState(playerIds: string[], rng: RandomGenerator): CitiesAndKnightsState {
+    const deck = (track: ImprovementTrack) => RandomManager.shuffle(
+      (Object.entries(PROGRESS_DECKS[track]) as [ProgressCardType, number][])
+        .flatMap(([cardType, count]) => Array<ProgressCardType>(count).fill(cardType)),
+      rng
+    );
+
+    return {
+      players: Object.fromEntries(playerIds.map(playerId => [playerId, {
+        commodities: { paper: 0, cloth: 0, coin: 0 },
+        improvements: { trade: 0, politics: 0, science: 0 },
+        progressCards: [],
+        victoryCards: [],
+        defenderPoints: 0
+      }])),
+      knights: [],
+      barbarianPosition: 0,
+      barbarianAttacks: 0,
+      metropolises: {},
+      progressDecks: { trade: deck('trade'), politics: deck('politics'), science: deck('science') }
+    };
+  }
+
+  static isEnabled(gameState: GameState): boolean {
+    return gameState.citiesAndKnights !== undefined;
+  }
+
+  static getKnightAt(gameState: GameState, intersectionId: string): Knight | undefined {
+    return gameState.citiesAndKnights?.knights.find(knight => knight.intersectionId === intersectionId);
+  }
+
+  static getKnights(gameState: GameState, playerId: string): Knight[] {
+    return gameState.citiesAndKnights?.knights.filter(knight => knight.playerId === playerId) ?? [];
+  }
+
+  static canBuildKnight(gameState: GameState, playerId: string, intersectionId: string): ValidationResult {
+    const context = this.validatePlayer(gameState, playerId);
+    if (!context.valid) {
+      return context;
+    }
+    const player = gameState.players.find(p => p.id === playerId)!;
+
+    const intersection = gameState.board.intersections.get(intersectionId);
+    if (!intersection) {
+      return invalid('INVALID_LOCATION', 'Invalid intersection location', { intersectionId });
+    }
+    const occupant = intersection.building?.playerId ?? this.getKnightAt(gameState, intersectionId)?.playerId;
+    if (occupant) {
+      return invalid('LOCATION_OCCUPIED', 'Intersection already occupied', { intersectionId, playerId: occupant });
+    }
+
+    const connected = Array.from(gameState.board.edges.values())
+      .some(edge => edge.road?.playerId === playerId && edge.intersections.includes(intersectionId));
+    if (!connected) {
+      return invalid('NOT_CONNECTED', 'Knight must stand on one of your roads', { intersectionId });
+    }
+
+    if (this.getKnights(gameState, playerId).filter(knight => knight.level === 1).length >= KNIGHTS_PER_LEVEL) {
+      return invalid('NO_PIECES_REMAINING', 'No basic knights remaining', { piece: 'knight' });
+    }
+
+    if (!ResourceManager.hasResources(player.resources, KNIGHT_COSTS.build)) {
+      return insufficientResources('Insufficient resources for knight', player.resources, KNIGHT_COSTS.build);
+    }
+
+    return { valid: true };
+  }
+
+  static buildKnight(gameState: GameState, playerId: string, intersectionId: string): GameState {
+    const validation = this.canBuildKnight(gameState, playerId, intersectionId);
+    if (!validation.valid) {
+      throw RuleViolationError.fromValidation(validation);
+    }
+
+    const paid = this.pay(gameState, playerId, KNIGHT_COSTS.build);
+    return this.update(paid, ck => ({
+      knights: [...ck.knights, { intersectionId, playerId, level: 1, active: false }]
+    }));
+  }
+
+  static canActivateKnight(gameState: GameState, playerId: string, intersectionId: string): ValidationResult {
+    const knight = this.validateOwnKnight(gameState, playerId, intersectionId);
+    if (!knight.valid) {
+      return knight;
+    }
+    if (this.getKnightAt(gameState, intersectionId)!.active) {
+      return invalid('INVALID_ACTION', 'Knight is already active', { intersectionId });
+    }
+
+    const player = gameState.players.find(p => p.id === playerId)!;
+    if (!ResourceManager.hasResources(player.resources, KNIGHT_COSTS.activate)) {
+      return insufficientResources('Insufficient resources to activate knight', player.resources, KNIGHT_COSTS.activate);
+    }
+
+    return { valid: true };
+  }
+
+  static activateKnight(gameState: GameState, playerId: string, intersectionId: string): GameState {
+    const validation = this.canActivateKnight(gameState, playerId, intersectionId);
+    if (!validation.valid) {
+      throw RuleViolationError.fromValidation(validation);
+    }
+
+    return this.updateKnight(this.pay(gameState, playerId, KNIGHT_COSTS.activate), intersectionId, { active: true });
+  }
+
+  static canPromoteKnight(gameState: GameState, playerId: string, intersectionId: string): ValidationResult {
+    const knight = this.validateOwnKnight(gameState, playerId, intersectionId);
+    if (!knight.valid) {
+      return knight;
+    }
+
+    const { level } = this.getKnightAt(gameState, intersectionId)!;
+    if (level === 3) {
+      return invalid('INVALID_ACTION', 'Knight is already mighty', { intersectionId });
+    }
+    const politics = gameState.citiesAndKnights!.players[playerId].improvements.politics;
+    if (level === 2 && politics < MIGHTY_KNIGHT_POLITICS_LEVEL) {
+      return invalid('INVALID_ACTION', 'Mighty knights need politics level 3', {
+        track: 'politics',
+        required: MIGHTY_KNIGHT_POLITICS_LEVEL,
+        level: politics
+      });
+    }
+    if (this.getKnights(gameState, playerId).filter(other => other.level === level + 1).length >= KNIGHTS_PER_LEVEL) {
+      return invalid('NO_PIECES_REMAINING', 'No knights of that level remaining', { piece: 'knight' });
+    }
+
+    const player = gameState.players.find(p => p.id === playerId)!;
+    if (!ResourceManager.hasResources(player.resources, KNIGHT_COSTS.promote)) {
+      return insufficientResources('Insufficient resources to promote knight', player.resources, KNIGHT_COSTS.promote);
+    }
+
+    return { valid: true };
+  }
+
+  static promoteKnight(gameState: GameState, playerId: string, intersectionId: string): GameState {
+    const validation = this.canPromoteKnight(gameState, playerId, intersectionId);
+    if (!validation.valid) {
+      throw RuleViolationError.fromValidation(validation);
+    }
+
+    const { level } = this.getKnightAt(gameState, intersectionId)!;
+    return this.updateKnight(this.pay(gameState, playerId, KNIGHT_COSTS.promote), intersectionId, {
+      level: (level + 1) as Knight['level']
+    });
+  }
+
+  // The next level of a track costs as many of its commodity as the level's number
+  static getImprovementCost(gameState: GameState, playerId: string, track: ImprovementTrack): Partial<Commodities> {
+    const level = gameState.citiesAndKnights!.players[playerId].improvements[track];
+    return { [TRACK_COMMODITIES[track]]: level + 1 };
+  }
+
+  static canImproveCity(gameState: GameState, playerId: string, track: ImprovementTrack): ValidationResult {
+    const context = this.validatePlayer(gameState, playerId);
+    if (!context.valid) {
+      return context;
+    }
+    if (!IMPROVEMENT_TRACKS.includes(track)) {
+      return invalid('INVALID_ACTION', `Unknown improvement track: ${track}`, { track });
+    }
+
+    const player = gameState.players.find(p => p.id === playerId)!;
+    if (player.buildings.cities.length === 0) {
+      return invalid('INVALID_ACTION', 'City improvements need a city', { track });
+    }
+
+    const { commodities, improvements } = gameState.citiesAndKnights!.players[playerId];
+    if (improvements[track] >= MAX_IMPROVEMENT_LEVEL) {
+      return invalid('INVALID_ACTION', `The ${track} track is already complete`, { track });
+    }
+
+    const commodity = TRACK_COMMODITIES[track];
+    const required = improvements[track] + 1;
+    if (commodities[commodity] < required) {
+      return invalid('INSUFFICIENT_RESOURCES', `Insufficient ${commodity} for the ${track} improvement`, {
+        required: { [commodity]: required },
+        missing: { [commodity]: required - commodities[commodity] }
+      });
+    }
+
+    return { valid: true };
+  }
+
+  static improveCity(gameState: GameState, playerId: string, track: ImprovementTrack): GameState {
+    const validation = this.canImproveCity(gameState, playerId, track);
+    if (!validation.valid) {
+      throw RuleViolationError.fromValidation(validation);
+    }
+
+    const commodity = TRACK_COMMODITIES[track];
+    const improved = this.updatePlayerState(gameState, playerId, player => ({
+      commodities: { ...player.commodities, [commodity]: player.commodities[commodity] - player.improvements[track] - 1 },
+      improvements: { ...player.improvements, [track]: player.improvements[track] + 1 }
+    }));
+
+    return this.updateMetropolis(improved, playerId, track);
+  }
+
+  static canPlayProgressCard(gameState: GameState, playerId: string, cardType: ProgressCardType): ValidationResult {
+    const context = this.validatePlayer(gameState, playerId);
+    if (!context.valid) {
+      return context;
+    }
+
+    if (!gameState.citiesAndKnights!.players[playerId].progressCards.includes(cardType)) {
+      return invalid('CARD_NOT_OWNED', `Player does not have ${cardType} card`, { cardType });
+    }
+
+    const currentPlayerId = gameState.players[gameState.currentPlayerIndex].id;
+    if (currentPlayerId !== playerId) {
+      return invalid('NOT_YOUR_TURN', 'Can only play progress cards on your turn', { currentPlayerId });
+    }
+
+    return { valid: true };
+  }
+
+  static playProgressCard(
+    gameState: GameState,
+    playerId: string,
+    cardType: ProgressCardType,
+    choice: ProgressCardChoice = {}
+  ): GameState {
+    const validation = this.canPlayProgressCard(gameState, playerId, cardType);
+    if (!validation.valid) {
+      throw RuleViolationError.fromValidation(validation);
+    }
+
+    const played = this.updatePlayerState(gameState, playerId, player => {
+      const index = player.progressCards.indexOf(cardType);
+      return { progressCards: [...player.progressCards.slice(0, index), ...player.progressCards.slice(index + 1)] };
+    });
+
+    switch (cardType) {
+      case 'irrigation':
+      case 'mining':
+        return this.harvest(played, playerId, this.getHarvest(played, playerId, cardType));
+
+      case 'resourceMonopoly': {
+        const { resourceType } = choice;
+        if (!resourceType || !RESOURCE_TYPES.includes(resourceType)) {
+          throw new RuleViolationError('INVALID_ACTION', 'Choose a resource to take', { cardType });
+        }
+        return this.takeFromOpponents(played, playerId, player => {
+          const taken = Math.min(2, player.resources[resourceType]);
+          return { resources: { [resourceType]: taken } };
+        });
+      }
+
+      case 'tradeMonopoly': {
+        const { commodityType } = choice;
+        if (!commodityType || !COMMODITY_TYPES.includes(commodityType)) {
+          throw new RuleViolationError('INVALID_ACTION', 'Choose a commodity to take', { cardType });
+        }
+        return this.takeFromOpponents(played, playerId, (player, ck) => {
+          const taken = Math.min(1, ck.players[player.id].commodities[commodityType]);
+          return { commodities: { [commodityType]: taken } };
+        });
+      }
+
+      case 'warlord':
+        return this.update(played, ck => ({
+          knights: ck.knights.map(knight => knight.playerId === playerId ? { ...knight, active: true } : knight)
+        }));
+
+      default:
+        throw new RuleViolationError('CARD_NOT_PLAYABLE', `${cardType} cannot be played`, { cardType });
+    }
+  }
+
+  /**
+   * The expansion's part of a roll: the event die moves the barbarians or hands
+   * out progress cards, and cities on commodity hexes produce their commodity.
+   */
+  static resolveRoll(gameState: GameState, diceRoll: [number, number]): GameState {
+    const { value: face, newState } = RandomManager.draw(gameState, rng =>
+      EVENT_DIE_FACES[RandomManager.nextInt(rng, EVENT_DIE_FACES.length)]
+    );
+
+    let state = this.update(newState, () => ({ eventDie: face, lastBarbarianAttack: undefined }));
+    state = face === 'ship'
+      ? this.advanceBarbarians(state)
+      : this.dealProgressCards(state, face, diceRoll[0]);
+
+    const diceSum = diceRoll[0] + diceRoll[1];
+    return diceSum === 7 ? state : this.produceCommodities(state, diceSum);
+  }
+
+  // Irrigation and mining: two cards for every field (or mountain) hex next to the player's buildings
+  static getHarvest(gameState: GameState, playerId: string, cardType: 'irrigation' | 'mining'): Partial<Resources> {
+    const [terrain, resource]: [TerrainType, ResourceType] = cardType === 'irrigation' ? ['field', 'wheat'] : ['mountain', 'ore'];
+    const hexes = new Set<string>();
+    gameState.board.intersections.forEach(intersection => {
+      if (intersection.building?.playerId !== playerId) return;
+      intersection.hexes.forEach(hex => {
+        const key = BoardGenerator.coordToKey(hex);
+        if (gameState.board.tiles.get(key)?.terrain === terrain) {
+          hexes.add(key);
+        }
+      });
+    });
+    return { [resource]: hexes.size * 2 };
+  }
+
+  // Cities on the board, which the barbarians attack with
+  static getBarbarianStrength(gameState: GameState): number {
+    return gameState.players.reduce((sum, player) => sum + player.buildings.cities.length, 0);
+  }
+
+  // Levels of the player's active knights, which defend against the barbarians
+  static getDefense(gameState: GameState, playerId: string): number {
+    return this.getKnights(gameState, playerId)
+      .filter(knight => knight.active)
+      .reduce((sum, knight) => sum + knight.level, 0);
+  }
+
+  // The expansion's actions `playerId` can afford and has somewhere to take
+  static getValidActions(gameState: GameState, playerId: string): ActionType[] {
+    if (!gameState.citiesAndKnights || !gameState.citiesAndKnights.players[playerId]) {
+      return [];
+    }
+
+    const actions: ActionType[] = [];
+    const intersectionIds = Array.from(gameState.board.intersections.keys());
+    const knights = this.getKnights(gameState, playerId);
+
+    if (intersectionIds.some(id => this.canBuildKnight(gameState, playerId, id).valid)) {
+      actions.push('BUILD_KNIGHT');
+    }
+    if (knights.some(knight => this.canActivateKnight(gameState, playerId, knight.intersectionId).valid)) {
+      actions.push('ACTIVATE_KNIGHT');
+    }
+    if (knights.some(knight => this.canPromoteKnight(gameState, playerId, knight.intersectionId).valid)) {
+      actions.push('PROMOTE_KNIGHT');
+    }
+    if (IMPROVEMENT_TRACKS.some(track => this.canImproveCity(gameState, playerId, track).valid)) {
+      actions.push('IMPROVE_CITY');
+    }
+    if (gameState.citiesAndKnights.players[playerId].progressCards.length > 0) {
+      actions.push('PLAY_PROGRESS_CARD');
+    }
+
+    return actions;
+  }
+
+  /** Cities & Knights' second setup building is a city rather than a settlement. */
+  static placeSetupCity(gameState: GameState, playerId: string, intersectionId: string): GameState {
+    const newState = updatePlayer(gameState, playerId, player => ({
+      buildings: {
+        ...player.buildings,
+        settlements: player.buildings.settlements.filter(id => id !== intersectionId),
+        cities: [...player.buildings.cities, intersectionId]
+      },
+      victoryPoints: player.victoryPoints + 1
+    }));
+    return updateIntersection(newState, intersectionId, { building: { type: 'city', playerId } });
+  }
+
+  private static validatePlayer(gameState: GameState, playerId: string): ValidationResult {
+    if (!gameState.citiesAndKnights) {
+      return invalid('EXPANSION_DISABLED', 'This game is not played with Cities & Knights');
+    }
+    if (!gameState.players.some(p => p.id === playerId)) {
+      return invalid('PLAYER_NOT_FOUND', 'Player not found', { playerId });
+    }
+    return { valid: true };
+  }
+
+  private static validateOwnKnight(gameState: GameState, playerId: string, intersectionId: string): ValidationResult {
+    const context = this.validatePlayer(gameState, playerId);
+    if (!context.valid) {
+      return context;
+    }
+
+    const knight = this.getKnightAt(gameState, intersectionId);
+    if (!knight) {
+      return invalid('INVALID_LOCATION', 'No knight at that intersection', { intersectionId });
+    }
+    if (knight.playerId !== playerId) {
+      return invalid('NOT_OWNER', 'Knight belongs to another player', { intersectionId, playerId: knight.playerId });
+    }
+    return { valid: true };
+  }
+
+  private static pay(gameState: GameState, playerId: string, cost: Partial<Resources>): GameState {
+    const paid = updatePlayer(gameState, playerId, player => ({
+      resources: ResourceManager.subtractResources(player.resources, cost)
+    }));
+    return ResourceManager.returnToBank(paid, cost);
+  }
+
+  private static update(
+    gameState: GameState,
+    update: (state: CitiesAndKnightsState) => Partial<CitiesAndKnightsState>
+  ): GameState {
+    const citiesAndKnights = { ...gameState.citiesAndKnights!, ...update(gameState.citiesAndKnights!) };
+    if (citiesAndKnights.lastBarbarianAttack === undefined) {
+      delete citiesAndKnights.lastBarbarianAttack;
+    }
+    return { ...gameState, citiesAndKnights };
+  }
+
+  private static updatePlayerState(
+    gameState: GameState,
+    playerId: string,
+    update: (player: CitiesAndKnightsPlayer) => Partial<CitiesAndKnightsPlayer>
+  ): GameState {
+    return this.update(gameState, ck => ({
+      players: { ...ck.players, [playerId]: { ...ck.players[playerId], ...update(ck.players[playerId]) } }
+    }));
+  }
+
+  private static updateKnight(gameState: GameState, intersectionId: string, update: Partial<Knight>): GameState {
+    return this.update(gameState, ck => ({
+      knights: ck.knights.map(knight => knight.intersectionId === intersectionId ? { ...knight, ...update } : knight)
+    }));
+  }
+
+  /**
+   * The first player to reach level 4 of a track puts its metropolis on one of
+   * their cities; reaching level 5 first takes it from a holder still on 4.
+   */
+  private static updateMetropolis(gameState: GameState, playerId: string, track: ImprovementTrack): GameState {
+    const ck = gameState.citiesAndKnights!;
+    const level = ck.players[playerId].improvements[track];
+    const heldAt = ck.metropolises[track];
+    const holderId = heldAt ? gameState.board.intersections.get(heldAt)?.building?.playerId : undefined;
+
+    if (level < METROPOLIS_LEVEL || holderId === playerId) {
+      return gameState;
+    }
+    if (holderId && !(level === MAX_IMPROVEMENT_LEVEL && ck.players[holderId].improvements[track] < MAX_IMPROVEMENT_LEVEL)) {
+      return gameState;
+    }
+
+    const hosts = Object.values(ck.metropolises);
+    const city = gameState.players.find(p => p.id === playerId)!.buildings.cities.find(id => !hosts.includes(id));
+    if (!city) {
+      return gameState;
+    }
+
+    let newState = this.update(gameState, state => ({ metropolises: { ...state.metropolises, [track]: city } }));
+    if (holderId) {
+      newState = updatePlayer(newState, holderId, holder => ({ victoryPoints: holder.victoryPoints - METROPOLIS_POINTS }));
+    }
+    return updatePlayer(newState, playerId, player => ({ victoryPoints: player.victoryPoints + METROPOLIS_POINTS }));
+  }
+
+  private static harvest(gameState: GameState, playerId: string, gained: Partial<Resources>): GameState {
+    const supply = ResourceManager.canTakeFromBank(gameState, gained);
+    if (!supply.valid) {
+      throw RuleViolationError.fromValidation(supply);
+    }
+
+    return updatePlayer(ResourceManager.takeFromBank(gameState, gained), playerId, player => ({
+      resources: ResourceManager.addResources(player.resources, gained)
+    }));
+  }
+
+  private static takeFromOpponents(
+    gameState: GameState,
+    playerId: string,
+    take: (opponent: Player, ck: CitiesAndKnightsState) => { resources?: Partial<Resources>; commodities?: Partial<Commodities> }
+  ): GameState {
+    return gameState.players
+      .filter(opponent => opponent.id !== playerId)
+      .reduce((state, opponent) => {
+        const { resources = {}, commodities = {} } = take(opponent, state.citiesAndKnights!);
+        let newState = updatePlayer(state, opponent.id, player => ({
+          resources: ResourceManager.subtractResources(player.resources, resources)
+        }));
+        newState = updatePlayer(newState, playerId, player => ({
+          resources: ResourceManager.addResources(player.resources, resources)
+        }));
+        newState = this.updatePlayerState(newState, opponent.id, player => ({
+          commodities: this.addCommodities(player.commodities, commodities, -1)
+        }));
+        return this.updatePlayerState(newState, playerId, player => ({
+          commodities: this.addCommodities(player.commodities, commodities)
+        }));
+      }, gameState);
+  }
+
+  private static addCommodities(commodities: Commodities, added: Partial<Commodities>, sign: number = 1): Commodities {
+    return COMMODITY_TYPES.reduce((total, commodity) =>
+      ({ ...total, [commodity]: total[commodity] + sign * (added[commodity] ?? 0) }), commodities);
+  }
+
+  private static produceCommodities(gameState: GameState, diceSum: number): GameState {
+    let newState = gameState;
+    gameState.board.tiles.forEach(tile => {
+      const commodity = COMMODITY_TERRAINS[tile.terrain];
+      if (tile.numberDisc !== diceSum || tile.hasRobber || !commodity) return;
+
+      gameState.board.intersections.forEach(intersection => {
+        const onTile = intersection.hexes.some(hex => hex.q === tile.coordinate.q && hex.r === tile.coordinate.r);
+        if (onTile && intersection.building?.type === 'city') {
+          newState = this.updatePlayerState(newState, intersection.building.playerId, player => ({
+            commodities: this.addCommodities(player.commodities, { [commodity]: 1 })
+          }));
+        }
+      });
+    });
+    return newState;
+  }
+
+  /**
+   * Everyone with an improvement on the rolled track whose level covers the red
+   * die draws a card, starting with the current player. Victory point cards are
+   * revealed at once; a full hand of four skips the draw.
+   */
+  private static dealProgressCards(gameState: GameState, track: ImprovementTrack, redDie: number): GameState {
+    const count = gameState.players.length;
+    return Array.from({ length: count }, (_, offset) => gameState.players[(gameState.currentPlayerIndex + offset) % count])
+      .reduce((state, player) => {
+        const ck = state.citiesAndKnights!;
+        const { improvements, progressCards } = ck.players[player.id];
+        const deck = ck.progressDecks[track];
+        const cardType = deck[deck.length - 1];
+        const isVictoryCard = VICTORY_PROGRESS_CARDS.includes(cardType);
+        if (!cardType || improvements[track] === 0 || redDie > improvements[track] + 1) return state;
+        if (!isVictoryCard && progressCards.length >= PROGRESS_HAND_LIMIT) return state;
+
+        const drawn = this.update(state, current => ({
+          progressDecks: { ...current.progressDecks, [track]: deck.slice(0, -1) }
+        }));
+        if (!isVictoryCard) {
+          return this.updatePlayerState(drawn, player.id, hand => ({ progressCards: [...hand.progressCards, cardType] }));
+        }
+        return updatePlayer(
+          this.updatePlayerState(drawn, player.id, hand => ({ victoryCards: [...hand.victoryCards, cardType] })),
+          player.id,
+          holder => ({ victoryPoints: holder.victoryPoints + 1 })
+        );
+      }, gameState);
+  }
+
+  private static advanceBarbarians(gameState: GameState): GameState {
+    const position = gameState.citiesAndKnights!.barbarianPosition + 1;
+    return position < BARBARIAN_TRACK_LENGTH
+      ? this.update(gameState, () => ({ barbarianPosition: position }))
+      : this.resolveBarbarianAttack(gameState);
+  }
+
+  /**
+   * Cities attack, active knights defend. A successful defense makes its sole
+   * strongest defender the Defender of Catan (1 VP); a failed one costs the
+   * weakest defenders who own a city without a metropolis one such city. Either
+   * way the knights go home inactive and the ship sails again from the start.
+   */
+  private static resolveBarbarianAttack(gameState: GameState): GameState {
+    const strength = this.getBarbarianStrength(gameState);
+    const defenses = gameState.players.map(player => ({ player, defense: this.getDefense(gameState, player.id) }));
+    const defense = defenses.reduce((sum, entry) => sum + entry.defense, 0);
+    const metropolisCities = Object.values(gameState.citiesAndKnights!.metropolises);
+    const attack: BarbarianAttack = { strength, defense, pillaged: [] };
+
+    let newState = gameState;
+    if (defense >= strength) {
+      const best = Math.max(...defenses.map(entry => entry.defense));
+      const leaders = defenses.filter(entry => entry.defense === best);
+      if (best > 0 && leaders.length === 1) {
+        attack.defenderId = leaders[0].player.id;
+        newState = this.updatePlayerState(newState, attack.defenderId, player => ({ defenderPoints: player.defenderPoints + 1 }));
+        newState = updatePlayer(newState, attack.defenderId, player => ({ victoryPoints: player.victoryPoints + 1 }));
+      }
+    } else {
+      const exposed = defenses.filter(entry =>
+        entry.player.buildings.cities.some(city => !metropolisCities.includes(city)));
+      const weakest = Math.min(...exposed.map(entry => entry.defense));
+      exposed.filter(entry => entry.defense === weakest).forEach(({ player }) => {
+        const city = [...player.buildings.cities].reverse().find(id => !metropolisCities.includes(id))!;
+        attack.pillaged.push(city);
+        newState = this.reduceCity(newState, player.id, city);
+      });
+    }
+
+    return this.update(newState, ck => ({
+      knights: ck.knights.map(knight => knight.active ? { ...knight, active: false } : knight),
+      barbarianPosition: 0,
+      barbarianAttacks: ck.barbarianAttacks + 1,
+      lastBarbarianAttack: attack
+    }));
+  }
+
+  private static reduceCity(gameState: GameState, playerId: string, intersectionId: string): GameState {
+    const newState = updatePlayer(gameState, playerId, player => ({
+      buildings: {
+        ...player.buildings,
+        cities: player.buildings.cities.filter(id => id !== intersectionId),
+        settlements: [...player.buildings.settlements, intersectionId]
+      },
+      victoryPoints: player.victoryPoints - 1
+    }));
+    return updateIntersection(newState, intersectionId, { building: { type: 'settlement', playerId } });
+  }
+}
@@ -0,0 +1,306 @@
+import {
+  GameState,
+  GameStateView,
+  GameBoard,
+  Action,
+  Tile,
+  Intersection,
+  Edge,
+  GAME_PHASES,
+  DEVELOPMENT_CARD_TYPES,
+  ContractValidationError,
+  validatePlayer,
+  validatePlayerView,
+  validateTile,
+  validateIntersection,
+  validateEdge,
+  validateHexCoordinate,
+  validateRandomState,
+  validateResources,
+  validateGameEvent,
+  validateGameRules,
+  validateAction,
+  validateHarbor,
+  validateOpenTradeOffer,
+  validateCitiesAndKnightsState,
+  validateCitiesAndKnightsView,
+  validateSeafarersState,
+  expectObject,
+  expectArray,
+  expectString,
+  expectInteger,
+  expectOneOf
+} from './types';
+
+/**
+ * Wire format for GameState. The board Maps become plain objects keyed by id so
+ * the state survives JSON.stringify between services; everything else is copied
+ * as-is. Bump the version whenever the encoded shape changes.
+ */
+export const GAME_STATE_SCHEMA_VERSION = 2;
+
+export interface EncodedGameBoard extends Omit<GameBoard, 'tiles' | 'intersections' | 'edges'> {
+  tiles: Record<string, Tile>;
+  intersections: Record<string, Intersection>;
+  edges: Record<string, Edge>;
+}
+
+export interface EncodedGameState extends Omit<GameState, 'board' | 'undoHistory'> {
+  schemaVersion: number;
+  board: EncodedGameBoard;
+  undoHistory?: { checkpoint: EncodedGameState; actions: Action[] };
+}
+
+export interface EncodedGameStateView extends Omit<GameStateView, 'board'> {
+  schemaVersion: number;
+  board: EncodedGameBoard;
+}
+
+export class GameStateCodecError extends ContractValidationError {
+  constructor(path: string, reason: string) {
+    super(path, reason);
+    this.name = 'GameStateCodecError';
+  }
+}
+
+export function encodeGameState(gameState: GameState): EncodedGameState {
+  const { board, undoHistory, ...rest } = gameState;
+  return clone({
+    schemaVersion: GAME_STATE_SCHEMA_VERSION,
+    ...rest,
+    board: encodeBoard(board),
+    ...(undoHistory
+      ? { undoHistory: { checkpoint: encodeGameState(undoHistory.checkpoint), actions: undoHistory.actions } }
+      : {})
+  });
+}
+
+export function encodeGameStateView(view: GameStateView): EncodedGameStateView {
+  const { board, ...rest } = view;
+  return clone({ schemaVersion: GAME_STATE_SCHEMA_VERSION, ...rest, board: encodeBoard(board) });
+}
+
+function encodeBoard(board: GameBoard): EncodedGameBoard {
+  return {
+    ...board,
+    tiles: Object.fromEntries(board.tiles),
+    intersections: Object.fromEntries(board.intersections),
+    edges: Object.fromEntries(board.edges)
+  };
+}
+
+export function decodeGameState(data: unknown): GameState {
+  validateEncodedGameState(data);
+  return fromEncoded(clone(data));
+}
+
+function fromEncoded(encoded: EncodedGameState): GameState {
+  const { schemaVersion, board, undoHistory, ...rest } = encoded;
+  return {
+    ...rest,
+    board: {
+      ...board,
+      tiles: new Map(Object.entries(board.tiles)),
+      intersections: new Map(Object.entries(board.intersections)),
+      edges: new Map(Object.entries(board.edges))
+    },
+    ...(undoHistory
+      ? { undoHistory: { checkpoint: fromEncoded(undoHistory.checkpoint), actions: undoHistory.actions } }
+      : {})
+  };
+}
+
+// For services that act as a player, like the AI, and so only get that player's view
+export function decodeGameStateView(data: unknown): GameStateView {
+  validateEncodedGameStateView(data);
+  const { schemaVersion, board, ...rest } = clone(data);
+  return {
+    ...rest,
+    board: {
+      ...board,
+      tiles: new Map(Object.entries(board.tiles)),
+      intersections: new Map(Object.entries(board.intersections)),
+      edges: new Map(Object.entries(board.edges))
+    }
+  };
+}
+
+export function serializeGameState(gameState: GameState): string {
+  return JSON.stringify(encodeGameState(gameState));
+}
+
+export function deserializeGameState(json: string): GameState {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new GameStateCodecError('$', 'not valid JSON');
+  }
+  return decodeGameState(data);
+}
+
+/**
+ * Throws a GameStateCodecError pointing at the first field that does not match
+ * the encoded GameState schema.
+ */
+export function validateEncodedGameState(data: unknown): asserts data is EncodedGameState {
+  withCodecErrors(() => validateState(data));
+}
+
+export function validateEncodedGameStateView(data: unknown): asserts data is EncodedGameStateView {
+  withCodecErrors(() => validateState(data, '$', true));
+}
+
+function withCodecErrors(validate: () => void): void {
+  try {
+    validate();
+  } catch (error) {
+    if (error instanceof ContractValidationError && !(error instanceof GameStateCodecError)) {
+      throw new GameStateCodecError(error.path, error.reason);
+    }
+    throw error;
+  }
+}
+
+// A view swaps the hidden hands, decks and random state for counts, and has no undo history
+function validateState(data: unknown, path: string = '$', isView: boolean = false): void {
+  const state = expectObject(data, path);
+
+  if (state.schemaVersion !== GAME_STATE_SCHEMA_VERSION) {
+    throw new GameStateCodecError(
+      `${path}.schemaVersion`,
+      `unsupported schema version ${state.schemaVersion} (expected ${GAME_STATE_SCHEMA_VERSION})`
+    );
+  }
+
+  expectString(state.id, `${path}.id`);
+  expectOneOf(state.phase, GAME_PHASES, `${path}.phase`);
+  const players = expectArray(state.players, `${path}.players`);
+  if (players.length === 0) {
+    throw new GameStateCodecError(`${path}.players`, 'must not be empty');
+  }
+  const currentPlayerIndex = expectInteger(state.currentPlayerIndex, `${path}.currentPlayerIndex`);
+  if (currentPlayerIndex >= players.length) {
+    throw new GameStateCodecError(`${path}.currentPlayerIndex`, 'is out of range');
+  }
+  if (state.primaryPlayerIndex !== undefined &&
+      expectInteger(state.primaryPlayerIndex, `${path}.primaryPlayerIndex`) >= players.length) {
+    throw new GameStateCodecError(`${path}.primaryPlayerIndex`, 'is out of range');
+  }
+  players.forEach((player, index) => isView
+    ? validatePlayerView(player, `${path}.players[${index}]`)
+    : validatePlayer(player, `${path}.players[${index}]`));
+  if (isView && state.viewerId !== undefined) {
+    expectString(state.viewerId, `${path}.viewerId`);
+  }
+  if (state.resumePhase !== undefined) {
+    expectOneOf(state.resumePhase, GAME_PHASES, `${path}.resumePhase`);
+  }
+  if (state.pendingDiscards !== undefined) {
+    const playerIds = (players as GameState['players']).map(player => player.id);
+    Object.entries(expectObject(state.pendingDiscards, `${path}.pendingDiscards`)).forEach(([playerId, count]) => {
+      if (!playerIds.includes(playerId)) {
+        throw new GameStateCodecError(`${path}.pendingDiscards.${playerId}`, 'is not a player in this game');
+      }
+      expectInteger(count, `${path}.pendingDiscards.${playerId}`, 1);
+    });
+  }
+  if (state.freeRoadsRemaining !== undefined) {
+    expectInteger(state.freeRoadsRemaining, `${path}.freeRoadsRemaining`, 1, 2);
+  }
+  validateBoard(state.board, `${path}.board`);
+  if (isView) {
+    expectInteger(state.developmentCardsRemaining, `${path}.developmentCardsRemaining`);
+  } else {
+    expectArray(state.developmentCardDeck, `${path}.developmentCardDeck`)
+      .forEach((card, index) => expectOneOf(card, DEVELOPMENT_CARD_TYPES, `${path}.developmentCardDeck[${index}]`));
+  }
+  if (state.bank !== undefined) {
+    validateResources(state.bank, `${path}.bank`);
+  }
+  if (state.diceRoll !== undefined) {
+    const diceRoll = expectArray(state.diceRoll, `${path}.diceRoll`);
+    if (diceRoll.length !== 2) {
+      throw new GameStateCodecError(`${path}.diceRoll`, 'must contain exactly two dice');
+    }
+    diceRoll.forEach((die, index) => expectInteger(die, `${path}.diceRoll[${index}]`, 1, 6));
+  }
+  expectInteger(state.turn, `${path}.turn`, 1);
+  if (state.winner !== undefined) {
+    expectString(state.winner, `${path}.winner`);
+  }
+  if (!isView) {
+    expectInteger(state.seed, `${path}.seed`, 0, 0xffffffff);
+    validateRandomState(state.rng, `${path}.rng`);
+  }
+  if (state.events !== undefined) {
+    expectArray(state.events, `${path}.events`).forEach((event, index) => validateGameEvent(event, `${path}.events[${index}]`));
+  }
+  if (state.rules !== undefined) {
+    validateGameRules(state.rules, `${path}.rules`);
+  }
+  if (state.tradeOffers !== undefined) {
+    expectArray(state.tradeOffers, `${path}.tradeOffers`)
+      .forEach((offer, index) => validateOpenTradeOffer(offer, `${path}.tradeOffers[${index}]`));
+  }
+  if (state.tradeOfferCount !== undefined) {
+    expectInteger(state.tradeOfferCount, `${path}.tradeOfferCount`);
+  }
+  if (state.citiesAndKnights !== undefined) {
+    if (isView) {
+      validateCitiesAndKnightsView(state.citiesAndKnights, `${path}.citiesAndKnights`);
+    } else {
+      validateCitiesAndKnightsState(state.citiesAndKnights, `${path}.citiesAndKnights`);
+    }
+  }
+  if (state.seafarers !== undefined) {
+    validateSeafarersState(state.seafarers, `${path}.seafarers`);
+  }
+  if (!isView && state.undoHistory !== undefined) {
+    const undoHistory = expectObject(state.undoHistory, `${path}.undoHistory`);
+    validateState(undoHistory.checkpoint, `${path}.undoHistory.checkpoint`);
+    expectArray(undoHistory.actions, `${path}.undoHistory.actions`)
+      .forEach((action, index) => validateAction(action, `${path}.undoHistory.actions[${index}]`));
+  }
+}
+
+function validateBoard(data: unknown, path: string): void {
+  const board = expectObject(data, path);
+
+  Object.entries(expectObject(board.tiles, `${path}.tiles`)).forEach(([key, tile]) => {
+    validateTile(tile, `${path}.tiles["${key}"]`);
+  });
+
+  Object.entries(expectObject(board.intersections, `${path}.intersections`)).forEach(([key, intersection]) => {
+    const intersectionPath = `${path}.intersections["${key}"]`;
+    validateIntersection(intersection, intersectionPath);
+    if (intersection.id !== key) {
+      throw new GameStateCodecError(`${intersectionPath}.id`, `must match its key "${key}"`);
+    }
+  });
+
+  Object.entries(expectObject(board.edges, `${path}.edges`)).forEach(([key, edge]) => {
+    const edgePath = `${path}.edges["${key}"]`;
+    validateEdge(edge, edgePath);
+    if (edge.id !== key) {
+      throw new GameStateCodecError(`${edgePath}.id`, `must match its key "${key}"`);
+    }
+  });
+
+  expectArray(board.harbors, `${path}.harbors`).forEach((harbor, index) => {
+    const harborPath = `${path}.harbors[${index}]`;
+    validateHarbor(harbor, harborPath);
+    if (!(harbor.edgeId in board.edges)) {
+      throw new GameStateCodecError(`${harborPath}.edgeId`, `unknown edge "${harbor.edgeId}"`);
+    }
+  });
+
+  validateHexCoordinate(board.robberLocation, `${path}.robberLocation`);
+  if (board.pirateLocation !== undefined) {
+    validateHexCoordinate(board.pirateLocation, `${path}.pirateLocation`);
+  }
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
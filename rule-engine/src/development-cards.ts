@@ -1,42 +1,56 @@
-import { GameState, DevelopmentCardType, Player, Resources, BUILDING_COSTS, HexCoordinate } from './types';
+import {
+  GameState,
+  DevelopmentCardType,
+  Player,
+  Resources,
+  ResourceType,
+  BUILDING_COSTS,
+  DEVELOPMENT_CARD_TYPES,
+  RESOURCE_TYPES
+} from './types';
 import { ResourceManager } from './resources';
 import { BuildingManager } from './building';
-import { BoardGenerator } from './board';
+import { RandomGenerator, RandomManager } from './random';
+import { PhaseManager } from './phases';
+import { ValidationResult, RuleViolationError, invalid, insufficientResources } from './errors';
+import { updatePlayer, updateEdge } from './state';
+import { DEFAULT_GAME_RULES, createRules, getRules } from './rules';
+import { SeafarersManager } from './seafarers';
 
 export class DevelopmentCardManager {
-  static createStandardDeck(): DevelopmentCardType[] {
-    const deck: DevelopmentCardType[] = [];
-    
-    // Standard deck composition
-    for (let i = 0; i < 14; i++) deck.push('knight');
-    for (let i = 0; i < 5; i++) deck.push('victoryPoint');
-    for (let i = 0; i < 2; i++) deck.push('roadBuilding');
-    for (let i = 0; i < 2; i++) deck.push('invention');
-    for (let i = 0; i < 2; i++) deck.push('monopoly');
-    
-    // Shuffle deck
-    for (let i = deck.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [deck[i], deck[j]] = [deck[j], deck[i]];
-    }
-    
-    return deck;
+  static createDeck(composition: Record<DevelopmentCardType, number>, rng: RandomGenerator): DevelopmentCardType[] {
+    const deck = (Object.entries(composition) as [DevelopmentCardType, number][])
+      .flatMap(([cardType, count]) => Array<DevelopmentCardType>(count).fill(cardType));
+
+    return RandomManager.shuffle(deck, rng);
+  }
+
+  static createStandardDeck(rng: RandomGenerator): DevelopmentCardType[] {
+    return this.createDeck(DEFAULT_GAME_RULES.developmentCardDeck, rng);
+  }
+
+  static createExtendedDeck(rng: RandomGenerator): DevelopmentCardType[] {
+    return this.createDeck(createRules(6).developmentCardDeck, rng);
   }
 
-  static canBuyDevelopmentCard(gameState: GameState, playerId: string): { valid: boolean; error?: string } {
+  static canBuyDevelopmentCard(gameState: GameState, playerId: string): ValidationResult {
     const player = gameState.players.find(p => p.id === playerId);
     if (!player) {
-      return { valid: false, error: 'Player not found' };
+      return invalid('PLAYER_NOT_FOUND', 'Player not found', { playerId });
     }
 
     // Check if player has resources
     if (!ResourceManager.hasResources(player.resources, BUILDING_COSTS.developmentCard)) {
-      return { valid: false, error: 'Insufficient resources for development card' };
+      return insufficientResources(
+        'Insufficient resources for development card',
+        player.resources,
+        BUILDING_COSTS.developmentCard
+      );
     }
 
     // Check if deck has cards left
     if (gameState.developmentCardDeck.length === 0) {
-      return { valid: false, error: 'No development cards remaining' };
+      return invalid('DECK_EMPTY', 'No development cards remaining');
     }
 
     return { valid: true };
@@ -45,132 +59,123 @@ export class DevelopmentCardManager {
   static buyDevelopmentCard(gameState: GameState, playerId: string): GameState {
     const validation = this.canBuyDevelopmentCard(gameState, playerId);
     if (!validation.valid) {
-      throw new Error(validation.error);
+      throw RuleViolationError.fromValidation(validation);
     }
 
-    const newState = { ...gameState };
-    const playerIndex = newState.players.findIndex(p => p.id === playerId);
-    const player = newState.players[playerIndex];
-
-    // Deduct resources
-    newState.players[playerIndex].resources = ResourceManager.subtractResources(
-      player.resources,
-      BUILDING_COSTS.developmentCard
-    );
-
-    // Draw card from deck
-    const drawnCard = newState.developmentCardDeck.pop()!;
-    newState.players[playerIndex].developmentCards[drawnCard]++;
-
-    // Player cannot play a development card on the same turn they bought it
-    newState.players[playerIndex].canPlayDevCard = false;
+    // Draw card from deck; it cannot be played until a later turn (victory point cards are never played)
+    const drawnCard = gameState.developmentCardDeck[gameState.developmentCardDeck.length - 1];
+    const newState = updatePlayer(gameState, playerId, player => ({
+      resources: ResourceManager.subtractResources(player.resources, BUILDING_COSTS.developmentCard),
+      developmentCards: { ...player.developmentCards, [drawnCard]: player.developmentCards[drawnCard] + 1 },
+      ...(drawnCard !== 'victoryPoint' ? {
+        newDevelopmentCards: {
+          ...player.newDevelopmentCards,
+          [drawnCard]: (player.newDevelopmentCards?.[drawnCard] ?? 0) + 1
+        }
+      } : {})
+    }));
 
-    return newState;
+    return {
+      ...ResourceManager.returnToBank(newState, BUILDING_COSTS.developmentCard),
+      developmentCardDeck: gameState.developmentCardDeck.slice(0, -1)
+    };
   }
 
   static canPlayDevelopmentCard(
     gameState: GameState, 
     playerId: string, 
     cardType: DevelopmentCardType
-  ): { valid: boolean; error?: string } {
+  ): ValidationResult {
     const player = gameState.players.find(p => p.id === playerId);
     if (!player) {
-      return { valid: false, error: 'Player not found' };
+      return invalid('PLAYER_NOT_FOUND', 'Player not found', { playerId });
     }
 
     // Check if player has the card
     if (player.developmentCards[cardType] === 0) {
-      return { valid: false, error: `Player does not have ${cardType} card` };
+      return invalid('CARD_NOT_OWNED', `Player does not have ${cardType} card`, { cardType });
+    }
+
+    // Victory point cards stay in the hand and count once they are enough to win
+    if (cardType === 'victoryPoint') {
+      return invalid('CARD_NOT_PLAYABLE', 'Victory point cards are revealed when they win the game', { cardType });
+    }
+
+    // Check if it's the player's turn
+    if (gameState.players[gameState.currentPlayerIndex].id !== playerId) {
+      return invalid('NOT_YOUR_TURN', 'Can only play development cards on your turn', {
+        currentPlayerId: gameState.players[gameState.currentPlayerIndex].id
+      });
     }
 
-    // Check if it's the player's turn (except for victory point cards)
-    if (cardType !== 'victoryPoint' && gameState.players[gameState.currentPlayerIndex].id !== playerId) {
-      return { valid: false, error: 'Can only play development cards on your turn' };
+    // Cards bought this turn have to wait for the next one
+    if (this.getPlayableCount(player, cardType) === 0) {
+      return invalid('CARD_NOT_PLAYABLE', 'Cannot play development card on the same turn it was bought', { cardType });
     }
 
-    // Check if player can play development card this turn
-    if (!player.canPlayDevCard && cardType !== 'victoryPoint') {
-      return { valid: false, error: 'Cannot play development card on the same turn it was bought' };
+    // One development card per turn, whether played before or after rolling
+    if (!player.canPlayDevCard) {
+      return invalid('CARD_NOT_PLAYABLE', 'Only one development card can be played per turn', { cardType });
     }
 
-    // Victory point cards can be played anytime
     return { valid: true };
   }
 
-  static playKnightCard(
-    gameState: GameState, 
-    playerId: string, 
-    newRobberLocation: HexCoordinate,
-    targetPlayerId?: string
-  ): GameState {
+  /**
+   * Plays a knight and hands the player the robber: the state enters MOVE_ROBBER
+   * and returns to the current phase once the robber has moved (and stolen).
+   */
+  static playKnightCard(gameState: GameState, playerId: string): GameState {
     const validation = this.canPlayDevelopmentCard(gameState, playerId, 'knight');
     if (!validation.valid) {
-      throw new Error(validation.error);
+      throw RuleViolationError.fromValidation(validation);
     }
 
-    const newState = { ...gameState };
-    const playerIndex = newState.players.findIndex(p => p.id === playerId);
-
     // Remove knight card from player's hand
-    newState.players[playerIndex].developmentCards.knight--;
-    newState.players[playerIndex].knightsPlayed++;
-
-    // Move robber
-    newState.board.robberLocation = newRobberLocation;
-    
-    // Update all tiles to remove robber
-    newState.board.tiles.forEach(tile => {
-      tile.hasRobber = false;
-    });
-    
-    // Place robber on new location
-    const targetTileKey = BoardGenerator.coordToKey(newRobberLocation);
-    const targetTile = newState.board.tiles.get(targetTileKey);
-    if (targetTile) {
-      targetTile.hasRobber = true;
-    }
-
-    // Steal resource if target player specified
-    if (targetPlayerId && targetPlayerId !== playerId) {
-      return ResourceManager.stealRandomResource(targetPlayerId, playerId, newState);
-    }
+    const newState: GameState = {
+      ...this.removeCard(gameState, playerId, 'knight', player => ({ knightsPlayed: player.knightsPlayed + 1 })),
+      resumePhase: gameState.phase,
+      phase: 'MOVE_ROBBER'
+    };
 
     // Check for largest army
     return this.updateLargestArmy(newState, playerId);
   }
 
-  static playRoadBuildingCard(
-    gameState: GameState, 
-    playerId: string, 
-    edgeIds: [string, string]
-  ): GameState {
+  /**
+   * Plays road building; the roads themselves are placed with BUILD_ROAD
+   * actions during the ROAD_BUILDING phase that follows.
+   */
+  static playRoadBuildingCard(gameState: GameState, playerId: string): GameState {
     const validation = this.canPlayDevelopmentCard(gameState, playerId, 'roadBuilding');
     if (!validation.valid) {
-      throw new Error(validation.error);
+      throw RuleViolationError.fromValidation(validation);
+    }
+    if (!this.hasFreeRoadLocation(gameState, playerId)) {
+      throw new RuleViolationError('CARD_NOT_PLAYABLE', 'No roads can be placed', { cardType: 'roadBuilding' });
     }
-
-    let newState = { ...gameState };
-    const playerIndex = newState.players.findIndex(p => p.id === playerId);
 
     // Remove road building card
-    newState.players[playerIndex].developmentCards.roadBuilding--;
+    const player = gameState.players.find(p => p.id === playerId)!;
+    return {
+      ...this.removeCard(gameState, playerId, 'roadBuilding'),
+      resumePhase: gameState.phase,
+      phase: 'ROAD_BUILDING',
+      freeRoadsRemaining: Math.min(2, BuildingManager.getRemainingBuildings(player, getRules(gameState)).roads)
+    };
+  }
 
-    // Build first road
-    try {
-      newState = this.buildFreeRoad(newState, playerId, edgeIds[0]);
-    } catch (error) {
-      throw new Error(`Cannot build first road: ${error}`);
+  static placeFreeRoad(gameState: GameState, playerId: string, edgeId: string): GameState {
+    if (gameState.phase !== 'ROAD_BUILDING' || !gameState.freeRoadsRemaining) {
+      throw new RuleViolationError('WRONG_PHASE', 'No free roads to place');
     }
 
-    // Build second road (if different from first)
-    if (edgeIds[1] !== edgeIds[0]) {
-      try {
-        newState = this.buildFreeRoad(newState, playerId, edgeIds[1]);
-      } catch (error) {
-        throw new Error(`Cannot build second road: ${error}`);
-      }
-    }
+    const newState = { ...this.buildFreeRoad(gameState, playerId, edgeId), freeRoadsRemaining: gameState.freeRoadsRemaining - 1 };
 
+    // Done once both roads are down or the second one has nowhere to go
+    if (newState.freeRoadsRemaining === 0 || !this.hasFreeRoadLocation(newState, playerId)) {
+      return PhaseManager.resume(newState);
+    }
     return newState;
   }
 
@@ -181,14 +186,11 @@ export class DevelopmentCardManager {
   ): GameState {
     const validation = this.canPlayDevelopmentCard(gameState, playerId, 'invention');
     if (!validation.valid) {
-      throw new Error(validation.error);
+      throw RuleViolationError.fromValidation(validation);
+    }
+    if (!Array.isArray(resources) || resources.length !== 2 || !resources.every(resource => this.isResource(resource))) {
+      throw new RuleViolationError('INVALID_ACTION', 'Choose two resources to take', { cardType: 'invention', resources });
     }
-
-    const newState = { ...gameState };
-    const playerIndex = newState.players.findIndex(p => p.id === playerId);
-
-    // Remove invention card
-    newState.players[playerIndex].developmentCards.invention--;
 
     // Add the two chosen resources
     const resourcesToAdd: Partial<Resources> = {};
@@ -199,12 +201,15 @@ export class DevelopmentCardManager {
       resourcesToAdd[resourceType as keyof Resources]! += 1;
     });
 
-    newState.players[playerIndex].resources = ResourceManager.addResources(
-      newState.players[playerIndex].resources,
-      resourcesToAdd
-    );
+    const supply = ResourceManager.canTakeFromBank(gameState, resourcesToAdd);
+    if (!supply.valid) {
+      throw RuleViolationError.fromValidation(supply);
+    }
 
-    return newState;
+    // Remove invention card
+    return this.removeCard(ResourceManager.takeFromBank(gameState, resourcesToAdd), playerId, 'invention', player => ({
+      resources: ResourceManager.addResources(player.resources, resourcesToAdd)
+    }));
   }
 
   static playMonopolyCard(
@@ -214,86 +219,81 @@ export class DevelopmentCardManager {
   ): GameState {
     const validation = this.canPlayDevelopmentCard(gameState, playerId, 'monopoly');
     if (!validation.valid) {
-      throw new Error(validation.error);
+      throw RuleViolationError.fromValidation(validation);
     }
-
-    const newState = { ...gameState };
-    const playerIndex = newState.players.findIndex(p => p.id === playerId);
-
-    // Remove monopoly card
-    newState.players[playerIndex].developmentCards.monopoly--;
-
-    let totalStolen = 0;
-
-    // Take all resources of the specified type from all other players
-    newState.players.forEach((player, index) => {
-      if (index !== playerIndex) {
-        const amountToTake = player.resources[resourceType as keyof Resources];
-        totalStolen += amountToTake;
-        newState.players[index].resources[resourceType as keyof Resources] = 0;
-      }
-    });
-
-    // Give all stolen resources to the player
-    newState.players[playerIndex].resources[resourceType as keyof Resources] += totalStolen;
-
-    return newState;
-  }
-
-  static playVictoryPointCard(gameState: GameState, playerId: string): GameState {
-    const validation = this.canPlayDevelopmentCard(gameState, playerId, 'victoryPoint');
-    if (!validation.valid) {
-      throw new Error(validation.error);
+    if (!this.isResource(resourceType)) {
+      throw new RuleViolationError('INVALID_ACTION', 'Choose a resource to take', { cardType: 'monopoly', resourceType });
     }
 
-    const newState = { ...gameState };
-    const playerIndex = newState.players.findIndex(p => p.id === playerId);
+    const totalStolen = gameState.players
+      .filter(player => player.id !== playerId)
+      .reduce((sum, player) => sum + player.resources[resourceType], 0);
 
-    // Remove victory point card and add to victory points
-    newState.players[playerIndex].developmentCards.victoryPoint--;
-    newState.players[playerIndex].victoryPoints += 1;
+    // Take all resources of the specified type from all other players and give them to the player
+    const newState = {
+      ...gameState,
+      players: gameState.players.map(player => ({
+        ...player,
+        resources: { ...player.resources, [resourceType]: player.id === playerId ? player.resources[resourceType] + totalStolen : 0 }
+      }))
+    };
 
-    return newState;
+    // Remove monopoly card
+    return this.removeCard(newState, playerId, 'monopoly');
   }
 
-  private static buildFreeRoad(gameState: GameState, playerId: string, edgeId: string): GameState {
+  static canBuildFreeRoad(gameState: GameState, playerId: string, edgeId: string): ValidationResult {
     // Check if edge is valid and empty
     const edge = gameState.board.edges.get(edgeId);
     if (!edge) {
-      throw new Error('Invalid edge location');
+      return invalid('INVALID_LOCATION', 'Invalid edge location', { edgeId });
     }
 
     if (edge.road) {
-      throw new Error('Edge already has a road');
+      return invalid('LOCATION_OCCUPIED', 'Edge already has a road', { edgeId, playerId: edge.road.playerId });
+    }
+
+    const onLand = SeafarersManager.canHoldRoad(gameState, edgeId);
+    if (!onLand.valid) {
+      return onLand;
     }
 
     // Check connectivity
     if (!this.isRoadConnectedForFreeBuilding(gameState, playerId, edgeId)) {
-      throw new Error('Road must connect to existing road or building');
+      return invalid('NOT_CONNECTED', 'Road must connect to existing road or building', { edgeId });
     }
 
     // Check if player has roads remaining
     const player = gameState.players.find(p => p.id === playerId);
     if (!player) {
-      throw new Error('Player not found');
+      return invalid('PLAYER_NOT_FOUND', 'Player not found', { playerId });
     }
 
-    const remaining = BuildingManager.getRemainingBuildings(player);
+    const remaining = BuildingManager.getRemainingBuildings(player, getRules(gameState));
     if (remaining.roads === 0) {
-      throw new Error('No roads remaining');
+      return invalid('NO_PIECES_REMAINING', 'No roads remaining', { piece: 'road' });
     }
 
-    const newState = { ...gameState };
-    const playerIndex = newState.players.findIndex(p => p.id === playerId);
+    return { valid: true };
+  }
 
-    // Place road (no resource cost for free roads)
-    const newEdge = newState.board.edges.get(edgeId)!;
-    newEdge.road = { playerId };
-    
-    // Add to player's buildings
-    newState.players[playerIndex].buildings.roads.push(edgeId);
+  private static buildFreeRoad(gameState: GameState, playerId: string, edgeId: string): GameState {
+    const validation = this.canBuildFreeRoad(gameState, playerId, edgeId);
+    if (!validation.valid) {
+      throw RuleViolationError.fromValidation(validation);
+    }
 
-    return newState;
+    // Add to player's buildings and place road (no resource cost for free roads)
+    const newState = updatePlayer(gameState, playerId, player => ({
+      buildings: { ...player.buildings, roads: [...player.buildings.roads, edgeId] }
+    }));
+    return updateEdge(newState, edgeId, { road: { playerId } });
+  }
+
+  static hasFreeRoadLocation(gameState: GameState, playerId: string): boolean {
+    return Array.from(gameState.board.edges.keys()).some(edgeId =>
+      this.canBuildFreeRoad(gameState, playerId, edgeId).valid
+    );
   }
 
   private static isRoadConnectedForFreeBuilding(
@@ -328,54 +328,77 @@ export class DevelopmentCardManager {
   }
 
   private static updateLargestArmy(gameState: GameState, playerId: string): GameState {
-    const newState = { ...gameState };
-    const player = newState.players.find(p => p.id === playerId);
+    const player = gameState.players.find(p => p.id === playerId);
     
     if (!player || player.knightsPlayed < 3) {
-      return newState;
+      return gameState;
     }
 
     // Find current largest army holder
-    let currentHolder = newState.players.find(p => p.specialCards.largestArmy);
-    let currentLargestCount = currentHolder?.knightsPlayed || 2; // Need at least 3 to qualify
+    const currentHolder = gameState.players.find(p => p.specialCards.largestArmy);
+    const currentLargestCount = currentHolder?.knightsPlayed || 2; // Need at least 3 to qualify
 
     // Check if this player should get largest army
-    if (player.knightsPlayed > currentLargestCount) {
-      // Remove from current holder
-      if (currentHolder) {
-        const currentHolderIndex = newState.players.findIndex(p => p.id === currentHolder!.id);
-        newState.players[currentHolderIndex].specialCards.largestArmy = false;
-        newState.players[currentHolderIndex].victoryPoints -= 2;
-      }
+    if (player.knightsPlayed <= currentLargestCount) {
+      return gameState;
+    }
 
-      // Give to new holder
-      const playerIndex = newState.players.findIndex(p => p.id === playerId);
-      newState.players[playerIndex].specialCards.largestArmy = true;
-      newState.players[playerIndex].victoryPoints += 2;
+    // Remove from current holder
+    let newState = gameState;
+    if (currentHolder) {
+      newState = updatePlayer(newState, currentHolder.id, holder => ({
+        specialCards: { ...holder.specialCards, largestArmy: false },
+        victoryPoints: holder.victoryPoints - 2
+      }));
     }
 
-    return newState;
+    // Give to new holder
+    return updatePlayer(newState, playerId, holder => ({
+      specialCards: { ...holder.specialCards, largestArmy: true },
+      victoryPoints: holder.victoryPoints + 2
+    }));
   }
 
-  static getPlayableDevelopmentCards(player: Player): DevelopmentCardType[] {
-    const playable: DevelopmentCardType[] = [];
-    
-    if (!player.canPlayDevCard) return playable;
+  private static removeCard(
+    gameState: GameState,
+    playerId: string,
+    cardType: DevelopmentCardType,
+    update: (player: Player) => Partial<Player> = () => ({})
+  ): GameState {
+    return updatePlayer(gameState, playerId, player => ({
+      ...update(player),
+      developmentCards: { ...player.developmentCards, [cardType]: player.developmentCards[cardType] - 1 },
+      canPlayDevCard: false
+    }));
+  }
 
-    Object.entries(player.developmentCards).forEach(([cardType, count]) => {
-      if (count > 0) {
-        playable.push(cardType as DevelopmentCardType);
-      }
-    });
+  // Copies held since before this turn
+  private static getPlayableCount(player: Player, cardType: DevelopmentCardType): number {
+    return player.developmentCards[cardType] - (player.newDevelopmentCards?.[cardType] ?? 0);
+  }
 
-    return playable;
+  private static isResource(value: unknown): value is ResourceType {
+    return RESOURCE_TYPES.includes(value as ResourceType);
   }
 
+  static getPlayableDevelopmentCards(player: Player): DevelopmentCardType[] {
+    if (!player.canPlayDevCard) return [];
+
+    return DEVELOPMENT_CARD_TYPES.filter(cardType =>
+      cardType !== 'victoryPoint' && this.getPlayableCount(player, cardType) > 0
+    );
+  }
+
+  // At the end of a turn every card bought becomes playable and everyone may play a card again
   static resetPlayDevCardFlag(gameState: GameState): GameState {
-    const newState = { ...gameState };
-    newState.players.forEach((player, index) => {
-      newState.players[index].canPlayDevCard = true;
-    });
-    return newState;
+    return {
+      ...gameState,
+      players: gameState.players.map(player => {
+        if (player.canPlayDevCard && !player.newDevelopmentCards) return player;
+
+        const { newDevelopmentCards, ...rest } = player;
+        return { ...rest, canPlayDevCard: true };
+      })
+    };
   }
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { Resources, ResourceType, RuleViolation, RuleViolationCode, RESOURCE_TYPES } from './types';
+
+export interface ValidationResult {
+  valid: boolean;
+  error?: string;
+  code?: RuleViolationCode;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Thrown by the managers when an action breaks a rule. `processAction`
+ * turns it into `GameResult.violation`.
+ */
+export class RuleViolationError extends Error {
+  constructor(
+    public readonly code: RuleViolationCode,
+    message: string,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'RuleViolationError';
+  }
+
+  static fromValidation(validation: ValidationResult): RuleViolationError {
+    return new RuleViolationError(
+      validation.code ?? 'INVALID_ACTION',
+      validation.error ?? 'Invalid action',
+      validation.details
+    );
+  }
+
+  toViolation(): RuleViolation {
+    return this.details
+      ? { code: this.code, message: this.message, details: this.details }
+      : { code: this.code, message: this.message };
+  }
+}
+
+export function invalid(code: RuleViolationCode, error: string, details?: Record<string, unknown>): ValidationResult {
+  return details ? { valid: false, error, code, details } : { valid: false, error, code };
+}
+
+export function insufficientResources(
+  error: string,
+  available: Resources,
+  required: Partial<Resources>
+): ValidationResult {
+  const missing: Partial<Resources> = {};
+  RESOURCE_TYPES.forEach((resource: ResourceType) => {
+    const shortfall = (required[resource] || 0) - available[resource];
+    if (shortfall > 0) {
+      missing[resource] = shortfall;
+    }
+  });
+  return invalid('INSUFFICIENT_RESOURCES', error, { required, missing });
+}
@@ -0,0 +1,293 @@
+import {
+  GameState,
+  GameEvent,
+  Action,
+  AwardType,
+  Player,
+  Resources,
+  ResourceType,
+  TradeOffer,
+  Commodities,
+  ImprovementTrack,
+  RESOURCE_TYPES,
+  COMMODITY_TYPES
+} from './types';
+
+const AWARDS: AwardType[] = ['longestRoad', 'largestArmy'];
+
+export class EventLog {
+  /**
+   * Appends the events for an applied action. Events are derived from the
+   * difference between the two states, so managers don't need to report them.
+   */
+  static record(before: GameState, after: GameState, action: Action): GameState {
+    return { ...after, events: [...(before.events ?? []), ...this.describe(before, after, action)] };
+  }
+
+  static describe(before: GameState, after: GameState, action: Action): GameEvent[] {
+    const base = { turn: before.turn, playerId: action.playerId };
+    const actorBefore = before.players.find(p => p.id === action.playerId)!;
+    const actorAfter = after.players.find(p => p.id === action.playerId)!;
+    const events: GameEvent[] = [];
+
+    switch (action.type) {
+      case 'ROLL_DICE': {
+        events.push({ ...base, type: 'DICE_ROLLED', dice: after.diceRoll! });
+        const production: Record<string, Partial<Resources>> = {};
+        after.players.forEach((player, index) => {
+          const gained = this.gained(before.players[index], player);
+          if (Object.keys(gained).length > 0) {
+            production[player.id] = gained;
+          }
+        });
+        if (Object.keys(production).length > 0) {
+          events.push({ ...base, type: 'RESOURCES_PRODUCED', production });
+        }
+        if (after.citiesAndKnights) {
+          events.push(...this.describeCitiesAndKnightsRoll(before, after, base));
+        }
+        break;
+      }
+
+      case 'BUILD_ROAD':
+        events.push({ ...base, type: 'ROAD_BUILT', edgeId: action.payload.edgeId, free: before.phase === 'ROAD_BUILDING' });
+        // A setup road passes the turn on by itself
+        if (after.currentPlayerIndex !== before.currentPlayerIndex) {
+          events.push({ ...base, type: 'TURN_ENDED' });
+        }
+        break;
+
+      case 'BUILD_SETTLEMENT': {
+        const gained = this.gained(actorBefore, actorAfter);
+        events.push(Object.keys(gained).length > 0
+          ? { ...base, type: 'SETTLEMENT_BUILT', intersectionId: action.payload.intersectionId, resources: gained }
+          : { ...base, type: 'SETTLEMENT_BUILT', intersectionId: action.payload.intersectionId });
+        // Seafarers: the first settlement on a new island
+        const claimed = after.seafarers?.bonusIslands[action.playerId] ?? [];
+        claimed.slice(before.seafarers?.bonusIslands[action.playerId]?.length ?? 0).forEach(island =>
+          events.push({ ...base, type: 'ISLAND_SETTLED', island, bonus: after.seafarers!.islandBonus }));
+        break;
+      }
+
+      case 'BUILD_CITY':
+        events.push({ ...base, type: 'CITY_BUILT', intersectionId: action.payload.intersectionId });
+        break;
+
+      case 'BUY_DEVELOPMENT_CARD': {
+        // Only the buyer learns which card it was
+        const cardType = before.developmentCardDeck[before.developmentCardDeck.length - 1];
+        events.push({ ...base, type: 'DEVELOPMENT_CARD_BOUGHT', visibleTo: [action.playerId], secret: { cardType } });
+        break;
+      }
+
+      case 'PLAY_DEVELOPMENT_CARD': {
+        const { cardType } = action.payload;
+        const gained = this.gained(actorBefore, actorAfter);
+        events.push(Object.keys(gained).length > 0
+          ? { ...base, type: 'DEVELOPMENT_CARD_PLAYED', cardType, resources: gained }
+          : { ...base, type: 'DEVELOPMENT_CARD_PLAYED', cardType });
+        break;
+      }
+
+      case 'PROPOSE_TRADE':
+      case 'COUNTER_TRADE':
+        events.push({ ...base, type: 'TRADE_PROPOSED', offer: after.tradeOffers![after.tradeOffers!.length - 1] });
+        break;
+
+      case 'ACCEPT_TRADE': {
+        // Told from the side of the player accepting: they give what was requested of them
+        const offer = before.tradeOffers!.find(open => open.id === action.payload.offerId)!;
+        events.push({
+          ...base,
+          type: 'TRADED',
+          toPlayerId: offer.fromPlayerId,
+          offering: offer.requesting,
+          requesting: offer.offering,
+          offerId: offer.id
+        });
+        break;
+      }
+
+      case 'REJECT_TRADE':
+        events.push({ ...base, type: 'TRADE_REJECTED', offerId: action.payload.offerId });
+        break;
+
+      case 'CANCEL_TRADE':
+        events.push({ ...base, type: 'TRADE_CANCELLED', offerId: action.payload.offerId });
+        break;
+
+      case 'TRADE_WITH_BANK': {
+        const { tradeOffer } = action.payload as { tradeOffer: TradeOffer };
+        events.push({
+          ...base,
+          type: 'TRADED',
+          ...(tradeOffer.toPlayerId ? { toPlayerId: tradeOffer.toPlayerId } : {}),
+          offering: tradeOffer.offering,
+          requesting: tradeOffer.requesting
+        });
+        break;
+      }
+
+      case 'MOVE_ROBBER':
+        events.push(after.board.pirateLocation !== before.board.pirateLocation
+          ? { ...base, type: 'PIRATE_MOVED', location: after.board.pirateLocation! }
+          : { ...base, type: 'ROBBER_MOVED', location: after.board.robberLocation });
+        break;
+
+      case 'STEAL_RESOURCE': {
+        // Everyone sees the theft; only the thief and the victim see the card
+        const { targetPlayerId } = action.payload;
+        const [resource] = Object.keys(this.gained(actorBefore, actorAfter)) as ResourceType[];
+        events.push({
+          ...base,
+          type: 'RESOURCE_STOLEN',
+          targetPlayerId,
+          visibleTo: [action.playerId, targetPlayerId],
+          ...(resource ? { secret: { resource } } : {})
+        });
+        break;
+      }
+
+      case 'DISCARD_RESOURCES':
+        events.push({ ...base, type: 'RESOURCES_DISCARDED', resources: this.gained(actorAfter, actorBefore) });
+        break;
+
+      case 'END_TURN':
+        events.push({ ...base, type: 'TURN_ENDED' });
+        break;
+
+      case 'BUILD_KNIGHT':
+        events.push({ ...base, type: 'KNIGHT_BUILT', intersectionId: action.payload.intersectionId });
+        break;
+
+      case 'ACTIVATE_KNIGHT':
+        events.push({ ...base, type: 'KNIGHT_ACTIVATED', intersectionId: action.payload.intersectionId });
+        break;
+
+      case 'PROMOTE_KNIGHT':
+        events.push({ ...base, type: 'KNIGHT_PROMOTED', intersectionId: action.payload.intersectionId });
+        break;
+
+      case 'IMPROVE_CITY': {
+        const track: ImprovementTrack = action.payload.track;
+        const level = after.citiesAndKnights!.players[action.playerId].improvements[track];
+        const metropolis = after.citiesAndKnights!.metropolises[track];
+        events.push(metropolis !== before.citiesAndKnights!.metropolises[track]
+          ? { ...base, type: 'CITY_IMPROVED', track, level, metropolis }
+          : { ...base, type: 'CITY_IMPROVED', track, level });
+        break;
+      }
+
+      case 'PLAY_PROGRESS_CARD':
+        events.push({ ...base, type: 'PROGRESS_CARD_PLAYED', cardType: action.payload.cardType });
+        break;
+
+      case 'BUILD_SHIP':
+        events.push({ ...base, type: 'SHIP_BUILT', edgeId: action.payload.edgeId });
+        break;
+
+      case 'MOVE_SHIP':
+        events.push({ ...base, type: 'SHIP_MOVED', fromEdgeId: action.payload.fromEdgeId, edgeId: action.payload.edgeId });
+        break;
+
+      case 'CHOOSE_GOLD':
+        events.push({ ...base, type: 'GOLD_CHOSEN', resources: this.gained(actorBefore, actorAfter) });
+        break;
+    }
+
+    AWARDS.forEach(award => {
+      const fromPlayerId = before.players.find(p => p.specialCards[award])?.id;
+      const toPlayerId = after.players.find(p => p.specialCards[award])?.id;
+      if (fromPlayerId !== toPlayerId) {
+        events.push({
+          ...base,
+          type: 'AWARD_CHANGED',
+          award,
+          ...(fromPlayerId ? { fromPlayerId } : {}),
+          ...(toPlayerId ? { toPlayerId } : {})
+        });
+      }
+    });
+
+    if (after.phase === 'GAME_OVER' && before.phase !== 'GAME_OVER') {
+      // The winner's victory point cards come out of hiding
+      const winner = after.players.find(player => player.id === after.winner)!;
+      events.push(winner.developmentCards.victoryPoint > 0
+        ? { ...base, type: 'GAME_WON', playerId: winner.id, victoryPointCards: winner.developmentCards.victoryPoint }
+        : { ...base, type: 'GAME_WON', playerId: winner.id });
+    }
+
+    return events;
+  }
+
+  /** The log as `playerId` may see it: secrets of events they were not party to are removed. */
+  static forPlayer(events: GameEvent[], playerId: string): GameEvent[] {
+    return events.map(event => {
+      if (!event.visibleTo || event.visibleTo.includes(playerId) || !('secret' in event)) {
+        return event;
+      }
+      const { secret, ...visible } = event;
+      return visible as GameEvent;
+    });
+  }
+
+  /**
+   * The event die, then whatever it set off: a barbarian attack or progress
+   * card draws (only victory point cards are shown to everyone), and finally
+   * commodity production.
+   */
+  private static describeCitiesAndKnightsRoll(
+    before: GameState,
+    after: GameState,
+    base: { turn: number; playerId: string }
+  ): GameEvent[] {
+    const previous = before.citiesAndKnights!;
+    const current = after.citiesAndKnights!;
+    const face = current.eventDie!;
+    const events: GameEvent[] = [{ ...base, type: 'EVENT_DIE_ROLLED', face }];
+
+    if (current.lastBarbarianAttack) {
+      events.push({ ...base, type: 'BARBARIANS_ATTACKED', attack: current.lastBarbarianAttack });
+    } else if (face !== 'ship') {
+      after.players.forEach(player => {
+        const hand = current.players[player.id];
+        const drawn = { turn: base.turn, playerId: player.id, type: 'PROGRESS_CARD_DRAWN' as const, track: face };
+        hand.progressCards.slice(previous.players[player.id].progressCards.length)
+          .forEach(cardType => events.push({ ...drawn, visibleTo: [player.id], secret: { cardType } }));
+        hand.victoryCards.slice(previous.players[player.id].victoryCards.length)
+          .forEach(cardType => events.push({ ...drawn, cardType }));
+      });
+    }
+
+    const production: Record<string, Partial<Commodities>> = {};
+    after.players.forEach(player => {
+      const gained: Partial<Commodities> = {};
+      COMMODITY_TYPES.forEach(commodity => {
+        const delta = current.players[player.id].commodities[commodity] - previous.players[player.id].commodities[commodity];
+        if (delta > 0) {
+          gained[commodity] = delta;
+        }
+      });
+      if (Object.keys(gained).length > 0) {
+        production[player.id] = gained;
+      }
+    });
+    if (Object.keys(production).length > 0) {
+      events.push({ ...base, type: 'COMMODITIES_PRODUCED', production });
+    }
+
+    return events;
+  }
+
+  // Resources `after` holds beyond what `before` held
+  private static gained(before: Player, after: Player): Partial<Resources> {
+    const gained: Partial<Resources> = {};
+    RESOURCE_TYPES.forEach(resource => {
+      const delta = after.resources[resource] - before.resources[resource];
+      if (delta > 0) {
+        gained[resource] = delta;
+      }
+    });
+    return gained;
+  }
+}
@@ -1,22 +1,81 @@
+import { CatanRuleEngine, NewGameOptions } from './rule-engine';
+import { ResourceManager } from './resources';
+import { BuildingManager } from './building';
+import { TradingManager } from './trading';
+import { DevelopmentCardManager } from './development-cards';
+import { RobberManager } from './robber';
+import { VictoryManager } from './victory';
+import { EventLog } from './events';
+import { projectForPlayer } from './projection';
+import { BoardAnalyzer } from './analysis';
+import { Simulator, ChanceOutcome } from './simulation';
+import { RandomGenerator } from './random';
+
 // Main rule engine
-export { CatanRuleEngine } from './rule-engine';
+export { CatanRuleEngine, NewGameOptions } from './rule-engine';
 
 // Core types
 export * from './types';
 
+// GameState wire format shared by all services
+export {
+  GAME_STATE_SCHEMA_VERSION,
+  EncodedGameState,
+  EncodedGameBoard,
+  EncodedGameStateView,
+  GameStateCodecError,
+  encodeGameState,
+  encodeGameStateView,
+  decodeGameState,
+  decodeGameStateView,
+  serializeGameState,
+  deserializeGameState,
+  validateEncodedGameState,
+  validateEncodedGameStateView
+} from './codec';
+
+// Structured rule violations (also surfaced as GameResult.violation)
+export { RuleViolationError, ValidationResult } from './errors';
+
 // Individual managers (for advanced use cases)
-export { BoardGenerator } from './board';
+export { BoardGenerator, RandomBoardOptions } from './board';
 export { ResourceManager } from './resources';
 export { BuildingManager } from './building';
 export { TradingManager } from './trading';
 export { DevelopmentCardManager } from './development-cards';
 export { RobberManager } from './robber';
-export { VictoryManager } from './victory';
+export {
+  CitiesAndKnightsManager,
+  ProgressCardChoice,
+  CITIES_AND_KNIGHTS_VICTORY_POINTS,
+  BARBARIAN_TRACK_LENGTH,
+  KNIGHT_COSTS,
+  TRACK_COMMODITIES,
+  PROGRESS_DECKS
+} from './cities-and-knights';
+export { Scenario, ScenarioHex, ScenarioLoader, ScenarioError, SCENARIOS } from './scenario';
+export { SeafarersManager, SeafarersScenario, SEAFARERS_SCENARIOS, SHIP_LIMIT } from './seafarers';
+export { BoardAnalyzer, IntersectionAnalysis, PlayerIncome, RobberImpact } from './analysis';
+export { Simulator, SimulationResult, ChanceOutcome, WeightedOutcome } from './simulation';
+export { VictoryManager, VictoryPointBreakdown } from './victory';
+export { PhaseManager } from './phases';
+export { LegalMoveGenerator } from './legal-moves';
+export { EventLog } from './events';
+export { UndoManager } from './undo';
+export { projectForPlayer } from './projection';
+export { DEFAULT_GAME_RULES, FRIENDLY_ROBBER_MAX_POINTS, createRules, getRules } from './rules';
+export {
+  RandomManager,
+  RandomGenerator,
+  RandomGeneratorFactory,
+  DEFAULT_RANDOM_ALGORITHM,
+  mulberry32
+} from './random';
 
 // Utility functions for common operations
 export const CatanUtils = {
   // Create a new game
-  createGame: (playerIds: string[]) => CatanRuleEngine.createNewGame(playerIds),
+  createGame: (playerIds: string[], options?: NewGameOptions) => CatanRuleEngine.createNewGame(playerIds, options),
   
   // Process an action
   processAction: (gameState: any, action: any) => CatanRuleEngine.processAction(gameState, action),
@@ -24,12 +83,21 @@ export const CatanUtils = {
   // Get valid actions for a player
   getValidActions: (gameState: any, playerId: string) => CatanRuleEngine.getValidActions(gameState, playerId),
   
+  // Get every concrete action (with payload) a player may take
+  getLegalMoves: (gameState: any, playerId: string) => CatanRuleEngine.getLegalMoves(gameState, playerId),
+  
+  // Get the event log as a player may see it
+  getEvents: (gameState: any, playerId: string) => EventLog.forPlayer(gameState.events ?? [], playerId),
+  
+  // Get the game state as a player (or, without a playerId, a spectator) may see it
+  getView: (gameState: any, playerId?: string) => projectForPlayer(gameState, playerId),
+  
   // Get game summary
   getGameSummary: (gameState: any) => CatanRuleEngine.getGameSummary(gameState),
   
   // Victory point calculations
   calculateVictoryPoints: (player: any) => VictoryManager.calculateVictoryPoints(player),
-  getVictoryPointBreakdown: (player: any) => VictoryManager.getVictoryPointBreakdown(player),
+  getVictoryPointBreakdown: (player: any, gameState?: any) => VictoryManager.getVictoryPointBreakdown(player, gameState),
   
   // Resource utilities
   getTotalResources: (resources: any) => ResourceManager.getTotalResources(resources),
@@ -60,5 +128,22 @@ export const CatanUtils = {
   getValidStealTargets: (gameState: any, playerId: string) =>
     RobberManager.getValidStealTargets(gameState, playerId),
   getPlayersAdjacentToRobber: (gameState: any) =>
-    RobberManager.getPlayersAdjacentToRobber(gameState)
+    RobberManager.getPlayersAdjacentToRobber(gameState),
+  
+  // Board analysis
+  analyzeIntersection: (gameState: any, intersectionId: string) =>
+    BoardAnalyzer.analyzeIntersection(gameState, intersectionId),
+  rankIntersections: (gameState: any, options?: { availableOnly?: boolean }) =>
+    BoardAnalyzer.rankIntersections(gameState, options),
+  getExpectedIncome: (gameState: any, playerId: string) => BoardAnalyzer.getExpectedIncome(gameState, playerId),
+  getRobberImpact: (gameState: any, hex: any) => BoardAnalyzer.getRobberImpact(gameState, hex),
+  getRobberImpacts: (gameState: any) => BoardAnalyzer.getRobberImpacts(gameState),
+  
+  // What-if simulation for search
+  simulate: (gameState: any, actions: any[]) => Simulator.simulate(gameState, actions),
+  getChanceOutcomes: (gameState: any, action: any) => Simulator.getChanceOutcomes(gameState, action),
+  sampleChanceOutcome: (gameState: any, action: any, rng: RandomGenerator) =>
+    Simulator.sampleChanceOutcome(gameState, action, rng),
+  applyChanceOutcome: (gameState: any, action: any, outcome: ChanceOutcome) =>
+    Simulator.applyChanceOutcome(gameState, action, outcome)
 };
\ No newline at end of file
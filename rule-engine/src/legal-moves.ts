@@ -0,0 +1,244 @@
+import {
+  GameState,
+  Action,
+  ActionType,
+  Resources,
+  ResourceType,
+  DevelopmentCardType,
+  RESOURCE_TYPES,
+  COMMODITY_TYPES,
+  IMPROVEMENT_TRACKS
+} from './types';
+import { BuildingManager } from './building';
+import { ResourceManager } from './resources';
+import { TradingManager } from './trading';
+import { DevelopmentCardManager } from './development-cards';
+import { RobberManager } from './robber';
+import { PhaseManager } from './phases';
+import { UndoManager } from './undo';
+import { CitiesAndKnightsManager } from './cities-and-knights';
+import { SeafarersManager } from './seafarers';
+
+// What players other than the current one may do with the offers made to them
+const TRADE_ANSWERS: ActionType[] = ['ACCEPT_TRADE', 'REJECT_TRADE', 'CANCEL_TRADE'];
+
+export class LegalMoveGenerator {
+  /**
+   * Every concrete action `playerId` may take right now. Each one passes the
+   * same validation `processAction` applies. Trade proposals and counters are
+   * open-ended and are not listed; bank trades are listed one card at a time.
+   */
+  static getLegalMoves(gameState: GameState, playerId: string): Action[] {
+    if (!gameState.players.some(p => p.id === playerId)) {
+      return [];
+    }
+
+    // Outside the discard and gold phases only the player whose turn it is may act, bar answering trade offers
+    const isCurrentPlayer = gameState.players[gameState.currentPlayerIndex].id === playerId;
+    const everyoneActs = gameState.phase === 'DISCARD' || gameState.phase === 'GOLD';
+
+    return PhaseManager.getAllowedActions(gameState.phase)
+      .filter(type => isCurrentPlayer || everyoneActs || TRADE_ANSWERS.includes(type))
+      .filter(type => PhaseManager.canPerformAction(gameState, playerId, type).valid)
+      .flatMap(type => this.getMovesOfType(gameState, playerId, type));
+  }
+
+  private static getMovesOfType(gameState: GameState, playerId: string, type: ActionType): Action[] {
+    const move = (payload?: any): Action => payload ? { type, playerId, payload } : { type, playerId };
+
+    switch (type) {
+      case 'ROLL_DICE':
+      case 'END_TURN':
+        return [move()];
+
+      case 'BUILD_ROAD':
+        return Array.from(gameState.board.edges.keys())
+          .filter(edgeId => gameState.phase === 'ROAD_BUILDING'
+            ? DevelopmentCardManager.canBuildFreeRoad(gameState, playerId, edgeId).valid
+            : BuildingManager.canBuildRoad(gameState, playerId, edgeId).valid)
+          .map(edgeId => move({ edgeId }));
+
+      case 'BUILD_SETTLEMENT':
+        return Array.from(gameState.board.intersections.keys())
+          .filter(intersectionId => BuildingManager.canBuildSettlement(gameState, playerId, intersectionId).valid)
+          .map(intersectionId => move({ intersectionId }));
+
+      case 'BUILD_CITY':
+        return gameState.players.find(p => p.id === playerId)!.buildings.settlements
+          .filter(intersectionId => BuildingManager.canBuildCity(gameState, playerId, intersectionId).valid)
+          .map(intersectionId => move({ intersectionId }));
+
+      case 'BUY_DEVELOPMENT_CARD':
+        return DevelopmentCardManager.canBuyDevelopmentCard(gameState, playerId).valid ? [move()] : [];
+
+      case 'PLAY_DEVELOPMENT_CARD':
+        return this.getDevelopmentCardPayloads(gameState, playerId).map(payload => move(payload));
+
+      case 'TRADE_WITH_BANK':
+        return TradingManager.getPossibleBankTrades(gameState, playerId).map(trade => move({
+          tradeOffer: TradingManager.createBankTradeOffer(
+            playerId,
+            trade.offeringResource,
+            trade.ratio,
+            trade.requestingResource,
+            1
+          )
+        }));
+
+      case 'ACCEPT_TRADE':
+        return TradingManager.getTradeOffersFor(gameState, playerId)
+          .filter(offer => TradingManager.canAcceptTrade(gameState, playerId, offer.id).valid)
+          .map(offer => move({ offerId: offer.id }));
+
+      case 'REJECT_TRADE':
+        return TradingManager.getTradeOffersFor(gameState, playerId).map(offer => move({ offerId: offer.id }));
+
+      case 'CANCEL_TRADE':
+        return (gameState.tradeOffers ?? [])
+          .filter(offer => offer.fromPlayerId === playerId)
+          .map(offer => move({ offerId: offer.id }));
+
+      case 'MOVE_ROBBER':
+        return RobberManager.getValidRobberLocations(gameState)
+          .filter(robberLocation => RobberManager.canMoveRobber(gameState, playerId, robberLocation).valid)
+          .map(robberLocation => move({ robberLocation }));
+
+      case 'UNDO':
+        return UndoManager.canUndo(gameState, playerId).valid ? [move()] : [];
+
+      case 'STEAL_RESOURCE':
+        return RobberManager.getValidStealTargets(gameState, playerId).map(targetPlayerId => move({ targetPlayerId }));
+
+      case 'DISCARD_RESOURCES':
+        return this.getDiscardSelections(
+          gameState.players.find(p => p.id === playerId)!.resources,
+          gameState.pendingDiscards?.[playerId] ?? 0
+        ).map(resourcesToDiscard => move({ resourcesToDiscard }));
+
+      case 'BUILD_KNIGHT':
+        return Array.from(gameState.board.intersections.keys())
+          .filter(intersectionId => CitiesAndKnightsManager.canBuildKnight(gameState, playerId, intersectionId).valid)
+          .map(intersectionId => move({ intersectionId }));
+
+      case 'ACTIVATE_KNIGHT':
+        return CitiesAndKnightsManager.getKnights(gameState, playerId)
+          .filter(knight => CitiesAndKnightsManager.canActivateKnight(gameState, playerId, knight.intersectionId).valid)
+          .map(knight => move({ intersectionId: knight.intersectionId }));
+
+      case 'PROMOTE_KNIGHT':
+        return CitiesAndKnightsManager.getKnights(gameState, playerId)
+          .filter(knight => CitiesAndKnightsManager.canPromoteKnight(gameState, playerId, knight.intersectionId).valid)
+          .map(knight => move({ intersectionId: knight.intersectionId }));
+
+      case 'IMPROVE_CITY':
+        return IMPROVEMENT_TRACKS
+          .filter(track => CitiesAndKnightsManager.canImproveCity(gameState, playerId, track).valid)
+          .map(track => move({ track }));
+
+      case 'PLAY_PROGRESS_CARD':
+        return this.getProgressCardPayloads(gameState, playerId).map(payload => move(payload));
+
+      case 'BUILD_SHIP':
+        return Array.from(gameState.board.edges.keys())
+          .filter(edgeId => SeafarersManager.canBuildShip(gameState, playerId, edgeId).valid)
+          .map(edgeId => move({ edgeId }));
+
+      case 'MOVE_SHIP': {
+        const edgeIds = Array.from(gameState.board.edges.keys());
+        return (gameState.players.find(p => p.id === playerId)!.buildings.ships ?? []).flatMap(fromEdgeId => edgeIds
+          .filter(edgeId => SeafarersManager.canMoveShip(gameState, playerId, fromEdgeId, edgeId).valid)
+          .map(edgeId => move({ fromEdgeId, edgeId })));
+      }
+
+      case 'CHOOSE_GOLD': {
+        // Any pick the bank can cover
+        const owed = gameState.seafarers?.pendingGold?.[playerId] ?? 0;
+        const supply = gameState.bank ?? { wood: owed, brick: owed, wool: owed, wheat: owed, ore: owed };
+        return this.getDiscardSelections(supply, owed).map(resources => move({ resources }));
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  private static getProgressCardPayloads(gameState: GameState, playerId: string): any[] {
+    const hand = gameState.citiesAndKnights?.players[playerId]?.progressCards ?? [];
+
+    return Array.from(new Set(hand)).flatMap<any>(cardType => {
+      switch (cardType) {
+        case 'resourceMonopoly':
+          return RESOURCE_TYPES.map(resourceType => ({ cardType, resourceType }));
+        case 'tradeMonopoly':
+          return COMMODITY_TYPES.map(commodityType => ({ cardType, commodityType }));
+        case 'irrigation':
+        case 'mining': {
+          // Only when the bank can cover the harvest
+          const harvest = CitiesAndKnightsManager.getHarvest(gameState, playerId, cardType);
+          return ResourceManager.canTakeFromBank(gameState, harvest).valid ? [{ cardType }] : [];
+        }
+        default:
+          return [{ cardType }];
+      }
+    });
+  }
+
+  private static getDevelopmentCardPayloads(gameState: GameState, playerId: string): any[] {
+    const playable = (cardType: DevelopmentCardType) =>
+      DevelopmentCardManager.canPlayDevelopmentCard(gameState, playerId, cardType).valid;
+    const payloads: any[] = [];
+
+    if (playable('knight')) {
+      payloads.push({ cardType: 'knight' });
+    }
+    if (playable('roadBuilding') && DevelopmentCardManager.hasFreeRoadLocation(gameState, playerId)) {
+      payloads.push({ cardType: 'roadBuilding' });
+    }
+    if (playable('invention')) {
+      RESOURCE_TYPES.forEach((first, index) => {
+        RESOURCE_TYPES.slice(index).forEach(second => {
+          const taken = first === second ? { [first]: 2 } : { [first]: 1, [second]: 1 };
+          if (ResourceManager.canTakeFromBank(gameState, taken).valid) {
+            payloads.push({ cardType: 'invention', resources: [first, second] });
+          }
+        });
+      });
+    }
+    if (playable('monopoly')) {
+      RESOURCE_TYPES.forEach(resourceType => payloads.push({ cardType: 'monopoly', resourceType }));
+    }
+
+    return payloads;
+  }
+
+  // Every way to give up exactly `count` cards from `hand`
+  private static getDiscardSelections(hand: Resources, count: number): Partial<Resources>[] {
+    const selections: Partial<Resources>[] = [];
+
+    const choose = (index: number, remaining: number, selection: Partial<Resources>) => {
+      if (remaining === 0) {
+        selections.push({ ...selection });
+        return;
+      }
+      if (index === RESOURCE_TYPES.length) {
+        return;
+      }
+
+      const resource: ResourceType = RESOURCE_TYPES[index];
+      for (let amount = Math.min(hand[resource], remaining); amount >= 0; amount--) {
+        if (amount > 0) {
+          selection[resource] = amount;
+        } else {
+          delete selection[resource];
+        }
+        choose(index + 1, remaining - amount, selection);
+      }
+      delete selection[resource];
+    };
+
+    if (count > 0) {
+      choose(0, count, {});
+    }
+    return selections;
+  }
+}
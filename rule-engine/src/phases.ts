@@ -0,0 +1,88 @@
+import { GameState, GamePhase, ActionType, isActionType } from './types';
+import { ValidationResult, invalid } from './errors';
+
+const BUILD_ACTIONS: ActionType[] = ['BUILD_ROAD', 'BUILD_SHIP', 'BUILD_SETTLEMENT', 'BUILD_CITY', 'BUY_DEVELOPMENT_CARD'];
+const TRADE_ACTIONS: ActionType[] = ['PROPOSE_TRADE', 'COUNTER_TRADE', 'ACCEPT_TRADE', 'REJECT_TRADE', 'CANCEL_TRADE'];
+// Cities & Knights; rejected by the manager in games without the expansion
+const CITIES_AND_KNIGHTS_ACTIONS: ActionType[] = [
+  'BUILD_KNIGHT', 'ACTIVATE_KNIGHT', 'PROMOTE_KNIGHT', 'IMPROVE_CITY', 'PLAY_PROGRESS_CARD'
+];
+
+// Every action the rules allow in each phase; anything else is rejected before it reaches a manager
+const PHASE_ACTIONS: Record<GamePhase, ActionType[]> = {
+  SETUP_ROUND_1: ['BUILD_SETTLEMENT', 'BUILD_ROAD', 'UNDO'],
+  SETUP_ROUND_2: ['BUILD_SETTLEMENT', 'BUILD_ROAD', 'UNDO'],
+  PRODUCTION: ['ROLL_DICE', 'PLAY_DEVELOPMENT_CARD', 'UNDO'],
+  ACTION: [
+    ...BUILD_ACTIONS, 'MOVE_SHIP', 'PLAY_DEVELOPMENT_CARD', ...TRADE_ACTIONS, 'TRADE_WITH_BANK', ...CITIES_AND_KNIGHTS_ACTIONS,
+    'END_TURN', 'UNDO'
+  ],
+  SPECIAL_BUILDING: [...BUILD_ACTIONS, 'PLAY_DEVELOPMENT_CARD', 'TRADE_WITH_BANK', 'END_TURN', 'UNDO'],
+  DISCARD: ['DISCARD_RESOURCES'],
+  MOVE_ROBBER: ['MOVE_ROBBER', 'UNDO'],
+  STEAL: ['STEAL_RESOURCE', 'UNDO'],
+  ROAD_BUILDING: ['BUILD_ROAD', 'UNDO'],
+  GOLD: ['CHOOSE_GOLD'],
+  GAME_OVER: []
+};
+
+export class PhaseManager {
+  static getAllowedActions(phase: GamePhase): ActionType[] {
+    return [...PHASE_ACTIONS[phase]];
+  }
+
+  static isSubPhase(phase: GamePhase): boolean {
+    return phase === 'DISCARD' || phase === 'MOVE_ROBBER' || phase === 'STEAL' || phase === 'ROAD_BUILDING';
+  }
+
+  static canPerformAction(
+    gameState: GameState,
+    playerId: string,
+    actionType: ActionType
+  ): ValidationResult {
+    if (!isActionType(actionType)) {
+      return invalid('UNKNOWN_ACTION', `Unknown action type: ${actionType}`, { actionType });
+    }
+    if (!PHASE_ACTIONS[gameState.phase].includes(actionType)) {
+      return invalid('WRONG_PHASE', `Cannot ${actionType} during the ${this.describePhase(gameState.phase)} phase`, {
+        actionType,
+        phase: gameState.phase
+      });
+    }
+
+    // Everyone who owes cards discards (or is owed gold picks) at once; every other sub-phase belongs to the current player
+    if (gameState.phase === 'DISCARD') {
+      if (!gameState.pendingDiscards?.[playerId]) {
+        return invalid('NO_DISCARD_OWED', 'You have no resources to discard', { playerId });
+      }
+    } else if (gameState.phase === 'GOLD') {
+      if (!gameState.seafarers?.pendingGold?.[playerId]) {
+        return invalid('NO_GOLD_OWED', 'You have no gold to spend', { playerId });
+      }
+    } else if (this.isSubPhase(gameState.phase) && gameState.players[gameState.currentPlayerIndex].id !== playerId) {
+      return invalid('NOT_YOUR_TURN', 'Not your turn', { currentPlayerId: gameState.players[gameState.currentPlayerIndex].id });
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Leaves a sub-phase, returning to the phase it interrupted and clearing the
+   * bookkeeping it kept on the state.
+   */
+  static resume(gameState: GameState): GameState {
+    const newState: GameState = { ...gameState, phase: gameState.resumePhase ?? 'ACTION' };
+    delete newState.resumePhase;
+    delete newState.pendingDiscards;
+    delete newState.freeRoadsRemaining;
+    if (newState.seafarers?.pirateTheft) {
+      newState.seafarers = { ...newState.seafarers };
+      delete newState.seafarers.pirateTheft;
+    }
+    return newState;
+  }
+
+  static describePhase(phase: GamePhase): string {
+    return phase.toLowerCase().replace(/_/g, ' ');
+  }
+}
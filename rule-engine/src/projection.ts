@@ -0,0 +1,63 @@
+import {
+  GameState,
+  GameStateView,
+  Player,
+  PlayerView,
+  CitiesAndKnightsState,
+  CitiesAndKnightsView,
+  IMPROVEMENT_TRACKS
+} from './types';
+import { ResourceManager } from './resources';
+import { EventLog } from './events';
+
+/**
+ * The game as `viewerId` may see it: their own hand in full, everyone else's
+ * as card counts, and the events with other players' secrets removed. Leave
+ * out the viewer (or pass someone not in the game) for the spectator view.
+ */
+export function projectForPlayer(gameState: GameState, viewerId?: string): GameStateView {
+  const { players, developmentCardDeck, seed, rng, undoHistory, events, citiesAndKnights, ...publicState } = gameState;
+
+  return {
+    ...publicState,
+    ...(viewerId !== undefined ? { viewerId } : {}),
+    players: players.map(player => projectPlayer(player, player.id === viewerId)),
+    developmentCardsRemaining: developmentCardDeck.length,
+    ...(citiesAndKnights ? { citiesAndKnights: projectCitiesAndKnights(citiesAndKnights, viewerId) } : {}),
+    ...(events ? { events: EventLog.forPlayer(events, viewerId ?? '') } : {})
+  };
+}
+
+function projectPlayer(player: Player, isViewer: boolean): PlayerView {
+  const { resources, developmentCards, newDevelopmentCards, ...publicPlayer } = player;
+  const counts = {
+    resourceCount: ResourceManager.getTotalResources(resources),
+    developmentCardCount: Object.values(developmentCards).reduce((sum, count) => sum + count, 0)
+  };
+
+  return isViewer
+    ? { ...publicPlayer, resources, developmentCards, ...(newDevelopmentCards ? { newDevelopmentCards } : {}), ...counts }
+    : { ...publicPlayer, ...counts };
+}
+
+// Progress cards and commodities are hidden hands like resources; improvements and knights are on the table
+function projectCitiesAndKnights(state: CitiesAndKnightsState, viewerId?: string): CitiesAndKnightsView {
+  const { players, progressDecks, ...publicState } = state;
+
+  return {
+    ...publicState,
+    players: Object.fromEntries(Object.entries(players).map(([playerId, player]) => {
+      const { commodities, progressCards, ...publicPlayer } = player;
+      const counts = {
+        commodityCount: Object.values(commodities).reduce((sum, count) => sum + count, 0),
+        progressCardCount: progressCards.length
+      };
+      return [playerId, playerId === viewerId
+        ? { ...publicPlayer, commodities, progressCards, ...counts }
+        : { ...publicPlayer, ...counts }];
+    })),
+    progressCardsRemaining: Object.fromEntries(
+      IMPROVEMENT_TRACKS.map(track => [track, progressDecks[track].length])
+    ) as CitiesAndKnightsView['progressCardsRemaining']
+  };
+}
@@ -0,0 +1,88 @@
+import { GameState, RandomState } from './types';
+
+export interface RandomGenerator {
+  /** Next value in [0, 1) */
+  next(): number;
+  /** Current 32-bit state, enough to resume the sequence later */
+  readonly state: number;
+}
+
+export type RandomGeneratorFactory = (state: number) => RandomGenerator;
+
+export const DEFAULT_RANDOM_ALGORITHM = 'mulberry32';
+
+export function mulberry32(state: number): RandomGenerator {
+  let current = state >>> 0;
+  return {
+    next(): number {
+      current = (current + 0x6d2b79f5) >>> 0;
+      let t = current;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    get state(): number {
+      return current;
+    }
+  };
+}
+
+export class RandomManager {
+  private static algorithms = new Map<string, RandomGeneratorFactory>([
+    [DEFAULT_RANDOM_ALGORITHM, mulberry32]
+  ]);
+
+  static registerAlgorithm(name: string, factory: RandomGeneratorFactory): void {
+    this.algorithms.set(name, factory);
+  }
+
+  static createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+  }
+
+  static createState(seed: number, algorithm: string = DEFAULT_RANDOM_ALGORITHM): RandomState {
+    if (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+      throw new Error('Seed must be an unsigned 32-bit integer');
+    }
+    this.getFactory(algorithm);
+    return { algorithm, state: seed };
+  }
+
+  static fromState(random: RandomState): RandomGenerator {
+    return this.getFactory(random.algorithm)(random.state);
+  }
+
+  /**
+   * Runs `draw` with a generator positioned at the game's RNG state and returns
+   * its result together with a state whose RNG has advanced past every draw.
+   */
+  static draw<T>(gameState: GameState, draw: (rng: RandomGenerator) => T): { value: T; newState: GameState } {
+    const rng = this.fromState(gameState.rng);
+    const value = draw(rng);
+    return {
+      value,
+      newState: { ...gameState, rng: { ...gameState.rng, state: rng.state } }
+    };
+  }
+
+  static nextInt(rng: RandomGenerator, maxExclusive: number): number {
+    return Math.floor(rng.next() * maxExclusive);
+  }
+
+  static shuffle<T>(items: T[], rng: RandomGenerator): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = this.nextInt(rng, i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  private static getFactory(algorithm: string): RandomGeneratorFactory {
+    const factory = this.algorithms.get(algorithm);
+    if (!factory) {
+      throw new Error(`Unknown random algorithm: ${algorithm}`);
+    }
+    return factory;
+  }
+}
@@ -1,10 +1,14 @@
-import { GameState, Resources, ResourceType, HexCoordinate, TerrainType } from './types';
+import { GameState, Resources, ResourceType, HexCoordinate, TerrainType, RESOURCE_TYPES, COMMODITY_TERRAINS } from './types';
 import { BoardGenerator } from './board';
+import { RandomGenerator, RandomManager } from './random';
+import { ValidationResult, RuleViolationError, invalid } from './errors';
+import { updatePlayer } from './state';
+import { getRules } from './rules';
 
 export class ResourceManager {
-  static rollDice(): [number, number] {
-    const die1 = Math.floor(Math.random() * 6) + 1;
-    const die2 = Math.floor(Math.random() * 6) + 1;
+  static rollDice(rng: RandomGenerator): [number, number] {
+    const die1 = RandomManager.nextInt(rng, 6) + 1;
+    const die2 = RandomManager.nextInt(rng, 6) + 1;
     return [die1, die2];
   }
 
@@ -13,8 +17,6 @@ export class ResourceManager {
       return this.handleSevenRolled(gameState);
     }
 
-    const newState = { ...gameState };
-    
     // Find all tiles with the rolled number
     const producingTiles: HexCoordinate[] = [];
     
@@ -25,11 +27,15 @@ export class ResourceManager {
     });
 
     // Distribute resources to players with buildings on producing tiles
+    const produced = new Map<string, Partial<Resources>>();
     producingTiles.forEach(tileCoord => {
       const tile = gameState.board.tiles.get(BoardGenerator.coordToKey(tileCoord));
-      if (!tile || tile.terrain === 'desert') return;
+      // Gold fields let the owner pick, so SeafarersManager pays them out
+      if (!tile || !this.producesResource(tile.terrain)) return;
 
       const resourceType = this.terrainToResource(tile.terrain);
+      // With Cities & Knights a city's second card from these hexes is a commodity instead
+      const cityAmount = gameState.citiesAndKnights && COMMODITY_TERRAINS[tile.terrain] ? 1 : 2;
       
       // Find intersections adjacent to this tile
       gameState.board.intersections.forEach(intersection => {
@@ -39,27 +45,99 @@ export class ResourceManager {
 
         if (isAdjacent && intersection.building) {
           const playerId = intersection.building.playerId;
-          const playerIndex = newState.players.findIndex(p => p.id === playerId);
-          
-          if (playerIndex !== -1) {
-            const resourceAmount = intersection.building.type === 'city' ? 2 : 1;
-            newState.players[playerIndex].resources[resourceType] += resourceAmount;
-          }
+          const resourceAmount = intersection.building.type === 'city' ? cityAmount : 1;
+          const playerProduction = produced.get(playerId) || {};
+          playerProduction[resourceType] = (playerProduction[resourceType] || 0) + resourceAmount;
+          produced.set(playerId, playerProduction);
         }
       });
     });
 
-    return newState;
+    if (gameState.bank) {
+      this.applyShortageRule(gameState.bank, produced);
+    }
+
+    const paid = Array.from(produced.values())
+      .reduce<Resources>((total, production) => this.addResources(total, production), this.createEmptyResources());
+
+    return {
+      ...this.takeFromBank(gameState, paid),
+      players: gameState.players.map(player => produced.has(player.id)
+        ? { ...player, resources: this.addResources(player.resources, produced.get(player.id)!) }
+        : player)
+    };
+  }
+
+  /**
+   * When the bank can't pay everyone a resource, nobody gets it; if only one
+   * player is owed that resource they take whatever is left.
+   */
+  private static applyShortageRule(bank: Resources, produced: Map<string, Partial<Resources>>): void {
+    RESOURCE_TYPES.forEach(resource => {
+      const owed = Array.from(produced.values()).filter(production => production[resource]);
+      const total = owed.reduce((sum, production) => sum + production[resource]!, 0);
+      if (total <= bank[resource]) {
+        return;
+      }
+
+      if (owed.length === 1 && bank[resource] > 0) {
+        owed[0][resource] = bank[resource];
+      } else {
+        owed.forEach(production => delete production[resource]);
+      }
+    });
+  }
+
+  // A second setup settlement collects one card from each producing hex around it
+  static getStartingResources(gameState: GameState, intersectionId: string): Partial<Resources> {
+    const resources: Partial<Resources> = {};
+    gameState.board.intersections.get(intersectionId)?.hexes.forEach(hex => {
+      const tile = gameState.board.tiles.get(BoardGenerator.coordToKey(hex));
+      if (!tile || !this.producesResource(tile.terrain)) return;
+
+      const resourceType = this.terrainToResource(tile.terrain);
+      resources[resourceType] = (resources[resourceType] || 0) + 1;
+    });
+    return resources;
+  }
+
+  static canTakeFromBank(gameState: GameState, resources: Partial<Resources>): ValidationResult {
+    // Anything else would write NaN into the bank
+    const unknown = Object.keys(resources).find(type => !RESOURCE_TYPES.includes(type as ResourceType));
+    if (unknown) {
+      return invalid('INVALID_ACTION', `The bank does not hold ${unknown}`, { resource: unknown });
+    }
+
+    const bank = gameState.bank;
+    const resource = bank && RESOURCE_TYPES.find(type => (resources[type] || 0) > bank[type]);
+    if (bank && resource) {
+      return invalid('BANK_EMPTY', `The bank does not have enough ${resource}`, {
+        resource,
+        available: bank[resource],
+        requested: resources[resource]
+      });
+    }
+    return { valid: true };
+  }
+
+  // Moves cards between a player's hand and the bank; states without a bank have an unlimited supply
+  static takeFromBank(gameState: GameState, resources: Partial<Resources>): GameState {
+    return gameState.bank ? { ...gameState, bank: this.subtractResources(gameState.bank, resources) } : gameState;
+  }
+
+  static returnToBank(gameState: GameState, resources: Partial<Resources>): GameState {
+    return gameState.bank ? { ...gameState, bank: this.addResources(gameState.bank, resources) } : gameState;
   }
 
   private static handleSevenRolled(gameState: GameState): GameState {
     const newState = { ...gameState };
+    const { discardLimit } = getRules(gameState);
     
-    // Phase 1: Players with >7 resources must discard half
+    // Phase 1: Players over the discard limit must discard half
     newState.players = newState.players.map(player => {
       const totalResources = this.getTotalResources(player.resources);
       
-      if (totalResources > 7) {
+      if (totalResources > discardLimit) {
         const discardCount = Math.floor(totalResources / 2);
         // Note: In real implementation, this would require player input
         // For now, we'll create a placeholder that needs to be resolved
@@ -148,32 +226,39 @@ export class ResourceManager {
     playerId: string,
     toDiscard: Partial<Resources>
   ): GameState {
-    const newState = { ...gameState };
-    const playerIndex = newState.players.findIndex(p => p.id === playerId);
+    const player = gameState.players.find(p => p.id === playerId);
     
-    if (playerIndex === -1) {
-      throw new Error(`Player ${playerId} not found`);
+    if (!player) {
+      throw new RuleViolationError('PLAYER_NOT_FOUND', `Player ${playerId} not found`, { playerId });
     }
 
-    const player = newState.players[playerIndex];
     const totalResources = this.getTotalResources(player.resources);
     
-    if (totalResources <= 7) {
-      throw new Error(`Player ${playerId} doesn't need to discard resources`);
+    if (totalResources <= getRules(gameState).discardLimit) {
+      throw new RuleViolationError('NO_DISCARD_OWED', `Player ${playerId} doesn't need to discard resources`, { playerId });
     }
 
     const requiredDiscard = Math.floor(totalResources / 2);
     
     if (!this.validateDiscardSelection(player.resources, toDiscard, requiredDiscard)) {
-      throw new Error('Invalid discard selection');
+      throw new RuleViolationError('INVALID_DISCARD', 'Invalid discard selection', {
+        required: requiredDiscard,
+        selected: toDiscard
+      });
     }
 
-    newState.players[playerIndex].resources = this.subtractResources(
-      player.resources, 
-      toDiscard
-    );
+    return updatePlayer(this.returnToBank(gameState, toDiscard), playerId, discarding => ({
+      resources: this.subtractResources(discarding.resources, toDiscard)
+    }));
+  }
 
-    return newState;
+  // The resource a hex of this terrain pays out; deserts, the sea and gold fields have none
+  static getProducedResource(terrain: TerrainType): ResourceType | undefined {
+    return this.producesResource(terrain) ? this.terrainToResource(terrain) : undefined;
+  }
+
+  private static producesResource(terrain: TerrainType): boolean {
+    return terrain !== 'desert' && terrain !== 'sea' && terrain !== 'gold';
   }
 
   private static terrainToResource(terrain: TerrainType): ResourceType {
@@ -183,7 +268,9 @@ export class ResourceManager {
       pasture: 'wool',
       field: 'wheat',
       mountain: 'ore',
-      desert: null
+      desert: null,
+      sea: null,
+      gold: null
     };
 
     const resource = mapping[terrain];
@@ -195,16 +282,15 @@ export class ResourceManager {
   }
 
   static stealRandomResource(fromPlayerId: string, toPlayerId: string, gameState: GameState): GameState {
-    const newState = { ...gameState };
+    const fromPlayer = gameState.players.find(p => p.id === fromPlayerId);
+    const toPlayer = gameState.players.find(p => p.id === toPlayerId);
     
-    const fromPlayerIndex = newState.players.findIndex(p => p.id === fromPlayerId);
-    const toPlayerIndex = newState.players.findIndex(p => p.id === toPlayerId);
-    
-    if (fromPlayerIndex === -1 || toPlayerIndex === -1) {
-      throw new Error('Invalid player IDs for stealing');
+    if (!fromPlayer || !toPlayer) {
+      throw new RuleViolationError('PLAYER_NOT_FOUND', 'Invalid player IDs for stealing', {
+        playerIds: [fromPlayerId, toPlayerId]
+      });
     }
 
-    const fromPlayer = newState.players[fromPlayerIndex];
     const availableResources: ResourceType[] = [];
     
     // Collect all available resource cards
@@ -215,17 +301,22 @@ export class ResourceManager {
     });
 
     if (availableResources.length === 0) {
-      return newState; // Nothing to steal
+      return gameState; // Nothing to steal
     }
 
     // Randomly select a resource to steal
-    const randomIndex = Math.floor(Math.random() * availableResources.length);
+    const { value: randomIndex, newState: drawnState } = RandomManager.draw(
+      gameState,
+      rng => RandomManager.nextInt(rng, availableResources.length)
+    );
     const stolenResource = availableResources[randomIndex];
 
     // Transfer the resource
-    newState.players[fromPlayerIndex].resources[stolenResource]--;
-    newState.players[toPlayerIndex].resources[stolenResource]++;
-
-    return newState;
+    const robbedState = updatePlayer(drawnState, fromPlayerId, player => ({
+      resources: this.subtractResources(player.resources, { [stolenResource]: 1 })
+    }));
+    return updatePlayer(robbedState, toPlayerId, player => ({
+      resources: this.addResources(player.resources, { [stolenResource]: 1 })
+    }));
   }
 }
\ No newline at end of file
@@ -1,34 +1,53 @@
-import { GameState, HexCoordinate, Player } from './types';
+import { GameState, HexCoordinate, Player, Resources } from './types';
 import { BoardGenerator } from './board';
 import { ResourceManager } from './resources';
+import { ValidationResult, RuleViolationError, invalid } from './errors';
+import { updateTile } from './state';
+import { VictoryManager } from './victory';
+import { SeafarersManager } from './seafarers';
+import { getRules, FRIENDLY_ROBBER_MAX_POINTS } from './rules';
 
 export class RobberManager {
   static canMoveRobber(
     gameState: GameState,
     playerId: string,
     newLocation: HexCoordinate
-  ): { valid: boolean; error?: string } {
+  ): ValidationResult {
     const player = gameState.players.find(p => p.id === playerId);
     if (!player) {
-      return { valid: false, error: 'Player not found' };
+      return invalid('PLAYER_NOT_FOUND', 'Player not found', { playerId });
     }
 
     // Check if it's the player's turn
     if (gameState.players[gameState.currentPlayerIndex].id !== playerId) {
-      return { valid: false, error: 'Not your turn' };
+      return invalid('NOT_YOUR_TURN', 'Not your turn', {
+        currentPlayerId: gameState.players[gameState.currentPlayerIndex].id
+      });
     }
 
     // Check if the new location is a valid hex
     const tileKey = BoardGenerator.coordToKey(newLocation);
     const targetTile = gameState.board.tiles.get(tileKey);
     if (!targetTile) {
-      return { valid: false, error: 'Invalid hex location' };
+      return invalid('INVALID_LOCATION', 'Invalid hex location', { hex: newLocation });
+    }
+
+    // Seafarers: a sea hex means moving the pirate, which must also go somewhere new
+    if (targetTile.terrain === 'sea') {
+      const pirateLocation = gameState.board.pirateLocation;
+      if (!pirateLocation) {
+        return invalid('INVALID_LOCATION', 'The robber cannot move onto the sea', { hex: newLocation });
+      }
+      if (pirateLocation.q === newLocation.q && pirateLocation.r === newLocation.r) {
+        return invalid('ROBBER_MUST_MOVE', 'Pirate must move to a different hex', { hex: newLocation });
+      }
+      return { valid: true };
     }
 
     // Check if robber is moving to a different location
     const currentLocation = gameState.board.robberLocation;
     if (currentLocation.q === newLocation.q && currentLocation.r === newLocation.r) {
-      return { valid: false, error: 'Robber must move to a different hex' };
+      return invalid('ROBBER_MUST_MOVE', 'Robber must move to a different hex', { hex: newLocation });
     }
 
     return { valid: true };
@@ -37,42 +56,40 @@ export class RobberManager {
   static moveRobber(
     gameState: GameState,
     playerId: string,
-    newLocation: HexCoordinate,
-    targetPlayerId?: string
+    newLocation: HexCoordinate
   ): GameState {
     const validation = this.canMoveRobber(gameState, playerId, newLocation);
     if (!validation.valid) {
-      throw new Error(validation.error);
+      throw RuleViolationError.fromValidation(validation);
+    }
+
+    if (gameState.board.tiles.get(BoardGenerator.coordToKey(newLocation))!.terrain === 'sea') {
+      return SeafarersManager.movePirate(gameState, newLocation);
     }
 
-    const newState = { ...gameState };
+    let newState = gameState;
 
     // Remove robber from current location
-    const currentTileKey = BoardGenerator.coordToKey(newState.board.robberLocation);
-    const currentTile = newState.board.tiles.get(currentTileKey);
-    if (currentTile) {
-      currentTile.hasRobber = false;
+    const currentTileKey = BoardGenerator.coordToKey(gameState.board.robberLocation);
+    if (gameState.board.tiles.has(currentTileKey)) {
+      newState = updateTile(newState, currentTileKey, { hasRobber: false });
     }
 
-    // Place robber on new location
-    const newTileKey = BoardGenerator.coordToKey(newLocation);
-    const newTile = newState.board.tiles.get(newTileKey);
-    if (newTile) {
-      newTile.hasRobber = true;
-    }
+    // Place robber on new location (canMoveRobber has checked the tile exists)
+    newState = updateTile(newState, BoardGenerator.coordToKey(newLocation), { hasRobber: true });
 
     // Update robber location
-    newState.board.robberLocation = newLocation;
+    return { ...newState, board: { ...newState.board, robberLocation: { q: newLocation.q, r: newLocation.r } } };
+  }
 
-    // Steal resource if target player specified and valid
-    if (targetPlayerId && targetPlayerId !== playerId) {
-      const stealValidation = this.canStealFromPlayer(newState, playerId, targetPlayerId, newLocation);
-      if (stealValidation.valid) {
-        return ResourceManager.stealRandomResource(targetPlayerId, playerId, newState);
-      }
+  static stealResource(gameState: GameState, playerId: string, targetPlayerId: string): GameState {
+    const location = gameState.seafarers?.pirateTheft ? gameState.board.pirateLocation! : gameState.board.robberLocation;
+    const validation = this.canStealFromPlayer(gameState, playerId, targetPlayerId, location);
+    if (!validation.valid) {
+      throw RuleViolationError.fromValidation(validation);
     }
 
-    return newState;
+    return ResourceManager.stealRandomResource(targetPlayerId, playerId, gameState);
   }
 
   static canStealFromPlayer(
@@ -80,25 +97,45 @@ export class RobberManager {
     theftPlayerId: string,
     targetPlayerId: string,
     robberLocation: HexCoordinate
-  ): { valid: boolean; error?: string } {
+  ): ValidationResult {
     if (theftPlayerId === targetPlayerId) {
-      return { valid: false, error: 'Cannot steal from yourself' };
+      return invalid('INVALID_STEAL_TARGET', 'Cannot steal from yourself', { targetPlayerId });
     }
 
     const targetPlayer = gameState.players.find(p => p.id === targetPlayerId);
     if (!targetPlayer) {
-      return { valid: false, error: 'Target player not found' };
+      return invalid('PLAYER_NOT_FOUND', 'Target player not found', { playerId: targetPlayerId });
     }
 
     // Check if target player has any resources to steal
     const totalResources = ResourceManager.getTotalResources(targetPlayer.resources);
     if (totalResources === 0) {
-      return { valid: false, error: 'Target player has no resources to steal' };
+      return invalid('INVALID_STEAL_TARGET', 'Target player has no resources to steal', { targetPlayerId });
+    }
+
+    if (this.isProtectedByFriendlyRobber(gameState, targetPlayer)) {
+      return invalid('INVALID_STEAL_TARGET', `Players with ${FRIENDLY_ROBBER_MAX_POINTS} points or fewer cannot be robbed`, {
+        targetPlayerId
+      });
+    }
+
+    // The pirate robs ships next to it
+    if (gameState.seafarers?.pirateTheft) {
+      if (!SeafarersManager.getPlayersAdjacentToPirate(gameState).includes(targetPlayerId)) {
+        return invalid('INVALID_STEAL_TARGET', 'Target player has no ships next to the pirate', {
+          targetPlayerId,
+          pirateLocation: robberLocation
+        });
+      }
+      return { valid: true };
     }
 
     // Check if target player has a building adjacent to the robber
     if (!this.playerHasAdjacentBuilding(gameState, targetPlayerId, robberLocation)) {
-      return { valid: false, error: 'Target player has no buildings adjacent to robber' };
+      return invalid('INVALID_STEAL_TARGET', 'Target player has no buildings adjacent to robber', {
+        targetPlayerId,
+        robberLocation
+      });
     }
 
     return { valid: true };
@@ -126,7 +163,9 @@ export class RobberManager {
   }
 
   static getValidStealTargets(gameState: GameState, theftPlayerId: string): string[] {
-    const adjacentPlayers = this.getPlayersAdjacentToRobber(gameState);
+    const adjacentPlayers = gameState.seafarers?.pirateTheft
+      ? SeafarersManager.getPlayersAdjacentToPirate(gameState)
+      : this.getPlayersAdjacentToRobber(gameState);
     
     return adjacentPlayers.filter(playerId => {
       if (playerId === theftPlayerId) return false;
@@ -134,10 +173,15 @@ export class RobberManager {
       const player = gameState.players.find(p => p.id === playerId);
       if (!player) return false;
       
-      return ResourceManager.getTotalResources(player.resources) > 0;
+      return ResourceManager.getTotalResources(player.resources) > 0 && !this.isProtectedByFriendlyRobber(gameState, player);
     });
   }
 
+  static isProtectedByFriendlyRobber(gameState: GameState, player: Player): boolean {
+    return getRules(gameState).friendlyRobber &&
+      VictoryManager.calculateVictoryPoints(player) <= FRIENDLY_ROBBER_MAX_POINTS;
+  }
+
   private static playerHasAdjacentBuilding(
     gameState: GameState,
     playerId: string,
@@ -160,8 +204,9 @@ export class RobberManager {
   }
 
   static mustDiscardResources(gameState: GameState): Player[] {
+    const { discardLimit } = getRules(gameState);
     return gameState.players.filter(player => 
-      ResourceManager.getTotalResources(player.resources) > 7
+      ResourceManager.getTotalResources(player.resources) > discardLimit
     );
   }
 
@@ -170,8 +215,7 @@ export class RobberManager {
     totalResources: number;
     mustDiscard: number;
   }> {
-    return gameState.players
-      .filter(player => ResourceManager.getTotalResources(player.resources) > 7)
+    return this.mustDiscardResources(gameState)
       .map(player => ({
         playerId: player.id,
         totalResources: ResourceManager.getTotalResources(player.resources),
@@ -180,16 +224,15 @@ export class RobberManager {
   }
 
   static isDiscardPhaseComplete(gameState: GameState): boolean {
-    return this.mustDiscardResources(gameState).length === 0;
+    return Object.keys(gameState.pendingDiscards ?? {}).length === 0;
   }
 
   static getValidRobberLocations(gameState: GameState): HexCoordinate[] {
     const validLocations: HexCoordinate[] = [];
-    const currentLocation = gameState.board.robberLocation;
-
     gameState.board.tiles.forEach(tile => {
-      // Robber can move to any hex except its current location
-      if (tile.coordinate.q !== currentLocation.q || tile.coordinate.r !== currentLocation.r) {
+      // Robber can move to any hex except its current location (sea hexes move the pirate, if there is one)
+      const currentLocation = tile.terrain === 'sea' ? gameState.board.pirateLocation : gameState.board.robberLocation;
+      if (currentLocation && (tile.coordinate.q !== currentLocation.q || tile.coordinate.r !== currentLocation.r)) {
         validLocations.push(tile.coordinate);
       }
     });
@@ -206,19 +249,37 @@ export class RobberManager {
     return robberLocation.q === hexLocation.q && robberLocation.r === hexLocation.r;
   }
 
-  static handleSevenRolled(gameState: GameState): {
-    newState: GameState;
-    playersToDiscard: Array<{ playerId: string; mustDiscard: number }>;
-  } {
-    const newState = { ...gameState };
-    
-    // Get all players who need to discard
-    const playersToDiscard = this.getAllPlayersToDiscard(newState);
+  /**
+   * Starts the robber sequence after a 7: everyone holding more than the discard limit
+   * owes half their hand, then the roller moves the robber.
+   */
+  static handleSevenRolled(gameState: GameState): GameState {
+    const pendingDiscards = Object.fromEntries(
+      this.getAllPlayersToDiscard(gameState).map(({ playerId, mustDiscard }) => [playerId, mustDiscard])
+    );
 
-    return {
-      newState,
-      playersToDiscard
-    };
+    if (Object.keys(pendingDiscards).length === 0) {
+      return { ...gameState, phase: 'MOVE_ROBBER', resumePhase: 'ACTION' };
+    }
+    return { ...gameState, phase: 'DISCARD', pendingDiscards, resumePhase: 'ACTION' };
+  }
+
+  static discardResources(gameState: GameState, playerId: string, toDiscard: Partial<Resources>): GameState {
+    const owed = gameState.pendingDiscards?.[playerId];
+    if (!owed) {
+      throw new RuleViolationError('NO_DISCARD_OWED', `Player ${playerId} doesn't need to discard resources`, { playerId });
+    }
+
+    const newState = { ...ResourceManager.discardResources(gameState, playerId, toDiscard) };
+    newState.pendingDiscards = { ...gameState.pendingDiscards };
+    delete newState.pendingDiscards[playerId];
+
+    // The robber moves once the last player has discarded
+    if (this.isDiscardPhaseComplete(newState)) {
+      delete newState.pendingDiscards;
+      newState.phase = 'MOVE_ROBBER';
+    }
+    return newState;
   }
 
   static validateRobberPlacement(
@@ -226,7 +287,7 @@ export class RobberManager {
     playerId: string,
     robberLocation: HexCoordinate,
     targetPlayerId?: string
-  ): { valid: boolean; error?: string } {
+  ): ValidationResult {
     // Check if robber movement is valid
     const moveValidation = this.canMoveRobber(gameState, playerId, robberLocation);
     if (!moveValidation.valid) {
@@ -241,7 +302,9 @@ export class RobberManager {
     // If no target specified, check if there are valid targets
     const validTargets = this.getValidStealTargets(gameState, playerId);
     if (validTargets.length > 0) {
-      return { valid: false, error: 'Must select a player to steal from when valid targets are available' };
+      return invalid('INVALID_STEAL_TARGET', 'Must select a player to steal from when valid targets are available', {
+        validTargets
+      });
     }
 
     return { valid: true };
@@ -6,19 +6,56 @@ import {
   HexCoordinate, 
   TradeOffer,
   GamePhase,
-  DevelopmentCardType
+  DevelopmentCardType,
+  GameRuleOverrides,
+  Resources,
+  RESOURCE_TYPES
 } from './types';
-import { BoardGenerator } from './board';
+import { BoardGenerator, RandomBoardOptions } from './board';
 import { ResourceManager } from './resources';
 import { BuildingManager } from './building';
 import { TradingManager } from './trading';
 import { DevelopmentCardManager } from './development-cards';
 import { RobberManager } from './robber';
 import { VictoryManager } from './victory';
+import { RandomManager } from './random';
+import { PhaseManager } from './phases';
+import { LegalMoveGenerator } from './legal-moves';
+import { RuleViolationError } from './errors';
+import { EventLog } from './events';
+import { UndoManager } from './undo';
+import { createRules, getRules } from './rules';
+import { CitiesAndKnightsManager, CITIES_AND_KNIGHTS_VICTORY_POINTS } from './cities-and-knights';
+import { SeafarersManager, SeafarersScenario } from './seafarers';
+import { Scenario, ScenarioLoader } from './scenario';
+
+// In 5-6 player games the player third to the left gets a special building phase
+const PAIRED_PLAYER_OFFSET = 3;
+
+export interface NewGameOptions {
+  id?: string; // game_<seed> when omitted, so a replay gets the same id
+  seed?: number; // random when omitted; reuse it to replay a game
+  rngAlgorithm?: string;
+  randomBoard?: boolean | Omit<RandomBoardOptions, 'seed' | 'rng'>; // standard layout when omitted
+  rules?: GameRuleOverrides; // house rules; the defaults for the player count fill the rest
+  citiesAndKnights?: boolean; // play with the Cities & Knights expansion
+  scenario?: string | Scenario; // a fixed map: a bundled id or a custom one (replaces randomBoard)
+  seafarers?: string | SeafarersScenario; // a Seafarers scenario: a bundled id or a custom map (replaces randomBoard)
+}
 
 export class CatanRuleEngine {
   static processAction(gameState: GameState, action: Action): GameResult {
     try {
+      const allowed = PhaseManager.canPerformAction(gameState, action.playerId, action.type);
+      if (!allowed.valid) {
+        return this.reject(RuleViolationError.fromValidation(allowed));
+      }
+
+      // Undo replays the turn so far and records nothing itself
+      if (action.type === 'UNDO') {
+        return { success: true, newState: this.handleUndo(gameState, action) };
+      }
+
       let newState = { ...gameState };
 
       switch (action.type) {
@@ -46,8 +83,24 @@ export class CatanRuleEngine {
           newState = this.handlePlayDevelopmentCard(newState, action);
           break;
         
-        case 'TRADE_WITH_PLAYER':
-          newState = this.handlePlayerTrade(newState, action);
+        case 'PROPOSE_TRADE':
+          newState = this.handleProposeTrade(newState, action);
+          break;
+        
+        case 'COUNTER_TRADE':
+          newState = this.handleCounterTrade(newState, action);
+          break;
+        
+        case 'ACCEPT_TRADE':
+          newState = TradingManager.acceptTrade(newState, action.playerId, action.payload.offerId);
+          break;
+        
+        case 'REJECT_TRADE':
+          newState = TradingManager.rejectTrade(newState, action.playerId, action.payload.offerId);
+          break;
+        
+        case 'CANCEL_TRADE':
+          newState = TradingManager.cancelTrade(newState, action.playerId, action.payload.offerId);
           break;
         
         case 'TRADE_WITH_BANK':
@@ -62,125 +115,234 @@ export class CatanRuleEngine {
           newState = this.handleDiscardResources(newState, action);
           break;
         
+        case 'STEAL_RESOURCE':
+          newState = this.handleStealResource(newState, action);
+          break;
+        
         case 'END_TURN':
           newState = this.handleEndTurn(newState, action);
           break;
         
+        case 'BUILD_KNIGHT':
+        case 'ACTIVATE_KNIGHT':
+        case 'PROMOTE_KNIGHT':
+        case 'IMPROVE_CITY':
+        case 'PLAY_PROGRESS_CARD':
+          newState = this.handleCitiesAndKnights(newState, action);
+          break;
+        
+        case 'BUILD_SHIP':
+        case 'MOVE_SHIP':
+        case 'CHOOSE_GOLD':
+          newState = this.handleSeafarers(newState, action);
+          break;
+        
         default:
-          return { 
-            success: false, 
-            error: `Unknown action type: ${action.type}` 
-          };
+          return this.reject(new RuleViolationError('UNKNOWN_ACTION', `Unknown action type: ${action.type}`, {
+            actionType: action.type
+          }));
       }
 
       // Update victory conditions after every action
       newState = VictoryManager.updateLongestRoad(newState);
       newState = VictoryManager.updateLargestArmy(newState);
 
-      // Check for win condition
+      // Check for win condition; ending the turn hands it on, and the next player wins on an action of their own
       const gameEnd = VictoryManager.checkGameEnd(newState);
-      if (gameEnd.gameEnded) {
-        newState.phase = 'GAME_OVER';
-        newState.winner = gameEnd.winner?.id;
+      if (gameEnd.gameEnded && gameEnd.winner!.id === VictoryManager.getTurnOwner(gameState)?.id) {
+        newState = { ...newState, phase: 'GAME_OVER', winner: gameEnd.winner?.id };
       }
 
+      newState = EventLog.record(gameState, newState, action);
+      newState = UndoManager.record(gameState, newState, action);
+
       return { success: true, newState };
       
     } catch (error) {
-      return { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
-      };
+      if (error instanceof RuleViolationError) {
+        return this.reject(error);
+      }
+      // Anything else is a malformed action (a missing payload field, say) rather than a broken rule
+      return this.reject(new RuleViolationError('INVALID_ACTION', error instanceof Error ? error.message : 'Unknown error'));
     }
   }
 
-  static createNewGame(playerIds: string[]): GameState {
-    if (playerIds.length < 2 || playerIds.length > 4) {
-      throw new Error('Game requires 2-4 players');
+  private static reject(error: RuleViolationError): GameResult {
+    return { success: false, error: error.message, violation: error.toViolation() };
+  }
+
+  static createNewGame(playerIds: string[], options: NewGameOptions = {}): GameState {
+    if (playerIds.length < 2 || playerIds.length > 6) {
+      throw new Error('Game requires 2-6 players');
+    }
+    const extended = playerIds.length > 4;
+
+    if (options.scenario !== undefined && options.seafarers !== undefined) {
+      throw new Error('A game takes either a scenario or a Seafarers scenario, not both');
+    }
+    const seafarers = typeof options.seafarers === 'string'
+      ? SeafarersManager.getScenario(options.seafarers)
+      : options.seafarers;
+    if (options.seafarers !== undefined && !seafarers) {
+      throw new Error(`Unknown Seafarers scenario: ${options.seafarers}`);
+    }
+    const scenario: Scenario | undefined = seafarers ?? (typeof options.scenario === 'string'
+      ? ScenarioLoader.getScenario(options.scenario)
+      : options.scenario);
+    if (options.scenario !== undefined && !scenario) {
+      throw new Error(`Unknown scenario: ${options.scenario}`);
+    }
+    // Custom maps are checked here; the bundled ones have tests
+    if (typeof options.seafarers === 'object') {
+      SeafarersManager.validateScenario(options.seafarers);
+    } else if (typeof options.scenario === 'object') {
+      ScenarioLoader.validate(options.scenario);
+    }
+    if (scenario && (playerIds.length < scenario.minPlayers || playerIds.length > scenario.maxPlayers)) {
+      throw new Error(`${scenario.name} requires ${scenario.minPlayers}-${scenario.maxPlayers} players`);
     }
 
     const players: Player[] = playerIds.map((id, index) => ({
       id,
-      color: ['red', 'blue', 'white', 'orange'][index],
+      color: ['red', 'blue', 'white', 'orange', 'green', 'brown'][index],
       resources: { wood: 0, brick: 0, wool: 0, wheat: 0, ore: 0 },
       developmentCards: { knight: 0, roadBuilding: 0, invention: 0, monopoly: 0, victoryPoint: 0 },
-      buildings: { roads: [], settlements: [], cities: [] },
+      buildings: { roads: [], settlements: [], cities: [], ...(seafarers ? { ships: [] } : {}) },
       specialCards: { longestRoad: false, largestArmy: false },
       knightsPlayed: 0,
       victoryPoints: 0,
       canPlayDevCard: true
     }));
 
-    const board = BoardGenerator.generateStandardBoard();
-    const developmentCardDeck = DevelopmentCardManager.createStandardDeck();
+    const seed = options.seed ?? RandomManager.createSeed();
+    const rng = RandomManager.fromState(RandomManager.createState(seed, options.rngAlgorithm));
+
+    const board = scenario
+      ? BoardGenerator.generateScenarioBoard(scenario)
+      : options.randomBoard
+      ? BoardGenerator.generateRandomBoard({ ...(options.randomBoard === true ? {} : options.randomBoard), rng, extended })
+      : extended ? BoardGenerator.generateExtendedBoard() : BoardGenerator.generateStandardBoard();
+    const rules = createRules(playerIds.length, {
+      ...(options.citiesAndKnights ? { victoryPointsToWin: CITIES_AND_KNIGHTS_VICTORY_POINTS } : {}),
+      ...scenario?.rules,
+      ...options.rules
+    });
+    // Cities & Knights replaces development cards with progress cards
+    const developmentCardDeck = options.citiesAndKnights ? [] : DevelopmentCardManager.createDeck(rules.developmentCardDeck, rng);
+    const bank = RESOURCE_TYPES.reduce<Resources>(
+      (supply, resource) => ({ ...supply, [resource]: rules.bankResourcesPerType }),
+      ResourceManager.createEmptyResources()
+    );
+
+    const citiesAndKnights = options.citiesAndKnights ? CitiesAndKnightsManager.createState(playerIds, rng) : undefined;
 
     return {
-      id: `game_${Date.now()}`,
+      id: options.id ?? `game_${seed}`,
       phase: 'SETUP_ROUND_1',
       currentPlayerIndex: 0,
       players,
       board,
       developmentCardDeck,
-      turn: 1
+      bank,
+      turn: 1,
+      seed,
+      rng: RandomManager.createState(rng.state, options.rngAlgorithm),
+      events: [],
+      rules,
+      ...(citiesAndKnights ? { citiesAndKnights } : {}),
+      ...(seafarers ? { seafarers: SeafarersManager.createState(seafarers) } : {})
     };
   }
 
+  private static assertCurrentPlayer(gameState: GameState, playerId: string, message: string): void {
+    const currentPlayerId = gameState.players[gameState.currentPlayerIndex].id;
+    if (currentPlayerId !== playerId) {
+      throw new RuleViolationError('NOT_YOUR_TURN', message, { currentPlayerId });
+    }
+  }
+
   private static handleRollDice(gameState: GameState, action: Action): GameState {
     if (gameState.phase !== 'PRODUCTION') {
-      throw new Error('Can only roll dice during production phase');
+      throw new RuleViolationError('WRONG_PHASE', 'Can only roll dice during production phase', {
+        actionType: action.type,
+        phase: gameState.phase
+      });
     }
 
-    if (gameState.players[gameState.currentPlayerIndex].id !== action.playerId) {
-      throw new Error('Not your turn to roll dice');
-    }
+    this.assertCurrentPlayer(gameState, action.playerId, 'Not your turn to roll dice');
 
-    const diceRoll = ResourceManager.rollDice();
+    const { value: diceRoll, newState: rolledState } = RandomManager.draw(gameState, rng => ResourceManager.rollDice(rng));
     const diceSum = diceRoll[0] + diceRoll[1];
     
-    let newState: GameState = { ...gameState, diceRoll };
+    const newState: GameState = rolledState.citiesAndKnights
+      ? CitiesAndKnightsManager.resolveRoll({ ...rolledState, diceRoll }, diceRoll)
+      : { ...rolledState, diceRoll };
     
     if (diceSum === 7) {
-      // Handle seven rolled - discard phase will be handled separately
-      const sevenResult = RobberManager.handleSevenRolled(newState);
-      newState = { ...sevenResult.newState, diceRoll };
-      // Game engine should handle the discard phase
-    } else {
-      newState = { ...ResourceManager.distributeResources(newState, diceSum), diceRoll };
+      // Discards (if anyone holds more than 7 cards), then the robber, then the action phase
+      return RobberManager.handleSevenRolled(newState);
     }
 
-    // Transition to action phase (unless seven was rolled and discards are needed)
-    if (diceSum !== 7 || RobberManager.isDiscardPhaseComplete(newState)) {
-      newState.phase = 'ACTION';
+    // Gold fields hold the turn until their owners have picked
+    return SeafarersManager.resolveGold(
+      { ...ResourceManager.distributeResources(newState, diceSum), diceRoll, phase: 'ACTION' },
+      diceSum
+    );
+  }
+
+  private static handleBuildRoad(gameState: GameState, action: Action): GameState {
+    this.assertCurrentPlayer(gameState, action.playerId, 'Not your turn to build');
+    const { edgeId } = action.payload;
+    if (gameState.phase === 'ROAD_BUILDING') {
+      return DevelopmentCardManager.placeFreeRoad(gameState, action.playerId, edgeId);
     }
 
-    return newState;
+    const newState = BuildingManager.buildRoad(gameState, action.playerId, edgeId);
+    // A setup turn is over once the road is down
+    return BuildingManager.isSetupPhase(gameState) ? this.passSetupTurn(newState) : newState;
   }
 
-  private static handleBuildRoad(gameState: GameState, action: Action): GameState {
-    if (gameState.players[gameState.currentPlayerIndex].id !== action.playerId) {
-      throw new Error('Not your turn to build');
+  /**
+   * Setup snakes: round 1 runs from the first player to the last, who then
+   * places again to start round 2 running back to the first player, who opens
+   * regular play. Each round counts as a turn.
+   */
+  private static passSetupTurn(gameState: GameState): GameState {
+    const lastIndex = gameState.players.length - 1;
+
+    if (gameState.phase === 'SETUP_ROUND_1') {
+      return gameState.currentPlayerIndex < lastIndex
+        ? { ...gameState, currentPlayerIndex: gameState.currentPlayerIndex + 1 }
+        : { ...gameState, phase: 'SETUP_ROUND_2', turn: gameState.turn + 1 };
     }
-    const { edgeId } = action.payload;
-    return BuildingManager.buildRoad(gameState, action.playerId, edgeId);
+
+    return gameState.currentPlayerIndex > 0
+      ? { ...gameState, currentPlayerIndex: gameState.currentPlayerIndex - 1 }
+      : { ...gameState, phase: 'PRODUCTION', turn: gameState.turn + 1 };
   }
 
   private static handleBuildSettlement(gameState: GameState, action: Action): GameState {
-    if (gameState.players[gameState.currentPlayerIndex].id !== action.playerId) {
-      throw new Error('Not your turn to build');
-    }
+    this.assertCurrentPlayer(gameState, action.playerId, 'Not your turn to build');
     const { intersectionId } = action.payload;
-    return BuildingManager.buildSettlement(gameState, action.playerId, intersectionId);
+    const newState = SeafarersManager.recordSettlement(
+      BuildingManager.buildSettlement(gameState, action.playerId, intersectionId),
+      action.playerId,
+      intersectionId
+    );
+    // Cities & Knights players start with a settlement and a city
+    return gameState.citiesAndKnights && gameState.phase === 'SETUP_ROUND_2'
+      ? CitiesAndKnightsManager.placeSetupCity(newState, action.playerId, intersectionId)
+      : newState;
   }
 
   private static handleBuildCity(gameState: GameState, action: Action): GameState {
-    if (gameState.players[gameState.currentPlayerIndex].id !== action.playerId) {
-      throw new Error('Not your turn to build');
-    }
+    this.assertCurrentPlayer(gameState, action.playerId, 'Not your turn to build');
     const { intersectionId } = action.payload;
     return BuildingManager.buildCity(gameState, action.playerId, intersectionId);
   }
 
   private static handleBuyDevelopmentCard(gameState: GameState, action: Action): GameState {
+    this.assertCurrentPlayer(gameState, action.playerId, 'Not your turn to buy a development card');
     return DevelopmentCardManager.buyDevelopmentCard(gameState, action.playerId);
   }
 
@@ -189,21 +351,10 @@ export class CatanRuleEngine {
 
     switch (cardType) {
       case 'knight':
-        const { robberLocation, targetPlayerId } = cardPayload;
-        return DevelopmentCardManager.playKnightCard(
-          gameState, 
-          action.playerId, 
-          robberLocation, 
-          targetPlayerId
-        );
+        return DevelopmentCardManager.playKnightCard(gameState, action.playerId);
       
       case 'roadBuilding':
-        const { edgeIds } = cardPayload;
-        return DevelopmentCardManager.playRoadBuildingCard(
-          gameState, 
-          action.playerId, 
-          edgeIds
-        );
+        return DevelopmentCardManager.playRoadBuildingCard(gameState, action.playerId);
       
       case 'invention':
         const { resources } = cardPayload;
@@ -222,36 +373,96 @@ export class CatanRuleEngine {
         );
       
       case 'victoryPoint':
-        return DevelopmentCardManager.playVictoryPointCard(gameState, action.playerId);
+        // Never played: the card counts from the hand once it wins the game
+        throw RuleViolationError.fromValidation(
+          DevelopmentCardManager.canPlayDevelopmentCard(gameState, action.playerId, cardType)
+        );
       
       default:
-        throw new Error(`Unknown development card type: ${cardType}`);
+        throw new RuleViolationError('UNKNOWN_ACTION', `Unknown development card type: ${cardType}`, { cardType });
     }
   }
 
-  private static handlePlayerTrade(gameState: GameState, action: Action): GameState {
-    const { tradeOffer } = action.payload as { tradeOffer: TradeOffer };
-    return TradingManager.executeTrade(gameState, tradeOffer);
+  private static handleCitiesAndKnights(gameState: GameState, action: Action): GameState {
+    this.assertCurrentPlayer(gameState, action.playerId, 'Not your turn');
+    const { intersectionId, track, cardType, ...choice } = action.payload ?? {};
+
+    switch (action.type) {
+      case 'BUILD_KNIGHT':
+        return CitiesAndKnightsManager.buildKnight(gameState, action.playerId, intersectionId);
+      case 'ACTIVATE_KNIGHT':
+        return CitiesAndKnightsManager.activateKnight(gameState, action.playerId, intersectionId);
+      case 'PROMOTE_KNIGHT':
+        return CitiesAndKnightsManager.promoteKnight(gameState, action.playerId, intersectionId);
+      case 'IMPROVE_CITY':
+        return CitiesAndKnightsManager.improveCity(gameState, action.playerId, track);
+      default:
+        return CitiesAndKnightsManager.playProgressCard(gameState, action.playerId, cardType, choice);
+    }
+  }
+
+  private static handleSeafarers(gameState: GameState, action: Action): GameState {
+    const { edgeId, fromEdgeId, resources } = action.payload ?? {};
+
+    switch (action.type) {
+      case 'BUILD_SHIP':
+        this.assertCurrentPlayer(gameState, action.playerId, 'Not your turn to build');
+        return SeafarersManager.buildShip(gameState, action.playerId, edgeId);
+      case 'MOVE_SHIP':
+        this.assertCurrentPlayer(gameState, action.playerId, 'Not your turn');
+        return SeafarersManager.moveShip(gameState, action.playerId, fromEdgeId, edgeId);
+      default:
+        // Everyone owed gold picks, whoever's turn it is
+        return SeafarersManager.chooseGold(gameState, action.playerId, resources);
+    }
+  }
+
+  private static handleProposeTrade(gameState: GameState, action: Action): GameState {
+    const { offering, requesting, toPlayerId } = action.payload;
+    return TradingManager.proposeTrade(gameState, {
+      fromPlayerId: action.playerId,
+      ...(toPlayerId !== undefined ? { toPlayerId } : {}),
+      offering,
+      requesting
+    });
+  }
+
+  private static handleCounterTrade(gameState: GameState, action: Action): GameState {
+    const { offerId, offering, requesting } = action.payload;
+    return TradingManager.counterTrade(gameState, action.playerId, offerId, offering, requesting);
   }
 
   private static handleBankTrade(gameState: GameState, action: Action): GameState {
+    this.assertCurrentPlayer(gameState, action.playerId, 'Not your turn to trade');
     const { tradeOffer } = action.payload as { tradeOffer: TradeOffer };
+    if (tradeOffer.fromPlayerId !== action.playerId) {
+      throw new RuleViolationError('INVALID_TRADE', 'You can only trade your own resources with the bank', {
+        playerId: action.playerId,
+        fromPlayerId: tradeOffer.fromPlayerId
+      });
+    }
     return TradingManager.executeTrade(gameState, tradeOffer);
   }
 
   private static handleMoveRobber(gameState: GameState, action: Action): GameState {
-    const { robberLocation, targetPlayerId } = action.payload;
-    return RobberManager.moveRobber(
-      gameState, 
-      action.playerId, 
-      robberLocation, 
-      targetPlayerId
-    );
+    const { robberLocation } = action.payload;
+    const newState = RobberManager.moveRobber(gameState, action.playerId, robberLocation);
+
+    // Only stop to steal when there is someone to steal from
+    if (RobberManager.getValidStealTargets(newState, action.playerId).length > 0) {
+      return { ...newState, phase: 'STEAL' };
+    }
+    return PhaseManager.resume(newState);
+  }
+
+  private static handleStealResource(gameState: GameState, action: Action): GameState {
+    const { targetPlayerId } = action.payload;
+    return PhaseManager.resume(RobberManager.stealResource(gameState, action.playerId, targetPlayerId));
   }
 
   private static handleDiscardResources(gameState: GameState, action: Action): GameState {
     const { resourcesToDiscard } = action.payload;
-    return ResourceManager.discardResources(
+    return RobberManager.discardResources(
       gameState, 
       action.playerId, 
       resourcesToDiscard
@@ -259,58 +470,88 @@ export class CatanRuleEngine {
   }
 
   private static handleEndTurn(gameState: GameState, action: Action): GameState {
-    if (gameState.players[gameState.currentPlayerIndex].id !== action.playerId) {
-      throw new Error('Not your turn to end turn');
-    }
+    this.assertCurrentPlayer(gameState, action.playerId, 'Not your turn to end turn');
 
     let newState = { ...gameState };
+    delete newState.tradeOffers; // unanswered offers lapse with the turn
     
-    // Reset development card play flag for next turn
+    // Cards bought this turn become playable, and everyone may play a card again
     newState = DevelopmentCardManager.resetPlayDevCardFlag(newState);
+    newState = SeafarersManager.resetTurn(newState);
+
+    // 5-6 players: the paired player takes an action phase before the dice pass on
+    if (newState.phase === 'ACTION' && newState.players.length > 4) {
+      newState.primaryPlayerIndex = newState.currentPlayerIndex;
+      newState.currentPlayerIndex = (newState.currentPlayerIndex + PAIRED_PLAYER_OFFSET) % newState.players.length;
+      newState.phase = 'SPECIAL_BUILDING';
+      return newState;
+    }
     
-    // Advance to next player
-    newState.currentPlayerIndex = (newState.currentPlayerIndex + 1) % newState.players.length;
+    // Advance to next player (to the left of player 1 after a paired turn)
+    const turnOwnerIndex = newState.primaryPlayerIndex ?? newState.currentPlayerIndex;
+    delete newState.primaryPlayerIndex;
+    newState.currentPlayerIndex = (turnOwnerIndex + 1) % newState.players.length;
     
     // If we've completed a full round, increment turn counter
     if (newState.currentPlayerIndex === 0) {
       newState.turn++;
     }
 
-    // Set phase based on game state
-    if (newState.phase === 'SETUP_ROUND_1') {
-      if (newState.currentPlayerIndex === 0 && newState.turn > 1) {
-        // All players placed first settlement/road, start round 2 in reverse order
-        newState.phase = 'SETUP_ROUND_2';
-        newState.currentPlayerIndex = newState.players.length - 1;
-      }
-    } else if (newState.phase === 'SETUP_ROUND_2') {
-      if (newState.currentPlayerIndex === 0) {
-        // Setup complete, start regular gameplay
-        newState.phase = 'PRODUCTION';
-      }
-    } else {
-      // Regular gameplay - next turn starts with production phase
-      newState.phase = 'PRODUCTION';
-    }
+    // Next turn starts with production phase
+    newState.phase = 'PRODUCTION';
 
     return newState;
   }
 
+  private static handleUndo(gameState: GameState, action: Action): GameState {
+    const allowed = UndoManager.canUndo(gameState, action.playerId);
+    if (!allowed.valid) {
+      throw RuleViolationError.fromValidation(allowed);
+    }
+
+    // Replaying from the checkpoint rebuilds the history without the last action
+    const { checkpoint, actions } = gameState.undoHistory!;
+    return actions.slice(0, -1).reduce((state, replayed) => {
+      const result = this.processAction(state, replayed);
+      if (!result.success) {
+        throw new RuleViolationError('INVALID_ACTION', `Cannot replay ${replayed.type}: ${result.error}`);
+      }
+      return result.newState!;
+    }, checkpoint);
+  }
+
   // Utility methods for game state queries
   static getValidActions(gameState: GameState, playerId: string): string[] {
     const validActions: string[] = [];
     const isCurrentPlayer = gameState.players[gameState.currentPlayerIndex].id === playerId;
     const player = gameState.players.find(p => p.id === playerId);
 
-    if (!player || !isCurrentPlayer) {
+    // Discards are owed by every player over the hand limit, not just the roller
+    if (gameState.phase === 'DISCARD') {
+      return gameState.pendingDiscards?.[playerId] ? ['DISCARD_RESOURCES'] : validActions;
+    }
+    // ...and gold is picked by everyone whose gold field produced
+    if (gameState.phase === 'GOLD') {
+      return gameState.seafarers?.pendingGold?.[playerId] ? ['CHOOSE_GOLD'] : validActions;
+    }
+
+    if (!player) {
       return validActions;
     }
 
+    // Everyone else may only answer the trades offered to them
+    if (!isCurrentPlayer) {
+      return gameState.phase === 'ACTION' ? this.getTradeAnswerActions(gameState, playerId) : validActions;
+    }
+
     switch (gameState.phase) {
       case 'SETUP_ROUND_1':
       case 'SETUP_ROUND_2':
-        // During setup, players can only build settlements and roads
-        validActions.push('BUILD_SETTLEMENT', 'BUILD_ROAD');
+        // During setup, players place a settlement and then its road
+        const setupPiece = BuildingManager.getSetupPiece(gameState, player);
+        if (setupPiece) {
+          validActions.push(setupPiece === 'settlement' ? 'BUILD_SETTLEMENT' : 'BUILD_ROAD');
+        }
         break;
       
       case 'PRODUCTION':
@@ -322,19 +563,34 @@ export class CatanRuleEngine {
         }
         break;
       
+      case 'MOVE_ROBBER':
+        validActions.push('MOVE_ROBBER');
+        break;
+      
+      case 'STEAL':
+        validActions.push('STEAL_RESOURCE');
+        break;
+      
+      case 'ROAD_BUILDING':
+        validActions.push('BUILD_ROAD');
+        break;
+      
       case 'ACTION':
+      case 'SPECIAL_BUILDING':
         validActions.push('END_TURN');
         
         // Building actions
-        if (BuildingManager.canPlayerBuild(player, 'road')) {
+        const rules = getRules(gameState);
+        if (BuildingManager.canPlayerBuild(player, 'road', rules)) {
           validActions.push('BUILD_ROAD');
         }
-        if (BuildingManager.canPlayerBuild(player, 'settlement')) {
+        if (BuildingManager.canPlayerBuild(player, 'settlement', rules)) {
           validActions.push('BUILD_SETTLEMENT');
         }
-        if (BuildingManager.canPlayerBuild(player, 'city')) {
+        if (BuildingManager.canPlayerBuild(player, 'city', rules)) {
           validActions.push('BUILD_CITY');
         }
+        validActions.push(...SeafarersManager.getValidActions(gameState, playerId));
         
         // Development card actions
         if (DevelopmentCardManager.canBuyDevelopmentCard(gameState, playerId).valid) {
@@ -345,16 +601,48 @@ export class CatanRuleEngine {
         if (playableCardsAction.length > 0) {
           validActions.push('PLAY_DEVELOPMENT_CARD');
         }
+
+        if (gameState.phase === 'ACTION') {
+          validActions.push(...CitiesAndKnightsManager.getValidActions(gameState, playerId));
+        }
         
-        // Trading actions
-        validActions.push('TRADE_WITH_BANK', 'TRADE_WITH_PLAYER');
+        // Trading actions (the paired player may only trade with the bank)
+        validActions.push('TRADE_WITH_BANK');
+        if (gameState.phase === 'ACTION') {
+          validActions.push('PROPOSE_TRADE', ...this.getTradeAnswerActions(gameState, playerId));
+        }
         
         break;
     }
 
+    if (UndoManager.canUndo(gameState, playerId).valid) {
+      validActions.push('UNDO');
+    }
+
     return validActions;
   }
 
+  private static getTradeAnswerActions(gameState: GameState, playerId: string): string[] {
+    const actions: string[] = [];
+    const offers = TradingManager.getTradeOffersFor(gameState, playerId);
+
+    if (offers.length > 0) {
+      actions.push('COUNTER_TRADE', 'REJECT_TRADE');
+    }
+    if (offers.some(offer => TradingManager.canAcceptTrade(gameState, playerId, offer.id).valid)) {
+      actions.push('ACCEPT_TRADE');
+    }
+    if (gameState.tradeOffers?.some(offer => offer.fromPlayerId === playerId)) {
+      actions.push('CANCEL_TRADE');
+    }
+
+    return actions;
+  }
+
+  static getLegalMoves(gameState: GameState, playerId: string): Action[] {
+    return LegalMoveGenerator.getLegalMoves(gameState, playerId);
+  }
+
   static getGameSummary(gameState: GameState): {
     phase: GamePhase;
     currentPlayer: string;
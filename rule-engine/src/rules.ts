@@ -0,0 +1,43 @@
+import { GameState, GameRules, GameRuleOverrides, DevelopmentCardType } from './types';
+
+// Base game rules for 3-4 players (and for states saved before rules existed)
+export const DEFAULT_GAME_RULES: GameRules = {
+  victoryPointsToWin: 10,
+  discardLimit: 7,
+  friendlyRobber: false,
+  developmentCardDeck: { knight: 14, victoryPoint: 5, roadBuilding: 2, invention: 2, monopoly: 2 },
+  bankTradeRatio: 4,
+  bankResourcesPerType: 19,
+  buildingLimits: { roads: 15, settlements: 5, cities: 4 },
+  allowUndo: false
+};
+
+// The 5-6 player extension adds five cards of each resource, six knights and one of each progress card
+const EXTENDED_BANK_RESOURCES_PER_TYPE = 24;
+const EXTENDED_DEVELOPMENT_CARD_DECK: Record<DevelopmentCardType, number> = {
+  knight: 20, victoryPoint: 5, roadBuilding: 3, invention: 3, monopoly: 3
+};
+
+// Players with this many visible points or fewer are safe from a friendly robber
+export const FRIENDLY_ROBBER_MAX_POINTS = 2;
+
+export function createRules(playerCount: number, overrides: GameRuleOverrides = {}): GameRules {
+  const defaults: GameRules = playerCount > 4
+    ? {
+        ...DEFAULT_GAME_RULES,
+        bankResourcesPerType: EXTENDED_BANK_RESOURCES_PER_TYPE,
+        developmentCardDeck: EXTENDED_DEVELOPMENT_CARD_DECK
+      }
+    : DEFAULT_GAME_RULES;
+
+  return {
+    ...defaults,
+    ...overrides,
+    developmentCardDeck: { ...defaults.developmentCardDeck, ...overrides.developmentCardDeck },
+    buildingLimits: { ...defaults.buildingLimits, ...overrides.buildingLimits }
+  };
+}
+
+export function getRules(gameState: GameState): GameRules {
+  return gameState.rules ?? createRules(gameState.players.length);
+}
@@ -0,0 +1,161 @@
+import {
+  GameBoard,
+  GameRuleOverrides,
+  Harbor,
+  HexCoordinate,
+  TerrainType,
+  TERRAIN_TYPES,
+  ContractValidationError,
+  validateHexCoordinate,
+  validateHarbor,
+  validateGameRuleOverrides,
+  expectObject,
+  expectArray,
+  expectString,
+  expectInteger,
+  expectOneOf
+} from './types';
+import { load, JSON_SCHEMA } from 'js-yaml';
+import { BoardGenerator } from './board';
+import standard from './scenarios/standard.json';
+
+export interface ScenarioHex {
+  q: number;
+  r: number;
+  terrain: TerrainType;
+  number?: number; // every producing hex has one; desert and sea hexes never do
+}
+
+/**
+ * A fixed map and the game settings that go with it. Scenario files are the
+ * JSON or YAML form of this.
+ */
+export interface Scenario {
+  id: string;
+  name: string;
+  minPlayers: number;
+  maxPlayers: number;
+  rules?: GameRuleOverrides;
+  robber: HexCoordinate;
+  pirate?: HexCoordinate; // a sea hex, for maps with one
+  hexes: ScenarioHex[];
+  harbors: Harbor[];
+}
+
+// Scenarios bundled with the engine, by id
+export const SCENARIOS: Record<string, Scenario> = {
+  standard: standard as Scenario
+};
+
+const UNNUMBERED_TERRAINS: readonly TerrainType[] = ['desert', 'sea'];
+
+export class ScenarioError extends ContractValidationError {
+  constructor(path: string, reason: string) {
+    super(path, reason);
+    this.name = 'ScenarioError';
+  }
+}
+
+export class ScenarioLoader {
+  static getScenario(id: string): Scenario | undefined {
+    return SCENARIOS[id];
+  }
+
+  // JSON is read as YAML too; the JSON schema keeps YAML from turning values like `yes` or dates into other types
+  static parse(text: string): Scenario {
+    let data: unknown;
+    try {
+      data = load(text, { schema: JSON_SCHEMA });
+    } catch {
+      throw new ScenarioError('$', 'not valid JSON or YAML');
+    }
+    this.validate(data);
+    return data;
+  }
+
+  /**
+   * Throws a ScenarioError pointing at the first field that is wrong, e.g.
+   * `$.hexes[4].number: must not be 7`.
+   */
+  static validate(data: unknown): asserts data is Scenario {
+    try {
+      this.validateScenario(data);
+    } catch (error) {
+      if (error instanceof ContractValidationError && !(error instanceof ScenarioError)) {
+        throw new ScenarioError(error.path, error.reason);
+      }
+      throw error;
+    }
+  }
+
+  static createBoard(scenario: Scenario): GameBoard {
+    return BoardGenerator.generateScenarioBoard(scenario);
+  }
+
+  private static validateScenario(data: unknown): void {
+    const scenario = expectObject(data, '$');
+    expectString(scenario.id, '$.id');
+    expectString(scenario.name, '$.name');
+    const minPlayers = expectInteger(scenario.minPlayers, '$.minPlayers', 2, 6);
+    expectInteger(scenario.maxPlayers, '$.maxPlayers', minPlayers, 6);
+    if (scenario.rules !== undefined) {
+      validateGameRuleOverrides(scenario.rules, '$.rules');
+    }
+
+    const terrains = new Map<string, TerrainType>();
+    const hexes = expectArray(scenario.hexes, '$.hexes');
+    if (hexes.length === 0) {
+      throw new ScenarioError('$.hexes', 'must not be empty');
+    }
+    hexes.forEach((data, index) => {
+      const path = `$.hexes[${index}]`;
+      const hex = expectObject(data, path);
+      expectInteger(hex.q, `${path}.q`, -Infinity);
+      expectInteger(hex.r, `${path}.r`, -Infinity);
+      const terrain = expectOneOf(hex.terrain, TERRAIN_TYPES, `${path}.terrain`);
+      if (UNNUMBERED_TERRAINS.includes(terrain)) {
+        if (hex.number !== undefined) {
+          throw new ScenarioError(`${path}.number`, `must be left out on ${terrain} hexes`);
+        }
+      } else if (expectInteger(hex.number, `${path}.number`, 2, 12) === 7) {
+        throw new ScenarioError(`${path}.number`, 'must not be 7');
+      }
+
+      const key = BoardGenerator.coordToKey({ q: hex.q, r: hex.r });
+      if (terrains.has(key)) {
+        throw new ScenarioError(path, `duplicates the hex at (${hex.q}, ${hex.r})`);
+      }
+      terrains.set(key, terrain);
+    });
+
+    validateHexCoordinate(scenario.robber, '$.robber');
+    const robberTerrain = terrains.get(BoardGenerator.coordToKey(scenario.robber));
+    if (!robberTerrain) {
+      throw new ScenarioError('$.robber', 'is not a hex on the map');
+    }
+    if (robberTerrain === 'sea') {
+      throw new ScenarioError('$.robber', 'must be a land hex');
+    }
+    if (scenario.pirate !== undefined) {
+      validateHexCoordinate(scenario.pirate, '$.pirate');
+      if (terrains.get(BoardGenerator.coordToKey(scenario.pirate)) !== 'sea') {
+        throw new ScenarioError('$.pirate', 'must be a sea hex on the map');
+      }
+    }
+
+    // Harbors are checked against the edges the hexes actually produce
+    const board = BoardGenerator.generateScenarioBoard({ ...(scenario as Scenario), harbors: [] });
+    const harborEdges = new Set<string>();
+    expectArray(scenario.harbors, '$.harbors').forEach((harbor, index) => {
+      const path = `$.harbors[${index}]`;
+      validateHarbor(harbor, path);
+      if (!board.edges.has(harbor.edgeId)) {
+        throw new ScenarioError(`${path}.edgeId`, `unknown edge "${harbor.edgeId}"`);
+      }
+      if (harborEdges.has(harbor.edgeId)) {
+        throw new ScenarioError(`${path}.edgeId`, `another harbor is already on "${harbor.edgeId}"`);
+      }
+      harborEdges.add(harbor.edgeId);
+    });
+  }
+}
@@ -0,0 +1,453 @@
+import {
+  GameState,
+  ActionType,
+  GameBoard,
+  HexCoordinate,
+  Intersection,
+  Resources,
+  SeafarersState,
+  BUILDING_COSTS,
+  RESOURCE_TYPES
+} from './types';
+import { BoardGenerator } from './board';
+import { ResourceManager } from './resources';
+import { ValidationResult, RuleViolationError, invalid, insufficientResources } from './errors';
+import { updatePlayer, updateEdge } from './state';
+import { Scenario, ScenarioLoader, ScenarioError } from './scenario';
+import newShores from './scenarios/new-shores.json';
+
+// Ships in each player's supply
+export const SHIP_LIMIT = 15;
+
+export interface SeafarersScenario extends Scenario {
+  pirate: HexCoordinate;
+  islandBonus: number;
+}
+
+// Scenario maps bundled with the engine, by id
+export const SEAFARERS_SCENARIOS: Record<string, SeafarersScenario> = {
+  'new-shores': newShores as SeafarersScenario
+};
+
+/**
+ * The Seafarers expansion. Its state lives in `gameState.seafarers`, which only
+ * games created on a Seafarers scenario have; ships and gold refuse to act on
+ * any other game.
+ */
+export class SeafarersManager {
+  static getScenario(id: string): SeafarersScenario | undefined {
+    return SEAFARERS_SCENARIOS[id];
+  }
+
+  // A scenario file plus the pirate and island bonus only Seafarers maps have
+  static validateScenario(data: unknown): asserts data is SeafarersScenario {
+    ScenarioLoader.validate(data);
+    if (data.pirate === undefined) {
+      throw new ScenarioError('$.pirate', 'is required on Seafarers maps');
+    }
+    const { islandBonus } = data as Partial<SeafarersScenario>;
+    if (typeof islandBonus !== 'number' || !Number.isInteger(islandBonus) || islandBonus < 0) {
+      throw new ScenarioError('$.islandBonus', 'must be a non-negative integer');
+    }
+  }
+
+  static createState(scenario: SeafarersScenario): SeafarersState {
+    return {
+      scenario: scenario.id,
+      islandBonus: scenario.islandBonus,
+      homeIslands: {},
+      bonusIslands: {},
+      shipsBuiltThisTurn: [],
+      shipMoved: false
+    };
+  }
+
+  static isEnabled(gameState: GameState): boolean {
+    return gameState.seafarers !== undefined;
+  }
+
+  /**
+   * Ships sail along edges whose ends both touch the sea, roads along edges
+   * whose ends both touch land, so coastal edges take either. The water beyond
+   * the rim of the map counts as sea.
+   */
+  static isSeaEdge(board: GameBoard, edgeId: string): boolean {
+    return this.getEnds(board, edgeId).every(intersection =>
+      intersection.hexes.length < 3 || intersection.hexes.some(hex => this.isSea(board, hex)));
+  }
+
+  static isLandEdge(board: GameBoard, edgeId: string): boolean {
+    return this.getEnds(board, edgeId).every(intersection => this.isLandIntersection(board, intersection.id));
+  }
+
+  static isLandIntersection(board: GameBoard, intersectionId: string): boolean {
+    return board.intersections.get(intersectionId)?.hexes.some(hex => !this.isSea(board, hex)) ?? false;
+  }
+
+  // Roads stay on land and can't share an edge with a ship
+  static canHoldRoad(gameState: GameState, edgeId: string): ValidationResult {
+    const edge = gameState.board.edges.get(edgeId);
+    if (!gameState.seafarers || !edge) {
+      return { valid: true };
+    }
+    if (!this.isLandEdge(gameState.board, edgeId)) {
+      return invalid('INVALID_LOCATION', 'Roads cannot be built on the sea', { edgeId });
+    }
+    if (edge.ship) {
+      return invalid('LOCATION_OCCUPIED', 'Edge already has a ship', { edgeId, playerId: edge.ship.playerId });
+    }
+    return { valid: true };
+  }
+
+  static canBuildShip(gameState: GameState, playerId: string, edgeId: string): ValidationResult {
+    const context = this.validatePlayer(gameState, playerId);
+    if (!context.valid) {
+      return context;
+    }
+    const player = gameState.players.find(p => p.id === playerId)!;
+
+    if ((player.buildings.ships ?? []).length >= SHIP_LIMIT) {
+      return invalid('NO_PIECES_REMAINING', 'No ships remaining', { piece: 'ship' });
+    }
+    if (!ResourceManager.hasResources(player.resources, BUILDING_COSTS.ship)) {
+      return insufficientResources('Insufficient resources for ship', player.resources, BUILDING_COSTS.ship);
+    }
+
+    return this.canPlaceShip(gameState, playerId, edgeId);
+  }
+
+  static buildShip(gameState: GameState, playerId: string, edgeId: string): GameState {
+    const validation = this.canBuildShip(gameState, playerId, edgeId);
+    if (!validation.valid) {
+      throw RuleViolationError.fromValidation(validation);
+    }
+
+    const paid = updatePlayer(ResourceManager.returnToBank(gameState, BUILDING_COSTS.ship), playerId, player => ({
+      resources: ResourceManager.subtractResources(player.resources, BUILDING_COSTS.ship),
+      buildings: { ...player.buildings, ships: [...(player.buildings.ships ?? []), edgeId] }
+    }));
+    return this.update(updateEdge(paid, edgeId, { ship: { playerId } }), seafarers => ({
+      shipsBuiltThisTurn: [...seafarers.shipsBuiltThisTurn, edgeId]
+    }));
+  }
+
+  /**
+   * Once a turn a player may move the ship at the open end of one of their
+   * shipping routes, unless it was built this turn or the pirate is next to it.
+   */
+  static canMoveShip(gameState: GameState, playerId: string, fromEdgeId: string, edgeId: string): ValidationResult {
+    const context = this.validatePlayer(gameState, playerId);
+    if (!context.valid) {
+      return context;
+    }
+
+    if (gameState.board.edges.get(fromEdgeId)?.ship?.playerId !== playerId) {
+      return invalid('NOT_OWNER', 'You have no ship on that edge', { edgeId: fromEdgeId });
+    }
+    if (gameState.seafarers!.shipMoved) {
+      return invalid('SHIP_NOT_MOVABLE', 'You have already moved a ship this turn', { edgeId: fromEdgeId });
+    }
+    if (gameState.seafarers!.shipsBuiltThisTurn.includes(fromEdgeId)) {
+      return invalid('SHIP_NOT_MOVABLE', 'Ships built this turn cannot move', { edgeId: fromEdgeId });
+    }
+    if (this.isNextToPirate(gameState.board, fromEdgeId)) {
+      return invalid('SHIP_NOT_MOVABLE', 'The pirate blocks that ship', {
+        edgeId: fromEdgeId,
+        pirateLocation: gameState.board.pirateLocation
+      });
+    }
+    if (!this.isOpenShip(gameState, playerId, fromEdgeId)) {
+      return invalid('SHIP_NOT_MOVABLE', 'Only the ship at the open end of a shipping route can move', { edgeId: fromEdgeId });
+    }
+    if (edgeId === fromEdgeId) {
+      return invalid('INVALID_LOCATION', 'Ship must move to a different edge', { edgeId });
+    }
+
+    return this.canPlaceShip(this.removeShip(gameState, playerId, fromEdgeId), playerId, edgeId);
+  }
+
+  static moveShip(gameState: GameState, playerId: string, fromEdgeId: string, edgeId: string): GameState {
+    const validation = this.canMoveShip(gameState, playerId, fromEdgeId, edgeId);
+    if (!validation.valid) {
+      throw RuleViolationError.fromValidation(validation);
+    }
+
+    const moved = updatePlayer(this.removeShip(gameState, playerId, fromEdgeId), playerId, player => ({
+      buildings: { ...player.buildings, ships: [...(player.buildings.ships ?? []), edgeId] }
+    }));
+    return this.update(updateEdge(moved, edgeId, { ship: { playerId } }), () => ({ shipMoved: true }));
+  }
+
+  // Land hexes joined by land form an island, named after its lowest tile key
+  static getIslands(board: GameBoard): Map<string, string> {
+    const islands = new Map<string, string>();
+    const landKeys = Array.from(board.tiles.values())
+      .filter(tile => tile.terrain !== 'sea')
+      .map(tile => BoardGenerator.coordToKey(tile.coordinate))
+      .sort();
+
+    landKeys.forEach(start => {
+      if (islands.has(start)) return;
+
+      const frontier = [start];
+      islands.set(start, start);
+      while (frontier.length > 0) {
+        const tile = board.tiles.get(frontier.pop()!)!;
+        BoardGenerator.getNeighbors(tile.coordinate).forEach(neighbor => {
+          const key = BoardGenerator.coordToKey(neighbor);
+          if (!islands.has(key) && landKeys.includes(key)) {
+            islands.set(key, start);
+            frontier.push(key);
+          }
+        });
+      }
+    });
+
+    return islands;
+  }
+
+  static getIntersectionIsland(board: GameBoard, intersectionId: string): string | undefined {
+    const islands = this.getIslands(board);
+    return board.intersections.get(intersectionId)?.hexes
+      .map(hex => islands.get(BoardGenerator.coordToKey(hex)))
+      .find(island => island !== undefined);
+  }
+
+  /**
+   * Islands settled during setup are a player's home islands; afterwards their
+   * first settlement on any other island earns the scenario's island bonus.
+   */
+  static recordSettlement(gameState: GameState, playerId: string, intersectionId: string): GameState {
+    const island = gameState.seafarers && this.getIntersectionIsland(gameState.board, intersectionId);
+    if (!island) {
+      return gameState;
+    }
+
+    const { homeIslands, bonusIslands, islandBonus } = gameState.seafarers!;
+    const home = homeIslands[playerId] ?? [];
+    if (gameState.phase === 'SETUP_ROUND_1' || gameState.phase === 'SETUP_ROUND_2') {
+      return home.includes(island)
+        ? gameState
+        : this.update(gameState, seafarers => ({ homeIslands: { ...seafarers.homeIslands, [playerId]: [...home, island] } }));
+    }
+
+    const claimed = bonusIslands[playerId] ?? [];
+    if (home.includes(island) || claimed.includes(island)) {
+      return gameState;
+    }
+    const newState = this.update(gameState, seafarers => ({
+      bonusIslands: { ...seafarers.bonusIslands, [playerId]: [...claimed, island] }
+    }));
+    return updatePlayer(newState, playerId, player => ({ victoryPoints: player.victoryPoints + islandBonus }));
+  }
+
+  /**
+   * A gold field that produces lets each settlement on it pick one resource
+   * (a city two). Everyone owed picks during the GOLD phase before the turn
+   * goes on; nobody is owed more than the bank still holds.
+   */
+  static resolveGold(gameState: GameState, diceSum: number): GameState {
+    if (!gameState.seafarers) {
+      return gameState;
+    }
+
+    const owed = new Map<string, number>();
+    gameState.board.tiles.forEach(tile => {
+      if (tile.terrain !== 'gold' || tile.numberDisc !== diceSum || tile.hasRobber) return;
+
+      gameState.board.intersections.forEach(intersection => {
+        const onTile = intersection.hexes.some(hex => hex.q === tile.coordinate.q && hex.r === tile.coordinate.r);
+        if (onTile && intersection.building) {
+          const { playerId, type } = intersection.building;
+          owed.set(playerId, (owed.get(playerId) ?? 0) + (type === 'city' ? 2 : 1));
+        }
+      });
+    });
+
+    let available = gameState.bank ? ResourceManager.getTotalResources(gameState.bank) : Infinity;
+    const pendingGold: Record<string, number> = {};
+    owed.forEach((count, playerId) => {
+      const granted = Math.min(count, available);
+      if (granted > 0) {
+        pendingGold[playerId] = granted;
+        available -= granted;
+      }
+    });
+
+    if (Object.keys(pendingGold).length === 0) {
+      return gameState;
+    }
+    return { ...this.update(gameState, () => ({ pendingGold })), phase: 'GOLD' };
+  }
+
+  static canChooseGold(gameState: GameState, playerId: string, resources: Partial<Resources>): ValidationResult {
+    const context = this.validatePlayer(gameState, playerId);
+    if (!context.valid) {
+      return context;
+    }
+
+    const owed = gameState.seafarers!.pendingGold?.[playerId];
+    if (!owed) {
+      return invalid('NO_GOLD_OWED', 'You have no gold to spend', { playerId });
+    }
+
+    const amounts = Object.entries(resources ?? {});
+    const picked = amounts.reduce((sum, [, amount]) => sum + (amount ?? 0), 0);
+    const wellFormed = amounts.every(([resource, amount]) =>
+      RESOURCE_TYPES.includes(resource as keyof Resources) && Number.isInteger(amount) && amount! >= 0);
+    if (!wellFormed || picked !== owed) {
+      return invalid('INVALID_ACTION', `Pick exactly ${owed} resources`, { required: owed, selected: resources });
+    }
+
+    return ResourceManager.canTakeFromBank(gameState, resources);
+  }
+
+  static chooseGold(gameState: GameState, playerId: string, resources: Partial<Resources>): GameState {
+    const validation = this.canChooseGold(gameState, playerId, resources);
+    if (!validation.valid) {
+      throw RuleViolationError.fromValidation(validation);
+    }
+
+    const paid = updatePlayer(ResourceManager.takeFromBank(gameState, resources), playerId, player => ({
+      resources: ResourceManager.addResources(player.resources, resources)
+    }));
+    const pendingGold = { ...gameState.seafarers!.pendingGold };
+    delete pendingGold[playerId];
+
+    // The turn goes on once the last player has picked
+    if (Object.keys(pendingGold).length > 0) {
+      return this.update(paid, () => ({ pendingGold }));
+    }
+    const newState: GameState = { ...paid, seafarers: { ...paid.seafarers! }, phase: 'ACTION' };
+    delete newState.seafarers!.pendingGold;
+    return newState;
+  }
+
+  static resetTurn(gameState: GameState): GameState {
+    return gameState.seafarers
+      ? this.update(gameState, () => ({ shipsBuiltThisTurn: [], shipMoved: false }))
+      : gameState;
+  }
+
+  // Moving the robber onto the sea moves the pirate instead; the theft that follows is from ship owners
+  static movePirate(gameState: GameState, location: HexCoordinate): GameState {
+    const moved = { ...gameState, board: { ...gameState.board, pirateLocation: { q: location.q, r: location.r } } };
+    return gameState.seafarers ? this.update(moved, () => ({ pirateTheft: true })) : moved;
+  }
+
+  // The pirate blocks every edge with an end on its hex
+  static isNextToPirate(board: GameBoard, edgeId: string): boolean {
+    const pirate = board.pirateLocation;
+    return !!pirate && this.getEnds(board, edgeId)
+      .some(intersection => intersection.hexes.some(hex => hex.q === pirate.q && hex.r === pirate.r));
+  }
+
+  static getPlayersAdjacentToPirate(gameState: GameState): string[] {
+    const players = new Set<string>();
+    gameState.board.edges.forEach(edge => {
+      if (edge.ship && this.isNextToPirate(gameState.board, edge.id)) {
+        players.add(edge.ship.playerId);
+      }
+    });
+    return Array.from(players);
+  }
+
+  static getValidActions(gameState: GameState, playerId: string): ActionType[] {
+    const player = gameState.players.find(p => p.id === playerId);
+    if (!gameState.seafarers || !player) {
+      return [];
+    }
+
+    const actions: ActionType[] = [];
+    const edgeIds = Array.from(gameState.board.edges.keys());
+
+    if (edgeIds.some(edgeId => this.canBuildShip(gameState, playerId, edgeId).valid)) {
+      actions.push('BUILD_SHIP');
+    }
+    const canMove = gameState.phase === 'ACTION' && (player.buildings.ships ?? []).some(fromEdgeId =>
+      edgeIds.some(edgeId => this.canMoveShip(gameState, playerId, fromEdgeId, edgeId).valid));
+    if (canMove) {
+      actions.push('MOVE_SHIP');
+    }
+
+    return actions;
+  }
+
+  private static canPlaceShip(gameState: GameState, playerId: string, edgeId: string): ValidationResult {
+    const edge = gameState.board.edges.get(edgeId);
+    if (!edge) {
+      return invalid('INVALID_LOCATION', 'Invalid edge location', { edgeId });
+    }
+    if (!this.isSeaEdge(gameState.board, edgeId)) {
+      return invalid('INVALID_LOCATION', 'Ships must sail on the sea or along a coast', { edgeId });
+    }
+
+    const occupant = edge.road?.playerId ?? edge.ship?.playerId;
+    if (occupant) {
+      return invalid('LOCATION_OCCUPIED', 'Edge already has a road or ship', { edgeId, playerId: occupant });
+    }
+    if (this.isNextToPirate(gameState.board, edgeId)) {
+      return invalid('INVALID_LOCATION', 'The pirate blocks that edge', { edgeId, pirateLocation: gameState.board.pirateLocation });
+    }
+    if (!this.isShipConnected(gameState, playerId, edgeId)) {
+      return invalid('NOT_CONNECTED', 'Ship must connect to your ship or a settlement on the coast', { edgeId });
+    }
+
+    return { valid: true };
+  }
+
+  // A route runs from a settlement or city through ships; an opponent's building cuts it
+  private static isShipConnected(gameState: GameState, playerId: string, edgeId: string): boolean {
+    return gameState.board.edges.get(edgeId)!.intersections.some(intersectionId => {
+      const owner = gameState.board.intersections.get(intersectionId)?.building?.playerId;
+      if (owner) {
+        return owner === playerId;
+      }
+      return this.hasOtherShipAt(gameState, playerId, intersectionId, edgeId);
+    });
+  }
+
+  // A ship is open when one of its ends holds neither the player's building nor another of their ships
+  private static isOpenShip(gameState: GameState, playerId: string, edgeId: string): boolean {
+    return gameState.board.edges.get(edgeId)!.intersections.some(intersectionId =>
+      gameState.board.intersections.get(intersectionId)?.building?.playerId !== playerId &&
+      !this.hasOtherShipAt(gameState, playerId, intersectionId, edgeId));
+  }
+
+  private static hasOtherShipAt(gameState: GameState, playerId: string, intersectionId: string, edgeId: string): boolean {
+    return Array.from(gameState.board.edges.values()).some(other =>
+      other.id !== edgeId && other.ship?.playerId === playerId && other.intersections.includes(intersectionId));
+  }
+
+  private static removeShip(gameState: GameState, playerId: string, edgeId: string): GameState {
+    const { ship, ...edge } = gameState.board.edges.get(edgeId)!;
+    const edges = new Map(gameState.board.edges).set(edgeId, edge);
+    return updatePlayer({ ...gameState, board: { ...gameState.board, edges } }, playerId, player => ({
+      buildings: { ...player.buildings, ships: (player.buildings.ships ?? []).filter(id => id !== edgeId) }
+    }));
+  }
+
+  private static getEnds(board: GameBoard, edgeId: string): Intersection[] {
+    return (board.edges.get(edgeId)?.intersections ?? [])
+      .map(id => board.intersections.get(id))
+      .filter((intersection): intersection is Intersection => intersection !== undefined);
+  }
+
+  private static isSea(board: GameBoard, hex: HexCoordinate): boolean {
+    return board.tiles.get(BoardGenerator.coordToKey(hex))?.terrain === 'sea';
+  }
+
+  private static validatePlayer(gameState: GameState, playerId: string): ValidationResult {
+    if (!gameState.seafarers) {
+      return invalid('EXPANSION_DISABLED', 'This game is not played on a Seafarers scenario');
+    }
+    if (!gameState.players.some(p => p.id === playerId)) {
+      return invalid('PLAYER_NOT_FOUND', 'Player not found', { playerId });
+    }
+    return { valid: true };
+  }
+
+  private static update(gameState: GameState, update: (state: SeafarersState) => Partial<SeafarersState>): GameState {
+    return { ...gameState, seafarers: { ...gameState.seafarers!, ...update(gameState.seafarers!) } };
+  }
+}
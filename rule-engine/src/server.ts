@@ -0,0 +1,250 @@
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import { Server } from 'http';
+import { CatanRuleEngine } from './rule-engine';
+import { GameState, ContractValidationError, validateAction, validateGameRuleOverrides } from './types';
+import { encodeGameState, decodeGameState, GameStateCodecError } from './codec';
+import { SeafarersManager } from './seafarers';
+import { ScenarioLoader } from './scenario';
+
+export interface RuleEngineServerConfig {
+  port: number;
+}
+
+export class RuleEngineServer {
+  private app: express.Application;
+  private server?: Server;
+  private config: RuleEngineServerConfig;
+
+  constructor(config: RuleEngineServerConfig) {
+    this.config = config;
+    this.app = express();
+
+    this.setupMiddleware();
+    this.setupRoutes();
+  }
+
+  private setupMiddleware(): void {
+    this.app.use(helmet());
+    this.app.use(cors());
+    this.app.use(express.json({ limit: '10mb' }));
+  }
+
+  private setupRoutes(): void {
+    // Health check
+    this.app.get('/health', (req, res) => {
+      res.json({
+        status: 'healthy',
+        uptime: process.uptime(),
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    // Create a new game
+    this.app.post('/game/create', (req, res) => {
+      const { playerIds, seed, rules, citiesAndKnights, seafarers, scenario } = req.body || {};
+      const error = validatePlayerIds(playerIds) || validateSeed(seed) || validateRequestRules(rules) ||
+        validateFlag(citiesAndKnights, 'citiesAndKnights') ||
+        validateRequestMap(seafarers, 'seafarers', data => SeafarersManager.validateScenario(data)) ||
+        validateRequestMap(scenario, 'scenario', data => ScenarioLoader.validate(data));
+      if (error) {
+        return res.status(400).json({ error: 'Invalid request', details: error });
+      }
+
+      try {
+        const gameState = CatanRuleEngine.createNewGame(playerIds, { seed, rules, citiesAndKnights, seafarers, scenario });
+        res.json(encodeGameState(gameState));
+      } catch (err) {
+        res.status(400).json({ error: 'Invalid request', details: (err as Error).message });
+      }
+    });
+
+    // Apply an action to a game state
+    this.app.post('/game/action', (req, res) => {
+      const { gameState, action } = req.body || {};
+      const decoded = decodeRequestState(gameState);
+      const error = decoded.error || validateRequestAction(action);
+      if (error) {
+        return res.status(400).json({ error: 'Invalid request', details: error });
+      }
+
+      const result = CatanRuleEngine.processAction(decoded.gameState!, action);
+      res.json({
+        success: result.success,
+        gameState: result.newState ? encodeGameState(result.newState) : undefined,
+        error: result.error,
+        violation: result.violation
+      });
+    });
+
+    // List the actions available to a player
+    this.app.post('/game/valid-actions', (req, res) => {
+      const { gameState, playerId } = req.body || {};
+      const decoded = decodeRequestState(gameState);
+      const error = decoded.error || validateRequestPlayerId(playerId);
+      if (error) {
+        return res.status(400).json({ error: 'Invalid request', details: error });
+      }
+
+      const actions = CatanRuleEngine.getValidActions(decoded.gameState!, playerId);
+      res.json({ actions });
+    });
+
+    // List every concrete action (with payload) available to a player
+    this.app.post('/game/legal-moves', (req, res) => {
+      const { gameState, playerId } = req.body || {};
+      const decoded = decodeRequestState(gameState);
+      const error = decoded.error || validateRequestPlayerId(playerId);
+      if (error) {
+        return res.status(400).json({ error: 'Invalid request', details: error });
+      }
+
+      const moves = CatanRuleEngine.getLegalMoves(decoded.gameState!, playerId);
+      res.json({ moves });
+    });
+
+    // 404 handler
+    this.app.use((req, res) => {
+      res.status(404).json({
+        error: 'Not found',
+        message: `Route ${req.method} ${req.url} not found`
+      });
+    });
+
+    // Error handler (malformed JSON bodies end up here)
+    this.app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+      if (err.type === 'entity.parse.failed') {
+        return res.status(400).json({ error: 'Invalid request', details: 'Request body must be valid JSON' });
+      }
+
+      console.error('Unhandled error:', err);
+      res.status(500).json({ error: 'Internal server error' });
+    });
+  }
+
+  start(): Promise<Server> {
+    return new Promise(resolve => {
+      this.server = this.app.listen(this.config.port, () => {
+        console.log(`Rule Engine HTTP server started on port ${this.config.port}`);
+        resolve(this.server!);
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => {
+      if (!this.server) {
+        return resolve();
+      }
+      this.server.close(() => {
+        console.log('Rule Engine stopped');
+        resolve();
+      });
+    });
+  }
+}
+
+function validatePlayerIds(playerIds: unknown): string | undefined {
+  if (!Array.isArray(playerIds)) {
+    return 'playerIds must be an array';
+  }
+  if (!playerIds.every(id => typeof id === 'string' && id.length > 0)) {
+    return 'playerIds must contain non-empty strings';
+  }
+  if (new Set(playerIds).size !== playerIds.length) {
+    return 'playerIds must be unique';
+  }
+  return undefined;
+}
+
+function validateSeed(seed: unknown): string | undefined {
+  if (seed === undefined) {
+    return undefined;
+  }
+  if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+    return 'seed must be an unsigned 32-bit integer';
+  }
+  return undefined;
+}
+
+function validateFlag(value: unknown, name: string): string | undefined {
+  return value !== undefined && typeof value !== 'boolean' ? `${name} must be a boolean` : undefined;
+}
+
+// Rules may be partial; omitted ones take their defaults
+function validateRequestRules(rules: unknown): string | undefined {
+  if (rules === undefined) {
+    return undefined;
+  }
+  try {
+    validateGameRuleOverrides(rules, 'rules');
+    return undefined;
+  } catch (error) {
+    if (error instanceof ContractValidationError) {
+      return `${error.path} ${error.reason}`;
+    }
+    throw error;
+  }
+}
+
+// Maps are a bundled id, which createNewGame looks up, or a whole custom map
+function validateRequestMap(map: unknown, name: string, validate: (data: unknown) => void): string | undefined {
+  if (map === undefined || typeof map === 'string') {
+    return undefined;
+  }
+  try {
+    validate(map);
+    return undefined;
+  } catch (error) {
+    if (error instanceof ContractValidationError) {
+      return `${name}${error.path.slice(1)} ${error.reason}`;
+    }
+    throw error;
+  }
+}
+
+function validateRequestPlayerId(playerId: unknown): string | undefined {
+  return typeof playerId !== 'string' || playerId.length === 0 ? 'playerId must be a non-empty string' : undefined;
+}
+
+function decodeRequestState(data: unknown): { gameState?: GameState; error?: string } {
+  try {
+    return { gameState: decodeGameState(data) };
+  } catch (error) {
+    if (error instanceof GameStateCodecError) {
+      return { error: `Invalid gameState at ${error.message}` };
+    }
+    throw error;
+  }
+}
+
+function validateRequestAction(action: unknown): string | undefined {
+  try {
+    validateAction(action, 'action');
+    return undefined;
+  } catch (error) {
+    if (error instanceof ContractValidationError) {
+      return `${error.path} ${error.reason}`;
+    }
+    throw error;
+  }
+}
+
+// Default configuration
+const defaultConfig: RuleEngineServerConfig = {
+  port: parseInt(process.env.PORT || '3002')
+};
+
+// Start the rule engine server if this file is run directly
+if (require.main === module) {
+  const server = new RuleEngineServer(defaultConfig);
+  server.start();
+
+  // Graceful shutdown
+  process.on('SIGINT', async () => {
+    console.log('Shutting down Rule Engine...');
+    await server.stop();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,164 @@
+import {
+  GameState,
+  Action,
+  DevelopmentCardType,
+  ResourceType,
+  RuleViolation,
+  DEVELOPMENT_CARD_TYPES,
+  RESOURCE_TYPES
+} from './types';
+import { CatanRuleEngine } from './rule-engine';
+import { ResourceManager } from './resources';
+import { RandomGenerator, RandomManager } from './random';
+import { RuleViolationError } from './errors';
+
+// Generator states tried before an outcome is declared impossible; the rarest roll is 1 in 36
+const MAX_OUTCOME_ATTEMPTS = 1000;
+
+export interface SimulationResult {
+  success: boolean;
+  state: GameState; // after the last action that went through
+  error?: string;
+  violation?: RuleViolation;
+  failedActionIndex?: number;
+}
+
+export type ChanceOutcome =
+  | { type: 'DICE'; sum: number }
+  | { type: 'DEVELOPMENT_CARD'; card: DevelopmentCardType }
+  | { type: 'STEAL'; resource: ResourceType };
+
+export interface WeightedOutcome {
+  outcome: ChanceOutcome;
+  probability: number;
+}
+
+/**
+ * What-if play for search AIs. Every state is copied on write, so a rollout
+ * shares everything it doesn't touch with the live game. Rolling the dice,
+ * buying a development card and stealing are the chance actions: expectimax
+ * weighs `getChanceOutcomes`, MCTS draws one with `sampleChanceOutcome`, and
+ * `applyChanceOutcome` plays the action with that result.
+ */
+export class Simulator {
+  /**
+   * Applies the actions in order, stopping at the first one the rules refuse.
+   * The result's event log only covers the simulated actions, which keeps long
+   * games from copying their whole history on every step.
+   */
+  static simulate(gameState: GameState, actions: Action[]): SimulationResult {
+    let state: GameState = { ...gameState, events: [] };
+    for (let index = 0; index < actions.length; index++) {
+      const result = CatanRuleEngine.processAction(state, actions[index]);
+      if (!result.success) {
+        return { success: false, state, error: result.error, violation: result.violation, failedActionIndex: index };
+      }
+      state = result.newState!;
+    }
+    return { success: true, state };
+  }
+
+  // Every way the action can turn out, or none when the rules leave nothing to chance
+  static getChanceOutcomes(gameState: GameState, action: Action): WeightedOutcome[] {
+    switch (action.type) {
+      case 'ROLL_DICE':
+        return [2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12].map(sum => ({
+          outcome: { type: 'DICE', sum },
+          probability: (6 - Math.abs(7 - sum)) / 36
+        }));
+
+      case 'BUY_DEVELOPMENT_CARD': {
+        const deck = gameState.developmentCardDeck;
+        return DEVELOPMENT_CARD_TYPES
+          .map(card => ({ card, count: deck.filter(drawn => drawn === card).length }))
+          .filter(({ count }) => count > 0)
+          .map(({ card, count }) => ({ outcome: { type: 'DEVELOPMENT_CARD', card }, probability: count / deck.length }));
+      }
+
+      case 'STEAL_RESOURCE': {
+        const target = gameState.players.find(p => p.id === action.payload?.targetPlayerId);
+        const total = target ? ResourceManager.getTotalResources(target.resources) : 0;
+        return RESOURCE_TYPES
+          .filter(resource => total > 0 && target!.resources[resource] > 0)
+          .map(resource => ({ outcome: { type: 'STEAL', resource }, probability: target!.resources[resource] / total }));
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  static sampleChanceOutcome(gameState: GameState, action: Action, rng: RandomGenerator): ChanceOutcome | undefined {
+    const outcomes = this.getChanceOutcomes(gameState, action);
+    let roll = rng.next();
+    for (const { outcome, probability } of outcomes) {
+      roll -= probability;
+      if (roll < 0) {
+        return outcome;
+      }
+    }
+    return outcomes[outcomes.length - 1]?.outcome;
+  }
+
+  /**
+   * Plays a chance action so that it turns out as given. Dice and steals run
+   * on a generator state picked to produce the outcome, so the game's RNG
+   * afterwards is not the one the real game would have.
+   */
+  static applyChanceOutcome(gameState: GameState, action: Action, outcome: ChanceOutcome): SimulationResult {
+    const impossible = () => this.fail(gameState, new RuleViolationError(
+      'INVALID_ACTION',
+      `${action.type} cannot turn out as ${JSON.stringify(outcome)}`,
+      { actionType: action.type, outcome }
+    ));
+
+    if (!this.getChanceOutcomes(gameState, action).some(weighted => this.isSameOutcome(weighted.outcome, outcome))) {
+      return impossible();
+    }
+
+    if (outcome.type === 'DEVELOPMENT_CARD') {
+      // The last card of the deck is the one drawn, so swap a card of the wanted type there
+      const deck = [...gameState.developmentCardDeck];
+      const index = deck.lastIndexOf(outcome.card);
+      [deck[index], deck[deck.length - 1]] = [deck[deck.length - 1], deck[index]];
+      return this.simulate({ ...gameState, developmentCardDeck: deck }, [action]);
+    }
+
+    for (let attempt = 0; attempt < MAX_OUTCOME_ATTEMPTS; attempt++) {
+      const seed = (gameState.rng.state + attempt) >>> 0;
+      const candidate = { ...gameState, rng: RandomManager.createState(seed, gameState.rng.algorithm) };
+
+      // The dice are the first draw of a roll, so check them before playing the whole roll out
+      if (outcome.type === 'DICE') {
+        const [die1, die2] = ResourceManager.rollDice(RandomManager.fromState(candidate.rng));
+        if (die1 + die2 === outcome.sum) {
+          return this.simulate(candidate, [action]);
+        }
+        continue;
+      }
+
+      const result = this.simulate(candidate, [action]);
+      const thief = (state: GameState) => state.players.find(p => p.id === action.playerId)!;
+      if (!result.success || thief(result.state).resources[outcome.resource] > thief(gameState).resources[outcome.resource]) {
+        return result;
+      }
+    }
+
+    return impossible();
+  }
+
+  private static isSameOutcome(a: ChanceOutcome, b: ChanceOutcome): boolean {
+    switch (a.type) {
+      case 'DICE':
+        return b.type === 'DICE' && a.sum === b.sum;
+      case 'DEVELOPMENT_CARD':
+        return b.type === 'DEVELOPMENT_CARD' && a.card === b.card;
+      case 'STEAL':
+        return b.type === 'STEAL' && a.resource === b.resource;
+    }
+  }
+
+  private static fail(gameState: GameState, error: RuleViolationError): SimulationResult {
+    return { success: false, state: gameState, error: error.message, violation: error.toViolation(), failedActionIndex: 0 };
+  }
+}
@@ -0,0 +1,45 @@
+import { GameState, Player, Intersection, Edge, Tile } from './types';
+
+/*
+ * Copy-on-write helpers. Each returns a new GameState that shares every
+ * object it did not change with its input, so earlier states stay valid
+ * for undo, replays and lookahead.
+ */
+
+export function updatePlayer(
+  gameState: GameState,
+  playerId: string,
+  update: (player: Player) => Partial<Player>
+): GameState {
+  return {
+    ...gameState,
+    players: gameState.players.map(player => player.id === playerId ? { ...player, ...update(player) } : player)
+  };
+}
+
+export function updateIntersection(gameState: GameState, intersectionId: string, update: Partial<Intersection>): GameState {
+  return {
+    ...gameState,
+    board: { ...gameState.board, intersections: withEntry(gameState.board.intersections, intersectionId, update) }
+  };
+}
+
+export function updateEdge(gameState: GameState, edgeId: string, update: Partial<Edge>): GameState {
+  return {
+    ...gameState,
+    board: { ...gameState.board, edges: withEntry(gameState.board.edges, edgeId, update) }
+  };
+}
+
+export function updateTile(gameState: GameState, tileKey: string, update: Partial<Tile>): GameState {
+  return {
+    ...gameState,
+    board: { ...gameState.board, tiles: withEntry(gameState.board.tiles, tileKey, update) }
+  };
+}
+
+function withEntry<V>(map: Map<string, V>, key: string, update: Partial<V>): Map<string, V> {
+  const copy = new Map(map);
+  copy.set(key, { ...map.get(key)!, ...update });
+  return copy;
+}
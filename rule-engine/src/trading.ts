@@ -1,30 +1,33 @@
-import { GameState, TradeOffer, Resources, ResourceType, Player } from './types';
+import { GameState, TradeOffer, OpenTradeOffer, Resources, ResourceType, Player, Port, RESOURCE_TYPES } from './types';
 import { ResourceManager } from './resources';
+import { BoardGenerator } from './board';
+import { ValidationResult, RuleViolationError, invalid, insufficientResources } from './errors';
+import { updatePlayer } from './state';
+import { DEFAULT_GAME_RULES, getRules } from './rules';
 
 export class TradingManager {
   static validatePlayerTrade(
     gameState: GameState,
     offer: TradeOffer
-  ): { valid: boolean; error?: string } {
+  ): ValidationResult {
     const fromPlayer = gameState.players.find(p => p.id === offer.fromPlayerId);
     const toPlayer = offer.toPlayerId ? 
       gameState.players.find(p => p.id === offer.toPlayerId) : null;
 
     if (!fromPlayer) {
-      return { valid: false, error: 'From player not found' };
+      return invalid('PLAYER_NOT_FOUND', 'From player not found', { playerId: offer.fromPlayerId });
     }
 
     if (offer.toPlayerId && !toPlayer) {
-      return { valid: false, error: 'To player not found' };
+      return invalid('PLAYER_NOT_FOUND', 'To player not found', { playerId: offer.toPlayerId });
     }
 
     // Check that offering player has the resources they want to trade
     if (!ResourceManager.hasResources(fromPlayer.resources, offer.offering)) {
-      return { valid: false, error: 'Player does not have offered resources' };
+      return insufficientResources('Player does not have offered resources', fromPlayer.resources, offer.offering);
     }
 
-    // For player-to-player trades, both players must agree (handled by game engine)
-    // For bank trades, validate the trade ratios
+    // Player-to-player trades are agreed through the offers below; bank trades must meet the ratios
     if (!offer.toPlayerId) {
       return this.validateBankTrade(gameState, offer);
     }
@@ -35,15 +38,24 @@ export class TradingManager {
   static validateBankTrade(
     gameState: GameState,
     offer: TradeOffer
-  ): { valid: boolean; error?: string } {
+  ): ValidationResult {
     const player = gameState.players.find(p => p.id === offer.fromPlayerId);
     if (!player) {
-      return { valid: false, error: 'Player not found' };
+      return invalid('PLAYER_NOT_FOUND', 'Player not found', { playerId: offer.fromPlayerId });
+    }
+
+    if (offer.toPlayerId !== undefined) {
+      return invalid('INVALID_TRADE', 'Bank trades cannot name another player', { toPlayerId: offer.toPlayerId });
+    }
+
+    const amounts = this.validateAmounts(offer);
+    if (!amounts.valid) {
+      return amounts;
     }
 
     // Check player has offered resources
     if (!ResourceManager.hasResources(player.resources, offer.offering)) {
-      return { valid: false, error: 'Player does not have offered resources' };
+      return insufficientResources('Player does not have offered resources', player.resources, offer.offering);
     }
 
     // Get player's accessible ports
@@ -58,94 +70,283 @@ export class TradingManager {
     const requestingTypes = requestingEntries.filter(([_, amount]) => amount > 0);
 
     if (offeringTypes.length !== 1 || requestingTypes.length !== 1) {
-      return { valid: false, error: 'Bank trades must be one resource type for one resource type' };
+      return invalid('INVALID_TRADE', 'Bank trades must be one resource type for one resource type');
     }
 
     const [offeringResource, offeringAmount] = offeringTypes[0];
     const [requestingResource, requestingAmount] = requestingTypes[0];
 
+    const supply = ResourceManager.canTakeFromBank(gameState, { [requestingResource]: requestingAmount });
+    if (!supply.valid) {
+      return supply;
+    }
+
     // Get best available ratio for the offering resource
-    const bestRatio = this.getBestTradeRatio(accessiblePorts, offeringResource);
+    const bestRatio = this.getBestTradeRatio(accessiblePorts, offeringResource, getRules(gameState).bankTradeRatio);
     
     // Check if the trade ratio is valid
     if (offeringAmount < bestRatio * requestingAmount) {
-      return { 
-        valid: false, 
-        error: `Invalid trade ratio. Need ${bestRatio}:1 ratio (offering ${offeringAmount}, requesting ${requestingAmount})` 
-      };
+      return invalid(
+        'INVALID_TRADE_RATIO',
+        `Invalid trade ratio. Need ${bestRatio}:1 ratio (offering ${offeringAmount}, requesting ${requestingAmount})`,
+        { resource: offeringResource, ratio: bestRatio, offering: offeringAmount, requesting: requestingAmount }
+      );
     }
 
     return { valid: true };
   }
 
+  // Trades with the bank; player trades only settle through acceptTrade
   static executeTrade(gameState: GameState, offer: TradeOffer): GameState {
-    const validation = this.validatePlayerTrade(gameState, offer);
+    const validation = this.validateBankTrade(gameState, offer);
     if (!validation.valid) {
-      throw new Error(validation.error);
+      throw RuleViolationError.fromValidation(validation);
     }
 
-    const newState = { ...gameState };
-    const fromPlayerIndex = newState.players.findIndex(p => p.id === offer.fromPlayerId);
-    
-    // Remove offered resources from offering player
-    newState.players[fromPlayerIndex].resources = ResourceManager.subtractResources(
-      newState.players[fromPlayerIndex].resources,
+    const newState = this.exchange(gameState, offer.fromPlayerId, offer.offering, offer.requesting);
+    return ResourceManager.returnToBank(ResourceManager.takeFromBank(newState, offer.requesting), offer.offering);
+  }
+
+  /**
+   * A player trade someone wants to offer. One side must be the player whose
+   * turn it is, and only they may make an offer open to every opponent.
+   */
+  static validateTradeProposal(gameState: GameState, offer: TradeOffer): ValidationResult {
+    const fromPlayer = gameState.players.find(p => p.id === offer.fromPlayerId);
+    if (!fromPlayer) {
+      return invalid('PLAYER_NOT_FOUND', 'From player not found', { playerId: offer.fromPlayerId });
+    }
+
+    if (offer.toPlayerId !== undefined) {
+      if (!gameState.players.some(p => p.id === offer.toPlayerId)) {
+        return invalid('PLAYER_NOT_FOUND', 'To player not found', { playerId: offer.toPlayerId });
+      }
+      if (offer.toPlayerId === offer.fromPlayerId) {
+        return invalid('INVALID_TRADE', 'Cannot trade with yourself');
+      }
+    }
+
+    const currentPlayerId = gameState.players[gameState.currentPlayerIndex].id;
+    if (offer.fromPlayerId !== currentPlayerId && offer.toPlayerId !== currentPlayerId) {
+      return invalid('NOT_YOUR_TURN', 'You can only trade with the player whose turn it is', { currentPlayerId });
+    }
+
+    const amounts = this.validateAmounts(offer);
+    if (!amounts.valid) {
+      return amounts;
+    }
+
+    const offered = RESOURCE_TYPES.filter(resource => (offer.offering[resource] ?? 0) > 0);
+    const requested = RESOURCE_TYPES.filter(resource => (offer.requesting[resource] ?? 0) > 0);
+    if (offered.length === 0 || requested.length === 0) {
+      return invalid('INVALID_TRADE', 'A trade must give and receive at least one card');
+    }
+
+    const repeated = offered.find(resource => requested.includes(resource));
+    if (repeated) {
+      return invalid('INVALID_TRADE', `Cannot trade ${repeated} for ${repeated}`, { resource: repeated });
+    }
+
+    if (!ResourceManager.hasResources(fromPlayer.resources, offer.offering)) {
+      return insufficientResources('Player does not have offered resources', fromPlayer.resources, offer.offering);
+    }
+
+    return { valid: true };
+  }
+
+  static proposeTrade(gameState: GameState, offer: TradeOffer, counterTo?: string): GameState {
+    const validation = this.validateTradeProposal(gameState, offer);
+    if (!validation.valid) {
+      throw RuleViolationError.fromValidation(validation);
+    }
+
+    const tradeOfferCount = (gameState.tradeOfferCount ?? 0) + 1;
+    const openOffer: OpenTradeOffer = {
+      ...offer,
+      id: `trade-${tradeOfferCount}`,
+      ...(counterTo ? { counterTo } : {})
+    };
+
+    return { ...gameState, tradeOffers: [...(gameState.tradeOffers ?? []), openOffer], tradeOfferCount };
+  }
+
+  // Offers the other way round: the counter goes back to whoever made the original
+  static counterTrade(
+    gameState: GameState,
+    playerId: string,
+    offerId: string,
+    offering: Partial<Resources>,
+    requesting: Partial<Resources>
+  ): GameState {
+    const validation = this.canAnswerTrade(gameState, playerId, offerId);
+    if (!validation.valid) {
+      throw RuleViolationError.fromValidation(validation);
+    }
+
+    const original = this.getTradeOffer(gameState, offerId)!;
+    return this.proposeTrade(gameState, { fromPlayerId: playerId, toPlayerId: original.fromPlayerId, offering, requesting }, offerId);
+  }
+
+  static canAnswerTrade(gameState: GameState, playerId: string, offerId: string): ValidationResult {
+    const offer = this.getTradeOffer(gameState, offerId);
+    if (!offer) {
+      return invalid('TRADE_NOT_FOUND', 'Trade offer not found', { offerId });
+    }
+
+    if (!this.isOfferedTo(offer, playerId)) {
+      return invalid('NOT_TRADE_PARTY', 'This trade was not offered to you', { offerId, playerId });
+    }
+
+    return { valid: true };
+  }
+
+  static canAcceptTrade(gameState: GameState, playerId: string, offerId: string): ValidationResult {
+    const validation = this.canAnswerTrade(gameState, playerId, offerId);
+    if (!validation.valid) {
+      return validation;
+    }
+
+    const offer = this.getTradeOffer(gameState, offerId)!;
+    const fromPlayer = gameState.players.find(p => p.id === offer.fromPlayerId)!;
+    if (!ResourceManager.hasResources(fromPlayer.resources, offer.offering)) {
+      return insufficientResources('Offering player no longer has the offered resources', fromPlayer.resources, offer.offering);
+    }
+
+    const player = gameState.players.find(p => p.id === playerId)!;
+    if (!ResourceManager.hasResources(player.resources, offer.requesting)) {
+      return insufficientResources('Player does not have requested resources', player.resources, offer.requesting);
+    }
+
+    return { valid: true };
+  }
+
+  static acceptTrade(gameState: GameState, playerId: string, offerId: string): GameState {
+    const validation = this.canAcceptTrade(gameState, playerId, offerId);
+    if (!validation.valid) {
+      throw RuleViolationError.fromValidation(validation);
+    }
+
+    const offer = this.getTradeOffer(gameState, offerId)!;
+    const traded = this.exchange(
+      this.exchange(gameState, offer.fromPlayerId, offer.offering, offer.requesting),
+      playerId,
+      offer.requesting,
       offer.offering
     );
+    return this.withoutOffer(traded, offerId);
+  }
 
-    // Add requested resources to offering player
-    newState.players[fromPlayerIndex].resources = ResourceManager.addResources(
-      newState.players[fromPlayerIndex].resources,
-      offer.requesting
-    );
+  // An open offer stays up until every opponent has turned it down
+  static rejectTrade(gameState: GameState, playerId: string, offerId: string): GameState {
+    const validation = this.canAnswerTrade(gameState, playerId, offerId);
+    if (!validation.valid) {
+      throw RuleViolationError.fromValidation(validation);
+    }
 
-    // If it's a player-to-player trade, handle the other player
-    if (offer.toPlayerId) {
-      const toPlayerIndex = newState.players.findIndex(p => p.id === offer.toPlayerId!);
-      
-      // Remove requested resources from receiving player (they give these to offering player)
-      newState.players[toPlayerIndex].resources = ResourceManager.subtractResources(
-        newState.players[toPlayerIndex].resources,
-        offer.requesting
-      );
+    const offer = this.getTradeOffer(gameState, offerId)!;
+    const rejectedBy = [...(offer.rejectedBy ?? []), playerId];
+    const stillOpen = !offer.toPlayerId &&
+      gameState.players.some(p => p.id !== offer.fromPlayerId && !rejectedBy.includes(p.id));
 
-      // Add offered resources to receiving player
-      newState.players[toPlayerIndex].resources = ResourceManager.addResources(
-        newState.players[toPlayerIndex].resources,
-        offer.offering
-      );
+    if (!stillOpen) {
+      return this.withoutOffer(gameState, offerId);
+    }
+    return {
+      ...gameState,
+      tradeOffers: gameState.tradeOffers!.map(open => open.id === offerId ? { ...open, rejectedBy } : open)
+    };
+  }
+
+  static canCancelTrade(gameState: GameState, playerId: string, offerId: string): ValidationResult {
+    const offer = this.getTradeOffer(gameState, offerId);
+    if (!offer) {
+      return invalid('TRADE_NOT_FOUND', 'Trade offer not found', { offerId });
     }
 
-    return newState;
+    if (offer.fromPlayerId !== playerId) {
+      return invalid('NOT_TRADE_PARTY', 'Only the player who made an offer can withdraw it', { offerId, playerId });
+    }
+
+    return { valid: true };
   }
 
-  private static getAccessiblePorts(gameState: GameState, playerId: string): Array<{
-    type: 'generic' | ResourceType;
-    ratio: number;
-  }> {
+  static cancelTrade(gameState: GameState, playerId: string, offerId: string): GameState {
+    const validation = this.canCancelTrade(gameState, playerId, offerId);
+    if (!validation.valid) {
+      throw RuleViolationError.fromValidation(validation);
+    }
+
+    return this.withoutOffer(gameState, offerId);
+  }
+
+  static getTradeOffer(gameState: GameState, offerId: string): OpenTradeOffer | undefined {
+    return gameState.tradeOffers?.find(offer => offer.id === offerId);
+  }
+
+  // Open offers `playerId` can still accept, counter or reject
+  static getTradeOffersFor(gameState: GameState, playerId: string): OpenTradeOffer[] {
+    return (gameState.tradeOffers ?? []).filter(offer => this.isOfferedTo(offer, playerId));
+  }
+
+  // Cards only come whole
+  private static validateAmounts(offer: TradeOffer): ValidationResult {
+    for (const [side, amounts] of [['offering', offer.offering], ['requesting', offer.requesting]] as const) {
+      const bad = Object.entries(amounts).find(([_, amount]) => !Number.isInteger(amount) || amount! < 0);
+      if (bad) {
+        return invalid('INVALID_TRADE', 'Trade amounts must be whole, non-negative numbers', {
+          [side]: { [bad[0]]: bad[1] }
+        });
+      }
+    }
+    return { valid: true };
+  }
+
+  private static isOfferedTo(offer: OpenTradeOffer, playerId: string): boolean {
+    return offer.fromPlayerId !== playerId &&
+      (offer.toPlayerId === undefined || offer.toPlayerId === playerId) &&
+      !offer.rejectedBy?.includes(playerId);
+  }
+
+  // The player gives `giving` and receives `receiving`
+  private static exchange(
+    gameState: GameState,
+    playerId: string,
+    giving: Partial<Resources>,
+    receiving: Partial<Resources>
+  ): GameState {
+    return updatePlayer(gameState, playerId, player => ({
+      resources: ResourceManager.addResources(ResourceManager.subtractResources(player.resources, giving), receiving)
+    }));
+  }
+
+  private static withoutOffer(gameState: GameState, offerId: string): GameState {
+    return { ...gameState, tradeOffers: (gameState.tradeOffers ?? []).filter(offer => offer.id !== offerId) };
+  }
+
+  private static getAccessiblePorts(gameState: GameState, playerId: string): Port[] {
     const player = gameState.players.find(p => p.id === playerId);
     if (!player) return [];
 
-    const accessiblePorts: Array<{ type: 'generic' | ResourceType; ratio: number }> = [];
+    const accessiblePorts: Port[] = [];
 
-    // Check all player's settlements and cities for port access
+    // Check all player's settlements and cities for harbor access (either end of the harbor edge)
     const allBuildings = [...player.buildings.settlements, ...player.buildings.cities];
     
     allBuildings.forEach(intersectionId => {
-      const intersection = gameState.board.intersections.get(intersectionId);
-      if (intersection?.port) {
-        accessiblePorts.push(intersection.port);
-      }
+      BoardGenerator.getIntersectionHarbors(gameState.board, intersectionId).forEach(({ type, ratio }) => {
+        accessiblePorts.push({ type, ratio });
+      });
     });
 
     return accessiblePorts;
   }
 
   private static getBestTradeRatio(
-    accessiblePorts: Array<{ type: 'generic' | ResourceType; ratio: number }>,
-    resourceType: ResourceType
+    accessiblePorts: Port[],
+    resourceType: ResourceType,
+    bankRatio: number
   ): number {
-    let bestRatio = 4; // Default 4:1 ratio
+    let bestRatio = bankRatio; // 4:1 unless the rules say otherwise
 
     // Check for specific resource port
     const specificPort = accessiblePorts.find(port => port.type === resourceType);
@@ -164,20 +365,12 @@ export class TradingManager {
 
   static getAvailableTradeRatios(gameState: GameState, playerId: string): Record<ResourceType, number> {
     const accessiblePorts = this.getAccessiblePorts(gameState, playerId);
-    const ratios: Record<ResourceType, number> = {
-      wood: 4,
-      brick: 4,
-      wool: 4,
-      wheat: 4,
-      ore: 4
-    };
+    const { bankTradeRatio } = getRules(gameState);
+    const ratios = {} as Record<ResourceType, number>;
 
-    // Update ratios based on accessible ports
-    Object.keys(ratios).forEach(resource => {
-      ratios[resource as ResourceType] = this.getBestTradeRatio(
-        accessiblePorts, 
-        resource as ResourceType
-      );
+    // Start from the bank ratio and improve it with accessible ports
+    RESOURCE_TYPES.forEach(resource => {
+      ratios[resource] = this.getBestTradeRatio(accessiblePorts, resource, bankTradeRatio);
     });
 
     return ratios;
@@ -185,11 +378,12 @@ export class TradingManager {
 
   static canAffordTrade(
     playerResources: Resources,
-    accessiblePorts: Array<{ type: 'generic' | ResourceType; ratio: number }>,
+    accessiblePorts: Port[],
     offeringResource: ResourceType,
-    requestingAmount: number
+    requestingAmount: number,
+    bankRatio: number = DEFAULT_GAME_RULES.bankTradeRatio
   ): boolean {
-    const requiredRatio = this.getBestTradeRatio(accessiblePorts, offeringResource);
+    const requiredRatio = this.getBestTradeRatio(accessiblePorts, offeringResource, bankRatio);
     const requiredAmount = requiredRatio * requestingAmount;
     
     return playerResources[offeringResource] >= requiredAmount;
@@ -253,12 +447,12 @@ export class TradingManager {
       const playerAmount = player.resources[offeringResource];
       if (playerAmount === 0) return;
 
-      const ratio = this.getBestTradeRatio(accessiblePorts, offeringResource);
+      const ratio = this.getBestTradeRatio(accessiblePorts, offeringResource, getRules(gameState).bankTradeRatio);
       const maxTrades = Math.floor(playerAmount / ratio);
       
       if (maxTrades > 0) {
         resourceTypes.forEach(requestingResource => {
-          if (requestingResource !== offeringResource) {
+          if (requestingResource !== offeringResource && (!gameState.bank || gameState.bank[requestingResource] > 0)) {
             possibleTrades.push({
               offeringResource,
               requestingResource,
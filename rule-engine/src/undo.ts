@@ -0,0 +1,65 @@
+import { GameState, Action } from './types';
+import { ValidationResult, invalid } from './errors';
+import { getRules } from './rules';
+
+export class UndoManager {
+  /**
+   * Actions that can be taken back without leaking anything: they draw no
+   * random numbers and reveal no hidden cards. Rolling, buying a card,
+   * stealing and playing a card (which shows it to the table) all end the undo
+   * history, as do actions that involve another player and ending the turn.
+   */
+  static isReversible(action: Action): boolean {
+    switch (action.type) {
+      case 'BUILD_ROAD':
+      case 'BUILD_SETTLEMENT':
+      case 'BUILD_CITY':
+      case 'TRADE_WITH_BANK':
+      case 'MOVE_ROBBER':
+      case 'BUILD_KNIGHT':
+      case 'ACTIVATE_KNIGHT':
+      case 'PROMOTE_KNIGHT':
+      case 'IMPROVE_CITY':
+      case 'BUILD_SHIP':
+      case 'MOVE_SHIP':
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  static canUndo(gameState: GameState, playerId: string): ValidationResult {
+    if (!getRules(gameState).allowUndo) {
+      return invalid('UNDO_DISABLED', 'Undo is not allowed in this game');
+    }
+
+    const currentPlayerId = gameState.players[gameState.currentPlayerIndex].id;
+    if (currentPlayerId !== playerId) {
+      return invalid('NOT_YOUR_TURN', 'Only the current player can undo', { currentPlayerId });
+    }
+
+    if (!gameState.undoHistory || gameState.undoHistory.actions.length === 0) {
+      return invalid('NOTHING_TO_UNDO', 'There is nothing to undo');
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Extends the undo history with an applied action, or clears it when the
+   * action cannot be taken back.
+   */
+  static record(before: GameState, after: GameState, action: Action): GameState {
+    const newState: GameState = { ...after };
+    delete newState.undoHistory;
+    // A setup road passes the turn, so it ends the history like END_TURN does
+    if (!getRules(before).allowUndo || !this.isReversible(action) || before.currentPlayerIndex !== after.currentPlayerIndex) {
+      return newState;
+    }
+
+    const { undoHistory: previous, ...checkpoint } = before;
+    const history = previous ?? { checkpoint, actions: [] };
+    return { ...newState, undoHistory: { checkpoint: history.checkpoint, actions: [...history.actions, action] } };
+  }
+}
@@ -1,4 +1,20 @@
 import { GameState, Player } from './types';
+import { updatePlayer } from './state';
+import { getRules } from './rules';
+import { METROPOLIS_POINTS } from './cities-and-knights';
+
+export interface VictoryPointBreakdown {
+  settlements: number;
+  cities: number;
+  longestRoad: number;
+  largestArmy: number;
+  islands: number; // Seafarers bonuses for settling new islands
+  metropolises: number; // Cities & Knights
+  defender: number; // Cities & Knights Defender of Catan points
+  progressCards: number; // Cities & Knights printer and constitution
+  developmentCards: number;
+  total: number;
+}
 
 export class VictoryManager {
   static calculateVictoryPoints(player: Player): number {
@@ -26,177 +42,121 @@ export class VictoryManager {
     return points;
   }
 
-  static updatePlayerVictoryPoints(gameState: GameState): GameState {
-    const newState = { ...gameState };
-    
-    newState.players.forEach((player, index) => {
-      newState.players[index].victoryPoints = this.calculateVictoryPoints(player);
-    });
+  // Public points plus the victory point cards still hidden in the hand
+  static calculateTotalVictoryPoints(player: Player): number {
+    return this.calculateVictoryPoints(player) + player.developmentCards.victoryPoint;
+  }
 
-    return newState;
+  static updatePlayerVictoryPoints(gameState: GameState): GameState {
+    return {
+      ...gameState,
+      players: gameState.players.map(player => ({ ...player, victoryPoints: this.calculateVictoryPoints(player) }))
+    };
   }
 
   static checkWinCondition(gameState: GameState, playerId: string): boolean {
     const player = gameState.players.find(p => p.id === playerId);
     if (!player) return false;
 
-    return this.calculateVictoryPoints(player) >= 10;
+    return this.calculateTotalVictoryPoints(player) >= getRules(gameState).victoryPointsToWin;
   }
 
-  static getWinner(gameState: GameState): Player | null {
-    const playersWithWin = gameState.players.filter(player => 
-      this.calculateVictoryPoints(player) >= 10
-    );
+  // The player who rolled this turn, even while a paired player has the special building phase
+  static getTurnOwner(gameState: GameState): Player | undefined {
+    return gameState.players[gameState.primaryPlayerIndex ?? gameState.currentPlayerIndex];
+  }
 
-    // Return the first player who reached 10 VP (they win immediately on their turn)
-    return playersWithWin.length > 0 ? playersWithWin[0] : null;
+  /**
+   * Only the player whose turn it is can win. Anyone else who reaches the
+   * target during that turn (a Defender of Catan point on another player's
+   * roll, say) wins on their own next action instead.
+   */
+  static getWinner(gameState: GameState): Player | null {
+    const turnOwner = this.getTurnOwner(gameState);
+    return turnOwner && this.calculateTotalVictoryPoints(turnOwner) >= getRules(gameState).victoryPointsToWin
+      ? turnOwner
+      : null;
   }
 
   static updateLongestRoad(gameState: GameState): GameState {
-    const newState = { ...gameState };
-    
-    // Calculate longest road for each player
-    const roadLengths = newState.players.map(player => ({
+    // Calculate longest road for each player (must be at least 5)
+    const roadLengths = gameState.players.map(player => ({
       playerId: player.id,
-      length: this.calculateLongestRoadLength(newState, player.id)
+      score: this.calculateLongestRoadLength(gameState, player.id)
     }));
 
-    // Find the longest road (must be at least 5)
-    const validRoads = roadLengths.filter(road => road.length >= 5);
-    
-    if (validRoads.length === 0) {
-      // No one has longest road
-      newState.players.forEach((player, index) => {
-        if (player.specialCards.longestRoad) {
-          newState.players[index].specialCards.longestRoad = false;
-          newState.players[index].victoryPoints -= 2;
-        }
-      });
-      return newState;
-    }
-
-    // Sort by road length (descending)
-    validRoads.sort((a, b) => b.length - a.length);
-    const longestLength = validRoads[0].length;
-    
-    // Check for ties at the longest length
-    const tiedPlayers = validRoads.filter(road => road.length === longestLength);
-    
-    // Find current holder of longest road
-    const currentHolder = newState.players.find(p => p.specialCards.longestRoad);
-    
-    if (tiedPlayers.length === 1) {
-      // Clear winner
-      const winnerId = tiedPlayers[0].playerId;
-      
-      // Remove from current holder if different
-      if (currentHolder && currentHolder.id !== winnerId) {
-        const currentHolderIndex = newState.players.findIndex(p => p.id === currentHolder.id);
-        newState.players[currentHolderIndex].specialCards.longestRoad = false;
-        newState.players[currentHolderIndex].victoryPoints -= 2;
-      }
-      
-      // Give to new holder (if they don't already have it)
-      if (!currentHolder || currentHolder.id !== winnerId) {
-        const winnerIndex = newState.players.findIndex(p => p.id === winnerId);
-        newState.players[winnerIndex].specialCards.longestRoad = true;
-        newState.players[winnerIndex].victoryPoints += 2;
-      }
-    } else {
-      // Tie situation - current holder keeps it if tied, otherwise no one gets it
-      const currentHolderTied = currentHolder && 
-        tiedPlayers.some(player => player.playerId === currentHolder.id);
-      
-      if (!currentHolderTied && currentHolder) {
-        // Current holder no longer tied for longest, remove it
-        const currentHolderIndex = newState.players.findIndex(p => p.id === currentHolder.id);
-        newState.players[currentHolderIndex].specialCards.longestRoad = false;
-        newState.players[currentHolderIndex].victoryPoints -= 2;
-      }
-    }
-
-    return newState;
+    return this.updateSpecialCard(gameState, 'longestRoad', roadLengths, 5);
   }
 
   static updateLargestArmy(gameState: GameState): GameState {
-    const newState = { ...gameState };
-    
     // Find player with most knights (must be at least 3)
-    const armySizes = newState.players.map(player => ({
+    const armySizes = gameState.players.map(player => ({
       playerId: player.id,
-      knights: player.knightsPlayed
+      score: player.knightsPlayed
     }));
 
-    const validArmies = armySizes.filter(army => army.knights >= 3);
-    
-    if (validArmies.length === 0) {
-      // No one has largest army
-      newState.players.forEach((player, index) => {
-        if (player.specialCards.largestArmy) {
-          newState.players[index].specialCards.largestArmy = false;
-          newState.players[index].victoryPoints -= 2;
-        }
-      });
-      return newState;
-    }
+    return this.updateSpecialCard(gameState, 'largestArmy', armySizes, 3);
+  }
 
-    // Sort by army size (descending)
-    validArmies.sort((a, b) => b.knights - a.knights);
-    const largestSize = validArmies[0].knights;
-    
-    // Check for ties at the largest size
-    const tiedPlayers = validArmies.filter(army => army.knights === largestSize);
-    
-    // Find current holder of largest army
-    const currentHolder = newState.players.find(p => p.specialCards.largestArmy);
-    
-    if (tiedPlayers.length === 1) {
-      // Clear winner
-      const winnerId = tiedPlayers[0].playerId;
-      
-      // Remove from current holder if different
-      if (currentHolder && currentHolder.id !== winnerId) {
-        const currentHolderIndex = newState.players.findIndex(p => p.id === currentHolder.id);
-        newState.players[currentHolderIndex].specialCards.largestArmy = false;
-        newState.players[currentHolderIndex].victoryPoints -= 2;
-      }
-      
-      // Give to new holder (if they don't already have it)
-      if (!currentHolder || currentHolder.id !== winnerId) {
-        const winnerIndex = newState.players.findIndex(p => p.id === winnerId);
-        newState.players[winnerIndex].specialCards.largestArmy = true;
-        newState.players[winnerIndex].victoryPoints += 2;
-      }
-    } else {
-      // Tie situation - current holder keeps it if tied, otherwise no one gets it
-      const currentHolderTied = currentHolder && 
-        tiedPlayers.some(player => player.playerId === currentHolder.id);
-      
-      if (!currentHolderTied && currentHolder) {
-        // Current holder no longer tied for largest, remove it
-        const currentHolderIndex = newState.players.findIndex(p => p.id === currentHolder.id);
-        newState.players[currentHolderIndex].specialCards.largestArmy = false;
-        newState.players[currentHolderIndex].victoryPoints -= 2;
+  private static updateSpecialCard(
+    gameState: GameState,
+    card: keyof Player['specialCards'],
+    scores: { playerId: string; score: number }[],
+    minimum: number
+  ): GameState {
+    const qualifying = scores.filter(entry => entry.score >= minimum);
+    const currentHolder = gameState.players.find(p => p.specialCards[card]);
+
+    let newHolderId: string | undefined;
+    if (qualifying.length > 0) {
+      const best = Math.max(...qualifying.map(entry => entry.score));
+      const tiedPlayers = qualifying.filter(entry => entry.score === best);
+
+      if (tiedPlayers.length === 1) {
+        // Clear winner
+        newHolderId = tiedPlayers[0].playerId;
+      } else if (currentHolder && tiedPlayers.some(entry => entry.playerId === currentHolder.id)) {
+        // Tie situation - current holder keeps it if tied, otherwise no one gets it
+        newHolderId = currentHolder.id;
       }
     }
 
+    if (newHolderId === currentHolder?.id) {
+      return gameState;
+    }
+
+    let newState = gameState;
+    if (currentHolder) {
+      newState = updatePlayer(newState, currentHolder.id, player => ({
+        specialCards: { ...player.specialCards, [card]: false },
+        victoryPoints: player.victoryPoints - 2
+      }));
+    }
+    if (newHolderId) {
+      newState = updatePlayer(newState, newHolderId, player => ({
+        specialCards: { ...player.specialCards, [card]: true },
+        victoryPoints: player.victoryPoints + 2
+      }));
+    }
     return newState;
   }
 
-  private static calculateLongestRoadLength(gameState: GameState, playerId: string): number {
+  // Longest trail through the player's roads: each road counts once, and the trail can't pass
+  // through an intersection holding an opponent's building (though it may end there).
+  // With Seafarers ships count too (the longest trade route), switching between road and ship
+  // only at the player's own settlement or city
+  static calculateLongestRoadLength(gameState: GameState, playerId: string): number {
     const player = gameState.players.find(p => p.id === playerId);
-    if (!player || player.buildings.roads.length === 0) {
+    const routes = player ? [...player.buildings.roads, ...(player.buildings.ships ?? [])] : [];
+    if (routes.length === 0) {
       return 0;
     }
 
-    // Build adjacency graph of player's roads
-    const roadGraph = this.buildRoadGraph(gameState, player.buildings.roads);
-    
-    let maxLength = 0;
+    const roadsByIntersection = this.buildRoadGraph(gameState, routes);
 
-    // Try starting from each road segment
-    player.buildings.roads.forEach(roadId => {
-      const length = this.depthFirstSearchLongestPath(roadGraph, roadId, new Set());
+    let maxLength = 0;
+    roadsByIntersection.forEach((_, intersectionId) => {
+      const length = this.longestTrailFrom(gameState, roadsByIntersection, intersectionId, playerId, new Set());
       maxLength = Math.max(maxLength, length);
     });
 
@@ -205,36 +165,14 @@ export class VictoryManager {
 
   private static buildRoadGraph(gameState: GameState, roadIds: string[]): Map<string, string[]> {
     const graph = new Map<string, string[]>();
-    
-    // Initialize each road with empty adjacency list
-    roadIds.forEach(roadId => {
-      graph.set(roadId, []);
-    });
 
-    // For each road, find connected roads
     roadIds.forEach(roadId => {
       const edge = gameState.board.edges.get(roadId);
       if (!edge) return;
 
-      const connectedRoads: string[] = [];
-
-      // Check each intersection of this road
       edge.intersections.forEach(intersectionId => {
-        const intersection = gameState.board.intersections.get(intersectionId);
-        if (!intersection) return;
-
-        // Find other roads connected to this intersection
-        intersection.edges.forEach(connectedEdgeId => {
-          if (connectedEdgeId !== roadId && roadIds.includes(connectedEdgeId)) {
-            // Check if the path is not blocked by an opponent's building
-            if (!this.isPathBlockedByOpponent(gameState, intersectionId, edge.road!.playerId)) {
-              connectedRoads.push(connectedEdgeId);
-            }
-          }
-        });
+        graph.set(intersectionId, [...(graph.get(intersectionId) ?? []), roadId]);
       });
-
-      graph.set(roadId, connectedRoads);
     });
 
     return graph;
@@ -252,52 +190,73 @@ export class VictoryManager {
     return intersection.building.playerId !== playerId;
   }
 
-  private static depthFirstSearchLongestPath(
+  private static longestTrailFrom(
+    gameState: GameState,
     graph: Map<string, string[]>,
-    currentRoad: string,
-    visited: Set<string>
+    intersectionId: string,
+    playerId: string,
+    usedRoads: Set<string>,
+    arrivedByShip?: boolean
   ): number {
-    visited.add(currentRoad);
-    
     let maxPath = 0;
-    const neighbors = graph.get(currentRoad) || [];
+    const atOwnBuilding = gameState.board.intersections.get(intersectionId)?.building?.playerId === playerId;
 
-    for (const neighborRoad of neighbors) {
-      if (!visited.has(neighborRoad)) {
-        const pathLength = this.depthFirstSearchLongestPath(graph, neighborRoad, visited);
-        maxPath = Math.max(maxPath, pathLength);
-      }
+    for (const roadId of graph.get(intersectionId) ?? []) {
+      if (usedRoads.has(roadId)) continue;
+
+      const edge = gameState.board.edges.get(roadId)!;
+      const isShip = edge.ship?.playerId === playerId;
+      if (arrivedByShip !== undefined && arrivedByShip !== isShip && !atOwnBuilding) continue;
+
+      const nextIntersectionId = edge.intersections.find(id => id !== intersectionId)!;
+
+      usedRoads.add(roadId);
+      const onward = this.isPathBlockedByOpponent(gameState, nextIntersectionId, playerId)
+        ? 0
+        : this.longestTrailFrom(gameState, graph, nextIntersectionId, playerId, usedRoads, isShip);
+      usedRoads.delete(roadId);
+
+      maxPath = Math.max(maxPath, onward + 1);
     }
 
-    visited.delete(currentRoad);
-    return maxPath + 1;
+    return maxPath;
   }
 
-  static getVictoryPointBreakdown(player: Player): {
-    settlements: number;
-    cities: number;
-    longestRoad: number;
-    largestArmy: number;
-    developmentCards: number;
-    total: number;
-  } {
+  /**
+   * Where a player's points come from. Expansion points are only told apart
+   * when the game state is passed; without it they count as development cards.
+   */
+  static getVictoryPointBreakdown(player: Player, gameState?: GameState): VictoryPointBreakdown {
     const settlements = player.buildings.settlements.length;
     const cities = player.buildings.cities.length * 2;
     const longestRoad = player.specialCards.longestRoad ? 2 : 0;
     const largestArmy = player.specialCards.largestArmy ? 2 : 0;
+    const seafarers = gameState?.seafarers;
+    const islands = seafarers ? (seafarers.bonusIslands[player.id] ?? []).length * seafarers.islandBonus : 0;
+    const ck = gameState?.citiesAndKnights;
+    const metropolises = ck
+      ? Object.values(ck.metropolises).filter(city => city && player.buildings.cities.includes(city)).length * METROPOLIS_POINTS
+      : 0;
+    const defender = ck?.players[player.id]?.defenderPoints ?? 0;
+    const progressCards = ck?.players[player.id]?.victoryCards.length ?? 0;
+    const expansions = islands + metropolises + defender + progressCards;
     
-    // Development card VPs are already included in victoryPoints field
+    // Revealed development card VPs are included in the victoryPoints field; hidden ones are still in the hand
     const developmentCards = Math.max(0, 
-      player.victoryPoints - settlements - cities - longestRoad - largestArmy
-    );
+      player.victoryPoints - settlements - cities - longestRoad - largestArmy - expansions
+    ) + player.developmentCards.victoryPoint;
 
     return {
       settlements,
       cities,
       longestRoad,
       largestArmy,
+      islands,
+      metropolises,
+      defender,
+      progressCards,
       developmentCards,
-      total: settlements + cities + longestRoad + largestArmy + developmentCards
+      total: settlements + cities + longestRoad + largestArmy + expansions + developmentCards
     };
   }
 
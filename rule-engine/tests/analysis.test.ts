@@ -0,0 +1,77 @@
+import { BoardAnalyzer } from '../src/analysis';
+import { CatanRuleEngine } from '../src/rule-engine';
+import { GameState } from '../src/types';
+import { place } from './helpers';
+
+describe('BoardAnalyzer', () => {
+  let gameState: GameState;
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 1 });
+  });
+
+  it('should total the pips, production and diversity around an intersection', () => {
+    // Pasture 9, field 3 and field 12
+    const analysis = BoardAnalyzer.analyzeIntersection(gameState, 'i_1,0')!;
+
+    expect(analysis.pips).toBe(7);
+    expect(analysis.production).toEqual({ wood: 0, brick: 0, wool: 4 / 36, wheat: 3 / 36, ore: 0 });
+    expect(analysis.diversity).toBe(2);
+    expect(analysis.harbors).toEqual([]);
+    expect(analysis.available).toBe(true);
+    expect(BoardAnalyzer.analyzeIntersection(gameState, 'i_9,9')).toBeUndefined();
+  });
+
+  it('should report harbors and leave out robbed hexes', () => {
+    expect(BoardAnalyzer.analyzeIntersection(gameState, 'i_1,1')!.harbors).toEqual([{ edgeId: 'e_0,1_1,1', type: 'brick', ratio: 2 }]);
+
+    // The robber starts on the desert; moved onto the pasture it takes the wool away
+    gameState.board.tiles.get('1,0')!.hasRobber = true;
+    const analysis = BoardAnalyzer.analyzeIntersection(gameState, 'i_1,0')!;
+    expect(analysis.pips).toBe(3);
+    expect(analysis.production.wool).toBe(0);
+    expect(analysis.diversity).toBe(2);
+  });
+
+  it('should follow the distance rule when ranking spots', () => {
+    place(gameState, 'player1', 'i_1,0');
+
+    expect(BoardAnalyzer.analyzeIntersection(gameState, 'i_1,0')!.available).toBe(false);
+    expect(BoardAnalyzer.analyzeIntersection(gameState, 'i_0,0')!.available).toBe(false);
+
+    const ranked = BoardAnalyzer.rankIntersections(gameState, { availableOnly: true });
+    expect(ranked.every(analysis => analysis.available)).toBe(true);
+    expect(ranked.map(analysis => analysis.intersectionId)).not.toContain('i_1,0');
+    const totals = ranked.map(analysis => Object.values(analysis.production).reduce((sum, odds) => sum + odds, 0));
+    expect(totals).toEqual([...totals].sort((a, b) => b - a));
+    expect(BoardAnalyzer.rankIntersections(gameState).length).toBe(gameState.board.intersections.size);
+  });
+
+  it('should expect twice the income from a city', () => {
+    place(gameState, 'player1', 'i_1,0');
+    place(gameState, 'player2', 'i_-1,0', 'city');
+
+    const settlement = BoardAnalyzer.getExpectedIncome(gameState, 'player1');
+    expect(settlement.production).toEqual(BoardAnalyzer.analyzeIntersection(gameState, 'i_1,0')!.production);
+    expect(settlement.total).toBeCloseTo(7 / 36);
+
+    const city = BoardAnalyzer.getExpectedIncome(gameState, 'player2');
+    const spot = BoardAnalyzer.analyzeIntersection(gameState, 'i_-1,0')!;
+    expect(city.total).toBeCloseTo(2 * Object.values(spot.production).reduce((sum, odds) => sum + odds, 0));
+  });
+
+  it('should measure what the robber would cost each player', () => {
+    place(gameState, 'player1', 'i_1,0');
+    place(gameState, 'player2', 'i_2,-1', 'city');
+
+    // Both touch the pasture 9
+    const impact = BoardAnalyzer.getRobberImpact(gameState, { q: 1, r: 0 });
+    expect(impact.lost).toEqual({ player1: 4 / 36, player2: 8 / 36 });
+    expect(impact.total).toBeCloseTo(12 / 36);
+    expect(BoardAnalyzer.getRobberImpact(gameState, { q: 0, r: 0 }).total).toBe(0);
+
+    const impacts = BoardAnalyzer.getRobberImpacts(gameState);
+    expect(impacts[0].hex).toEqual({ q: 1, r: 0 });
+    expect(impacts.map(({ hex }) => hex)).not.toContainEqual({ q: 0, r: 0 });
+  });
+});
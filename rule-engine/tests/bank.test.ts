@@ -0,0 +1,192 @@
+import { CatanRuleEngine } from '../src/rule-engine';
+import { ResourceManager } from '../src/resources';
+import { BuildingManager } from '../src/building';
+import { DevelopmentCardManager } from '../src/development-cards';
+import { TradingManager } from '../src/trading';
+import { RobberManager } from '../src/robber';
+import { mulberry32 } from '../src/random';
+import { GameState, Resources, ResourceType, RESOURCE_TYPES } from '../src/types';
+
+const resources = (partial: Partial<Resources> = {}): Resources =>
+  ({ wood: 0, brick: 0, wool: 0, wheat: 0, ore: 0, ...partial });
+
+describe('Resource bank', () => {
+  let gameState: GameState;
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2', 'player3'], { seed: 7 });
+    gameState.phase = 'ACTION';
+  });
+
+  it('should start with 19 cards of each resource, or 24 with 5-6 players', () => {
+    expect(gameState.bank).toEqual(resources({ wood: 19, brick: 19, wool: 19, wheat: 19, ore: 19 }));
+    expect(CatanRuleEngine.createNewGame(['p1', 'p2', 'p3', 'p4', 'p5']).bank!.ore).toBe(24);
+  });
+
+  describe('production shortages', () => {
+    const TERRAIN_RESOURCES: Record<string, ResourceType> = {
+      forest: 'wood', hill: 'brick', pasture: 'wool', field: 'wheat', mountain: 'ore'
+    };
+
+    // The 12 appears once, so each settlement on it produces exactly one card
+    const setUp = (bankAmount: number, ...owners: string[]): ResourceType => {
+      const [key, tile] = Array.from(gameState.board.tiles.entries()).find(([, candidate]) => candidate.numberDisc === 12)!;
+      const resource = TERRAIN_RESOURCES[tile.terrain];
+      const corners = Array.from(gameState.board.intersections.values()).filter(intersection =>
+        intersection.hexes.some(hex => hex.q === tile.coordinate.q && hex.r === tile.coordinate.r));
+
+      owners.forEach((playerId, index) => {
+        corners[index * 2].building = { type: 'settlement', playerId };
+      });
+      gameState.board.tiles.set(key, { ...tile, hasRobber: false });
+      gameState.bank = { ...gameState.bank!, [resource]: bankAmount };
+      return resource;
+    };
+
+    it('should pay everyone when the bank can cover it', () => {
+      const resource = setUp(2, 'player1', 'player2');
+
+      const state = ResourceManager.distributeResources(gameState, 12);
+
+      expect(state.players[0].resources[resource]).toBe(1);
+      expect(state.players[1].resources[resource]).toBe(1);
+      expect(state.bank![resource]).toBe(0);
+    });
+
+    it('should pay nobody when several players are owed more than the bank holds', () => {
+      const resource = setUp(1, 'player1', 'player2');
+
+      const state = ResourceManager.distributeResources(gameState, 12);
+
+      expect(state.players[0].resources[resource]).toBe(0);
+      expect(state.players[1].resources[resource]).toBe(0);
+      expect(state.bank![resource]).toBe(1);
+    });
+
+    it('should give a lone player whatever is left', () => {
+      const resource = setUp(1, 'player1', 'player1');
+
+      const state = ResourceManager.distributeResources(gameState, 12);
+
+      expect(state.players[0].resources[resource]).toBe(1);
+      expect(state.bank![resource]).toBe(0);
+    });
+  });
+
+  it('should collect building costs and discards', () => {
+    gameState.players[0].resources = resources({ wood: 1, brick: 1, wool: 1, wheat: 3, ore: 4 });
+    gameState.players[0].buildings.settlements = ['i_0,0'];
+    gameState.board.intersections.get('i_0,0')!.building = { type: 'settlement', playerId: 'player1' };
+
+    let state = BuildingManager.buildRoad(gameState, 'player1', 'e_0,-1_0,0');
+    state = BuildingManager.buildCity(state, 'player1', 'i_0,0');
+    state = DevelopmentCardManager.buyDevelopmentCard(state, 'player1');
+
+    expect(state.bank).toEqual(resources({ wood: 20, brick: 20, wool: 20, wheat: 22, ore: 23 }));
+
+    state.players[1].resources = resources({ ore: 8 });
+    state = RobberManager.discardResources(RobberManager.handleSevenRolled(state), 'player2', { ore: 4 });
+    expect(state.bank!.ore).toBe(27);
+  });
+
+  it('should settle bank trades and refuse resources the bank has run out of', () => {
+    gameState.players[0].resources = resources({ wood: 8 });
+    const offer = TradingManager.createBankTradeOffer('player1', 'wood', 4, 'ore', 1);
+
+    const traded = TradingManager.executeTrade(gameState, offer);
+    expect(traded.bank).toEqual(resources({ wood: 23, brick: 19, wool: 19, wheat: 19, ore: 18 }));
+
+    gameState.bank = { ...gameState.bank!, ore: 0 };
+    expect(TradingManager.validateBankTrade(gameState, offer)).toMatchObject({
+      valid: false,
+      code: 'BANK_EMPTY',
+      details: { resource: 'ore', available: 0, requested: 1 }
+    });
+    expect(TradingManager.getPossibleBankTrades(gameState, 'player1').map(trade => trade.requestingResource))
+      .not.toContain('ore');
+  });
+
+  it('should only let the current player trade their own cards with the bank', () => {
+    gameState.players[0].resources = resources({ wood: 4 });
+    gameState.players[1].resources = resources({ wood: 4, ore: 1 });
+    const trade = (playerId: string, tradeOffer: object) =>
+      CatanRuleEngine.processAction(gameState, { type: 'TRADE_WITH_BANK', playerId, payload: { tradeOffer } });
+
+    const withPlayer = { ...TradingManager.createBankTradeOffer('player1', 'wood', 4, 'ore', 1), toPlayerId: 'player2' };
+    expect(trade('player1', withPlayer).violation).toMatchObject({ code: 'INVALID_TRADE', details: { toPlayerId: 'player2' } });
+    expect(() => TradingManager.executeTrade(gameState, withPlayer)).toThrow('Bank trades cannot name another player');
+
+    const forSomeoneElse = trade('player1', TradingManager.createBankTradeOffer('player2', 'wood', 4, 'brick', 1));
+    expect(forSomeoneElse.violation).toMatchObject({
+      code: 'INVALID_TRADE',
+      details: { playerId: 'player1', fromPlayerId: 'player2' }
+    });
+
+    const offTurn = trade('player2', TradingManager.createBankTradeOffer('player2', 'wood', 4, 'brick', 1));
+    expect(offTurn.violation).toMatchObject({ code: 'NOT_YOUR_TURN', details: { currentPlayerId: 'player1' } });
+    expect(trade('player1', TradingManager.createBankTradeOffer('player1', 'wood', 4, 'brick', 1)).success).toBe(true);
+  });
+
+  it('should only trade whole cards with the bank', () => {
+    gameState.players[0].resources = resources({ wood: 4 });
+
+    expect(TradingManager.validateBankTrade(gameState, TradingManager.createBankTradeOffer('player1', 'wood', 2, 'ore', 0.5)))
+      .toMatchObject({ valid: false, code: 'INVALID_TRADE', details: { requesting: { ore: 0.5 } } });
+    const negative = { fromPlayerId: 'player1', offering: { wood: 4, brick: -4 }, requesting: { ore: 1 } };
+    expect(TradingManager.validateBankTrade(gameState, negative))
+      .toMatchObject({ valid: false, code: 'INVALID_TRADE', details: { offering: { brick: -4 } } });
+  });
+
+  it('should limit invention to what the bank holds', () => {
+    gameState.players[0].developmentCards.invention = 1;
+    gameState.bank = { ...gameState.bank!, ore: 1 };
+
+    const result = CatanRuleEngine.processAction(gameState, {
+      type: 'PLAY_DEVELOPMENT_CARD',
+      playerId: 'player1',
+      payload: { cardType: 'invention', resources: ['ore', 'ore'] }
+    });
+    const inventions = CatanRuleEngine.getLegalMoves(gameState, 'player1')
+      .filter(move => move.payload?.cardType === 'invention')
+      .map(move => move.payload.resources);
+
+    expect(result.violation?.code).toBe('BANK_EMPTY');
+    expect(inventions).toContainEqual(['wheat', 'ore']);
+    expect(inventions).not.toContainEqual(['ore', 'ore']);
+
+    const played = DevelopmentCardManager.playInventionCard(gameState, 'player1', ['wheat', 'ore']);
+    expect(played.bank).toMatchObject({ wheat: 18, ore: 0 });
+  });
+
+  it('should only hand out resources', () => {
+    gameState.players[0].developmentCards.invention = 1;
+
+    expect(() => DevelopmentCardManager.playInventionCard(gameState, 'player1', ['ore', 'gold'])).toThrow();
+    expect(ResourceManager.canTakeFromBank(gameState, { gold: 1 } as Partial<Resources>)).toMatchObject({
+      valid: false,
+      code: 'INVALID_ACTION',
+      details: { resource: 'gold' }
+    });
+    expect(gameState.bank).toEqual(resources({ wood: 19, brick: 19, wool: 19, wheat: 19, ore: 19 }));
+  });
+
+  it('should never create or destroy resource cards', () => {
+    const rng = mulberry32(5);
+    let state = CatanRuleEngine.createNewGame(['player1', 'player2', 'player3'], { seed: 9 });
+
+    for (let step = 0; step < 300 && state.phase !== 'GAME_OVER'; step++) {
+      const actingPlayer = state.phase === 'DISCARD'
+        ? Object.keys(state.pendingDiscards!)[0]
+        : state.players[state.currentPlayerIndex].id;
+      const moves = CatanRuleEngine.getLegalMoves(state, actingPlayer);
+      const building = moves.filter(move => move.type !== 'END_TURN');
+      const candidates = building.length > 0 && rng.next() < 0.8 ? building : moves;
+      state = CatanRuleEngine.processAction(state, candidates[Math.floor(rng.next() * candidates.length)]).newState!;
+
+      RESOURCE_TYPES.forEach(resource => {
+        const held = state.players.reduce((sum, player) => sum + player.resources[resource], 0);
+        expect(held + state.bank![resource]).toBe(19);
+      });
+    }
+  });
+});
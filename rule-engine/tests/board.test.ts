@@ -0,0 +1,188 @@
+import { BoardGenerator } from '../src/board';
+import { CatanRuleEngine } from '../src/rule-engine';
+import { TradingManager } from '../src/trading';
+import { GameBoard, TerrainType } from '../src/types';
+
+describe('BoardGenerator', () => {
+  const countBy = <T extends string | number>(values: T[]) =>
+    values.reduce((counts, value) => ({ ...counts, [value]: (counts[value] || 0) + 1 }), {} as Record<T, number>);
+
+  const terrainCounts = (board: GameBoard) =>
+    countBy(Array.from(board.tiles.values()).map(tile => tile.terrain));
+
+  const numberCounts = (board: GameBoard) =>
+    countBy(Array.from(board.tiles.values()).filter(tile => tile.numberDisc !== undefined).map(tile => tile.numberDisc!));
+
+  const portCounts = (board: GameBoard) =>
+    countBy(BoardGenerator.getHarbors(board).map(harbor => `${harbor.type}:${harbor.ratio}`));
+
+  const adjacentNumberPairs = (board: GameBoard): Array<[number, number]> => {
+    const pairs: Array<[number, number]> = [];
+    board.tiles.forEach(tile => {
+      BoardGenerator.getNeighbors(tile.coordinate).forEach(coord => {
+        const neighbor = board.tiles.get(BoardGenerator.coordToKey(coord));
+        if (tile.numberDisc && neighbor?.numberDisc) {
+          pairs.push([tile.numberDisc, neighbor.numberDisc]);
+        }
+      });
+    });
+    return pairs;
+  };
+
+  describe('generateRandomBoard', () => {
+    const standard = BoardGenerator.generateStandardBoard();
+
+    it('should keep the standard tile, number and harbor distribution', () => {
+      const board = BoardGenerator.generateRandomBoard({ seed: 1 });
+
+      expect(board.tiles.size).toBe(19);
+      expect(board.intersections.size).toBe(standard.intersections.size);
+      expect(board.edges.size).toBe(standard.edges.size);
+      expect(terrainCounts(board)).toEqual(terrainCounts(standard));
+      expect(numberCounts(board)).toEqual(numberCounts(standard));
+      expect(portCounts(board)).toEqual(portCounts(standard));
+    });
+
+    it('should leave the desert without a number and put the robber on it', () => {
+      const board = BoardGenerator.generateRandomBoard({ seed: 2 });
+      const deserts = Array.from(board.tiles.values()).filter(tile => tile.terrain === 'desert');
+
+      expect(deserts).toHaveLength(1);
+      expect(deserts[0].numberDisc).toBeUndefined();
+      expect(deserts[0].hasRobber).toBe(true);
+      expect(board.robberLocation).toEqual(deserts[0].coordinate);
+      expect(Array.from(board.tiles.values()).filter(tile => tile.hasRobber)).toHaveLength(1);
+    });
+
+    it('should be reproducible from a seed', () => {
+      const terrains = (board: GameBoard) => Array.from(board.tiles.values()).map(t => [t.terrain, t.numberDisc]);
+
+      expect(terrains(BoardGenerator.generateRandomBoard({ seed: 7 })))
+        .toEqual(terrains(BoardGenerator.generateRandomBoard({ seed: 7 })));
+      expect(terrains(BoardGenerator.generateRandomBoard({ seed: 8 })))
+        .not.toEqual(terrains(BoardGenerator.generateRandomBoard({ seed: 7 })));
+    });
+
+    it('should never place 6s and 8s next to each other', () => {
+      for (let seed = 0; seed < 25; seed++) {
+        const board = BoardGenerator.generateRandomBoard({ seed });
+        const redPairs = adjacentNumberPairs(board)
+          .filter(([a, b]) => [6, 8].includes(a) && [6, 8].includes(b));
+
+        expect(redPairs).toEqual([]);
+      }
+    });
+
+    it('should keep equal numbers apart and cap intersection pips in balanced mode', () => {
+      for (let seed = 0; seed < 10; seed++) {
+        const board = BoardGenerator.generateRandomBoard({ seed, balancedPips: true });
+
+        expect(adjacentNumberPairs(board).filter(([a, b]) => a === b)).toEqual([]);
+        board.intersections.forEach(intersection => {
+          const pips = intersection.hexes.reduce((sum, hex) =>
+            sum + BoardGenerator.getNumberPips(board.tiles.get(BoardGenerator.coordToKey(hex))!.numberDisc), 0);
+          expect(pips).toBeLessThanOrEqual(11);
+        });
+      }
+    });
+
+    it('should keep harbor types in place when shuffling is disabled', () => {
+      const board = BoardGenerator.generateRandomBoard({ seed: 3, shuffleHarbors: false });
+
+      expect(BoardGenerator.getHarbors(board)).toEqual(BoardGenerator.getHarbors(standard));
+    });
+  });
+
+  describe('generateExtendedBoard', () => {
+    const board = BoardGenerator.generateExtendedBoard();
+
+    it('should lay out the 30-hex 5-6 player board', () => {
+      expect(board.tiles.size).toBe(30);
+      expect(terrainCounts(board)).toEqual({ forest: 6, pasture: 6, field: 6, hill: 5, mountain: 5, desert: 2 });
+      expect(numberCounts(board)).toEqual({
+        2: 2, 3: 3, 4: 3, 5: 3, 6: 3, 8: 3, 9: 3, 10: 3, 11: 3, 12: 2
+      });
+      expect(Object.values(portCounts(board)).reduce((sum, count) => sum + count, 0)).toBe(11);
+      const coastalEdges = BoardGenerator.getCoastalEdges(board);
+      board.harbors.forEach(harbor => expect(coastalEdges).toContain(harbor.edgeId));
+    });
+
+    it('should keep the red numbers apart and start the robber on a desert', () => {
+      expect(adjacentNumberPairs(board).filter(([a, b]) => [6, 8].includes(a) && [6, 8].includes(b))).toEqual([]);
+      expect(board.tiles.get(BoardGenerator.coordToKey(board.robberLocation))?.terrain).toBe('desert');
+      expect(Array.from(board.tiles.values()).filter(tile => tile.hasRobber)).toHaveLength(1);
+    });
+
+    it('should shuffle the extended frame too', () => {
+      const random = BoardGenerator.generateRandomBoard({ seed: 4, extended: true, balancedPips: true });
+
+      expect(random.tiles.size).toBe(30);
+      expect(terrainCounts(random)).toEqual(terrainCounts(board));
+      expect(numberCounts(random)).toEqual(numberCounts(board));
+    });
+  });
+
+  describe('harbors', () => {
+    const board = BoardGenerator.generateStandardBoard();
+
+    it('should place the nine harbors on distinct coastal edges', () => {
+      const harbors = BoardGenerator.getHarbors(board);
+      const coastalEdges = BoardGenerator.getCoastalEdges(board);
+
+      expect(harbors).toHaveLength(9);
+      expect(new Set(harbors.map(harbor => harbor.edgeId)).size).toBe(9);
+      harbors.forEach(harbor => expect(coastalEdges).toContain(harbor.edgeId));
+      expect(portCounts(board)).toEqual({ 'generic:3': 4, 'ore:2': 1, 'wood:2': 1, 'wheat:2': 1, 'brick:2': 1, 'wool:2': 1 });
+    });
+
+    it('should attach each harbor to both endpoints of its edge and to no other intersection', () => {
+      const endpoints = board.harbors.flatMap(harbor => board.edges.get(harbor.edgeId)!.intersections);
+
+      expect(new Set(endpoints).size).toBe(18);
+      board.harbors.forEach(harbor => {
+        board.edges.get(harbor.edgeId)!.intersections.forEach(id => {
+          expect(BoardGenerator.getIntersectionHarbors(board, id)).toEqual([harbor]);
+        });
+      });
+      expect(BoardGenerator.getIntersectionHarbors(board, 'i_0,0')).toEqual([]);
+    });
+
+    it('should keep harbors on coastal edges when shuffled', () => {
+      const random = BoardGenerator.generateRandomBoard({ seed: 9 });
+
+      expect(random.harbors.map(harbor => harbor.edgeId)).toEqual(board.harbors.map(harbor => harbor.edgeId));
+      expect(portCounts(random)).toEqual(portCounts(board));
+    });
+
+    it('should grant the harbor ratio to buildings on either endpoint', () => {
+      const oreHarbor = board.harbors.find(harbor => harbor.type === 'ore')!;
+      const [first, second] = board.edges.get(oreHarbor.edgeId)!.intersections;
+
+      [first, second].forEach(intersectionId => {
+        const gameState = CatanRuleEngine.createNewGame(['player1', 'player2']);
+        gameState.players[0].buildings.settlements.push(intersectionId);
+
+        expect(TradingManager.getAvailableTradeRatios(gameState, 'player1'))
+          .toEqual({ wood: 4, brick: 4, wool: 4, wheat: 4, ore: 2 });
+        expect(TradingManager.getAvailableTradeRatios(gameState, 'player2').ore).toBe(4);
+      });
+    });
+  });
+
+  describe('getNumberPips', () => {
+    it('should count the dots on each number disc', () => {
+      expect([2, 3, 4, 5, 6, 8, 9, 10, 11, 12].map(n => BoardGenerator.getNumberPips(n)))
+        .toEqual([1, 2, 3, 4, 5, 5, 4, 3, 2, 1]);
+      expect(BoardGenerator.getNumberPips(undefined)).toBe(0);
+    });
+  });
+
+  it('should start a game on a random board when asked', () => {
+    const gameState = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 11, randomBoard: true });
+    const again = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 11, randomBoard: true });
+    const terrains = (board: GameBoard): TerrainType[] => Array.from(board.tiles.values()).map(t => t.terrain);
+
+    expect(terrains(gameState.board)).toEqual(terrains(again.board));
+    expect(gameState.developmentCardDeck).toEqual(again.developmentCardDeck);
+  });
+});
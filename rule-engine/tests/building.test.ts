@@ -35,9 +35,12 @@ describe('BuildingManager', () => {
       
       expect(result.valid).toBe(false);
       expect(result.error).toContain('Insufficient resources');
+      expect(result.code).toBe('INSUFFICIENT_RESOURCES');
+      expect(result.details?.missing).toEqual({ wood: 1 });
     });
 
     it('should reject building on occupied edge', () => {
+      gameState = BuildingManager.buildSettlement(gameState, 'player1', 'i_0,0');
       const edgeId = 'e_0,0_1,-1';
       // Manually place a road
       const edge = gameState.board.edges.get(edgeId);
@@ -104,6 +107,11 @@ describe('BuildingManager', () => {
       
       expect(result.valid).toBe(false);
       expect(result.error).toContain('distance rule');
+      expect(result.code).toBe('DISTANCE_RULE');
+      expect(result.details).toEqual({
+        intersectionId: testIntersection2Id,
+        conflictingIntersectionId: testIntersection1Id
+      });
     });
   });
 
@@ -0,0 +1,251 @@
+import { CatanRuleEngine } from '../src/rule-engine';
+import { CitiesAndKnightsManager, BARBARIAN_TRACK_LENGTH } from '../src/cities-and-knights';
+import { BuildingManager } from '../src/building';
+import { projectForPlayer } from '../src/projection';
+import { encodeGameState, decodeGameState } from '../src/codec';
+import { GameState } from '../src/types';
+import { apply, place } from './helpers';
+
+// Rolls from `gameState` with successive RNG states until the result passes `until`
+const rollUntil = (gameState: GameState, until: (rolled: GameState) => boolean): GameState => {
+  let state = { ...gameState, phase: 'PRODUCTION' as const };
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const rolled = apply(state, { type: 'ROLL_DICE', playerId: 'player1' });
+    if (until(rolled)) {
+      return rolled;
+    }
+    state = { ...state, rng: rolled.rng };
+  }
+  throw new Error('Roll never came up');
+};
+
+const giveRoad = (gameState: GameState, playerId: string, edgeId: string): void => {
+  gameState.players.find(p => p.id === playerId)!.buildings.roads.push(edgeId);
+  gameState.board.edges.get(edgeId)!.road = { playerId };
+};
+
+describe('Cities & Knights', () => {
+  let gameState: GameState;
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 21, citiesAndKnights: true });
+  });
+
+  it('should set up the expansion only when asked for', () => {
+    expect(gameState.rules!.victoryPointsToWin).toBe(13);
+    expect(gameState.developmentCardDeck).toEqual([]);
+    expect(gameState.citiesAndKnights!.players.player1).toEqual({
+      commodities: { paper: 0, cloth: 0, coin: 0 },
+      improvements: { trade: 0, politics: 0, science: 0 },
+      progressCards: [],
+      victoryCards: [],
+      defenderPoints: 0
+    });
+    expect(gameState.citiesAndKnights!.progressDecks.science).toHaveLength(5);
+
+    const base = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 21 });
+    expect(base.citiesAndKnights).toBeUndefined();
+    expect(CatanRuleEngine.processAction({ ...base, phase: 'ACTION' }, {
+      type: 'IMPROVE_CITY', playerId: 'player1', payload: { track: 'science' }
+    }).violation?.code).toBe('EXPANSION_DISABLED');
+  });
+
+  it('should make the second setup building a city', () => {
+    while (gameState.phase !== 'PRODUCTION') {
+      const playerId = gameState.players[gameState.currentPlayerIndex].id;
+      gameState = apply(gameState, CatanRuleEngine.getLegalMoves(gameState, playerId)[0]);
+    }
+
+    gameState.players.forEach(player => {
+      expect(player.buildings.settlements).toHaveLength(1);
+      expect(player.buildings.cities).toHaveLength(1);
+      expect(player.victoryPoints).toBe(3);
+      const city = player.buildings.cities[0];
+      expect(player.buildings.roads.some(edgeId => gameState.board.edges.get(edgeId)!.intersections.includes(city)))
+        .toBe(true);
+    });
+  });
+
+  it('should produce a commodity instead of a second resource from a city', () => {
+    // i_0,0 touches the forest at 0,0; put it on 8 and roll until it comes up
+    place(gameState, 'player1', 'i_0,0', 'city');
+    const forest = gameState.board.tiles.get('0,0')!;
+    forest.terrain = 'forest';
+    forest.numberDisc = 8;
+    forest.hasRobber = false;
+
+    const rolled = rollUntil(gameState, state => state.diceRoll![0] + state.diceRoll![1] === 8);
+
+    const ck = rolled.citiesAndKnights!;
+    expect(rolled.players[0].resources.wood).toBe(1);
+    expect(ck.players.player1.commodities.paper).toBe(1);
+    expect(rolled.events).toContainEqual({
+      turn: 1, playerId: 'player1', type: 'COMMODITIES_PRODUCED', production: { player1: { paper: 1 } }
+    });
+    expect(rolled.events).toContainEqual({ turn: 1, playerId: 'player1', type: 'EVENT_DIE_ROLLED', face: ck.eventDie });
+  });
+
+  describe('knights', () => {
+    beforeEach(() => {
+      gameState.phase = 'ACTION';
+      place(gameState, 'player1', 'i_0,0', 'settlement');
+      giveRoad(gameState, 'player1', 'e_0,-1_0,0');
+      gameState.players[0].resources = { wood: 0, brick: 0, wool: 3, wheat: 1, ore: 3 };
+    });
+
+    it('should be built on a road, activated and promoted', () => {
+      let state = apply(gameState, { type: 'BUILD_KNIGHT', playerId: 'player1', payload: { intersectionId: 'i_0,-1' } });
+      state = apply(state, { type: 'ACTIVATE_KNIGHT', playerId: 'player1', payload: { intersectionId: 'i_0,-1' } });
+      state = apply(state, { type: 'PROMOTE_KNIGHT', playerId: 'player1', payload: { intersectionId: 'i_0,-1' } });
+
+      expect(state.citiesAndKnights!.knights).toEqual([
+        { intersectionId: 'i_0,-1', playerId: 'player1', level: 2, active: true }
+      ]);
+      expect(state.players[0].resources).toEqual({ wood: 0, brick: 0, wool: 1, wheat: 0, ore: 1 });
+      expect(CitiesAndKnightsManager.getDefense(state, 'player1')).toBe(2);
+      expect(CatanRuleEngine.processAction(state, {
+        type: 'PROMOTE_KNIGHT', playerId: 'player1', payload: { intersectionId: 'i_0,-1' }
+      }).violation?.message).toBe('Mighty knights need politics level 3');
+      state.players[1].resources = { wood: 1, brick: 1, wool: 1, wheat: 1, ore: 0 };
+      expect(BuildingManager.canBuildSettlement(state, 'player2', 'i_0,-1').code).toBe('LOCATION_OCCUPIED');
+    });
+
+    it('should only stand next to the player\'s roads', () => {
+      expect(CatanRuleEngine.getLegalMoves(gameState, 'player1').filter(move => move.type === 'BUILD_KNIGHT'))
+        .toEqual([{ type: 'BUILD_KNIGHT', playerId: 'player1', payload: { intersectionId: 'i_0,-1' } }]);
+    });
+  });
+
+  it('should charge commodities for city improvements and award the metropolis at level 4', () => {
+    gameState.phase = 'ACTION';
+    place(gameState, 'player1', 'i_0,0', 'city');
+    gameState.citiesAndKnights!.players.player1.commodities.paper = 10;
+
+    let state = gameState;
+    for (let level = 1; level <= 4; level++) {
+      expect(CitiesAndKnightsManager.getImprovementCost(state, 'player1', 'science')).toEqual({ paper: level });
+      state = apply(state, { type: 'IMPROVE_CITY', playerId: 'player1', payload: { track: 'science' } });
+    }
+
+    expect(state.citiesAndKnights!.players.player1.improvements.science).toBe(4);
+    expect(state.citiesAndKnights!.players.player1.commodities.paper).toBe(0);
+    expect(state.citiesAndKnights!.metropolises).toEqual({ science: 'i_0,0' });
+    expect(state.players[0].victoryPoints).toBe(4);
+    expect(state.events!.slice(-1)).toEqual([
+      { turn: 1, playerId: 'player1', type: 'CITY_IMPROVED', track: 'science', level: 4, metropolis: 'i_0,0' }
+    ]);
+  });
+
+  describe('barbarians', () => {
+    const attack = (state: GameState): GameState => {
+      state.citiesAndKnights!.barbarianPosition = BARBARIAN_TRACK_LENGTH - 1;
+      return rollUntil(state, rolled => rolled.citiesAndKnights!.eventDie === 'ship');
+    };
+
+    beforeEach(() => {
+      place(gameState, 'player1', 'i_0,0', 'city');
+      place(gameState, 'player2', 'i_2,-2', 'city');
+    });
+
+    it('should pillage the weakest defenders\' cities when the defense falls short', () => {
+      gameState.citiesAndKnights!.knights = [{ intersectionId: 'i_0,-1', playerId: 'player1', level: 1, active: true }];
+
+      const attacked = attack(gameState);
+
+      expect(attacked.citiesAndKnights!.lastBarbarianAttack).toEqual({ strength: 2, defense: 1, pillaged: ['i_2,-2'] });
+      expect(attacked.players[1].buildings).toMatchObject({ cities: [], settlements: ['i_2,-2'] });
+      expect(attacked.players[1].victoryPoints).toBe(1);
+      expect(attacked.citiesAndKnights!.knights[0].active).toBe(false);
+      expect(attacked.citiesAndKnights!.barbarianPosition).toBe(0);
+      expect(attacked.citiesAndKnights!.barbarianAttacks).toBe(1);
+    });
+
+    it('should make the sole strongest defender the Defender of Catan', () => {
+      gameState.citiesAndKnights!.knights = [{ intersectionId: 'i_0,-1', playerId: 'player1', level: 2, active: true }];
+
+      const attacked = attack(gameState);
+
+      expect(attacked.citiesAndKnights!.lastBarbarianAttack).toEqual({
+        strength: 2, defense: 2, defenderId: 'player1', pillaged: []
+      });
+      expect(attacked.citiesAndKnights!.players.player1.defenderPoints).toBe(1);
+      expect(attacked.players[0].victoryPoints).toBe(3);
+    });
+
+    it('should hold a defender\'s winning point until their own turn', () => {
+      gameState.citiesAndKnights!.knights = [{ intersectionId: 'i_2,-1', playerId: 'player2', level: 2, active: true }];
+      gameState.players[1].victoryPoints = 12;
+
+      const attacked = attack(gameState);
+      expect(attacked.citiesAndKnights!.lastBarbarianAttack!.defenderId).toBe('player2');
+      expect(attacked.players[1].victoryPoints).toBe(13);
+      expect(attacked.phase).not.toBe('GAME_OVER');
+
+      const passed = apply({ ...attacked, phase: 'ACTION' }, { type: 'END_TURN', playerId: 'player1' });
+      const won = apply(passed, { type: 'ROLL_DICE', playerId: 'player2' });
+      expect(won.phase).toBe('GAME_OVER');
+      expect(won.winner).toBe('player2');
+    });
+  });
+
+  describe('progress cards', () => {
+    beforeEach(() => {
+      gameState.phase = 'ACTION';
+    });
+
+    it('should deal cards to players whose improvement covers the red die', () => {
+      gameState.citiesAndKnights!.players.player1.improvements = { trade: 5, politics: 5, science: 5 };
+      gameState.citiesAndKnights!.progressDecks = { trade: ['tradeMonopoly'], politics: ['warlord'], science: ['irrigation'] };
+
+      const rolled = rollUntil(gameState, state => state.citiesAndKnights!.eventDie !== 'ship');
+
+      const track = rolled.citiesAndKnights!.eventDie as 'trade' | 'politics' | 'science';
+      const cardType = gameState.citiesAndKnights!.progressDecks[track][0];
+      expect(rolled.citiesAndKnights!.players.player1.progressCards).toEqual([cardType]);
+      expect(rolled.citiesAndKnights!.progressDecks[track]).toEqual([]);
+      expect(projectForPlayer(rolled, 'player2').citiesAndKnights!.players.player1)
+        .toMatchObject({ progressCardCount: 1 });
+      expect(projectForPlayer(rolled, 'player2').citiesAndKnights!.players.player1).not.toHaveProperty('progressCards');
+      expect(rolled.events).toContainEqual({
+        turn: 1, playerId: 'player1', type: 'PROGRESS_CARD_DRAWN', track, visibleTo: ['player1'], secret: { cardType }
+      });
+    });
+
+    it('should take resources and commodities from every opponent with the monopolies', () => {
+      const ck = gameState.citiesAndKnights!;
+      ck.players.player1.progressCards = ['resourceMonopoly', 'tradeMonopoly'];
+      ck.players.player2.commodities.coin = 2;
+      gameState.players[1].resources.ore = 3;
+
+      let state = apply(gameState, {
+        type: 'PLAY_PROGRESS_CARD', playerId: 'player1', payload: { cardType: 'resourceMonopoly', resourceType: 'ore' }
+      });
+      state = apply(state, {
+        type: 'PLAY_PROGRESS_CARD', playerId: 'player1', payload: { cardType: 'tradeMonopoly', commodityType: 'coin' }
+      });
+
+      expect(state.players[0].resources.ore).toBe(2);
+      expect(state.players[1].resources.ore).toBe(1);
+      expect(state.citiesAndKnights!.players.player1.commodities.coin).toBe(1);
+      expect(state.citiesAndKnights!.players.player2.commodities.coin).toBe(1);
+      expect(state.citiesAndKnights!.players.player1.progressCards).toEqual([]);
+    });
+
+    it('should harvest two wheat per field next to the player with irrigation', () => {
+      place(gameState, 'player1', 'i_0,0', 'settlement');
+      gameState.citiesAndKnights!.players.player1.progressCards = ['irrigation'];
+      const fields = gameState.board.intersections.get('i_0,0')!.hexes
+        .filter(hex => gameState.board.tiles.get(`${hex.q},${hex.r}`)?.terrain === 'field').length;
+
+      const state = apply(gameState, { type: 'PLAY_PROGRESS_CARD', playerId: 'player1', payload: { cardType: 'irrigation' } });
+
+      expect(fields).toBeGreaterThan(0);
+      expect(state.players[0].resources.wheat).toBe(fields * 2);
+    });
+  });
+
+  it('should survive the codec', () => {
+    gameState.citiesAndKnights!.knights = [{ intersectionId: 'i_0,-1', playerId: 'player1', level: 1, active: false }];
+    expect(decodeGameState(encodeGameState(gameState)).citiesAndKnights).toEqual(gameState.citiesAndKnights);
+  });
+});
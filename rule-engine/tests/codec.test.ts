@@ -0,0 +1,126 @@
+import {
+  encodeGameState,
+  decodeGameState,
+  serializeGameState,
+  deserializeGameState,
+  GameStateCodecError,
+  GAME_STATE_SCHEMA_VERSION
+} from '../src/codec';
+import { CatanRuleEngine } from '../src/rule-engine';
+import { GameState } from '../src/types';
+
+describe('GameState codec', () => {
+  let gameState: GameState;
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2', 'player3']);
+    gameState = CatanRuleEngine.processAction(gameState, {
+      type: 'BUILD_SETTLEMENT',
+      playerId: 'player1',
+      payload: { intersectionId: 'i_0,0' }
+    }).newState!;
+    gameState.players[1].resources.ore = 3;
+    gameState.players[2].developmentCards.knight = 1;
+    gameState.diceRoll = [3, 4];
+    gameState.winner = 'player3';
+  });
+
+  it('should round-trip every field through JSON', () => {
+    const restored = deserializeGameState(serializeGameState(gameState));
+
+    expect(restored).toEqual(gameState);
+    expect(restored.board.tiles).toBeInstanceOf(Map);
+    expect(restored.board.intersections.get('i_0,0')?.building).toEqual({
+      type: 'settlement',
+      playerId: 'player1'
+    });
+  });
+
+  it('should encode the board Maps as keyed objects with a schema version', () => {
+    const encoded = encodeGameState(gameState);
+
+    expect(encoded.schemaVersion).toBe(GAME_STATE_SCHEMA_VERSION);
+    expect(Object.keys(encoded.board.tiles)).toHaveLength(19);
+    expect(Object.keys(encoded.board.edges)).toHaveLength(gameState.board.edges.size);
+    expect(encoded.board.intersections['i_0,0'].building?.playerId).toBe('player1');
+  });
+
+  it('should not share objects between the encoded and original state', () => {
+    const encoded = encodeGameState(gameState);
+    encoded.players[0].resources.wood = 99;
+    encoded.board.tiles['0,0'].hasRobber = false;
+
+    expect(gameState.players[0].resources.wood).toBe(0);
+    expect(gameState.board.tiles.get('0,0')?.hasRobber).toBe(true);
+
+    const decoded = decodeGameState(encodeGameState(gameState));
+    decoded.board.edges.get('e_0,0_1,-1')!.road = { playerId: 'player2' };
+    expect(gameState.board.edges.get('e_0,0_1,-1')?.road).toBeUndefined();
+  });
+
+  describe('validation', () => {
+    const expectCodecError = (data: unknown, path: string) => {
+      try {
+        decodeGameState(data);
+        fail('expected decodeGameState to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(GameStateCodecError);
+        expect((error as GameStateCodecError).path).toBe(path);
+      }
+    };
+
+    it('should reject an unknown schema version', () => {
+      expectCodecError({ ...encodeGameState(gameState), schemaVersion: 99 }, '$.schemaVersion');
+      expectCodecError({ ...encodeGameState(gameState), schemaVersion: undefined }, '$.schemaVersion');
+    });
+
+    it('should reject an unknown phase', () => {
+      expectCodecError({ ...encodeGameState(gameState), phase: 'PLAY' }, '$.phase');
+    });
+
+    it('should point at the offending player field', () => {
+      const encoded = encodeGameState(gameState);
+      (encoded.players[1].resources as any).ore = -1;
+      expectCodecError(encoded, '$.players[1].resources.ore');
+    });
+
+    it('should reject a board that was stringified without the codec', () => {
+      const encoded = JSON.parse(JSON.stringify({ ...gameState, schemaVersion: GAME_STATE_SCHEMA_VERSION }));
+      encoded.board.intersections = [];
+      expectCodecError(encoded, '$.board.intersections');
+    });
+
+    it('should reject edges whose id does not match their key', () => {
+      const encoded = encodeGameState(gameState);
+      encoded.board.edges['e_0,0_1,-1'].id = 'e_other';
+      expectCodecError(encoded, '$.board.edges["e_0,0_1,-1"].id');
+    });
+
+    it('should reject harbors on edges that are not on the board', () => {
+      const encoded = encodeGameState(gameState);
+      encoded.board.harbors[2].edgeId = 'e_9,9_10,9';
+      expectCodecError(encoded, '$.board.harbors[2].edgeId');
+    });
+
+    it('should reject an out of range current player', () => {
+      expectCodecError({ ...encodeGameState(gameState), currentPlayerIndex: 3 }, '$.currentPlayerIndex');
+    });
+
+    it('should reject pending discards owed by unknown players', () => {
+      const encoded = { ...encodeGameState(gameState), phase: 'DISCARD', pendingDiscards: { player2: 4, ghost: 4 } };
+      expectCodecError(encoded, '$.pendingDiscards.ghost');
+      expectCodecError({ ...encoded, pendingDiscards: { player2: 0 } }, '$.pendingDiscards.player2');
+    });
+
+    it('should reject trade offers without an id', () => {
+      const offer = { id: 'trade-1', fromPlayerId: 'player1', offering: { wood: 1 }, requesting: { ore: 1 } };
+      const encoded = { ...encodeGameState(gameState), tradeOffers: [offer, { ...offer, id: undefined }] };
+      expectCodecError(encoded, '$.tradeOffers[1].id');
+      expect(decodeGameState({ ...encoded, tradeOffers: [offer] }).tradeOffers).toEqual([offer]);
+    });
+
+    it('should reject malformed JSON', () => {
+      expect(() => deserializeGameState('{not json')).toThrow(GameStateCodecError);
+    });
+  });
+});
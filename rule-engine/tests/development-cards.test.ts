@@ -0,0 +1,123 @@
+import { CatanRuleEngine } from '../src/rule-engine';
+import { DevelopmentCardManager } from '../src/development-cards';
+import { projectForPlayer } from '../src/projection';
+import { encodeGameState, decodeGameState } from '../src/codec';
+import { GameState, Action, DevelopmentCardType } from '../src/types';
+import { apply } from './helpers';
+
+const play = (cardType: DevelopmentCardType, payload: Record<string, unknown> = {}): Action =>
+  ({ type: 'PLAY_DEVELOPMENT_CARD', playerId: 'player1', payload: { cardType, ...payload } });
+
+describe('Development card timing', () => {
+  let gameState: GameState;
+
+  // Puts `cardType` on top of the deck and buys it
+  const buy = (state: GameState, cardType: DevelopmentCardType): GameState => {
+    state.developmentCardDeck = [...state.developmentCardDeck, cardType];
+    state.players[0].resources = { ...state.players[0].resources, wool: 1, wheat: 1, ore: 1 };
+    return apply(state, { type: 'BUY_DEVELOPMENT_CARD', playerId: 'player1' });
+  };
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 11 });
+    gameState.phase = 'ACTION';
+  });
+
+  it('should not let a card be played on the turn it was bought', () => {
+    const bought = buy(gameState, 'monopoly');
+
+    expect(bought.players[0].developmentCards.monopoly).toBe(1);
+    expect(bought.players[0].newDevelopmentCards).toEqual({ monopoly: 1 });
+    expect(CatanRuleEngine.processAction(bought, play('monopoly', { resourceType: 'ore' })).violation)
+      .toMatchObject({ code: 'CARD_NOT_PLAYABLE', details: { cardType: 'monopoly' } });
+    expect(CatanRuleEngine.getValidActions(bought, 'player1')).not.toContain('PLAY_DEVELOPMENT_CARD');
+  });
+
+  it('should still allow a copy held since an earlier turn', () => {
+    gameState.players[0].developmentCards.monopoly = 1;
+    const bought = buy(gameState, 'monopoly');
+
+    expect(DevelopmentCardManager.getPlayableDevelopmentCards(bought.players[0])).toEqual(['monopoly']);
+    const played = apply(bought, play('monopoly', { resourceType: 'ore' }));
+    expect(played.players[0].developmentCards.monopoly).toBe(1);
+    expect(played.players[0].newDevelopmentCards).toEqual({ monopoly: 1 });
+  });
+
+  it('should make bought cards playable from the next turn', () => {
+    let state = buy(gameState, 'invention');
+    state = apply(state, { type: 'END_TURN', playerId: 'player1' });
+    expect(state.players[0].newDevelopmentCards).toBeUndefined();
+
+    state = { ...state, phase: 'ACTION', currentPlayerIndex: 0 };
+    const played = apply(state, play('invention', { resources: ['ore', 'wheat'] }));
+    expect(played.players[0].developmentCards.invention).toBe(0);
+  });
+
+  it('should allow one card per turn, before or after the roll', () => {
+    gameState.phase = 'PRODUCTION';
+    gameState.players[0].developmentCards = { knight: 1, roadBuilding: 0, invention: 1, monopoly: 0, victoryPoint: 0 };
+
+    let state = apply(gameState, play('knight'));
+    state = apply(state, {
+      type: 'MOVE_ROBBER',
+      playerId: 'player1',
+      payload: { robberLocation: CatanRuleEngine.getLegalMoves(state, 'player1')[0].payload.robberLocation }
+    });
+    if (state.phase === 'STEAL') {
+      state = apply(state, CatanRuleEngine.getLegalMoves(state, 'player1')[0]);
+    }
+    expect(state.phase).toBe('PRODUCTION');
+    expect(CatanRuleEngine.getValidActions(state, 'player1')).not.toContain('PLAY_DEVELOPMENT_CARD');
+
+    const action = { ...state, phase: 'ACTION' as const };
+    expect(CatanRuleEngine.processAction(action, play('invention', { resources: ['ore', 'ore'] })).violation)
+      .toMatchObject({ code: 'CARD_NOT_PLAYABLE', message: 'Only one development card can be played per turn' });
+
+    const nextTurn = apply(action, { type: 'END_TURN', playerId: 'player1' });
+    expect(nextTurn.players[0].canPlayDevCard).toBe(true);
+  });
+
+  it('should only let invention and monopoly name resources', () => {
+    gameState.players[0].developmentCards = { knight: 0, roadBuilding: 0, invention: 1, monopoly: 1, victoryPoint: 0 };
+
+    expect(CatanRuleEngine.processAction(gameState, play('invention', { resources: ['ore', 'gold'] })).violation)
+      .toMatchObject({ code: 'INVALID_ACTION', details: { cardType: 'invention', resources: ['ore', 'gold'] } });
+    expect(CatanRuleEngine.processAction(gameState, play('invention', { resources: ['ore'] })).violation?.code)
+      .toBe('INVALID_ACTION');
+    expect(CatanRuleEngine.processAction(gameState, play('monopoly', { resourceType: 'gold' })).violation)
+      .toMatchObject({ code: 'INVALID_ACTION', details: { cardType: 'monopoly', resourceType: 'gold' } });
+    expect(gameState.players[0].developmentCards).toMatchObject({ invention: 1, monopoly: 1 });
+  });
+
+  describe('victory point cards', () => {
+    it('should never be played', () => {
+      gameState.players[0].developmentCards.victoryPoint = 1;
+
+      expect(CatanRuleEngine.processAction(gameState, play('victoryPoint')).violation?.code).toBe('CARD_NOT_PLAYABLE');
+      expect(DevelopmentCardManager.getPlayableDevelopmentCards(gameState.players[0])).toEqual([]);
+    });
+
+    it('should stay hidden until they win the game, even on the turn they are bought', () => {
+      gameState.players[0].victoryPoints = 8;
+      gameState.players[0].developmentCards.victoryPoint = 1;
+
+      const bought = buy(gameState, 'victoryPoint');
+
+      expect(bought.phase).toBe('GAME_OVER');
+      expect(bought.winner).toBe('player1');
+      expect(bought.players[0].victoryPoints).toBe(8);
+      expect(bought.events!.slice(-1)).toEqual([
+        { turn: 1, playerId: 'player1', type: 'GAME_WON', victoryPointCards: 2 }
+      ]);
+      expect(CatanRuleEngine.getGameSummary(bought).playerStats[0].victoryPoints).toBe(8);
+    });
+  });
+
+  it('should show new cards to their owner only and survive the codec', () => {
+    const bought = buy(gameState, 'knight');
+
+    expect(projectForPlayer(bought, 'player1').players[0].newDevelopmentCards).toEqual({ knight: 1 });
+    expect(projectForPlayer(bought, 'player2').players[0]).not.toHaveProperty('newDevelopmentCards');
+    expect(decodeGameState(encodeGameState(bought)).players[0].newDevelopmentCards).toEqual({ knight: 1 });
+  });
+});
@@ -0,0 +1,120 @@
+import { CatanRuleEngine } from '../src/rule-engine';
+import { EventLog } from '../src/events';
+import { RandomManager } from '../src/random';
+import { ResourceManager } from '../src/resources';
+import { encodeGameState, decodeGameState, GameStateCodecError } from '../src/codec';
+import { GameState } from '../src/types';
+import { apply } from './helpers';
+
+describe('EventLog', () => {
+  let gameState: GameState;
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 3 });
+    gameState = apply(gameState, { type: 'BUILD_SETTLEMENT', playerId: 'player1', payload: { intersectionId: 'i_0,0' } });
+    gameState = apply(gameState, { type: 'BUILD_ROAD', playerId: 'player1', payload: { edgeId: 'e_0,-1_0,0' } });
+    gameState.currentPlayerIndex = 0;
+  });
+
+  it('should record each applied action in order', () => {
+    expect(gameState.events).toEqual([
+      { turn: 1, playerId: 'player1', type: 'SETTLEMENT_BUILT', intersectionId: 'i_0,0' },
+      { turn: 1, playerId: 'player1', type: 'ROAD_BUILT', edgeId: 'e_0,-1_0,0', free: false },
+      { turn: 1, playerId: 'player1', type: 'TURN_ENDED' }
+    ]);
+  });
+
+  it('should not record rejected actions', () => {
+    const result = CatanRuleEngine.processAction(gameState, { type: 'ROLL_DICE', playerId: 'player1' });
+
+    expect(result.success).toBe(false);
+    expect(gameState.events).toHaveLength(3);
+  });
+
+  it('should record the dice and what each player produced', () => {
+    gameState.phase = 'PRODUCTION';
+    const roll = (rngState: number) =>
+      apply({ ...gameState, rng: RandomManager.createState(rngState) }, { type: 'ROLL_DICE', playerId: 'player1' });
+
+    // Find a roll that pays out to the settlement at i_0,0
+    let rngState = 1;
+    let rolled = roll(rngState);
+    while (ResourceManager.getTotalResources(rolled.players[0].resources) === 0) {
+      rolled = roll(++rngState);
+    }
+
+    const [dice, produced] = rolled.events!.slice(3);
+    expect(dice).toEqual({ turn: 1, playerId: 'player1', type: 'DICE_ROLLED', dice: rolled.diceRoll });
+    expect(produced).toEqual({
+      turn: 1,
+      playerId: 'player1',
+      type: 'RESOURCES_PRODUCED',
+      production: { player1: expect.any(Object) }
+    });
+    expect({ wood: 0, brick: 0, wool: 0, wheat: 0, ore: 0, ...(produced as any).production.player1 })
+      .toEqual(rolled.players[0].resources);
+  });
+
+  it('should hide a bought card from the other players', () => {
+    gameState.phase = 'ACTION';
+    gameState.players[0].resources = { wood: 0, brick: 0, wool: 1, wheat: 1, ore: 1 };
+    const cardType = gameState.developmentCardDeck[gameState.developmentCardDeck.length - 1];
+
+    const bought = apply(gameState, { type: 'BUY_DEVELOPMENT_CARD', playerId: 'player1' });
+
+    expect(EventLog.forPlayer(bought.events!, 'player1')[3]).toEqual({
+      turn: 1,
+      playerId: 'player1',
+      type: 'DEVELOPMENT_CARD_BOUGHT',
+      visibleTo: ['player1'],
+      secret: { cardType }
+    });
+    expect(EventLog.forPlayer(bought.events!, 'player2')[3]).toEqual({
+      turn: 1,
+      playerId: 'player1',
+      type: 'DEVELOPMENT_CARD_BOUGHT',
+      visibleTo: ['player1']
+    });
+  });
+
+  it('should show a stolen card to the thief and the victim only', () => {
+    const intersection = gameState.board.intersections.get('i_0,0')!;
+    gameState.board.intersections.set('i_0,0', { ...intersection, building: { type: 'settlement', playerId: 'player2' } });
+    gameState.players[1].resources = { wood: 0, brick: 0, wool: 0, wheat: 0, ore: 1 };
+    gameState.phase = 'MOVE_ROBBER';
+    gameState.resumePhase = 'ACTION';
+    const robberLocation = intersection.hexes.find(hex =>
+      hex.q !== gameState.board.robberLocation.q || hex.r !== gameState.board.robberLocation.r
+    )!;
+
+    let state = apply(gameState, { type: 'MOVE_ROBBER', playerId: 'player1', payload: { robberLocation } });
+    state = apply(state, { type: 'STEAL_RESOURCE', playerId: 'player1', payload: { targetPlayerId: 'player2' } });
+
+    const [moved, stolen] = state.events!.slice(3);
+    expect(moved).toEqual({ turn: 1, playerId: 'player1', type: 'ROBBER_MOVED', location: robberLocation });
+    expect(stolen).toMatchObject({ type: 'RESOURCE_STOLEN', targetPlayerId: 'player2', secret: { resource: 'ore' } });
+    expect(EventLog.forPlayer(state.events!, 'player2')[4]).toHaveProperty('secret', { resource: 'ore' });
+    expect(EventLog.forPlayer(state.events!, 'spectator')[4]).not.toHaveProperty('secret');
+  });
+
+  it('should record an award changing hands', () => {
+    gameState.phase = 'ACTION';
+    gameState.players[0].knightsPlayed = 2;
+    gameState.players[0].developmentCards.knight = 1;
+
+    const state = apply(gameState, { type: 'PLAY_DEVELOPMENT_CARD', playerId: 'player1', payload: { cardType: 'knight' } });
+
+    expect(state.events!.slice(3)).toEqual([
+      { turn: 1, playerId: 'player1', type: 'DEVELOPMENT_CARD_PLAYED', cardType: 'knight' },
+      { turn: 1, playerId: 'player1', type: 'AWARD_CHANGED', award: 'largestArmy', toPlayerId: 'player1' }
+    ]);
+  });
+
+  it('should survive the codec and reject unknown event types', () => {
+    expect(decodeGameState(encodeGameState(gameState)).events).toEqual(gameState.events);
+
+    const encoded = encodeGameState(gameState);
+    (encoded.events![1] as any).type = 'TELEPORTED';
+    expect(() => decodeGameState(encoded)).toThrow(GameStateCodecError);
+  });
+});
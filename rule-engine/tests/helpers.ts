@@ -0,0 +1,22 @@
+import { CatanRuleEngine } from '../src/rule-engine';
+import { GameState, Action } from '../src/types';
+
+// Applies an action the test expects the rules to allow
+export const apply = (gameState: GameState, action: Action): GameState => {
+  const result = CatanRuleEngine.processAction(gameState, action);
+  expect(result.error).toBeUndefined();
+  return result.newState!;
+};
+
+// Gives `playerId` a settlement or city at `intersectionId` without going through the rules
+export const place = (
+  gameState: GameState,
+  playerId: string,
+  intersectionId: string,
+  type: 'settlement' | 'city' = 'settlement'
+): void => {
+  const player = gameState.players.find(p => p.id === playerId)!;
+  player.buildings[type === 'city' ? 'cities' : 'settlements'].push(intersectionId);
+  player.victoryPoints += type === 'city' ? 2 : 1;
+  gameState.board.intersections.get(intersectionId)!.building = { type, playerId };
+};
@@ -0,0 +1,209 @@
+import { CatanRuleEngine } from '../src/rule-engine';
+import { BuildingManager } from '../src/building';
+import { DevelopmentCardManager } from '../src/development-cards';
+import { TradingManager } from '../src/trading';
+import { RobberManager } from '../src/robber';
+import { ResourceManager } from '../src/resources';
+import { VictoryManager } from '../src/victory';
+import { mulberry32 } from '../src/random';
+import { encodeGameState } from '../src/codec';
+import { GameState } from '../src/types';
+
+// Freezes every object reachable from `value`; Maps additionally refuse set/delete/clear
+const deepFreeze = <T>(value: T): T => {
+  if (typeof value !== 'object' || value === null || Object.isFrozen(value)) {
+    return value;
+  }
+
+  if (value instanceof Map) {
+    const refuse = () => {
+      throw new TypeError('Cannot modify a frozen Map');
+    };
+    Object.assign(value, { set: refuse, delete: refuse, clear: refuse });
+    value.forEach(entry => deepFreeze(entry));
+  }
+  Object.freeze(value);
+  Object.values(value).forEach(entry => deepFreeze(entry));
+  return value;
+};
+
+// Runs `update` against a frozen copy of `gameState` and checks nothing reachable from it changed
+const expectPure = (gameState: GameState, update: (frozen: GameState) => GameState): GameState => {
+  const before = encodeGameState(gameState);
+  const newState = update(deepFreeze(gameState));
+
+  expect(encodeGameState(gameState)).toEqual(before);
+  expect(newState).not.toBe(gameState);
+  return newState;
+};
+
+describe('Immutable state updates', () => {
+  let gameState: GameState;
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2', 'player3'], { seed: 11 });
+    gameState = CatanRuleEngine.processAction(gameState, {
+      type: 'BUILD_SETTLEMENT',
+      playerId: 'player1',
+      payload: { intersectionId: 'i_0,0' }
+    }).newState!;
+    gameState = CatanRuleEngine.processAction(gameState, {
+      type: 'BUILD_ROAD',
+      playerId: 'player1',
+      payload: { edgeId: 'e_0,-1_0,0' }
+    }).newState!;
+    gameState.phase = 'ACTION';
+    gameState.currentPlayerIndex = 0;
+    gameState.players[0].resources = { wood: 4, brick: 4, wool: 4, wheat: 4, ore: 4 };
+    gameState.players[1].resources = { wood: 1, brick: 0, wool: 2, wheat: 0, ore: 0 };
+  });
+
+  describe('BuildingManager', () => {
+    it('should build without touching the previous state', () => {
+      let state = expectPure(gameState, frozen => BuildingManager.buildRoad(frozen, 'player1', 'e_0,-1_0,-2'));
+      state = expectPure(state, frozen => BuildingManager.buildSettlement(frozen, 'player1', 'i_0,-2'));
+      state = expectPure(state, frozen => BuildingManager.buildCity(frozen, 'player1', 'i_0,0'));
+
+      expect(state.players[0].buildings).toEqual({
+        roads: ['e_0,-1_0,0', 'e_0,-1_0,-2'],
+        settlements: ['i_0,-2'],
+        cities: ['i_0,0']
+      });
+      expect(state.board.intersections.get('i_0,0')!.building).toEqual({ type: 'city', playerId: 'player1' });
+    });
+
+    it('should share untouched objects with the previous state', () => {
+      const state = BuildingManager.buildRoad(gameState, 'player1', 'e_0,-1_0,-2');
+
+      expect(state.players[1]).toBe(gameState.players[1]);
+      expect(state.board.tiles).toBe(gameState.board.tiles);
+      expect(state.board.intersections).toBe(gameState.board.intersections);
+      expect(state.board.edges.get('e_0,-1_0,0')).toBe(gameState.board.edges.get('e_0,-1_0,0'));
+    });
+  });
+
+  describe('DevelopmentCardManager', () => {
+    it('should buy a card without touching the deck or hand', () => {
+      const state = expectPure(gameState, frozen => DevelopmentCardManager.buyDevelopmentCard(frozen, 'player1'));
+
+      expect(state.developmentCardDeck).toHaveLength(gameState.developmentCardDeck.length - 1);
+    });
+
+    it('should play every card type purely', () => {
+      gameState.players[0].developmentCards = { knight: 1, roadBuilding: 1, invention: 1, monopoly: 1, victoryPoint: 1 };
+
+      expectPure(gameState, frozen => DevelopmentCardManager.playKnightCard(frozen, 'player1'));
+      expectPure(gameState, frozen => DevelopmentCardManager.playInventionCard(frozen, 'player1', ['ore', 'ore']));
+      expectPure(gameState, frozen => DevelopmentCardManager.playMonopolyCard(frozen, 'player1', 'wool'));
+
+      const roadBuilding = expectPure(gameState, frozen => DevelopmentCardManager.playRoadBuildingCard(frozen, 'player1'));
+      expectPure(roadBuilding, frozen => DevelopmentCardManager.placeFreeRoad(frozen, 'player1', 'e_0,-1_0,-2'));
+    });
+
+    it('should hand over largest army purely', () => {
+      gameState.players[1].knightsPlayed = 3;
+      gameState.players[1].specialCards.largestArmy = true;
+      gameState.players[1].victoryPoints = 2;
+      gameState.players[0].knightsPlayed = 3;
+      gameState.players[0].developmentCards.knight = 1;
+
+      const state = expectPure(gameState, frozen => DevelopmentCardManager.playKnightCard(frozen, 'player1'));
+
+      expect(state.players[0].specialCards.largestArmy).toBe(true);
+      expect(state.players[1].specialCards.largestArmy).toBe(false);
+      expect(state.players[1].victoryPoints).toBe(0);
+    });
+  });
+
+  describe('TradingManager', () => {
+    it('should trade with the bank and other players purely', () => {
+      expectPure(gameState, frozen => TradingManager.executeTrade(frozen, {
+        fromPlayerId: 'player1',
+        offering: { wood: 4 },
+        requesting: { ore: 1 }
+      }));
+      const proposed = TradingManager.proposeTrade(gameState, {
+        fromPlayerId: 'player1',
+        toPlayerId: 'player2',
+        offering: { brick: 1 },
+        requesting: { wool: 1 }
+      });
+      expectPure(proposed, frozen => TradingManager.acceptTrade(frozen, 'player2', 'trade-1'));
+    });
+  });
+
+  describe('RobberManager and ResourceManager', () => {
+    it('should move the robber and steal purely', () => {
+      gameState.board.intersections.get('i_0,0')!.building = { type: 'settlement', playerId: 'player2' };
+      const target = gameState.board.intersections.get('i_0,0')!.hexes.find(hex =>
+        hex.q !== gameState.board.robberLocation.q || hex.r !== gameState.board.robberLocation.r
+      )!;
+
+      const moved = expectPure(gameState, frozen => RobberManager.moveRobber(frozen, 'player1', target));
+      const robbed = expectPure(moved, frozen => RobberManager.stealResource(frozen, 'player1', 'player2'));
+
+      expect(moved.board.robberLocation).toEqual(target);
+      expect(gameState.board.tiles.get('0,0')!.hasRobber).toBe(true);
+      expect(ResourceManager.getTotalResources(robbed.players[1].resources)).toBe(2);
+    });
+
+    it('should collect discards purely', () => {
+      gameState.players[1].resources = { wood: 8, brick: 0, wool: 0, wheat: 0, ore: 0 };
+
+      const sevenRolled = expectPure(gameState, frozen => RobberManager.handleSevenRolled(frozen));
+      const discarded = expectPure(sevenRolled, frozen =>
+        RobberManager.discardResources(frozen, 'player2', { wood: 4 })
+      );
+
+      expect(discarded.players[1].resources.wood).toBe(4);
+    });
+
+    it('should distribute resources purely', () => {
+      const tile = Array.from(gameState.board.tiles.values()).find(candidate =>
+        candidate.numberDisc && !candidate.hasRobber &&
+        gameState.board.intersections.get('i_0,0')!.hexes.some(hex =>
+          hex.q === candidate.coordinate.q && hex.r === candidate.coordinate.r)
+      )!;
+
+      const state = expectPure(gameState, frozen => ResourceManager.distributeResources(frozen, tile.numberDisc!));
+
+      expect(ResourceManager.getTotalResources(state.players[0].resources)).toBeGreaterThan(20);
+    });
+  });
+
+  describe('VictoryManager', () => {
+    it('should move longest road without touching the previous state', () => {
+      gameState.players[1].specialCards.longestRoad = true;
+      gameState.players[1].victoryPoints = 2;
+
+      const state = expectPure(gameState, frozen => VictoryManager.updateLongestRoad(frozen));
+
+      expect(state.players[1].specialCards.longestRoad).toBe(false);
+      expect(state.players[1].victoryPoints).toBe(0);
+    });
+  });
+
+  describe('CatanRuleEngine.processAction', () => {
+    it('should never modify the state it is given', () => {
+      const rng = mulberry32(3);
+      let state = CatanRuleEngine.createNewGame(['player1', 'player2', 'player3'], { seed: 21 });
+
+      for (let step = 0; step < 300 && state.phase !== 'GAME_OVER'; step++) {
+        const actingPlayer = state.phase === 'DISCARD'
+          ? Object.keys(state.pendingDiscards!)[0]
+          : state.players[state.currentPlayerIndex].id;
+        const moves = CatanRuleEngine.getLegalMoves(state, actingPlayer);
+        const building = moves.filter(move => move.type !== 'END_TURN' && move.type !== 'TRADE_WITH_BANK');
+        const candidates = building.length > 0 && rng.next() < 0.8 ? building : moves;
+        const move = candidates[Math.floor(rng.next() * candidates.length)];
+
+        const before = encodeGameState(state);
+        const result = CatanRuleEngine.processAction(deepFreeze(state), move);
+
+        expect({ move, error: result.error }).toEqual({ move, error: undefined });
+        expect(encodeGameState(state)).toEqual(before);
+        state = result.newState!;
+      }
+    });
+  });
+});
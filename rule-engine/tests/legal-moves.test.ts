@@ -0,0 +1,142 @@
+import { CatanRuleEngine } from '../src/rule-engine';
+import { BoardGenerator } from '../src/board';
+import { encodeGameState, decodeGameState } from '../src/codec';
+import { GameState, Action } from '../src/types';
+
+const copy = (gameState: GameState): GameState => decodeGameState(encodeGameState(gameState));
+
+const expectAllAccepted = (gameState: GameState, moves: Action[]) => {
+  moves.forEach(move => {
+    const result = CatanRuleEngine.processAction(copy(gameState), move);
+    expect({ move, error: result.error }).toEqual({ move, error: undefined });
+  });
+};
+
+describe('LegalMoveGenerator', () => {
+  let gameState: GameState;
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 7 });
+  });
+
+  it('should offer every open intersection for the first settlement and no roads', () => {
+    const moves = CatanRuleEngine.getLegalMoves(gameState, 'player1');
+
+    expect(moves.filter(move => move.type === 'BUILD_SETTLEMENT')).toHaveLength(gameState.board.intersections.size);
+    expect(moves.some(move => move.type === 'BUILD_ROAD')).toBe(false);
+    expect(moves).not.toContainEqual({ type: 'END_TURN', playerId: 'player1' });
+  });
+
+  it('should return nothing for a player who is not to act', () => {
+    expect(CatanRuleEngine.getLegalMoves(gameState, 'player2')).toEqual([]);
+    expect(CatanRuleEngine.getLegalMoves(gameState, 'nobody')).toEqual([]);
+  });
+
+  describe('action phase', () => {
+    beforeEach(() => {
+      gameState = CatanRuleEngine.processAction(gameState, {
+        type: 'BUILD_SETTLEMENT',
+        playerId: 'player1',
+        payload: { intersectionId: 'i_0,0' }
+      }).newState!;
+      gameState.phase = 'ACTION';
+      gameState.players[0].resources = { wood: 1, brick: 1, wool: 1, wheat: 2, ore: 4 };
+    });
+
+    it('should list only the edges touching the player\'s network', () => {
+      const roads = CatanRuleEngine.getLegalMoves(gameState, 'player1')
+        .filter(move => move.type === 'BUILD_ROAD')
+        .map(move => move.payload.edgeId);
+
+      const touching = Array.from(gameState.board.edges.values())
+        .filter(edge => edge.intersections.includes('i_0,0'))
+        .map(edge => edge.id);
+      expect(roads.sort()).toEqual(touching.sort());
+    });
+
+    it('should list cities, development cards and 4:1 bank trades the player can afford', () => {
+      const moves = CatanRuleEngine.getLegalMoves(gameState, 'player1');
+
+      expect(moves).toContainEqual({ type: 'BUILD_CITY', playerId: 'player1', payload: { intersectionId: 'i_0,0' } });
+      expect(moves).toContainEqual({ type: 'BUY_DEVELOPMENT_CARD', playerId: 'player1' });
+      expect(moves.filter(move => move.type === 'TRADE_WITH_BANK')).toEqual(
+        ['wood', 'brick', 'wool', 'wheat'].map(resource => ({
+          type: 'TRADE_WITH_BANK',
+          playerId: 'player1',
+          payload: { tradeOffer: { fromPlayerId: 'player1', offering: { ore: 4 }, requesting: { [resource]: 1 } } }
+        }))
+      );
+    });
+
+    it('should use the best harbor ratio', () => {
+      const harbor = BoardGenerator.getHarbors(gameState.board).find(h => h.type !== 'generic')!;
+      const [intersectionId] = gameState.board.edges.get(harbor.edgeId)!.intersections;
+      gameState.board.intersections.get(intersectionId)!.building = { type: 'settlement', playerId: 'player1' };
+      gameState.players[0].buildings.settlements.push(intersectionId);
+      gameState.players[0].resources = { wood: 0, brick: 0, wool: 0, wheat: 0, ore: 0, [harbor.type]: 2 };
+
+      const trades = CatanRuleEngine.getLegalMoves(gameState, 'player1').filter(move => move.type === 'TRADE_WITH_BANK');
+
+      expect(trades).toHaveLength(4);
+      trades.forEach(trade => expect(trade.payload.tradeOffer.offering).toEqual({ [harbor.type]: 2 }));
+    });
+
+    it('should list each development card option', () => {
+      gameState.players[0].developmentCards = { knight: 1, roadBuilding: 1, invention: 1, monopoly: 1, victoryPoint: 1 };
+      const cards = CatanRuleEngine.getLegalMoves(gameState, 'player1')
+        .filter(move => move.type === 'PLAY_DEVELOPMENT_CARD')
+        .map(move => move.payload);
+
+      expect(cards.filter(card => card.cardType === 'invention')).toHaveLength(15);
+      expect(cards.filter(card => card.cardType === 'monopoly')).toHaveLength(5);
+      expect(cards).toContainEqual({ cardType: 'knight' });
+      expect(cards).toContainEqual({ cardType: 'roadBuilding' });
+      expect(cards).not.toContainEqual({ cardType: 'victoryPoint' });
+    });
+
+    it('should only list moves processAction accepts', () => {
+      gameState.players[0].developmentCards.knight = 1;
+      expectAllAccepted(gameState, CatanRuleEngine.getLegalMoves(gameState, 'player1'));
+    });
+  });
+
+  describe('sub-phases', () => {
+    it('should list every robber hex and then every steal target', () => {
+      gameState.phase = 'MOVE_ROBBER';
+      gameState.resumePhase = 'ACTION';
+      gameState.board.intersections.get('i_0,0')!.building = { type: 'settlement', playerId: 'player2' };
+      gameState.players[1].resources.wool = 1;
+
+      const robberMoves = CatanRuleEngine.getLegalMoves(gameState, 'player1');
+      expect(robberMoves).toHaveLength(gameState.board.tiles.size - 1);
+      expectAllAccepted(gameState, robberMoves);
+
+      const stealHex = robberMoves.find(move =>
+        gameState.board.intersections.get('i_0,0')!.hexes.some(hex =>
+          hex.q === move.payload.robberLocation.q && hex.r === move.payload.robberLocation.r)
+      )!;
+      const stealing = CatanRuleEngine.processAction(gameState, stealHex).newState!;
+
+      expect(CatanRuleEngine.getLegalMoves(stealing, 'player1')).toEqual([
+        { type: 'STEAL_RESOURCE', playerId: 'player1', payload: { targetPlayerId: 'player2' } }
+      ]);
+    });
+
+    it('should list every way to discard the owed cards', () => {
+      gameState.phase = 'DISCARD';
+      gameState.pendingDiscards = { player2: 4 };
+      gameState.players[1].resources = { wood: 5, brick: 3, wool: 0, wheat: 0, ore: 0 };
+
+      const discards = CatanRuleEngine.getLegalMoves(gameState, 'player2');
+
+      expect(discards.map(move => move.payload.resourcesToDiscard)).toEqual([
+        { wood: 4 },
+        { wood: 3, brick: 1 },
+        { wood: 2, brick: 2 },
+        { wood: 1, brick: 3 }
+      ]);
+      expect(CatanRuleEngine.getLegalMoves(gameState, 'player1')).toEqual([]);
+      expectAllAccepted(gameState, discards);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { CatanRuleEngine } from '../src/rule-engine';
+import { RandomManager } from '../src/random';
+import { PhaseManager } from '../src/phases';
+import { GameState, HexCoordinate } from '../src/types';
+
+// The first roll from generator state 2 is a 7
+const SEVEN_STATE = 2;
+
+describe('Sub-phases', () => {
+  let gameState: GameState;
+  let stealHex: HexCoordinate;
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2', 'player3']);
+    gameState.phase = 'PRODUCTION';
+    gameState.rng = RandomManager.createState(SEVEN_STATE);
+
+    const intersection = gameState.board.intersections.get('i_0,0')!;
+    intersection.building = { type: 'settlement', playerId: 'player2' };
+    gameState.players[1].buildings.settlements.push('i_0,0');
+    stealHex = intersection.hexes.find(hex =>
+      hex.q !== gameState.board.robberLocation.q || hex.r !== gameState.board.robberLocation.r
+    )!;
+  });
+
+  describe('robber sequence', () => {
+    it('should go straight to MOVE_ROBBER when nobody is over the hand limit', () => {
+      const result = CatanRuleEngine.processAction(gameState, { type: 'ROLL_DICE', playerId: 'player1' });
+
+      expect(result.newState!.phase).toBe('MOVE_ROBBER');
+      expect(result.newState!.pendingDiscards).toBeUndefined();
+    });
+
+    it('should collect discards before the robber moves', () => {
+      gameState.players[1].resources = { wood: 3, brick: 3, wool: 3, wheat: 0, ore: 0 };
+      gameState.players[2].resources = { wood: 8, brick: 0, wool: 0, wheat: 0, ore: 0 };
+
+      let state = CatanRuleEngine.processAction(gameState, { type: 'ROLL_DICE', playerId: 'player1' }).newState!;
+      expect(state.phase).toBe('DISCARD');
+      expect(state.pendingDiscards).toEqual({ player2: 4, player3: 4 });
+      expect(CatanRuleEngine.getValidActions(state, 'player2')).toEqual(['DISCARD_RESOURCES']);
+      expect(CatanRuleEngine.getValidActions(state, 'player1')).toEqual([]);
+
+      const robberFirst = CatanRuleEngine.processAction(state, {
+        type: 'MOVE_ROBBER',
+        playerId: 'player1',
+        payload: { robberLocation: stealHex }
+      });
+      expect(robberFirst.success).toBe(false);
+      expect(robberFirst.error).toContain('discard phase');
+
+      state = CatanRuleEngine.processAction(state, {
+        type: 'DISCARD_RESOURCES',
+        playerId: 'player3',
+        payload: { resourcesToDiscard: { wood: 4 } }
+      }).newState!;
+      expect(state.phase).toBe('DISCARD');
+      expect(state.pendingDiscards).toEqual({ player2: 4 });
+
+      const twice = CatanRuleEngine.processAction(state, {
+        type: 'DISCARD_RESOURCES',
+        playerId: 'player3',
+        payload: { resourcesToDiscard: { wood: 2 } }
+      });
+      expect(twice.success).toBe(false);
+
+      state = CatanRuleEngine.processAction(state, {
+        type: 'DISCARD_RESOURCES',
+        playerId: 'player2',
+        payload: { resourcesToDiscard: { wood: 2, brick: 2 } }
+      }).newState!;
+      expect(state.phase).toBe('MOVE_ROBBER');
+      expect(state.pendingDiscards).toBeUndefined();
+    });
+
+    it('should only stop to steal when there is a target', () => {
+      gameState.players[1].resources.ore = 1;
+      let state = CatanRuleEngine.processAction(gameState, { type: 'ROLL_DICE', playerId: 'player1' }).newState!;
+
+      const endTurn = CatanRuleEngine.processAction(state, { type: 'END_TURN', playerId: 'player1' });
+      expect(endTurn.success).toBe(false);
+
+      state = CatanRuleEngine.processAction(state, {
+        type: 'MOVE_ROBBER',
+        playerId: 'player1',
+        payload: { robberLocation: stealHex }
+      }).newState!;
+      expect(state.phase).toBe('STEAL');
+      expect(CatanRuleEngine.getValidActions(state, 'player1')).toEqual(['STEAL_RESOURCE']);
+
+      const wrongTarget = CatanRuleEngine.processAction(state, {
+        type: 'STEAL_RESOURCE',
+        playerId: 'player1',
+        payload: { targetPlayerId: 'player3' }
+      });
+      expect(wrongTarget.success).toBe(false);
+
+      state = CatanRuleEngine.processAction(state, {
+        type: 'STEAL_RESOURCE',
+        playerId: 'player1',
+        payload: { targetPlayerId: 'player2' }
+      }).newState!;
+      expect(state.phase).toBe('ACTION');
+      expect(state.resumePhase).toBeUndefined();
+      expect(state.players[0].resources.ore).toBe(1);
+    });
+
+    it('should return to the action phase when nobody can be robbed', () => {
+      let state = CatanRuleEngine.processAction(gameState, { type: 'ROLL_DICE', playerId: 'player1' }).newState!;
+      state = CatanRuleEngine.processAction(state, {
+        type: 'MOVE_ROBBER',
+        playerId: 'player1',
+        payload: { robberLocation: stealHex }
+      }).newState!;
+
+      expect(state.phase).toBe('ACTION');
+    });
+  });
+
+  describe('development cards', () => {
+    it('should hand the robber over for a knight and resume the phase it was played in', () => {
+      gameState.players[0].developmentCards.knight = 1;
+
+      let state = CatanRuleEngine.processAction(gameState, {
+        type: 'PLAY_DEVELOPMENT_CARD',
+        playerId: 'player1',
+        payload: { cardType: 'knight' }
+      }).newState!;
+      expect(state.phase).toBe('MOVE_ROBBER');
+      expect(state.players[0].knightsPlayed).toBe(1);
+
+      state = CatanRuleEngine.processAction(state, {
+        type: 'MOVE_ROBBER',
+        playerId: 'player1',
+        payload: { robberLocation: stealHex }
+      }).newState!;
+      expect(state.phase).toBe('PRODUCTION');
+    });
+
+    it('should place two free roads during ROAD_BUILDING', () => {
+      gameState.phase = 'ACTION';
+      gameState.players[1].developmentCards.roadBuilding = 1;
+      gameState.currentPlayerIndex = 1;
+      const [firstEdge, secondEdge] = gameState.board.intersections.get('i_0,0')!.edges;
+
+      let state = CatanRuleEngine.processAction(gameState, {
+        type: 'PLAY_DEVELOPMENT_CARD',
+        playerId: 'player2',
+        payload: { cardType: 'roadBuilding' }
+      }).newState!;
+      expect(state.phase).toBe('ROAD_BUILDING');
+      expect(state.freeRoadsRemaining).toBe(2);
+
+      const trade = CatanRuleEngine.processAction(state, {
+        type: 'TRADE_WITH_BANK',
+        playerId: 'player2',
+        payload: { tradeOffer: { fromPlayerId: 'player2', offering: { wood: 4 }, requesting: { ore: 1 } } }
+      });
+      expect(trade.error).toContain('road building phase');
+
+      state = CatanRuleEngine.processAction(state, { type: 'BUILD_ROAD', playerId: 'player2', payload: { edgeId: firstEdge } }).newState!;
+      expect(state.freeRoadsRemaining).toBe(1);
+      state = CatanRuleEngine.processAction(state, { type: 'BUILD_ROAD', playerId: 'player2', payload: { edgeId: secondEdge } }).newState!;
+
+      expect(state.phase).toBe('ACTION');
+      expect(state.freeRoadsRemaining).toBeUndefined();
+      expect(state.players[1].buildings.roads).toEqual([firstEdge, secondEdge]);
+      expect(state.players[1].resources).toEqual({ wood: 0, brick: 0, wool: 0, wheat: 0, ore: 0 });
+    });
+  });
+
+  describe('PhaseManager', () => {
+    it('should reject actions outside the current phase', () => {
+      expect(PhaseManager.canPerformAction(gameState, 'player1', 'BUILD_CITY')).toEqual({
+        valid: false,
+        error: 'Cannot BUILD_CITY during the production phase',
+        code: 'WRONG_PHASE',
+        details: { actionType: 'BUILD_CITY', phase: 'PRODUCTION' }
+      });
+      expect(PhaseManager.canPerformAction(gameState, 'player1', 'ROLL_DICE').valid).toBe(true);
+    });
+
+    it('should reject everything once the game is over', () => {
+      gameState.phase = 'GAME_OVER';
+
+      expect(PhaseManager.getAllowedActions('GAME_OVER')).toEqual([]);
+      expect(CatanRuleEngine.processAction(gameState, { type: 'ROLL_DICE', playerId: 'player1' }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { CatanRuleEngine } from '../src/rule-engine';
+import { projectForPlayer } from '../src/projection';
+import { encodeGameStateView, decodeGameStateView, GameStateCodecError } from '../src/codec';
+import { GameState } from '../src/types';
+
+describe('projectForPlayer', () => {
+  let gameState: GameState;
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 5, rules: { allowUndo: true } });
+    gameState.phase = 'ACTION';
+    gameState.players[0].resources = { wood: 1, brick: 0, wool: 2, wheat: 0, ore: 0 };
+    gameState.players[0].developmentCards.knight = 1;
+    gameState.players[1].resources = { wood: 0, brick: 3, wool: 0, wheat: 1, ore: 1 };
+    gameState.players[1].developmentCards.victoryPoint = 1;
+  });
+
+  it('should show the viewer their own hand', () => {
+    const view = projectForPlayer(gameState, 'player1');
+
+    expect(view.viewerId).toBe('player1');
+    expect(view.players[0]).toMatchObject({
+      resources: gameState.players[0].resources,
+      developmentCards: gameState.players[0].developmentCards,
+      resourceCount: 3,
+      developmentCardCount: 1
+    });
+  });
+
+  it('should reduce opponents\' hands to their sizes', () => {
+    const opponent = projectForPlayer(gameState, 'player1').players[1];
+
+    expect(opponent).not.toHaveProperty('resources');
+    expect(opponent).not.toHaveProperty('developmentCards');
+    expect(opponent).toMatchObject({ id: 'player2', resourceCount: 5, developmentCardCount: 1, victoryPoints: 0 });
+  });
+
+  it('should hide the deck order and anything that predicts it', () => {
+    const view = projectForPlayer(gameState, 'player1');
+
+    expect(view.developmentCardsRemaining).toBe(gameState.developmentCardDeck.length);
+    expect(view).not.toHaveProperty('developmentCardDeck');
+    expect(view).not.toHaveProperty('seed');
+    expect(view).not.toHaveProperty('rng');
+  });
+
+  it('should drop the undo checkpoint, which holds every hand', () => {
+    gameState.players[0].resources.wood = 4;
+    const traded = CatanRuleEngine.processAction(gameState, {
+      type: 'TRADE_WITH_BANK',
+      playerId: 'player1',
+      payload: { tradeOffer: { fromPlayerId: 'player1', offering: { wood: 4 }, requesting: { ore: 1 } } }
+    }).newState!;
+
+    expect(traded.undoHistory).toBeDefined();
+    expect(projectForPlayer(traded, 'player1')).not.toHaveProperty('undoHistory');
+  });
+
+  it('should give spectators a view with every hand hidden', () => {
+    const view = projectForPlayer(gameState);
+
+    expect(view).not.toHaveProperty('viewerId');
+    view.players.forEach(player => expect(player).not.toHaveProperty('resources'));
+    expect(projectForPlayer(gameState, 'stranger').players.every(player => !player.resources)).toBe(true);
+  });
+
+  it('should remove other players\' secrets from the events', () => {
+    gameState.players[1].resources = { wood: 0, brick: 0, wool: 1, wheat: 1, ore: 1 };
+    gameState.currentPlayerIndex = 1;
+    const bought = CatanRuleEngine.processAction(gameState, { type: 'BUY_DEVELOPMENT_CARD', playerId: 'player2' }).newState!;
+
+    expect(projectForPlayer(bought, 'player2').events![0]).toHaveProperty('secret');
+    expect(projectForPlayer(bought, 'player1').events![0]).not.toHaveProperty('secret');
+    expect(projectForPlayer(bought).events![0]).not.toHaveProperty('secret');
+  });
+
+  it('should encode to plain JSON without touching the state', () => {
+    const encoded = encodeGameStateView(projectForPlayer(gameState, 'player2'));
+
+    expect(JSON.parse(JSON.stringify(encoded))).toEqual(encoded);
+    expect(Object.keys(encoded.board.edges)).toHaveLength(gameState.board.edges.size);
+    expect(gameState.players[0].resources.wool).toBe(2);
+  });
+
+  it('should decode what it encodes, and nothing that still holds hidden hands', () => {
+    const citiesAndKnights = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 5, citiesAndKnights: true });
+    const view = projectForPlayer(citiesAndKnights, 'player1');
+    const encoded = JSON.parse(JSON.stringify(encodeGameStateView(view)));
+
+    expect(decodeGameStateView(encoded)).toEqual(view);
+    expect(() => decodeGameStateView({ ...encoded, players: gameState.players })).toThrow(GameStateCodecError);
+  });
+});
@@ -0,0 +1,115 @@
+import { RandomManager, mulberry32, DEFAULT_RANDOM_ALGORITHM } from '../src/random';
+import { CatanRuleEngine } from '../src/rule-engine';
+import { RobberManager } from '../src/robber';
+import { encodeGameState } from '../src/codec';
+import { GameState, Resources, ResourceType } from '../src/types';
+
+describe('RandomManager', () => {
+  it('should produce the same sequence from the same state', () => {
+    const a = mulberry32(1234);
+    const b = mulberry32(1234);
+    const sequence = Array.from({ length: 5 }, () => a.next());
+
+    expect(Array.from({ length: 5 }, () => b.next())).toEqual(sequence);
+    sequence.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('should resume a sequence from a saved state', () => {
+    const rng = mulberry32(99);
+    rng.next();
+    const resumed = mulberry32(rng.state);
+
+    expect(resumed.next()).toBe(rng.next());
+  });
+
+  it('should shuffle without modifying the input', () => {
+    const items = [1, 2, 3, 4, 5, 6];
+    const shuffled = RandomManager.shuffle(items, mulberry32(7));
+
+    expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+    expect([...shuffled].sort()).toEqual(items);
+    expect(RandomManager.shuffle(items, mulberry32(7))).toEqual(shuffled);
+  });
+
+  it('should advance the game RNG after a draw', () => {
+    const gameState = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 5 });
+    const { value, newState } = RandomManager.draw(gameState, rng => rng.next());
+
+    expect(value).toBe(RandomManager.fromState(gameState.rng).next());
+    expect(newState.rng.state).not.toBe(gameState.rng.state);
+    expect(newState.rng.algorithm).toBe(DEFAULT_RANDOM_ALGORITHM);
+  });
+
+  it('should use registered algorithms', () => {
+    RandomManager.registerAlgorithm('constant', state => ({ next: () => 0, state }));
+    const gameState = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 1, rngAlgorithm: 'constant' });
+
+    expect(gameState.rng).toEqual({ algorithm: 'constant', state: 1 });
+    expect(RandomManager.fromState(gameState.rng).next()).toBe(0);
+  });
+
+  it('should reject unknown algorithms and invalid seeds', () => {
+    expect(() => RandomManager.createState(1, 'dice-bag')).toThrow('Unknown random algorithm: dice-bag');
+    expect(() => RandomManager.createState(-1)).toThrow('Seed must be an unsigned 32-bit integer');
+  });
+});
+
+describe('Seeded games', () => {
+  const playTurns = (seed: number): GameState => {
+    let gameState = CatanRuleEngine.createNewGame(['player1', 'player2', 'player3'], { seed });
+    gameState.phase = 'PRODUCTION';
+    gameState.players.forEach(player => {
+      player.resources = { wood: 2, brick: 2, wool: 2, wheat: 2, ore: 2 };
+    });
+
+    for (let i = 0; i < 12; i++) {
+      const playerId = gameState.players[gameState.currentPlayerIndex].id;
+      gameState = CatanRuleEngine.processAction(gameState, { type: 'ROLL_DICE', playerId }).newState!;
+      Object.entries(gameState.pendingDiscards ?? {}).forEach(([discardingId, count]) => {
+        const hand = gameState.players.find(player => player.id === discardingId)!.resources;
+        const resourcesToDiscard: Partial<Resources> = {};
+        let owed = count;
+        (Object.keys(hand) as ResourceType[]).forEach(resource => {
+          resourcesToDiscard[resource] = Math.min(hand[resource], owed);
+          owed -= resourcesToDiscard[resource]!;
+        });
+        gameState = CatanRuleEngine.processAction(gameState, {
+          type: 'DISCARD_RESOURCES',
+          playerId: discardingId,
+          payload: { resourcesToDiscard }
+        }).newState!;
+      });
+      if (gameState.phase === 'MOVE_ROBBER') {
+        const robberLocation = RobberManager.getValidRobberLocations(gameState)[0];
+        gameState = CatanRuleEngine.processAction(gameState, { type: 'MOVE_ROBBER', playerId, payload: { robberLocation } }).newState!;
+      }
+      gameState = CatanRuleEngine.processAction(gameState, { type: 'END_TURN', playerId }).newState!;
+    }
+    return gameState;
+  };
+
+  it('should store the seed on the game state', () => {
+    const gameState = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 42 });
+
+    expect(gameState.seed).toBe(42);
+    expect(gameState.id).toBe('game_42');
+    expect(CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 42, id: 'table-7' }).id).toBe('table-7');
+    expect(gameState.rng.algorithm).toBe(DEFAULT_RANDOM_ALGORITHM);
+  });
+
+  it('should deal the same development card deck for the same seed', () => {
+    const a = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 42 });
+    const b = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 42 });
+    const c = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 43 });
+
+    expect(b.developmentCardDeck).toEqual(a.developmentCardDeck);
+    expect(c.developmentCardDeck).not.toEqual(a.developmentCardDeck);
+  });
+
+  it('should replay to an identical final state', () => {
+    expect(encodeGameState(playTurns(2024))).toEqual(encodeGameState(playTurns(2024)));
+  });
+});
@@ -1,4 +1,5 @@
 import { ResourceManager } from '../src/resources';
+import { RandomManager } from '../src/random';
 import { CatanRuleEngine } from '../src/rule-engine';
 import { GameState, Resources } from '../src/types';
 
@@ -21,13 +22,20 @@ describe('ResourceManager', () => {
 
   describe('rollDice', () => {
     it('should return two dice values between 1 and 6', () => {
-      const [die1, die2] = ResourceManager.rollDice();
+      const [die1, die2] = ResourceManager.rollDice(RandomManager.fromState(gameState.rng));
       
       expect(die1).toBeGreaterThanOrEqual(1);
       expect(die1).toBeLessThanOrEqual(6);
       expect(die2).toBeGreaterThanOrEqual(1);
       expect(die2).toBeLessThanOrEqual(6);
     });
+
+    it('should roll the same dice from the same generator state', () => {
+      const first = ResourceManager.rollDice(RandomManager.fromState(gameState.rng));
+      const second = ResourceManager.rollDice(RandomManager.fromState(gameState.rng));
+
+      expect(second).toEqual(first);
+    });
   });
 
   describe('distributeResources', () => {
@@ -218,6 +226,7 @@ describe('ResourceManager', () => {
       // One resource should transfer
       expect(finalTotal0).toBe(initialTotal0 - 1);
       expect(finalTotal1).toBe(initialTotal1 + 1);
+      expect(newState.rng.state).not.toBe(gameState.rng.state);
     });
 
     it('should handle stealing from player with no resources', () => {
@@ -15,8 +15,87 @@ describe('CatanRuleEngine', () => {
     });
 
     it('should throw error for invalid number of players', () => {
-      expect(() => CatanRuleEngine.createNewGame(['player1'])).toThrow('Game requires 2-4 players');
-      expect(() => CatanRuleEngine.createNewGame(['p1', 'p2', 'p3', 'p4', 'p5'])).toThrow('Game requires 2-4 players');
+      expect(() => CatanRuleEngine.createNewGame(['player1'])).toThrow('Game requires 2-6 players');
+      expect(() => CatanRuleEngine.createNewGame(['p1', 'p2', 'p3', 'p4', 'p5', 'p6', 'p7'])).toThrow('Game requires 2-6 players');
+    });
+
+    it('should use the 5-6 player extension for larger games', () => {
+      const gameState = CatanRuleEngine.createNewGame(['p1', 'p2', 'p3', 'p4', 'p5', 'p6']);
+      const deck = gameState.developmentCardDeck;
+
+      expect(gameState.board.tiles.size).toBe(30);
+      expect(deck).toHaveLength(34);
+      expect(deck.filter(card => card === 'knight')).toHaveLength(20);
+      expect(gameState.players.map(p => p.color)).toEqual(['red', 'blue', 'white', 'orange', 'green', 'brown']);
+    });
+  });
+
+  describe('special building phase', () => {
+    let gameState: GameState;
+
+    beforeEach(() => {
+      gameState = CatanRuleEngine.createNewGame(['p1', 'p2', 'p3', 'p4', 'p5']);
+      gameState.phase = 'ACTION';
+    });
+
+    it('should hand the paired player an action phase before the dice pass on', () => {
+      const paired = CatanRuleEngine.processAction(gameState, { type: 'END_TURN', playerId: 'p1' }).newState!;
+
+      expect(paired.phase).toBe('SPECIAL_BUILDING');
+      expect(paired.players[paired.currentPlayerIndex].id).toBe('p4');
+      expect(paired.primaryPlayerIndex).toBe(0);
+
+      const next = CatanRuleEngine.processAction(paired, { type: 'END_TURN', playerId: 'p4' }).newState!;
+
+      expect(next.phase).toBe('PRODUCTION');
+      expect(next.players[next.currentPlayerIndex].id).toBe('p2');
+      expect(next.primaryPlayerIndex).toBeUndefined();
+    });
+
+    it('should not let the paired player trade with other players', () => {
+      const paired = CatanRuleEngine.processAction(gameState, { type: 'END_TURN', playerId: 'p1' }).newState!;
+      paired.players[3].resources.wood = 1;
+
+      expect(CatanRuleEngine.getValidActions(paired, 'p4')).not.toContain('PROPOSE_TRADE');
+      expect(CatanRuleEngine.getValidActions(paired, 'p4')).toContain('TRADE_WITH_BANK');
+
+      const result = CatanRuleEngine.processAction(paired, {
+        type: 'PROPOSE_TRADE',
+        playerId: 'p4',
+        payload: { toPlayerId: 'p1', offering: { wood: 1 }, requesting: { ore: 1 } }
+      });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('special building phase');
+    });
+
+    it('should not let anyone but the current player buy cards or trade with the bank', () => {
+      gameState.players.forEach(player => {
+        player.resources = { wood: 4, brick: 0, wool: 1, wheat: 1, ore: 1 };
+      });
+      const offTurn = (state: GameState, playerId: string): string[] => [
+        CatanRuleEngine.processAction(state, { type: 'BUY_DEVELOPMENT_CARD', playerId }),
+        CatanRuleEngine.processAction(state, {
+          type: 'TRADE_WITH_BANK',
+          playerId,
+          payload: { tradeOffer: { fromPlayerId: playerId, offering: { wood: 4 }, requesting: { brick: 1 } } }
+        })
+      ].map(result => result.violation!.code);
+
+      expect(offTurn(gameState, 'p2')).toEqual(['NOT_YOUR_TURN', 'NOT_YOUR_TURN']);
+
+      const paired = CatanRuleEngine.processAction(gameState, { type: 'END_TURN', playerId: 'p1' }).newState!;
+      expect(offTurn(paired, 'p1')).toEqual(['NOT_YOUR_TURN', 'NOT_YOUR_TURN']);
+      expect(offTurn(paired, 'p5')).toEqual(['NOT_YOUR_TURN', 'NOT_YOUR_TURN']);
+      expect(CatanRuleEngine.processAction(paired, { type: 'BUY_DEVELOPMENT_CARD', playerId: 'p4' }).success).toBe(true);
+    });
+
+    it('should not add a special building phase to smaller games', () => {
+      const small = CatanRuleEngine.createNewGame(['p1', 'p2', 'p3', 'p4']);
+      small.phase = 'ACTION';
+      const next = CatanRuleEngine.processAction(small, { type: 'END_TURN', playerId: 'p1' }).newState!;
+
+      expect(next.phase).toBe('PRODUCTION');
+      expect(next.players[next.currentPlayerIndex].id).toBe('p2');
     });
   });
 
@@ -49,6 +128,32 @@ describe('CatanRuleEngine', () => {
       const result = CatanRuleEngine.processAction(gameState, action);
       expect(result.success).toBe(false);
       expect(result.error).toBeDefined();
+      expect(result.violation).toEqual({
+        code: 'NOT_YOUR_TURN',
+        message: result.error,
+        details: { currentPlayerId: 'player1' }
+      });
+    });
+
+    it('should report what a rejected action was missing', () => {
+      gameState.phase = 'ACTION';
+      gameState.players[0].resources = { wood: 0, brick: 0, wool: 1, wheat: 2, ore: 1 };
+
+      const result = CatanRuleEngine.processAction(gameState, {
+        type: 'BUILD_CITY',
+        playerId: 'player1',
+        payload: { intersectionId: 'i_0,0' }
+      });
+
+      expect(result.violation?.code).toBe('INSUFFICIENT_RESOURCES');
+      expect(result.violation?.details?.missing).toEqual({ ore: 2 });
+    });
+
+    it('should report malformed actions as invalid', () => {
+      const result = CatanRuleEngine.processAction(gameState, { type: 'BUILD_SETTLEMENT', playerId: 'player1' });
+
+      expect(result.success).toBe(false);
+      expect(result.violation?.code).toBe('INVALID_ACTION');
     });
 
     it('should handle unknown action types', () => {
@@ -61,6 +166,7 @@ describe('CatanRuleEngine', () => {
       const result = CatanRuleEngine.processAction(gameState, action);
       expect(result.success).toBe(false);
       expect(result.error).toContain('Unknown action type');
+      expect(result.violation?.code).toBe('UNKNOWN_ACTION');
     });
   });
 
@@ -69,9 +175,7 @@ describe('CatanRuleEngine', () => {
       const gameState = CatanRuleEngine.createNewGame(['player1', 'player2']);
       const validActions = CatanRuleEngine.getValidActions(gameState, 'player1');
 
-      expect(validActions).toContain('BUILD_SETTLEMENT');
-      expect(validActions).toContain('BUILD_ROAD');
-      expect(validActions).not.toContain('ROLL_DICE');
+      expect(validActions).toEqual(['BUILD_SETTLEMENT']);
     });
 
     it('should return empty actions for non-current player', () => {
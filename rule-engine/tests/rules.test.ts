@@ -0,0 +1,102 @@
+import { CatanRuleEngine } from '../src/rule-engine';
+import { DEFAULT_GAME_RULES, createRules } from '../src/rules';
+import { VictoryManager } from '../src/victory';
+import { RobberManager } from '../src/robber';
+import { BuildingManager } from '../src/building';
+import { TradingManager } from '../src/trading';
+import { encodeGameState, decodeGameState, GameStateCodecError } from '../src/codec';
+import { GameState } from '../src/types';
+
+describe('Game rules', () => {
+  let gameState: GameState;
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2', 'player3'], { seed: 5 });
+  });
+
+  it('should default to the base game, and the extension with 5-6 players', () => {
+    expect(gameState.rules).toEqual(DEFAULT_GAME_RULES);
+    expect(gameState.developmentCardDeck).toHaveLength(25);
+
+    const extended = CatanRuleEngine.createNewGame(['p1', 'p2', 'p3', 'p4', 'p5'], { seed: 5 });
+    expect(extended.rules!.developmentCardDeck).toEqual({
+      knight: 20, victoryPoint: 5, roadBuilding: 3, invention: 3, monopoly: 3
+    });
+    expect(extended.developmentCardDeck).toHaveLength(34);
+  });
+
+  it('should merge overrides into the deck and building limits', () => {
+    const rules = createRules(3, { developmentCardDeck: { monopoly: 0 }, buildingLimits: { cities: 6 } });
+
+    expect(rules.developmentCardDeck).toEqual({ ...DEFAULT_GAME_RULES.developmentCardDeck, monopoly: 0 });
+    expect(rules.buildingLimits).toEqual({ roads: 15, settlements: 5, cities: 6 });
+
+    const state = CatanRuleEngine.createNewGame(['player1', 'player2'], { rules: { developmentCardDeck: { monopoly: 0 } } });
+    expect(state.developmentCardDeck).toHaveLength(23);
+    expect(state.developmentCardDeck).not.toContain('monopoly');
+  });
+
+  it('should end the game at the configured victory points', () => {
+    gameState.players[0].buildings.settlements = ['i1', 'i2', 'i3', 'i4', 'i5'];
+    gameState.players[0].victoryPoints = 5;
+
+    expect(VictoryManager.checkWinCondition(gameState, 'player1')).toBe(false);
+    expect(VictoryManager.checkWinCondition({ ...gameState, rules: createRules(3, { victoryPointsToWin: 5 }) }, 'player1'))
+      .toBe(true);
+  });
+
+  it('should apply the discard limit after a 7', () => {
+    gameState.players[1].resources = { wood: 5, brick: 0, wool: 0, wheat: 0, ore: 0 };
+    const strict = { ...gameState, rules: createRules(3, { discardLimit: 4 }) };
+
+    expect(RobberManager.handleSevenRolled(gameState).pendingDiscards).toBeUndefined();
+    expect(RobberManager.handleSevenRolled(strict).pendingDiscards).toEqual({ player2: 2 });
+  });
+
+  it('should protect players with 2 points or fewer from a friendly robber', () => {
+    const intersection = gameState.board.intersections.get('i_0,0')!;
+    intersection.building = { type: 'settlement', playerId: 'player2' };
+    gameState.players[1].buildings.settlements = ['i_0,0'];
+    gameState.players[1].victoryPoints = 1;
+    gameState.players[1].resources = { wood: 1, brick: 0, wool: 0, wheat: 0, ore: 0 };
+    gameState.board.robberLocation = intersection.hexes[0];
+    const friendly = { ...gameState, rules: createRules(3, { friendlyRobber: true }) };
+
+    expect(RobberManager.getValidStealTargets(gameState, 'player1')).toEqual(['player2']);
+    expect(RobberManager.getValidStealTargets(friendly, 'player1')).toEqual([]);
+    expect(RobberManager.canStealFromPlayer(friendly, 'player1', 'player2', intersection.hexes[0]))
+      .toMatchObject({ valid: false, code: 'INVALID_STEAL_TARGET' });
+
+    friendly.players[1].buildings.settlements = ['i_0,0', 'i1', 'i2'];
+    friendly.players[1].victoryPoints = 3;
+    expect(RobberManager.getValidStealTargets(friendly, 'player1')).toEqual(['player2']);
+  });
+
+  it('should trade with the bank at the configured ratio', () => {
+    gameState.phase = 'ACTION';
+    gameState.players[0].resources = { wood: 3, brick: 0, wool: 0, wheat: 0, ore: 0 };
+    const offer = TradingManager.createBankTradeOffer('player1', 'wood', 3, 'ore', 1);
+    const generous = { ...gameState, rules: createRules(3, { bankTradeRatio: 3 }) };
+
+    expect(TradingManager.validateBankTrade(gameState, offer).code).toBe('INVALID_TRADE_RATIO');
+    expect(TradingManager.validateBankTrade(generous, offer).valid).toBe(true);
+    expect(TradingManager.getAvailableTradeRatios(generous, 'player1').wool).toBe(3);
+  });
+
+  it('should enforce the configured building limits', () => {
+    gameState.players[0].buildings.roads = ['e1', 'e2'];
+    const limited = { ...gameState, rules: createRules(3, { buildingLimits: { roads: 2 } }) };
+
+    expect(BuildingManager.canBuildRoad(limited, 'player1', 'e_0,-1_0,0').code).toBe('NO_PIECES_REMAINING');
+    expect(CatanRuleEngine.getLegalMoves(limited, 'player1').some(move => move.type === 'BUILD_ROAD')).toBe(false);
+  });
+
+  it('should survive the codec and reject incomplete rules', () => {
+    const state = CatanRuleEngine.createNewGame(['player1', 'player2'], { rules: { victoryPointsToWin: 12 } });
+    expect(decodeGameState(encodeGameState(state)).rules).toEqual(state.rules);
+
+    const encoded = encodeGameState(state);
+    delete (encoded.rules as any).discardLimit;
+    expect(() => decodeGameState(encoded)).toThrow(GameStateCodecError);
+  });
+});
@@ -0,0 +1,132 @@
+import { ScenarioLoader, ScenarioError, Scenario, SCENARIOS } from '../src/scenario';
+import { SeafarersManager, SEAFARERS_SCENARIOS } from '../src/seafarers';
+import { BoardGenerator } from '../src/board';
+import { CatanRuleEngine } from '../src/rule-engine';
+
+// Three hexes in a row with a harbor on the outside of the middle one
+const SMALL_MAP: Scenario = {
+  id: 'small',
+  name: 'Small Island',
+  minPlayers: 2,
+  maxPlayers: 3,
+  rules: { victoryPointsToWin: 6 },
+  robber: { q: 0, r: 0 },
+  hexes: [
+    { q: -1, r: 0, terrain: 'forest', number: 6 },
+    { q: 0, r: 0, terrain: 'desert' },
+    { q: 1, r: 0, terrain: 'field', number: 8 }
+  ],
+  harbors: [{ edgeId: 'e_0,-1_1,-1', type: 'generic', ratio: 3 }]
+};
+
+const withChanges = (changes: Record<string, unknown>) => ({ ...SMALL_MAP, ...changes });
+
+const errorFor = (data: unknown): string => {
+  try {
+    ScenarioLoader.validate(data);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ScenarioError);
+    return (error as Error).message;
+  }
+  throw new Error('expected the scenario to be rejected');
+};
+
+describe('ScenarioLoader', () => {
+  it('should validate the bundled scenarios', () => {
+    Object.values(SCENARIOS).forEach(scenario => expect(() => ScenarioLoader.validate(scenario)).not.toThrow());
+    Object.values(SEAFARERS_SCENARIOS).forEach(scenario =>
+      expect(() => SeafarersManager.validateScenario(scenario)).not.toThrow());
+  });
+
+  it('should build the standard board from its scenario file', () => {
+    const board = ScenarioLoader.createBoard(ScenarioLoader.getScenario('standard')!);
+
+    expect(board).toEqual(BoardGenerator.generateStandardBoard());
+    expect(board.tiles.size).toBe(19);
+    expect(board.harbors).toHaveLength(9);
+    expect(board.tiles.get('0,0')!.hasRobber).toBe(true);
+  });
+
+  it('should build intersections and edges for a custom map', () => {
+    const board = ScenarioLoader.createBoard(ScenarioLoader.parse(JSON.stringify(SMALL_MAP)));
+
+    expect(board.tiles.size).toBe(3);
+    expect(board.intersections.get('i_0,0')!.hexes).toEqual([{ q: 0, r: 0 }]);
+    expect(board.edges.has('e_0,-1_1,-1')).toBe(true);
+    expect(board.robberLocation).toEqual({ q: 0, r: 0 });
+    expect(board.pirateLocation).toBeUndefined();
+  });
+
+  it('should read scenario files written in YAML', () => {
+    const yaml = `
+id: small
+name: Small Island
+minPlayers: 2
+maxPlayers: 3
+rules:
+  victoryPointsToWin: 6
+robber: { q: 0, r: 0 }
+hexes:
+  - { q: -1, r: 0, terrain: forest, number: 6 }
+  - { q: 0, r: 0, terrain: desert }
+  - { q: 1, r: 0, terrain: field, number: 8 }
+harbors:
+  - edgeId: e_0,-1_1,-1
+    type: generic
+    ratio: 3
+`;
+
+    expect(ScenarioLoader.parse(yaml)).toEqual(SMALL_MAP);
+    expect(() => ScenarioLoader.parse(yaml.replace('number: 8', 'number: eight')))
+      .toThrow('$.hexes[2].number: must be an integer');
+  });
+
+  it('should point at the field that is wrong', () => {
+    expect(() => ScenarioLoader.parse('{not json')).toThrow('$: not valid JSON or YAML');
+    expect(errorFor(withChanges({ name: '' }))).toBe('$.name: must be a non-empty string');
+    expect(errorFor(withChanges({ maxPlayers: 1 }))).toBe('$.maxPlayers: must be between 2 and 6');
+    expect(errorFor(withChanges({ rules: { victoryPointsToWin: 'ten' } }))).toBe('$.rules.victoryPointsToWin: must be an integer');
+    expect(errorFor(withChanges({ hexes: [] }))).toBe('$.hexes: must not be empty');
+
+    const hexes = (...changed: object[]) => withChanges({ hexes: [...SMALL_MAP.hexes.slice(0, 2), ...changed] });
+    expect(errorFor(hexes({ q: 1, r: 0, terrain: 'lava', number: 8 })))
+      .toBe('$.hexes[2].terrain: must be one of forest, pasture, field, hill, mountain, desert, sea, gold');
+    expect(errorFor(hexes({ q: 1, r: 0, terrain: 'field' }))).toBe('$.hexes[2].number: must be an integer');
+    expect(errorFor(hexes({ q: 1, r: 0, terrain: 'field', number: 7 }))).toBe('$.hexes[2].number: must not be 7');
+    expect(errorFor(hexes({ q: 1, r: 0, terrain: 'sea', number: 8 }))).toBe('$.hexes[2].number: must be left out on sea hexes');
+    expect(errorFor(hexes({ q: -1, r: 0, terrain: 'field', number: 8 }))).toBe('$.hexes[2]: duplicates the hex at (-1, 0)');
+
+    expect(errorFor(withChanges({ robber: { q: 5, r: 5 } }))).toBe('$.robber: is not a hex on the map');
+    expect(errorFor(withChanges({ pirate: { q: 0, r: 0 } }))).toBe('$.pirate: must be a sea hex on the map');
+    expect(errorFor(withChanges({ harbors: [{ edgeId: 'e_5,5_6,5', type: 'generic', ratio: 3 }] })))
+      .toBe('$.harbors[0].edgeId: unknown edge "e_5,5_6,5"');
+    expect(errorFor(withChanges({ harbors: [...SMALL_MAP.harbors, { edgeId: 'e_0,-1_1,-1', type: 'ore', ratio: 2 }] })))
+      .toBe('$.harbors[1].edgeId: another harbor is already on "e_0,-1_1,-1"');
+  });
+
+  it('should ask Seafarers maps for a pirate and an island bonus', () => {
+    const { islandBonus, ...noBonus } = SEAFARERS_SCENARIOS['new-shores'];
+    expect(islandBonus).toBe(2);
+    expect(() => SeafarersManager.validateScenario(SMALL_MAP)).toThrow('$.pirate: is required on Seafarers maps');
+    expect(() => SeafarersManager.validateScenario(noBonus)).toThrow('$.islandBonus: must be a non-negative integer');
+  });
+
+  it('should start games on a scenario with its rules and player count', () => {
+    const gameState = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 1, scenario: SMALL_MAP });
+
+    expect(gameState.board.tiles.size).toBe(3);
+    expect(gameState.board.harbors).toEqual(SMALL_MAP.harbors);
+    expect(gameState.rules!.victoryPointsToWin).toBe(6);
+    expect(gameState.seafarers).toBeUndefined();
+    expect(CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 1, scenario: 'standard' }).board)
+      .toEqual(BoardGenerator.generateStandardBoard());
+
+    expect(() => CatanRuleEngine.createNewGame(['a', 'b', 'c', 'd'], { scenario: SMALL_MAP }))
+      .toThrow('Small Island requires 2-3 players');
+    expect(() => CatanRuleEngine.createNewGame(['a', 'b'], { scenario: 'atlantis' })).toThrow('Unknown scenario: atlantis');
+    expect(() => CatanRuleEngine.createNewGame(['a', 'b'], { scenario: withChanges({ robber: { q: 9, r: 9 } }) as Scenario }))
+      .toThrow(ScenarioError);
+    expect(() => CatanRuleEngine.createNewGame(['a', 'b'], { scenario: 'standard', seafarers: 'new-shores' }))
+      .toThrow('either a scenario or a Seafarers scenario');
+  });
+});
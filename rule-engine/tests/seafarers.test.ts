@@ -0,0 +1,197 @@
+import { CatanRuleEngine } from '../src/rule-engine';
+import { SeafarersManager } from '../src/seafarers';
+import { BuildingManager } from '../src/building';
+import { VictoryManager } from '../src/victory';
+import { RobberManager } from '../src/robber';
+import { encodeGameState, decodeGameState } from '../src/codec';
+import { GameState, Action } from '../src/types';
+import { apply, place } from './helpers';
+
+const giveRoad = (gameState: GameState, playerId: string, edgeId: string): void => {
+  gameState.players.find(p => p.id === playerId)!.buildings.roads.push(edgeId);
+  gameState.board.edges.get(edgeId)!.road = { playerId };
+};
+
+const giveShip = (gameState: GameState, playerId: string, edgeId: string): void => {
+  gameState.players.find(p => p.id === playerId)!.buildings.ships!.push(edgeId);
+  gameState.board.edges.get(edgeId)!.ship = { playerId };
+};
+
+const rollUntil = (gameState: GameState, until: (rolled: GameState) => boolean): GameState => {
+  let state = { ...gameState, phase: 'PRODUCTION' as const };
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const rolled = apply(state, { type: 'ROLL_DICE', playerId: 'player1' });
+    if (until(rolled)) {
+      return rolled;
+    }
+    state = { ...state, rng: rolled.rng };
+  }
+  throw new Error('Roll never came up');
+};
+
+// The main island's east coast: i_1,1 touches field, pasture and the sea at 1,2
+const COAST = 'i_1,1';
+// Open sea running from the coast towards the gold field island (hill at 2,2)
+const SEA_ROUTE = ['e_1,1_1,2', 'e_1,2_1,3', 'e_1,3_2,3', 'e_2,2_2,3'];
+
+describe('Seafarers', () => {
+  let gameState: GameState;
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 22, seafarers: 'new-shores' });
+  });
+
+  it('should lay out the scenario map with the pirate at sea', () => {
+    expect(gameState.board.tiles.size).toBe(61);
+    expect(gameState.board.tiles.get('3,1')).toMatchObject({ terrain: 'gold', numberDisc: 10 });
+    expect(gameState.board.tiles.get('3,0')).toMatchObject({ terrain: 'sea', numberDisc: undefined });
+    expect(gameState.board.pirateLocation).toEqual({ q: 3, r: 0 });
+    expect(gameState.rules!.victoryPointsToWin).toBe(14);
+    expect(gameState.players[0].buildings.ships).toEqual([]);
+    expect(new Set(SeafarersManager.getIslands(gameState.board).values()).size).toBe(4);
+    expect(decodeGameState(encodeGameState(gameState))).toEqual(gameState);
+
+    expect(CatanRuleEngine.createNewGame(['player1', 'player2']).seafarers).toBeUndefined();
+    expect(() => CatanRuleEngine.createNewGame(['player1', 'player2'], { seafarers: 'atlantis' }))
+      .toThrow('Unknown Seafarers scenario: atlantis');
+    expect(() => CatanRuleEngine.createNewGame(['a', 'b', 'c', 'd', 'e'], { seafarers: 'new-shores' }))
+      .toThrow('Heading for New Shores requires 2-4 players');
+  });
+
+  describe('ships', () => {
+    beforeEach(() => {
+      gameState.phase = 'ACTION';
+      place(gameState, 'player1', COAST);
+      gameState.players[0].resources = { wood: 2, brick: 1, wool: 2, wheat: 0, ore: 0 };
+    });
+
+    it('should sail from a coastal settlement and keep roads and settlements on land', () => {
+      const state = apply(gameState, { type: 'BUILD_SHIP', playerId: 'player1', payload: { edgeId: SEA_ROUTE[0] } });
+
+      expect(state.board.edges.get(SEA_ROUTE[0])!.ship).toEqual({ playerId: 'player1' });
+      expect(state.players[0].buildings.ships).toEqual([SEA_ROUTE[0]]);
+      expect(state.players[0].resources).toEqual({ wood: 1, brick: 1, wool: 1, wheat: 0, ore: 0 });
+      expect(state.events!.slice(-1)).toEqual([{ turn: 1, playerId: 'player1', type: 'SHIP_BUILT', edgeId: SEA_ROUTE[0] }]);
+
+      expect(BuildingManager.canBuildRoad(state, 'player1', SEA_ROUTE[1]).code).toBe('INVALID_LOCATION');
+      expect(SeafarersManager.canBuildShip(state, 'player1', 'e_0,1_1,1').code).toBe('INVALID_LOCATION');
+      expect(SeafarersManager.canBuildShip(state, 'player1', SEA_ROUTE[2]).code).toBe('NOT_CONNECTED');
+      state.players[0].resources = { wood: 1, brick: 1, wool: 1, wheat: 1, ore: 0 };
+      expect(BuildingManager.canBuildSettlement(state, 'player1', 'i_1,2').code).toBe('INVALID_LOCATION');
+    });
+
+    it('should not sail next to the pirate', () => {
+      place(gameState, 'player1', 'i_2,0');
+
+      expect(SeafarersManager.canBuildShip(gameState, 'player1', 'e_2,0_3,0')).toMatchObject({
+        valid: false,
+        code: 'INVALID_LOCATION',
+        details: { pirateLocation: { q: 3, r: 0 } }
+      });
+      expect(CatanRuleEngine.getLegalMoves(gameState, 'player1')
+        .filter(move => move.type === 'BUILD_SHIP')
+        .map(move => move.payload.edgeId)).not.toContain('e_2,0_3,0');
+    });
+
+    it('should move one open ship a turn', () => {
+      giveShip(gameState, 'player1', SEA_ROUTE[0]);
+      giveShip(gameState, 'player1', SEA_ROUTE[1]);
+      const move = (fromEdgeId: string, edgeId: string): Action =>
+        ({ type: 'MOVE_SHIP', playerId: 'player1', payload: { fromEdgeId, edgeId } });
+
+      expect(CatanRuleEngine.processAction(gameState, move(SEA_ROUTE[0], 'e_1,2_2,2')).violation?.code)
+        .toBe('SHIP_NOT_MOVABLE');
+
+      let state = apply(gameState, move(SEA_ROUTE[1], 'e_1,2_2,2'));
+      expect(state.board.edges.get(SEA_ROUTE[1])!.ship).toBeUndefined();
+      expect(state.players[0].buildings.ships).toEqual([SEA_ROUTE[0], 'e_1,2_2,2']);
+      expect(CatanRuleEngine.processAction(state, move('e_1,2_2,2', SEA_ROUTE[1])).violation?.message)
+        .toBe('You have already moved a ship this turn');
+
+      state = apply(state, { type: 'BUILD_SHIP', playerId: 'player1', payload: { edgeId: SEA_ROUTE[1] } });
+      state = { ...state, seafarers: { ...state.seafarers!, shipMoved: false } };
+      expect(CatanRuleEngine.processAction(state, move(SEA_ROUTE[1], 'e_1,3_2,3')).violation?.message)
+        .toBe('Ships built this turn cannot move');
+
+      state = apply(state, { type: 'END_TURN', playerId: 'player1' });
+      expect(state.seafarers).toMatchObject({ shipsBuiltThisTurn: [], shipMoved: false });
+    });
+  });
+
+  it('should award the island bonus for the first settlement beyond the home islands', () => {
+    let state = apply({ ...gameState }, { type: 'BUILD_SETTLEMENT', playerId: 'player1', payload: { intersectionId: COAST } });
+    expect(state.seafarers!.homeIslands).toEqual({ player1: ['-1,-1'] });
+
+    state.phase = 'ACTION';
+    SEA_ROUTE.forEach(edgeId => giveShip(state, 'player1', edgeId));
+    state.players[0].resources = { wood: 1, brick: 1, wool: 1, wheat: 1, ore: 0 };
+    state = apply(state, { type: 'BUILD_SETTLEMENT', playerId: 'player1', payload: { intersectionId: 'i_2,2' } });
+
+    expect(state.seafarers!.bonusIslands).toEqual({ player1: ['2,2'] });
+    expect(state.players[0].victoryPoints).toBe(4);
+    expect(VictoryManager.calculateVictoryPoints(state.players[0])).toBe(4);
+    expect(state.events!.slice(-2)).toEqual([
+      { turn: 1, playerId: 'player1', type: 'SETTLEMENT_BUILT', intersectionId: 'i_2,2' },
+      { turn: 1, playerId: 'player1', type: 'ISLAND_SETTLED', island: '2,2', bonus: 2 }
+    ]);
+  });
+
+  it('should count ships and roads as one trade route only through the player\'s own building', () => {
+    ['e_0,1_1,1', 'e_-1,1_0,1', 'e_-1,1_-2,1'].forEach(edgeId => giveRoad(gameState, 'player1', edgeId));
+    SEA_ROUTE.slice(0, 2).forEach(edgeId => giveShip(gameState, 'player1', edgeId));
+
+    expect(VictoryManager.calculateLongestRoadLength(gameState, 'player1')).toBe(3);
+
+    place(gameState, 'player1', COAST);
+    expect(VictoryManager.calculateLongestRoadLength(gameState, 'player1')).toBe(5);
+    expect(VictoryManager.updateLongestRoad(gameState).players[0].specialCards.longestRoad).toBe(true);
+  });
+
+  it('should move the pirate when the robber is sent to sea and rob ship owners', () => {
+    gameState.phase = 'MOVE_ROBBER';
+    gameState.resumePhase = 'ACTION';
+    giveShip(gameState, 'player2', SEA_ROUTE[1]);
+    gameState.players[1].resources = { wood: 0, brick: 0, wool: 0, wheat: 0, ore: 1 };
+
+    expect(RobberManager.canMoveRobber(gameState, 'player1', { q: 3, r: 0 }).code).toBe('ROBBER_MUST_MOVE');
+    expect(RobberManager.getValidRobberLocations(gameState)).not.toContainEqual({ q: 3, r: 0 });
+
+    let state = apply(gameState, { type: 'MOVE_ROBBER', playerId: 'player1', payload: { robberLocation: { q: 1, r: 3 } } });
+    expect(state.board.pirateLocation).toEqual({ q: 1, r: 3 });
+    expect(state.board.robberLocation).toEqual({ q: 0, r: 0 });
+    expect(state.phase).toBe('STEAL');
+    expect(RobberManager.getValidStealTargets(state, 'player1')).toEqual(['player2']);
+    expect(state.events!.slice(-1)).toEqual([
+      { turn: 1, playerId: 'player1', type: 'PIRATE_MOVED', location: { q: 1, r: 3 } }
+    ]);
+
+    state = apply(state, { type: 'STEAL_RESOURCE', playerId: 'player1', payload: { targetPlayerId: 'player2' } });
+    expect(state.players[0].resources.ore).toBe(1);
+    expect(state.phase).toBe('ACTION');
+    expect(state.seafarers!.pirateTheft).toBeUndefined();
+  });
+
+  it('should let the owners of a producing gold field pick their resources', () => {
+    place(gameState, 'player1', 'i_3,1');
+
+    const rolled = rollUntil(gameState, state => state.diceRoll![0] + state.diceRoll![1] === 10);
+
+    expect(rolled.phase).toBe('GOLD');
+    expect(rolled.seafarers!.pendingGold).toEqual({ player1: 1 });
+    expect(CatanRuleEngine.getValidActions(rolled, 'player1')).toEqual(['CHOOSE_GOLD']);
+    expect(CatanRuleEngine.getValidActions(rolled, 'player2')).toEqual([]);
+    expect(CatanRuleEngine.getLegalMoves(rolled, 'player1')).toHaveLength(5);
+    expect(CatanRuleEngine.processAction(rolled, {
+      type: 'CHOOSE_GOLD', playerId: 'player1', payload: { resources: { ore: 2 } }
+    }).violation?.code).toBe('INVALID_ACTION');
+
+    const chosen = apply(rolled, { type: 'CHOOSE_GOLD', playerId: 'player1', payload: { resources: { ore: 1 } } });
+    expect(chosen.phase).toBe('ACTION');
+    expect(chosen.seafarers!.pendingGold).toBeUndefined();
+    expect(chosen.players[0].resources.ore).toBe(rolled.players[0].resources.ore + 1);
+    expect(chosen.bank!.ore).toBe(rolled.bank!.ore - 1);
+    expect(chosen.events!.slice(-1)).toEqual([
+      { turn: 1, playerId: 'player1', type: 'GOLD_CHOSEN', resources: { ore: 1 } }
+    ]);
+  });
+});
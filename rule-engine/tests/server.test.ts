@@ -0,0 +1,212 @@
+import { AddressInfo } from 'net';
+import { RuleEngineServer } from '../src/server';
+import { GAME_STATE_SCHEMA_VERSION } from '../src/codec';
+import { SEAFARERS_SCENARIOS } from '../src/seafarers';
+import { SCENARIOS } from '../src/scenario';
+
+describe('RuleEngineServer', () => {
+  let server: RuleEngineServer;
+  let baseUrl: string;
+
+  const post = async (path: string, body: unknown) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() as any };
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    server = new RuleEngineServer({ port: 0 });
+    const httpServer = await server.start();
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  describe('POST /game/create', () => {
+    it('should create a game with a populated board', async () => {
+      const { status, body } = await post('/game/create', { playerIds: ['player1', 'player2'] });
+
+      expect(status).toBe(200);
+      expect(body.schemaVersion).toBe(GAME_STATE_SCHEMA_VERSION);
+      expect(body.phase).toBe('SETUP_ROUND_1');
+      expect(body.players).toHaveLength(2);
+      expect(Object.keys(body.board.tiles)).toHaveLength(19);
+      expect(Object.keys(body.board.intersections).length).toBeGreaterThan(0);
+    });
+
+    it('should reject a missing playerIds array', async () => {
+      const { status, body } = await post('/game/create', {});
+
+      expect(status).toBe(400);
+      expect(body.details).toContain('playerIds');
+    });
+
+    it('should reject an invalid player count', async () => {
+      const { status, body } = await post('/game/create', { playerIds: ['player1'] });
+
+      expect(status).toBe(400);
+      expect(body.details).toContain('2-6 players');
+    });
+
+    it('should apply house rules and reject malformed ones', async () => {
+      const created = await post('/game/create', { playerIds: ['player1', 'player2'], rules: { allowUndo: true } });
+      const rejected = await post('/game/create', { playerIds: ['player1', 'player2'], rules: { allowUndo: 1 } });
+
+      expect(created.body.rules).toMatchObject({ allowUndo: true, victoryPointsToWin: 10 });
+      expect(rejected.status).toBe(400);
+      expect(rejected.body.details).toBe('rules.allowUndo must be a boolean');
+    });
+
+    it('should start Cities & Knights games on request', async () => {
+      const created = await post('/game/create', { playerIds: ['player1', 'player2'], citiesAndKnights: true });
+      const rejected = await post('/game/create', { playerIds: ['player1', 'player2'], citiesAndKnights: 'yes' });
+
+      expect(created.status).toBe(200);
+      expect(created.body.citiesAndKnights).toBeDefined();
+      expect(created.body.rules.victoryPointsToWin).toBe(13);
+      expect(rejected.status).toBe(400);
+      expect(rejected.body.details).toBe('citiesAndKnights must be a boolean');
+    });
+
+    it('should start Seafarers games from an id or a map', async () => {
+      const created = await post('/game/create', { playerIds: ['player1', 'player2'], seafarers: 'new-shores' });
+      const unknown = await post('/game/create', { playerIds: ['player1', 'player2'], seafarers: 'atlantis' });
+      const { pirate, ...noPirate } = SEAFARERS_SCENARIOS['new-shores'];
+      const rejected = await post('/game/create', { playerIds: ['player1', 'player2'], seafarers: noPirate });
+
+      expect(created.status).toBe(200);
+      expect(created.body.seafarers.scenario).toBe('new-shores');
+      expect(created.body.board.pirateLocation).toEqual(pirate);
+      expect(unknown.status).toBe(400);
+      expect(unknown.body.details).toBe('Unknown Seafarers scenario: atlantis');
+      expect(rejected.status).toBe(400);
+      expect(rejected.body.details).toBe('seafarers.pirate is required on Seafarers maps');
+    });
+
+    it('should start games on a scenario from an id or a map', async () => {
+      const { harbors, ...standard } = SCENARIOS.standard;
+      const custom = { ...standard, id: 'no-harbors', harbors: [] };
+      const created = await post('/game/create', { playerIds: ['player1', 'player2'], scenario: 'standard' });
+      const fromMap = await post('/game/create', { playerIds: ['player1', 'player2'], scenario: custom });
+      const unknown = await post('/game/create', { playerIds: ['player1', 'player2'], scenario: 'atlantis' });
+      const rejected = await post('/game/create', { playerIds: ['player1', 'player2'], scenario: standard });
+
+      expect(created.status).toBe(200);
+      expect(created.body.board.harbors).toEqual(harbors);
+      expect(fromMap.status).toBe(200);
+      expect(fromMap.body.board.harbors).toEqual([]);
+      expect(unknown.status).toBe(400);
+      expect(unknown.body.details).toBe('Unknown scenario: atlantis');
+      expect(rejected.status).toBe(400);
+      expect(rejected.body.details).toBe('scenario.harbors must be an array');
+    });
+  });
+
+  describe('POST /game/action', () => {
+    it('should apply a valid action and return the new state', async () => {
+      const created = await post('/game/create', { playerIds: ['player1', 'player2'] });
+      const { status, body } = await post('/game/action', {
+        gameState: created.body,
+        action: { type: 'BUILD_SETTLEMENT', playerId: 'player1', payload: { intersectionId: 'i_0,0' } }
+      });
+
+      expect(status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(body.gameState.board.intersections['i_0,0'].building).toEqual({
+        type: 'settlement',
+        playerId: 'player1'
+      });
+      expect(body.gameState.players[0].buildings.settlements).toContain('i_0,0');
+    });
+
+    it('should report rule violations without failing the request', async () => {
+      const created = await post('/game/create', { playerIds: ['player1', 'player2'] });
+      const { status, body } = await post('/game/action', {
+        gameState: created.body,
+        action: { type: 'BUILD_SETTLEMENT', playerId: 'player2', payload: { intersectionId: 'i_0,0' } }
+      });
+
+      expect(status).toBe(200);
+      expect(body.success).toBe(false);
+      expect(body.error).toBe('Not your turn to build');
+      expect(body.violation).toEqual({
+        code: 'NOT_YOUR_TURN',
+        message: 'Not your turn to build',
+        details: { currentPlayerId: 'player1' }
+      });
+    });
+
+    it('should reject malformed actions', async () => {
+      const created = await post('/game/create', { playerIds: ['player1', 'player2'] });
+      const { status, body } = await post('/game/action', {
+        gameState: created.body,
+        action: { type: 'FLY_AWAY', playerId: 'player1' }
+      });
+
+      expect(status).toBe(400);
+      expect(body.details).toContain('action.type');
+    });
+
+    it('should reject a game state without a board', async () => {
+      const created = await post('/game/create', { playerIds: ['player1', 'player2'] });
+      const { status, body } = await post('/game/action', {
+        gameState: { ...created.body, board: undefined },
+        action: { type: 'END_TURN', playerId: 'player1' }
+      });
+
+      expect(status).toBe(400);
+      expect(body.details).toContain('$.board');
+    });
+  });
+
+  describe('POST /game/valid-actions', () => {
+    it('should return the actions available to the current player', async () => {
+      const created = await post('/game/create', { playerIds: ['player1', 'player2'] });
+      const { status, body } = await post('/game/valid-actions', {
+        gameState: created.body,
+        playerId: 'player1'
+      });
+
+      expect(status).toBe(200);
+      expect(body.actions).toEqual(['BUILD_SETTLEMENT']);
+    });
+
+    it('should reject a missing playerId', async () => {
+      const created = await post('/game/create', { playerIds: ['player1', 'player2'] });
+      const { status } = await post('/game/valid-actions', { gameState: created.body });
+
+      expect(status).toBe(400);
+    });
+  });
+
+  describe('POST /game/legal-moves', () => {
+    it('should return parameterized moves for the current player', async () => {
+      const created = await post('/game/create', { playerIds: ['player1', 'player2'] });
+      const { status, body } = await post('/game/legal-moves', {
+        gameState: created.body,
+        playerId: 'player1'
+      });
+
+      expect(status).toBe(200);
+      expect(body.moves).toContainEqual({
+        type: 'BUILD_SETTLEMENT',
+        playerId: 'player1',
+        payload: { intersectionId: 'i_0,0' }
+      });
+    });
+
+    it('should reject a missing playerId', async () => {
+      const created = await post('/game/create', { playerIds: ['player1', 'player2'] });
+      const { status } = await post('/game/legal-moves', { gameState: created.body });
+
+      expect(status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { CatanRuleEngine } from '../src/rule-engine';
+import { ResourceManager } from '../src/resources';
+import { GameState } from '../src/types';
+import { apply } from './helpers';
+
+const currentPlayerId = (gameState: GameState): string => gameState.players[gameState.currentPlayerIndex].id;
+
+// Places the current player's settlement and road on the first spots on offer
+const placeFirstLegal = (gameState: GameState): GameState => {
+  const playerId = currentPlayerId(gameState);
+  const settled = apply(gameState, CatanRuleEngine.getLegalMoves(gameState, playerId)[0]);
+  return apply(settled, CatanRuleEngine.getLegalMoves(settled, playerId)[0]);
+};
+
+describe('Setup', () => {
+  let gameState: GameState;
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2', 'player3'], { seed: 4 });
+  });
+
+  it('should snake through the players and then start the first turn', () => {
+    const order: string[] = [];
+    while (gameState.phase === 'SETUP_ROUND_1' || gameState.phase === 'SETUP_ROUND_2') {
+      order.push(currentPlayerId(gameState));
+      gameState = placeFirstLegal(gameState);
+    }
+
+    expect(order).toEqual(['player1', 'player2', 'player3', 'player3', 'player2', 'player1']);
+    expect(gameState.phase).toBe('PRODUCTION');
+    expect(gameState.currentPlayerIndex).toBe(0);
+    expect(gameState.turn).toBe(3);
+    gameState.players.forEach(player => {
+      expect(player.buildings.settlements).toHaveLength(2);
+      expect(player.buildings.roads).toHaveLength(2);
+    });
+  });
+
+  it('should take a settlement and then one road each round', () => {
+    expect(CatanRuleEngine.processAction(gameState, {
+      type: 'BUILD_ROAD', playerId: 'player1', payload: { edgeId: 'e_0,-1_0,0' }
+    }).violation?.code).toBe('SETUP_SEQUENCE');
+
+    const settled = apply(gameState, { type: 'BUILD_SETTLEMENT', playerId: 'player1', payload: { intersectionId: 'i_0,0' } });
+    expect(CatanRuleEngine.getValidActions(settled, 'player1')).toEqual(['BUILD_ROAD']);
+    expect(CatanRuleEngine.processAction(settled, {
+      type: 'BUILD_SETTLEMENT', playerId: 'player1', payload: { intersectionId: 'i_2,0' }
+    }).violation?.code).toBe('SETUP_SEQUENCE');
+    expect(CatanRuleEngine.processAction(settled, { type: 'END_TURN', playerId: 'player1' }).success).toBe(false);
+  });
+
+  it('should only allow a road touching the settlement just placed', () => {
+    gameState = placeFirstLegal(placeFirstLegal(placeFirstLegal(gameState)));
+    const [firstSettlement] = gameState.players[2].buildings.settlements;
+    const settlementMove = CatanRuleEngine.getLegalMoves(gameState, 'player3')
+      .find(move => move.payload.intersectionId !== firstSettlement)!;
+    const settled = apply(gameState, settlementMove);
+
+    const awayEdge = Array.from(settled.board.edges.values()).find(edge =>
+      edge.intersections.includes(firstSettlement) && !edge.road)!;
+    const result = CatanRuleEngine.processAction(settled, {
+      type: 'BUILD_ROAD', playerId: 'player3', payload: { edgeId: awayEdge.id }
+    });
+
+    expect(result.violation).toMatchObject({
+      code: 'NOT_CONNECTED',
+      details: { intersectionId: settlementMove.payload.intersectionId }
+    });
+    CatanRuleEngine.getLegalMoves(settled, 'player3').forEach(move => {
+      expect(settled.board.edges.get(move.payload.edgeId)!.intersections)
+        .toContain(settlementMove.payload.intersectionId);
+    });
+  });
+
+  it('should pay out starting resources for the second settlement only', () => {
+    gameState = placeFirstLegal(gameState);
+    expect(ResourceManager.getTotalResources(gameState.players[0].resources)).toBe(0);
+
+    gameState = placeFirstLegal(placeFirstLegal(gameState));
+    const settlementMove = CatanRuleEngine.getLegalMoves(gameState, 'player3')
+      .find(move => Object.keys(ResourceManager.getStartingResources(gameState, move.payload.intersectionId)).length > 0)!;
+    const expected = ResourceManager.getStartingResources(gameState, settlementMove.payload.intersectionId);
+
+    const settled = apply(gameState, settlementMove);
+
+    expect(settled.players[2].resources).toEqual(ResourceManager.addResources(gameState.players[2].resources, expected));
+    expect(settled.bank).toEqual(ResourceManager.subtractResources(gameState.bank!, expected));
+    expect(settled.events![settled.events!.length - 1]).toEqual({
+      turn: 2,
+      playerId: 'player3',
+      type: 'SETTLEMENT_BUILT',
+      intersectionId: settlementMove.payload.intersectionId,
+      resources: expected
+    });
+  });
+});
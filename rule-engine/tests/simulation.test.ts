@@ -0,0 +1,141 @@
+import { Simulator, ChanceOutcome } from '../src/simulation';
+import { CatanRuleEngine } from '../src/rule-engine';
+import { mulberry32 } from '../src/random';
+import { GameState, Action } from '../src/types';
+import { apply } from './helpers';
+
+const ROLL: Action = { type: 'ROLL_DICE', playerId: 'player1' };
+const STEAL: Action = { type: 'STEAL_RESOURCE', playerId: 'player1', payload: { targetPlayerId: 'player2' } };
+
+describe('Simulator', () => {
+  let gameState: GameState;
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 3 });
+    gameState.phase = 'ACTION';
+  });
+
+  // Player 2 holds a wood and three ore beside the pasture, and player 1 has just robbed it
+  const robbed = (): GameState => {
+    gameState.phase = 'MOVE_ROBBER';
+    gameState.board.intersections.get('i_1,0')!.building = { type: 'settlement', playerId: 'player2' };
+    gameState.players[1].resources = { wood: 1, brick: 0, wool: 0, wheat: 0, ore: 3 };
+    return apply(gameState, { type: 'MOVE_ROBBER', playerId: 'player1', payload: { robberLocation: { q: 1, r: 0 } } });
+  };
+
+  describe('simulate', () => {
+    it('should play the actions without touching the live game', () => {
+      gameState.events = [{ type: 'TURN_ENDED', turn: 0, playerId: 'player2' }];
+      const result = Simulator.simulate(gameState, [
+        { type: 'END_TURN', playerId: 'player1' },
+        { type: 'ROLL_DICE', playerId: 'player2' }
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.state.currentPlayerIndex).toBe(1);
+      expect(result.state.diceRoll).toBeDefined();
+      expect(result.state.events!.map(event => event.type).slice(0, 2)).toEqual(['TURN_ENDED', 'DICE_ROLLED']);
+      expect(gameState.currentPlayerIndex).toBe(0);
+      expect(gameState.phase).toBe('ACTION');
+      expect(gameState.events).toHaveLength(1);
+    });
+
+    it('should stop at the first action the rules refuse', () => {
+      const result = Simulator.simulate(gameState, [
+        { type: 'END_TURN', playerId: 'player1' },
+        { type: 'END_TURN', playerId: 'player1' },
+        { type: 'ROLL_DICE', playerId: 'player2' }
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.failedActionIndex).toBe(1);
+      expect(result.violation?.code).toBe('WRONG_PHASE');
+      expect(result.state.currentPlayerIndex).toBe(1);
+      expect(result.state.phase).toBe('PRODUCTION');
+    });
+  });
+
+  describe('chance outcomes', () => {
+    it('should weigh every dice sum', () => {
+      const outcomes = Simulator.getChanceOutcomes(gameState, ROLL);
+
+      expect(outcomes).toHaveLength(11);
+      expect(outcomes.find(({ outcome }) => outcome.type === 'DICE' && outcome.sum === 7)!.probability).toBe(6 / 36);
+      expect(outcomes.reduce((sum, { probability }) => sum + probability, 0)).toBeCloseTo(1);
+      expect(Simulator.getChanceOutcomes(gameState, { type: 'END_TURN', playerId: 'player1' })).toEqual([]);
+    });
+
+    it('should weigh development cards by what is left in the deck', () => {
+      gameState.developmentCardDeck = ['knight', 'knight', 'knight', 'monopoly'];
+
+      expect(Simulator.getChanceOutcomes(gameState, { type: 'BUY_DEVELOPMENT_CARD', playerId: 'player1' })).toEqual([
+        { outcome: { type: 'DEVELOPMENT_CARD', card: 'knight' }, probability: 0.75 },
+        { outcome: { type: 'DEVELOPMENT_CARD', card: 'monopoly' }, probability: 0.25 }
+      ]);
+    });
+
+    it('should weigh steals by the target hand', () => {
+      expect(Simulator.getChanceOutcomes(robbed(), STEAL)).toEqual([
+        { outcome: { type: 'STEAL', resource: 'wood' }, probability: 0.25 },
+        { outcome: { type: 'STEAL', resource: 'ore' }, probability: 0.75 }
+      ]);
+    });
+
+    it('should sample outcomes in proportion to their odds', () => {
+      const rng = mulberry32(5);
+      let sevens = 0;
+      for (let sample = 0; sample < 3600; sample++) {
+        const outcome = Simulator.sampleChanceOutcome(gameState, ROLL, rng)!;
+        if (outcome.type === 'DICE' && outcome.sum === 7) sevens++;
+      }
+
+      expect(sevens).toBeGreaterThan(500);
+      expect(sevens).toBeLessThan(700);
+      expect(Simulator.sampleChanceOutcome(gameState, { type: 'END_TURN', playerId: 'player1' }, rng)).toBeUndefined();
+    });
+  });
+
+  describe('applyChanceOutcome', () => {
+    it('should roll the sum asked for', () => {
+      gameState.phase = 'PRODUCTION';
+      [2, 7, 8, 12].forEach(sum => {
+        const result = Simulator.applyChanceOutcome(gameState, ROLL, { type: 'DICE', sum });
+        expect(result.success).toBe(true);
+        expect(result.state.diceRoll![0] + result.state.diceRoll![1]).toBe(sum);
+      });
+    });
+
+    it('should draw the card asked for', () => {
+      gameState.developmentCardDeck = ['monopoly', 'knight', 'knight'];
+      gameState.players[0].resources = { wood: 0, brick: 0, wool: 1, wheat: 1, ore: 1 };
+
+      const result = Simulator.applyChanceOutcome(
+        gameState,
+        { type: 'BUY_DEVELOPMENT_CARD', playerId: 'player1' },
+        { type: 'DEVELOPMENT_CARD', card: 'monopoly' }
+      );
+      expect(result.state.players[0].developmentCards.monopoly).toBe(1);
+      expect(result.state.developmentCardDeck).toEqual(['knight', 'knight']);
+      expect(gameState.developmentCardDeck).toEqual(['monopoly', 'knight', 'knight']);
+    });
+
+    it('should steal the resource asked for and refuse impossible outcomes', () => {
+      const state = robbed();
+      const result = Simulator.applyChanceOutcome(state, STEAL, { type: 'STEAL', resource: 'wood' });
+
+      expect(result.success).toBe(true);
+      expect(result.state.players[0].resources.wood).toBe(state.players[0].resources.wood + 1);
+      expect(result.state.players[1].resources).toMatchObject({ wood: 0, ore: 3 });
+
+      const impossible: ChanceOutcome = { type: 'STEAL', resource: 'brick' };
+      expect(Simulator.applyChanceOutcome(state, STEAL, impossible).violation?.code).toBe('INVALID_ACTION');
+    });
+
+    it('should pass rule violations through', () => {
+      const result = Simulator.applyChanceOutcome(gameState, ROLL, { type: 'DICE', sum: 6 });
+
+      expect(result.success).toBe(false);
+      expect(result.violation?.code).toBe('WRONG_PHASE');
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { CatanRuleEngine } from '../src/rule-engine';
+import { TradingManager } from '../src/trading';
+import { GameState, Action } from '../src/types';
+import { apply } from './helpers';
+
+describe('Trade negotiation', () => {
+  let gameState: GameState;
+
+  const propose = (playerId: string, payload: any): Action => ({ type: 'PROPOSE_TRADE', playerId, payload });
+  const answer = (type: Action['type'], playerId: string, offerId: string): Action => ({ type, playerId, payload: { offerId } });
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2', 'player3']);
+    gameState.phase = 'ACTION';
+    gameState.players[0].resources = { wood: 2, brick: 0, wool: 0, wheat: 0, ore: 0 };
+    gameState.players[1].resources = { wood: 0, brick: 0, wool: 0, wheat: 0, ore: 1 };
+    gameState.players[2].resources = { wood: 0, brick: 1, wool: 0, wheat: 0, ore: 1 };
+  });
+
+  it('should only move cards once the other player accepts', () => {
+    const proposed = apply(gameState, propose('player1', { toPlayerId: 'player2', offering: { wood: 1 }, requesting: { ore: 1 } }));
+
+    expect(proposed.tradeOffers).toEqual([
+      { id: 'trade-1', fromPlayerId: 'player1', toPlayerId: 'player2', offering: { wood: 1 }, requesting: { ore: 1 } }
+    ]);
+    expect(proposed.players[0].resources.wood).toBe(2);
+
+    const accepted = apply(proposed, answer('ACCEPT_TRADE', 'player2', 'trade-1'));
+
+    expect(accepted.players[0].resources).toMatchObject({ wood: 1, ore: 1 });
+    expect(accepted.players[1].resources).toMatchObject({ wood: 1, ore: 0 });
+    expect(accepted.tradeOffers).toEqual([]);
+    expect(accepted.events!.slice(-1)[0]).toEqual({
+      turn: 1,
+      playerId: 'player2',
+      type: 'TRADED',
+      toPlayerId: 'player1',
+      offering: { ore: 1 },
+      requesting: { wood: 1 },
+      offerId: 'trade-1'
+    });
+  });
+
+  it('should only let the player an offer was made to answer it', () => {
+    const proposed = apply(gameState, propose('player1', { toPlayerId: 'player2', offering: { wood: 1 }, requesting: { ore: 1 } }));
+
+    const result = CatanRuleEngine.processAction(proposed, answer('ACCEPT_TRADE', 'player3', 'trade-1'));
+    expect(result.violation?.code).toBe('NOT_TRADE_PARTY');
+    expect(CatanRuleEngine.processAction(proposed, answer('CANCEL_TRADE', 'player2', 'trade-1')).violation?.code)
+      .toBe('NOT_TRADE_PARTY');
+    expect(CatanRuleEngine.processAction(proposed, answer('ACCEPT_TRADE', 'player2', 'trade-9')).violation?.code)
+      .toBe('TRADE_NOT_FOUND');
+  });
+
+  it('should only allow trades with the player whose turn it is', () => {
+    const result = CatanRuleEngine.processAction(gameState, propose('player2', {
+      toPlayerId: 'player3',
+      offering: { ore: 1 },
+      requesting: { brick: 1 }
+    }));
+    expect(result.violation?.code).toBe('NOT_YOUR_TURN');
+
+    // Nor may an opponent make an offer open to the whole table
+    expect(CatanRuleEngine.processAction(gameState, propose('player2', { offering: { ore: 1 }, requesting: { wood: 1 } }))
+      .violation?.code).toBe('NOT_YOUR_TURN');
+  });
+
+  it('should reject offers that give nothing, repeat a resource or are not covered by the hand', () => {
+    const code = (payload: any) => CatanRuleEngine.processAction(gameState, propose('player1', payload)).violation?.code;
+
+    expect(code({ toPlayerId: 'player2', offering: { wood: 1 }, requesting: {} })).toBe('INVALID_TRADE');
+    expect(code({ toPlayerId: 'player2', offering: { wood: 1 }, requesting: { wood: 1, ore: 1 } })).toBe('INVALID_TRADE');
+    expect(code({ toPlayerId: 'player1', offering: { wood: 1 }, requesting: { ore: 1 } })).toBe('INVALID_TRADE');
+    expect(code({ toPlayerId: 'player2', offering: { wood: 3 }, requesting: { ore: 1 } })).toBe('INSUFFICIENT_RESOURCES');
+  });
+
+  it('should only trade whole cards', () => {
+    const half = propose('player1', { toPlayerId: 'player2', offering: { wood: 0.5 }, requesting: { ore: 0.5 } });
+    expect(CatanRuleEngine.processAction(gameState, half).violation).toMatchObject({
+      code: 'INVALID_TRADE',
+      details: { offering: { wood: 0.5 } }
+    });
+    expect(CatanRuleEngine.processAction(gameState, propose('player1', {
+      toPlayerId: 'player2', offering: { wood: 1, brick: -1 }, requesting: { ore: 1 }
+    })).violation?.code).toBe('INVALID_TRADE');
+
+    const proposed = apply(gameState, propose('player1', { offering: { wood: 1 }, requesting: { ore: 1 } }));
+    const counter = CatanRuleEngine.processAction(proposed, {
+      type: 'COUNTER_TRADE',
+      playerId: 'player2',
+      payload: { offerId: 'trade-1', offering: { ore: 1 }, requesting: { wood: 1.5 } }
+    });
+    expect(counter.violation).toMatchObject({ code: 'INVALID_TRADE', details: { requesting: { wood: 1.5 } } });
+  });
+
+  it('should not accept an offer the accepting player cannot pay for', () => {
+    const proposed = apply(gameState, propose('player1', { offering: { wood: 1 }, requesting: { brick: 1 } }));
+
+    expect(CatanRuleEngine.processAction(proposed, answer('ACCEPT_TRADE', 'player2', 'trade-1')).violation?.code)
+      .toBe('INSUFFICIENT_RESOURCES');
+    expect(CatanRuleEngine.getLegalMoves(proposed, 'player2')).toEqual([answer('REJECT_TRADE', 'player2', 'trade-1')]);
+    expect(CatanRuleEngine.getLegalMoves(proposed, 'player3')).toEqual([
+      answer('ACCEPT_TRADE', 'player3', 'trade-1'),
+      answer('REJECT_TRADE', 'player3', 'trade-1')
+    ]);
+  });
+
+  it('should keep an open offer up until every opponent rejects it', () => {
+    let state = apply(gameState, propose('player1', { offering: { wood: 1 }, requesting: { ore: 1 } }));
+
+    state = apply(state, answer('REJECT_TRADE', 'player2', 'trade-1'));
+    expect(state.tradeOffers![0].rejectedBy).toEqual(['player2']);
+    expect(CatanRuleEngine.processAction(state, answer('ACCEPT_TRADE', 'player2', 'trade-1')).violation?.code)
+      .toBe('NOT_TRADE_PARTY');
+
+    state = apply(state, answer('REJECT_TRADE', 'player3', 'trade-1'));
+    expect(state.tradeOffers).toEqual([]);
+  });
+
+  it('should send a counter-offer back to the player who made the offer', () => {
+    let state = apply(gameState, propose('player1', { offering: { wood: 2 }, requesting: { ore: 1 } }));
+    state = apply(state, {
+      type: 'COUNTER_TRADE',
+      playerId: 'player3',
+      payload: { offerId: 'trade-1', offering: { ore: 1 }, requesting: { wood: 1 } }
+    });
+
+    expect(state.tradeOffers![1]).toEqual({
+      id: 'trade-2',
+      fromPlayerId: 'player3',
+      toPlayerId: 'player1',
+      offering: { ore: 1 },
+      requesting: { wood: 1 },
+      counterTo: 'trade-1'
+    });
+    expect(CatanRuleEngine.getValidActions(state, 'player1')).toEqual(expect.arrayContaining(['ACCEPT_TRADE', 'CANCEL_TRADE']));
+
+    state = apply(state, answer('ACCEPT_TRADE', 'player1', 'trade-2'));
+    expect(state.players[0].resources).toMatchObject({ wood: 1, ore: 1 });
+    expect(state.players[2].resources).toMatchObject({ wood: 1, ore: 0 });
+    expect(state.tradeOffers!.map(offer => offer.id)).toEqual(['trade-1']);
+  });
+
+  it('should let the player who made an offer withdraw it', () => {
+    let state = apply(gameState, propose('player1', { offering: { wood: 1 }, requesting: { ore: 1 } }));
+    state = apply(state, answer('CANCEL_TRADE', 'player1', 'trade-1'));
+
+    expect(state.tradeOffers).toEqual([]);
+    expect(state.events!.slice(-1)[0]).toEqual({ turn: 1, playerId: 'player1', type: 'TRADE_CANCELLED', offerId: 'trade-1' });
+  });
+
+  it('should let unanswered offers lapse at the end of the turn', () => {
+    let state = apply(gameState, propose('player1', { offering: { wood: 1 }, requesting: { ore: 1 } }));
+    state = apply(state, { type: 'END_TURN', playerId: 'player1' });
+
+    expect(state.tradeOffers).toBeUndefined();
+    expect(state.tradeOfferCount).toBe(1);
+  });
+
+  it('should list the offers a player can answer', () => {
+    const state = TradingManager.proposeTrade(gameState, {
+      fromPlayerId: 'player1',
+      toPlayerId: 'player3',
+      offering: { wood: 1 },
+      requesting: { brick: 1 }
+    });
+
+    expect(TradingManager.getTradeOffersFor(state, 'player3').map(offer => offer.id)).toEqual(['trade-1']);
+    expect(TradingManager.getTradeOffersFor(state, 'player2')).toEqual([]);
+    expect(CatanRuleEngine.getValidActions(state, 'player2')).toEqual([]);
+    expect(CatanRuleEngine.getValidActions(state, 'player3')).toEqual(['COUNTER_TRADE', 'REJECT_TRADE', 'ACCEPT_TRADE']);
+  });
+});
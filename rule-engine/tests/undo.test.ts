@@ -0,0 +1,113 @@
+import { CatanRuleEngine } from '../src/rule-engine';
+import { encodeGameState, decodeGameState } from '../src/codec';
+import { GameState, Action } from '../src/types';
+import { apply } from './helpers';
+
+const undo = (playerId: string = 'player1'): Action => ({ type: 'UNDO', playerId });
+
+const buildRoad = (edgeId: string): Action => ({ type: 'BUILD_ROAD', playerId: 'player1', payload: { edgeId } });
+
+// Mid-game, with a settlement at i_0,0 and enough for two roads
+const midGame = (gameState: GameState): GameState => {
+  gameState.phase = 'ACTION';
+  gameState.players[0].resources = { wood: 2, brick: 2, wool: 0, wheat: 0, ore: 0 };
+  gameState.players[0].buildings.settlements = ['i_0,0'];
+  gameState.board.intersections.get('i_0,0')!.building = { type: 'settlement', playerId: 'player1' };
+  return gameState;
+};
+
+describe('Undo', () => {
+  let gameState: GameState;
+
+  beforeEach(() => {
+    gameState = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 3, rules: { allowUndo: true } });
+  });
+
+  it('should be disabled unless the game allows it', () => {
+    let state = CatanRuleEngine.createNewGame(['player1', 'player2'], { seed: 3 });
+    state = apply(state, { type: 'BUILD_SETTLEMENT', playerId: 'player1', payload: { intersectionId: 'i_0,0' } });
+
+    const result = CatanRuleEngine.processAction(state, undo());
+
+    expect(result.success).toBe(false);
+    expect(result.violation?.code).toBe('UNDO_DISABLED');
+    expect(state.undoHistory).toBeUndefined();
+  });
+
+  it('should take back the last action, one at a time', () => {
+    gameState = midGame(gameState);
+    const first = apply(gameState, buildRoad('e_0,0_1,-1'));
+    const second = apply(first, buildRoad('e_0,-1_0,0'));
+
+    const undoneSecond = apply(second, undo());
+    expect(encodeGameState(undoneSecond)).toEqual(encodeGameState(first));
+    expect(CatanRuleEngine.getLegalMoves(undoneSecond, 'player1')).toContainEqual(undo());
+
+    const undoneFirst = apply(undoneSecond, undo());
+    expect(encodeGameState(undoneFirst)).toEqual(encodeGameState(gameState));
+    expect(undoneFirst.board.edges.get('e_0,0_1,-1')!.road).toBeUndefined();
+    expect(undoneFirst.events).toEqual([]);
+
+    const result = CatanRuleEngine.processAction(undoneFirst, undo());
+    expect(result.violation?.code).toBe('NOTHING_TO_UNDO');
+  });
+
+  it('should only let the current player undo', () => {
+    const settled = apply(gameState, { type: 'BUILD_SETTLEMENT', playerId: 'player1', payload: { intersectionId: 'i_0,0' } });
+
+    const result = CatanRuleEngine.processAction(settled, undo('player2'));
+
+    expect(result.violation).toMatchObject({ code: 'NOT_YOUR_TURN', details: { currentPlayerId: 'player1' } });
+    expect(CatanRuleEngine.getValidActions(settled, 'player2')).not.toContain('UNDO');
+    expect(CatanRuleEngine.getValidActions(settled, 'player1')).toContain('UNDO');
+  });
+
+  it('should not take back anything that revealed hidden information', () => {
+    gameState.phase = 'ACTION';
+    gameState.players[0].resources = { wood: 4, brick: 0, wool: 1, wheat: 1, ore: 1 };
+
+    const traded = apply(gameState, {
+      type: 'TRADE_WITH_BANK',
+      playerId: 'player1',
+      payload: { tradeOffer: { fromPlayerId: 'player1', offering: { wood: 4 }, requesting: { ore: 1 } } }
+    });
+    expect(apply(traded, undo()).players[0].resources).toEqual(gameState.players[0].resources);
+
+    const bought = apply(traded, { type: 'BUY_DEVELOPMENT_CARD', playerId: 'player1' });
+    expect(bought.undoHistory).toBeUndefined();
+    expect(CatanRuleEngine.processAction(bought, undo()).violation?.code).toBe('NOTHING_TO_UNDO');
+
+    gameState.players[0].developmentCards.invention = 1;
+    const invented = apply(gameState, {
+      type: 'PLAY_DEVELOPMENT_CARD',
+      playerId: 'player1',
+      payload: { cardType: 'invention', resources: ['brick', 'brick'] }
+    });
+    expect(invented.undoHistory).toBeUndefined();
+    expect(CatanRuleEngine.processAction(invented, undo()).violation?.code).toBe('NOTHING_TO_UNDO');
+
+    gameState.phase = 'PRODUCTION';
+    const rolled = apply(gameState, { type: 'ROLL_DICE', playerId: 'player1' });
+    expect(rolled.undoHistory).toBeUndefined();
+  });
+
+  it('should clear the history when the turn ends', () => {
+    let state = apply(gameState, { type: 'BUILD_SETTLEMENT', playerId: 'player1', payload: { intersectionId: 'i_0,0' } });
+    state = apply(state, { type: 'BUILD_ROAD', playerId: 'player1', payload: { edgeId: 'e_0,-1_0,0' } });
+
+    expect(state.currentPlayerIndex).toBe(1);
+    expect(state.undoHistory).toBeUndefined();
+    expect(CatanRuleEngine.processAction(state, undo('player2')).violation?.code).toBe('NOTHING_TO_UNDO');
+  });
+
+  it('should survive the codec', () => {
+    let state = apply(midGame(gameState), buildRoad('e_0,0_1,-1'));
+    state = apply(state, buildRoad('e_0,-1_0,0'));
+
+    const decoded = decodeGameState(JSON.parse(JSON.stringify(encodeGameState(state))));
+
+    expect(decoded.undoHistory!.actions).toHaveLength(2);
+    expect(decoded.undoHistory!.checkpoint.board.intersections).toBeInstanceOf(Map);
+    expect(encodeGameState(apply(decoded, undo()))).toEqual(encodeGameState(apply(state, undo())));
+  });
+});
@@ -0,0 +1,5 @@
+// GameState contract shared by the rule engine, game engine and AI player
+export * from './types';
+
+// Runtime validators for data crossing service boundaries
+export * from './validators';
@@ -0,0 +1,427 @@
+export type ResourceType = 'wood' | 'brick' | 'wool' | 'wheat' | 'ore';
+
+// Seafarers adds sea (ships and the pirate) and gold fields (any resource the owner picks)
+export type TerrainType = 'forest' | 'pasture' | 'field' | 'hill' | 'mountain' | 'desert' | 'sea' | 'gold';
+
+export type DevelopmentCardType = 'knight' | 'roadBuilding' | 'invention' | 'monopoly' | 'victoryPoint';
+
+// Cities & Knights: cities on forest, pasture and mountain hexes also produce commodities
+export type CommodityType = 'paper' | 'cloth' | 'coin';
+
+export type ImprovementTrack = 'trade' | 'politics' | 'science';
+
+export type EventDieFace = 'ship' | ImprovementTrack;
+
+export type ProgressCardType =
+  | 'irrigation' // science: 2 wheat per field next to your buildings
+  | 'mining' // science: 2 ore per mountain next to your buildings
+  | 'printer' // science: victory point, revealed when drawn
+  | 'resourceMonopoly' // trade: up to 2 of a resource from each opponent
+  | 'tradeMonopoly' // trade: 1 of a commodity from each opponent
+  | 'warlord' // politics: activate all your knights for free
+  | 'constitution'; // politics: victory point, revealed when drawn
+
+export type GamePhase =
+  | 'SETUP_ROUND_1'
+  | 'SETUP_ROUND_2'
+  | 'PRODUCTION'
+  | 'ACTION'
+  | 'SPECIAL_BUILDING' // 5-6 players: the paired player's action phase
+  | 'DISCARD' // after a 7: players in pendingDiscards give up half their hand
+  | 'MOVE_ROBBER'
+  | 'STEAL' // robber moved next to another player's building
+  | 'ROAD_BUILDING' // placing the free roads from a road building card
+  | 'GOLD' // Seafarers: players in seafarers.pendingGold pick the resources their gold fields produced
+  | 'GAME_OVER';
+
+export type ActionType = 
+  | 'ROLL_DICE'
+  | 'PLAY_DEVELOPMENT_CARD'
+  | 'BUILD_ROAD'
+  | 'BUILD_SETTLEMENT'
+  | 'BUILD_CITY'
+  | 'BUY_DEVELOPMENT_CARD'
+  | 'PROPOSE_TRADE'
+  | 'COUNTER_TRADE'
+  | 'ACCEPT_TRADE'
+  | 'REJECT_TRADE'
+  | 'CANCEL_TRADE'
+  | 'TRADE_WITH_BANK'
+  | 'MOVE_ROBBER'
+  | 'DISCARD_RESOURCES'
+  | 'STEAL_RESOURCE'
+  | 'END_TURN'
+  | 'UNDO'
+  // Cities & Knights
+  | 'BUILD_KNIGHT'
+  | 'ACTIVATE_KNIGHT'
+  | 'PROMOTE_KNIGHT'
+  | 'IMPROVE_CITY'
+  | 'PLAY_PROGRESS_CARD'
+  // Seafarers
+  | 'BUILD_SHIP'
+  | 'MOVE_SHIP'
+  | 'CHOOSE_GOLD';
+
+export interface HexCoordinate {
+  q: number; // axial coordinate q
+  r: number; // axial coordinate r
+}
+
+export interface Intersection {
+  id: string;
+  hexes: HexCoordinate[]; // up to 3 adjacent hexes
+  edges: string[]; // 3 connected edge IDs
+  building?: {
+    type: 'settlement' | 'city';
+    playerId: string;
+  };
+}
+
+export interface Edge {
+  id: string;
+  intersections: [string, string]; // 2 connected intersection IDs
+  road?: {
+    playerId: string;
+  };
+  ship?: {
+    playerId: string;
+  };
+}
+
+export type PortType = 'generic' | ResourceType;
+
+export interface Port {
+  type: PortType;
+  ratio: number; // 3 for generic, 2 for resource harbors
+}
+
+// A harbor sits on a coastal edge; settlements and cities on either endpoint use it
+export interface Harbor extends Port {
+  edgeId: string;
+}
+
+export interface Tile {
+  coordinate: HexCoordinate;
+  terrain: TerrainType;
+  numberDisc?: number; // 2-12, undefined for desert
+  hasRobber: boolean;
+}
+
+export interface Resources {
+  wood: number;
+  brick: number;
+  wool: number;
+  wheat: number;
+  ore: number;
+}
+
+export interface DevelopmentCards {
+  knight: number;
+  roadBuilding: number;
+  invention: number;
+  monopoly: number;
+  victoryPoint: number;
+}
+
+export interface Player {
+  id: string;
+  color: string;
+  resources: Resources;
+  developmentCards: DevelopmentCards;
+  buildings: {
+    roads: string[]; // edge IDs
+    settlements: string[]; // intersection IDs
+    cities: string[]; // intersection IDs
+    ships?: string[]; // Seafarers: edge IDs
+  };
+  specialCards: {
+    longestRoad: boolean;
+    largestArmy: boolean;
+  };
+  knightsPlayed: number;
+  victoryPoints: number; // public points; victory point cards stay hidden until they win the game
+  canPlayDevCard: boolean; // false once a development card has been played this turn
+  newDevelopmentCards?: Partial<DevelopmentCards>; // bought this turn, so not yet playable (included in developmentCards)
+}
+
+export interface GameBoard {
+  tiles: Map<string, Tile>; // key: "q,r"
+  intersections: Map<string, Intersection>;
+  edges: Map<string, Edge>;
+  harbors: Harbor[];
+  robberLocation: HexCoordinate;
+  pirateLocation?: HexCoordinate; // Seafarers: a sea hex
+}
+
+export interface GameState {
+  id: string;
+  phase: GamePhase;
+  currentPlayerIndex: number;
+  primaryPlayerIndex?: number; // whose turn it is while the paired player builds
+  resumePhase?: GamePhase; // where a robber or road building sub-phase returns to
+  pendingDiscards?: Record<string, number>; // playerId -> cards still owed during DISCARD
+  freeRoadsRemaining?: number; // roads left to place during ROAD_BUILDING
+  players: Player[];
+  board: GameBoard;
+  developmentCardDeck: DevelopmentCardType[];
+  bank?: Resources; // resource cards left in the supply; unlimited when absent
+  diceRoll?: [number, number];
+  turn: number;
+  winner?: string;
+  seed: number; // seed the game was created with
+  rng: RandomState; // generator position after the last random decision
+  events?: GameEvent[]; // everything that has happened, oldest first
+  rules?: GameRules; // house rules chosen when the game was created
+  undoHistory?: UndoHistory; // takebacks available to the current player
+  tradeOffers?: OpenTradeOffer[]; // player trades awaiting an answer; they lapse when the turn ends
+  tradeOfferCount?: number; // offers made so far, so ids are never reused
+  citiesAndKnights?: CitiesAndKnightsState; // only in games played with the expansion
+  seafarers?: SeafarersState; // only in games played on a Seafarers scenario
+}
+
+export interface Commodities {
+  paper: number;
+  cloth: number;
+  coin: number;
+}
+
+export interface Knight {
+  intersectionId: string;
+  playerId: string;
+  level: 1 | 2 | 3; // basic, strong, mighty
+  active: boolean; // only active knights defend against the barbarians
+}
+
+export interface CitiesAndKnightsPlayer {
+  commodities: Commodities;
+  improvements: Record<ImprovementTrack, number>; // 0-5 per track
+  progressCards: ProgressCardType[]; // hidden hand, played with PLAY_PROGRESS_CARD
+  victoryCards: ProgressCardType[]; // victory point progress cards, revealed as soon as they are drawn
+  defenderPoints: number; // victory points won as the Defender of Catan
+}
+
+export interface BarbarianAttack {
+  strength: number; // cities on the board
+  defense: number; // levels of active knights
+  defenderId?: string; // sole strongest defender of a successful defense
+  pillaged: string[]; // intersections of cities reduced to settlements
+}
+
+export interface CitiesAndKnightsState {
+  players: Record<string, CitiesAndKnightsPlayer>;
+  knights: Knight[];
+  barbarianPosition: number; // steps the ship has sailed; it attacks on reaching the end of the track
+  barbarianAttacks: number;
+  lastBarbarianAttack?: BarbarianAttack;
+  metropolises: Partial<Record<ImprovementTrack, string>>; // track -> intersection of the city holding it
+  progressDecks: Record<ImprovementTrack, ProgressCardType[]>; // drawn from the end
+  eventDie?: EventDieFace; // the last roll of the event die
+}
+
+export interface SeafarersState {
+  scenario: string; // id of the scenario map
+  islandBonus: number; // points for a player's first settlement on each island beyond their home islands
+  homeIslands: Record<string, string[]>; // playerId -> islands settled during setup
+  bonusIslands: Record<string, string[]>; // playerId -> islands that have paid the bonus
+  pendingGold?: Record<string, number>; // playerId -> resources still to pick during GOLD
+  shipsBuiltThisTurn: string[]; // edge IDs; these ships can't move until next turn
+  shipMoved: boolean; // a player may move one ship per turn
+  pirateTheft?: boolean; // the STEAL phase follows a pirate move, so the victims are ship owners
+}
+
+export interface GameRules {
+  victoryPointsToWin: number;
+  discardLimit: number; // a 7 costs half the hand of anyone holding more than this
+  friendlyRobber: boolean; // players with 2 VP or fewer can't be stolen from
+  developmentCardDeck: Record<DevelopmentCardType, number>; // how many of each card is shuffled in
+  bankTradeRatio: number; // cards given per card received, without a harbor
+  bankResourcesPerType: number; // size of the resource supply, per resource
+  buildingLimits: BuildingLimits; // pieces each player owns
+  allowUndo: boolean;
+}
+
+export interface BuildingLimits {
+  roads: number;
+  settlements: number;
+  cities: number;
+}
+
+// What a game may override at creation; the deck and limits merge per key
+export type GameRuleOverrides = Partial<Omit<GameRules, 'developmentCardDeck' | 'buildingLimits'>> & {
+  developmentCardDeck?: Partial<GameRules['developmentCardDeck']>;
+  buildingLimits?: Partial<BuildingLimits>;
+};
+
+/**
+ * The state before the current player's run of reversible actions, plus those
+ * actions. Undo replays all but the last one from the checkpoint.
+ */
+export interface UndoHistory {
+  checkpoint: GameState;
+  actions: Action[];
+}
+
+/**
+ * What one player is allowed to see of a game. Opponents' hands shrink to their
+ * sizes, and the deck order and random state are dropped since they predict
+ * every draw and roll still to come. Spectators get a view with no viewerId.
+ */
+export interface GameStateView
+  extends Omit<GameState, 'players' | 'developmentCardDeck' | 'seed' | 'rng' | 'undoHistory' | 'citiesAndKnights'> {
+  viewerId?: string;
+  players: PlayerView[];
+  developmentCardsRemaining: number;
+  citiesAndKnights?: CitiesAndKnightsView;
+}
+
+export interface CitiesAndKnightsView extends Omit<CitiesAndKnightsState, 'players' | 'progressDecks'> {
+  players: Record<string, CitiesAndKnightsPlayerView>;
+  progressCardsRemaining: Record<ImprovementTrack, number>;
+}
+
+export interface CitiesAndKnightsPlayerView extends Omit<CitiesAndKnightsPlayer, 'commodities' | 'progressCards'> {
+  commodities?: Commodities; // only on the viewer's own player
+  progressCards?: ProgressCardType[]; // only on the viewer's own player
+  commodityCount: number;
+  progressCardCount: number;
+}
+
+export interface PlayerView extends Omit<Player, 'resources' | 'developmentCards' | 'newDevelopmentCards'> {
+  resources?: Resources; // only on the viewer's own player
+  developmentCards?: DevelopmentCards; // only on the viewer's own player
+  newDevelopmentCards?: Partial<DevelopmentCards>; // only on the viewer's own player
+  resourceCount: number;
+  developmentCardCount: number;
+}
+
+/**
+ * A player-to-player trade waiting for an answer. One side is always the
+ * player whose turn it is; an offer with no toPlayerId is open to every
+ * opponent of its maker.
+ */
+export interface OpenTradeOffer extends TradeOffer {
+  id: string;
+  counterTo?: string; // the offer this one answers
+  rejectedBy?: string[]; // opponents who have turned down an open offer
+}
+
+export type AwardType = 'longestRoad' | 'largestArmy';
+
+interface GameEventBase {
+  turn: number;
+  playerId: string; // whose action caused the event
+  visibleTo?: string[]; // only these players may see `secret`
+}
+
+export type GameEvent =
+  | GameEventBase & { type: 'DICE_ROLLED'; dice: [number, number] }
+  | GameEventBase & { type: 'RESOURCES_PRODUCED'; production: Record<string, Partial<Resources>> }
+  | GameEventBase & { type: 'ROAD_BUILT'; edgeId: string; free: boolean }
+  | GameEventBase & { type: 'SETTLEMENT_BUILT'; intersectionId: string; resources?: Partial<Resources> } // starting resources
+  | GameEventBase & { type: 'CITY_BUILT'; intersectionId: string }
+  | GameEventBase & { type: 'DEVELOPMENT_CARD_BOUGHT'; secret?: { cardType: DevelopmentCardType } }
+  | GameEventBase & {
+      type: 'DEVELOPMENT_CARD_PLAYED';
+      cardType: DevelopmentCardType;
+      resources?: Partial<Resources>; // invention picks or monopoly haul
+    }
+  | GameEventBase & {
+      type: 'TRADED';
+      toPlayerId?: string;
+      offering: Partial<Resources>;
+      requesting: Partial<Resources>;
+      offerId?: string; // the accepted offer, for player trades
+    }
+  | GameEventBase & { type: 'TRADE_PROPOSED'; offer: OpenTradeOffer }
+  | GameEventBase & { type: 'TRADE_REJECTED'; offerId: string }
+  | GameEventBase & { type: 'TRADE_CANCELLED'; offerId: string }
+  | GameEventBase & { type: 'ROBBER_MOVED'; location: HexCoordinate }
+  | GameEventBase & { type: 'RESOURCE_STOLEN'; targetPlayerId: string; secret?: { resource: ResourceType } }
+  | GameEventBase & { type: 'RESOURCES_DISCARDED'; resources: Partial<Resources> }
+  | GameEventBase & { type: 'AWARD_CHANGED'; award: AwardType; fromPlayerId?: string; toPlayerId?: string }
+  | GameEventBase & { type: 'TURN_ENDED' }
+  | GameEventBase & { type: 'EVENT_DIE_ROLLED'; face: EventDieFace }
+  | GameEventBase & { type: 'COMMODITIES_PRODUCED'; production: Record<string, Partial<Commodities>> }
+  | GameEventBase & { type: 'BARBARIANS_ATTACKED'; attack: BarbarianAttack }
+  | GameEventBase & {
+      type: 'PROGRESS_CARD_DRAWN'; // playerId is the player who drew
+      track: ImprovementTrack;
+      cardType?: ProgressCardType; // victory point cards are shown to everyone
+      secret?: { cardType: ProgressCardType };
+    }
+  | GameEventBase & { type: 'PROGRESS_CARD_PLAYED'; cardType: ProgressCardType }
+  | GameEventBase & { type: 'KNIGHT_BUILT' | 'KNIGHT_ACTIVATED' | 'KNIGHT_PROMOTED'; intersectionId: string }
+  | GameEventBase & { type: 'CITY_IMPROVED'; track: ImprovementTrack; level: number; metropolis?: string }
+  | GameEventBase & { type: 'SHIP_BUILT'; edgeId: string }
+  | GameEventBase & { type: 'SHIP_MOVED'; fromEdgeId: string; edgeId: string }
+  | GameEventBase & { type: 'PIRATE_MOVED'; location: HexCoordinate }
+  | GameEventBase & { type: 'GOLD_CHOSEN'; resources: Partial<Resources> }
+  | GameEventBase & { type: 'ISLAND_SETTLED'; island: string; bonus: number }
+  | GameEventBase & { type: 'GAME_WON'; victoryPointCards?: number }; // the winner's hidden cards, now revealed
+
+export type GameEventType = GameEvent['type'];
+
+export interface RandomState {
+  algorithm: string;
+  state: number;
+}
+
+export interface Action {
+  type: ActionType;
+  playerId: string;
+  payload?: any;
+}
+
+export interface GameResult {
+  success: boolean;
+  newState?: GameState;
+  error?: string;
+  violation?: RuleViolation;
+}
+
+export type RuleViolationCode =
+  | 'UNKNOWN_ACTION'
+  | 'INVALID_ACTION'
+  | 'WRONG_PHASE'
+  | 'NOT_YOUR_TURN'
+  | 'PLAYER_NOT_FOUND'
+  | 'INSUFFICIENT_RESOURCES'
+  | 'NO_PIECES_REMAINING'
+  | 'INVALID_LOCATION'
+  | 'LOCATION_OCCUPIED'
+  | 'DISTANCE_RULE'
+  | 'NOT_CONNECTED'
+  | 'NOT_OWNER'
+  | 'CARD_NOT_OWNED'
+  | 'CARD_NOT_PLAYABLE'
+  | 'DECK_EMPTY'
+  | 'INVALID_TRADE'
+  | 'INVALID_TRADE_RATIO'
+  | 'TRADE_NOT_FOUND'
+  | 'NOT_TRADE_PARTY'
+  | 'ROBBER_MUST_MOVE'
+  | 'INVALID_STEAL_TARGET'
+  | 'NO_DISCARD_OWED'
+  | 'INVALID_DISCARD'
+  | 'BANK_EMPTY'
+  | 'SETUP_SEQUENCE'
+  | 'UNDO_DISABLED'
+  | 'NOTHING_TO_UNDO'
+  | 'EXPANSION_DISABLED'
+  | 'NO_GOLD_OWED'
+  | 'SHIP_NOT_MOVABLE';
+
+// Why an action was rejected: a stable code plus the data behind it (missing resources, conflicting intersection, ...)
+export interface RuleViolation {
+  code: RuleViolationCode;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface TradeOffer {
+  offering: Partial<Resources>;
+  requesting: Partial<Resources>;
+  fromPlayerId: string;
+  toPlayerId?: string; // undefined for bank trades
+}
@@ -0,0 +1,490 @@
+import {
+  Action,
+  ActionType,
+  CitiesAndKnightsState,
+  CitiesAndKnightsView,
+  SeafarersState,
+  CommodityType,
+  DevelopmentCardType,
+  EventDieFace,
+  ImprovementTrack,
+  Edge,
+  GameEvent,
+  GameEventType,
+  GameRules,
+  GameRuleOverrides,
+  GamePhase,
+  Harbor,
+  HexCoordinate,
+  Intersection,
+  Player,
+  PlayerView,
+  ProgressCardType,
+  RandomState,
+  Resources,
+  ResourceType,
+  TerrainType,
+  Tile,
+  TradeOffer,
+  OpenTradeOffer
+} from './types';
+
+export const RESOURCE_TYPES: readonly ResourceType[] = ['wood', 'brick', 'wool', 'wheat', 'ore'];
+
+export const TERRAIN_TYPES: readonly TerrainType[] = ['forest', 'pasture', 'field', 'hill', 'mountain', 'desert', 'sea', 'gold'];
+
+export const DEVELOPMENT_CARD_TYPES: readonly DevelopmentCardType[] = [
+  'knight',
+  'roadBuilding',
+  'invention',
+  'monopoly',
+  'victoryPoint'
+];
+
+export const COMMODITY_TYPES: readonly CommodityType[] = ['paper', 'cloth', 'coin'];
+
+export const IMPROVEMENT_TRACKS: readonly ImprovementTrack[] = ['trade', 'politics', 'science'];
+
+export const EVENT_DIE_FACES: readonly EventDieFace[] = ['ship', 'ship', 'ship', 'trade', 'politics', 'science'];
+
+export const PROGRESS_CARD_TYPES: readonly ProgressCardType[] = [
+  'irrigation',
+  'mining',
+  'printer',
+  'resourceMonopoly',
+  'tradeMonopoly',
+  'warlord',
+  'constitution'
+];
+
+export const GAME_PHASES: readonly GamePhase[] = [
+  'SETUP_ROUND_1',
+  'SETUP_ROUND_2',
+  'PRODUCTION',
+  'ACTION',
+  'SPECIAL_BUILDING',
+  'DISCARD',
+  'MOVE_ROBBER',
+  'STEAL',
+  'ROAD_BUILDING',
+  'GOLD',
+  'GAME_OVER'
+];
+
+export const ACTION_TYPES: readonly ActionType[] = [
+  'ROLL_DICE',
+  'PLAY_DEVELOPMENT_CARD',
+  'BUILD_ROAD',
+  'BUILD_SETTLEMENT',
+  'BUILD_CITY',
+  'BUY_DEVELOPMENT_CARD',
+  'PROPOSE_TRADE',
+  'COUNTER_TRADE',
+  'ACCEPT_TRADE',
+  'REJECT_TRADE',
+  'CANCEL_TRADE',
+  'TRADE_WITH_BANK',
+  'MOVE_ROBBER',
+  'DISCARD_RESOURCES',
+  'STEAL_RESOURCE',
+  'END_TURN',
+  'UNDO',
+  'BUILD_KNIGHT',
+  'ACTIVATE_KNIGHT',
+  'PROMOTE_KNIGHT',
+  'IMPROVE_CITY',
+  'PLAY_PROGRESS_CARD',
+  'BUILD_SHIP',
+  'MOVE_SHIP',
+  'CHOOSE_GOLD'
+];
+
+export const GAME_EVENT_TYPES: readonly GameEventType[] = [
+  'DICE_ROLLED',
+  'RESOURCES_PRODUCED',
+  'ROAD_BUILT',
+  'SETTLEMENT_BUILT',
+  'CITY_BUILT',
+  'DEVELOPMENT_CARD_BOUGHT',
+  'DEVELOPMENT_CARD_PLAYED',
+  'TRADED',
+  'TRADE_PROPOSED',
+  'TRADE_REJECTED',
+  'TRADE_CANCELLED',
+  'ROBBER_MOVED',
+  'RESOURCE_STOLEN',
+  'RESOURCES_DISCARDED',
+  'AWARD_CHANGED',
+  'TURN_ENDED',
+  'GAME_WON',
+  'EVENT_DIE_ROLLED',
+  'COMMODITIES_PRODUCED',
+  'BARBARIANS_ATTACKED',
+  'PROGRESS_CARD_DRAWN',
+  'PROGRESS_CARD_PLAYED',
+  'KNIGHT_BUILT',
+  'KNIGHT_ACTIVATED',
+  'KNIGHT_PROMOTED',
+  'CITY_IMPROVED',
+  'SHIP_BUILT',
+  'SHIP_MOVED',
+  'PIRATE_MOVED',
+  'GOLD_CHOSEN',
+  'ISLAND_SETTLED'
+];
+
+/**
+ * Raised by the validators below. `path` is a JSONPath-style pointer to the
+ * first offending field, e.g. `$.players[1].resources.ore`.
+ */
+export class ContractValidationError extends Error {
+  constructor(public readonly path: string, public readonly reason: string) {
+    super(`${path}: ${reason}`);
+    this.name = 'ContractValidationError';
+  }
+}
+
+export const isResourceType = (value: unknown): value is ResourceType =>
+  RESOURCE_TYPES.includes(value as ResourceType);
+
+export const isDevelopmentCardType = (value: unknown): value is DevelopmentCardType =>
+  DEVELOPMENT_CARD_TYPES.includes(value as DevelopmentCardType);
+
+export const isGamePhase = (value: unknown): value is GamePhase =>
+  GAME_PHASES.includes(value as GamePhase);
+
+export const isActionType = (value: unknown): value is ActionType =>
+  ACTION_TYPES.includes(value as ActionType);
+
+export function validateHexCoordinate(data: unknown, path: string = '$'): asserts data is HexCoordinate {
+  const coordinate = expectObject(data, path);
+  expectInteger(coordinate.q, `${path}.q`, -Infinity);
+  expectInteger(coordinate.r, `${path}.r`, -Infinity);
+}
+
+export function validatePlayer(data: unknown, path: string = '$'): asserts data is Player {
+  validatePlayerFields(data, path, false);
+}
+
+export function validatePlayerView(data: unknown, path: string = '$'): asserts data is PlayerView {
+  validatePlayerFields(data, path, true);
+}
+
+// A view leaves out other players' hands and gives their sizes instead
+function validatePlayerFields(data: unknown, path: string, isView: boolean): void {
+  const player = expectObject(data, path);
+  expectString(player.id, `${path}.id`);
+  expectString(player.color, `${path}.color`);
+  if (!isView || player.resources !== undefined) {
+    validateCounts(player.resources, RESOURCE_TYPES, `${path}.resources`);
+  }
+  if (!isView || player.developmentCards !== undefined) {
+    validateCounts(player.developmentCards, DEVELOPMENT_CARD_TYPES, `${path}.developmentCards`);
+  }
+
+  const buildings = expectObject(player.buildings, `${path}.buildings`);
+  for (const kind of ['roads', 'settlements', 'cities', 'ships']) {
+    if (kind === 'ships' && buildings.ships === undefined) continue;
+    expectArray(buildings[kind], `${path}.buildings.${kind}`)
+      .forEach((id, index) => expectString(id, `${path}.buildings.${kind}[${index}]`));
+  }
+
+  const specialCards = expectObject(player.specialCards, `${path}.specialCards`);
+  expectBoolean(specialCards.longestRoad, `${path}.specialCards.longestRoad`);
+  expectBoolean(specialCards.largestArmy, `${path}.specialCards.largestArmy`);
+  expectInteger(player.knightsPlayed, `${path}.knightsPlayed`);
+  expectInteger(player.victoryPoints, `${path}.victoryPoints`);
+  expectBoolean(player.canPlayDevCard, `${path}.canPlayDevCard`);
+  if (player.newDevelopmentCards !== undefined) {
+    validatePartialCounts(player.newDevelopmentCards, `${path}.newDevelopmentCards`, DEVELOPMENT_CARD_TYPES);
+  }
+  if (isView) {
+    expectInteger(player.resourceCount, `${path}.resourceCount`);
+    expectInteger(player.developmentCardCount, `${path}.developmentCardCount`);
+  }
+}
+
+export function validateResources(data: unknown, path: string = '$'): asserts data is Resources {
+  validateCounts(data, RESOURCE_TYPES, path);
+}
+
+export function validateTile(data: unknown, path: string = '$'): asserts data is Tile {
+  const tile = expectObject(data, path);
+  validateHexCoordinate(tile.coordinate, `${path}.coordinate`);
+  expectOneOf(tile.terrain, TERRAIN_TYPES, `${path}.terrain`);
+  if (tile.numberDisc !== undefined) {
+    expectInteger(tile.numberDisc, `${path}.numberDisc`, 2, 12);
+  }
+  expectBoolean(tile.hasRobber, `${path}.hasRobber`);
+}
+
+export function validateIntersection(data: unknown, path: string = '$'): asserts data is Intersection {
+  const intersection = expectObject(data, path);
+  expectString(intersection.id, `${path}.id`);
+  expectArray(intersection.hexes, `${path}.hexes`)
+    .forEach((hex, index) => validateHexCoordinate(hex, `${path}.hexes[${index}]`));
+  expectArray(intersection.edges, `${path}.edges`)
+    .forEach((edgeId, index) => expectString(edgeId, `${path}.edges[${index}]`));
+  if (intersection.building !== undefined) {
+    const building = expectObject(intersection.building, `${path}.building`);
+    expectOneOf(building.type, ['settlement', 'city'], `${path}.building.type`);
+    expectString(building.playerId, `${path}.building.playerId`);
+  }
+}
+
+export function validateEdge(data: unknown, path: string = '$'): asserts data is Edge {
+  const edge = expectObject(data, path);
+  expectString(edge.id, `${path}.id`);
+  const endpoints = expectArray(edge.intersections, `${path}.intersections`);
+  if (endpoints.length !== 2) {
+    throw new ContractValidationError(`${path}.intersections`, 'must connect exactly two intersections');
+  }
+  endpoints.forEach((id, index) => expectString(id, `${path}.intersections[${index}]`));
+  if (edge.road !== undefined) {
+    expectString(expectObject(edge.road, `${path}.road`).playerId, `${path}.road.playerId`);
+  }
+  if (edge.ship !== undefined) {
+    expectString(expectObject(edge.ship, `${path}.ship`).playerId, `${path}.ship.playerId`);
+  }
+}
+
+export function validateHarbor(data: unknown, path: string = '$'): asserts data is Harbor {
+  const harbor = expectObject(data, path);
+  expectString(harbor.edgeId, `${path}.edgeId`);
+  expectOneOf(harbor.type, ['generic', ...RESOURCE_TYPES], `${path}.type`);
+  expectInteger(harbor.ratio, `${path}.ratio`, 2, 4);
+}
+
+export function validateRandomState(data: unknown, path: string = '$'): asserts data is RandomState {
+  const random = expectObject(data, path);
+  expectString(random.algorithm, `${path}.algorithm`);
+  expectInteger(random.state, `${path}.state`, 0, 0xffffffff);
+}
+
+export function validateTradeOffer(data: unknown, path: string = '$'): asserts data is TradeOffer {
+  const offer = expectObject(data, path);
+  expectString(offer.fromPlayerId, `${path}.fromPlayerId`);
+  if (offer.toPlayerId !== undefined) {
+    expectString(offer.toPlayerId, `${path}.toPlayerId`);
+  }
+  validatePartialCounts(offer.offering, `${path}.offering`);
+  validatePartialCounts(offer.requesting, `${path}.requesting`);
+}
+
+export function validateOpenTradeOffer(data: unknown, path: string = '$'): asserts data is OpenTradeOffer {
+  validateTradeOffer(data, path);
+  const offer = expectObject(data, path);
+  expectString(offer.id, `${path}.id`);
+  if (offer.counterTo !== undefined) {
+    expectString(offer.counterTo, `${path}.counterTo`);
+  }
+  if (offer.rejectedBy !== undefined) {
+    expectArray(offer.rejectedBy, `${path}.rejectedBy`)
+      .forEach((playerId, index) => expectString(playerId, `${path}.rejectedBy[${index}]`));
+  }
+}
+
+export function validateCitiesAndKnightsState(data: unknown, path: string = '$'): asserts data is CitiesAndKnightsState {
+  validateCitiesAndKnightsFields(data, path, false);
+}
+
+export function validateCitiesAndKnightsView(data: unknown, path: string = '$'): asserts data is CitiesAndKnightsView {
+  validateCitiesAndKnightsFields(data, path, true);
+}
+
+// Like players' hands, a view gives other players' commodities and progress cards and the decks as counts
+function validateCitiesAndKnightsFields(data: unknown, path: string, isView: boolean): void {
+  const state = expectObject(data, path);
+  const progressCards = (value: unknown, cardsPath: string) => expectArray(value, cardsPath)
+    .forEach((card, index) => expectOneOf(card, PROGRESS_CARD_TYPES, `${cardsPath}[${index}]`));
+
+  Object.entries(expectObject(state.players, `${path}.players`)).forEach(([playerId, player]) => {
+    const playerPath = `${path}.players.${playerId}`;
+    expectObject(player, playerPath);
+    if (!isView || player.commodities !== undefined) {
+      validateCounts(player.commodities, COMMODITY_TYPES, `${playerPath}.commodities`);
+    }
+    IMPROVEMENT_TRACKS.forEach(track =>
+      expectInteger(expectObject(player.improvements, `${playerPath}.improvements`)[track], `${playerPath}.improvements.${track}`, 0, 5));
+    if (!isView || player.progressCards !== undefined) {
+      progressCards(player.progressCards, `${playerPath}.progressCards`);
+    }
+    progressCards(player.victoryCards, `${playerPath}.victoryCards`);
+    expectInteger(player.defenderPoints, `${playerPath}.defenderPoints`);
+    if (isView) {
+      expectInteger(player.commodityCount, `${playerPath}.commodityCount`);
+      expectInteger(player.progressCardCount, `${playerPath}.progressCardCount`);
+    }
+  });
+
+  expectArray(state.knights, `${path}.knights`).forEach((data, index) => {
+    const knightPath = `${path}.knights[${index}]`;
+    const knight = expectObject(data, knightPath);
+    expectString(knight.intersectionId, `${knightPath}.intersectionId`);
+    expectString(knight.playerId, `${knightPath}.playerId`);
+    expectInteger(knight.level, `${knightPath}.level`, 1, 3);
+    expectBoolean(knight.active, `${knightPath}.active`);
+  });
+
+  expectInteger(state.barbarianPosition, `${path}.barbarianPosition`);
+  expectInteger(state.barbarianAttacks, `${path}.barbarianAttacks`);
+  Object.entries(expectObject(state.metropolises, `${path}.metropolises`)).forEach(([track, intersectionId]) => {
+    expectOneOf(track, IMPROVEMENT_TRACKS, `${path}.metropolises.${track}`);
+    expectString(intersectionId, `${path}.metropolises.${track}`);
+  });
+  if (isView) {
+    const remaining = expectObject(state.progressCardsRemaining, `${path}.progressCardsRemaining`);
+    IMPROVEMENT_TRACKS.forEach(track => expectInteger(remaining[track], `${path}.progressCardsRemaining.${track}`));
+  } else {
+    const decks = expectObject(state.progressDecks, `${path}.progressDecks`);
+    IMPROVEMENT_TRACKS.forEach(track => progressCards(decks[track], `${path}.progressDecks.${track}`));
+  }
+  if (state.eventDie !== undefined) {
+    expectOneOf(state.eventDie, EVENT_DIE_FACES, `${path}.eventDie`);
+  }
+}
+
+export function validateSeafarersState(data: unknown, path: string = '$'): asserts data is SeafarersState {
+  const state = expectObject(data, path);
+  const islandsByPlayer = (value: unknown, islandsPath: string) =>
+    Object.entries(expectObject(value, islandsPath)).forEach(([playerId, islands]) =>
+      expectArray(islands, `${islandsPath}.${playerId}`)
+        .forEach((island, index) => expectString(island, `${islandsPath}.${playerId}[${index}]`)));
+
+  expectString(state.scenario, `${path}.scenario`);
+  expectInteger(state.islandBonus, `${path}.islandBonus`);
+  islandsByPlayer(state.homeIslands, `${path}.homeIslands`);
+  islandsByPlayer(state.bonusIslands, `${path}.bonusIslands`);
+  if (state.pendingGold !== undefined) {
+    Object.entries(expectObject(state.pendingGold, `${path}.pendingGold`))
+      .forEach(([playerId, count]) => expectInteger(count, `${path}.pendingGold.${playerId}`, 1));
+  }
+  expectArray(state.shipsBuiltThisTurn, `${path}.shipsBuiltThisTurn`)
+    .forEach((edgeId, index) => expectString(edgeId, `${path}.shipsBuiltThisTurn[${index}]`));
+  expectBoolean(state.shipMoved, `${path}.shipMoved`);
+  if (state.pirateTheft !== undefined) {
+    expectBoolean(state.pirateTheft, `${path}.pirateTheft`);
+  }
+}
+
+export function validateGameRules(data: unknown, path: string = '$'): asserts data is GameRules {
+  validateRules(data, path, false);
+}
+
+// Like validateGameRules, but any rule (or deck/limit entry) may be left out
+export function validateGameRuleOverrides(data: unknown, path: string = '$'): asserts data is GameRuleOverrides {
+  validateRules(data, path, true);
+}
+
+const BUILDING_LIMIT_KEYS = ['roads', 'settlements', 'cities'];
+
+function validateRules(data: unknown, path: string, partial: boolean): void {
+  const rules = expectObject(data, path);
+  const check = (key: string, validate: (value: unknown, path: string) => unknown) => {
+    if (!partial || rules[key] !== undefined) {
+      validate(rules[key], `${path}.${key}`);
+    }
+  };
+  const counts = (keys: readonly string[]) => (value: unknown, countsPath: string) => partial
+    ? Object.entries(expectObject(value, countsPath)).forEach(([key, count]) => {
+        expectOneOf(key, keys, `${countsPath}.${key}`);
+        expectInteger(count, `${countsPath}.${key}`);
+      })
+    : validateCounts(value, keys, countsPath);
+
+  check('victoryPointsToWin', (value, rulePath) => expectInteger(value, rulePath, 1));
+  check('discardLimit', (value, rulePath) => expectInteger(value, rulePath));
+  check('friendlyRobber', expectBoolean);
+  check('developmentCardDeck', counts(DEVELOPMENT_CARD_TYPES));
+  check('bankTradeRatio', (value, rulePath) => expectInteger(value, rulePath, 1));
+  check('bankResourcesPerType', (value, rulePath) => expectInteger(value, rulePath));
+  check('buildingLimits', counts(BUILDING_LIMIT_KEYS));
+  check('allowUndo', expectBoolean);
+}
+
+/**
+ * Checks the envelope every event shares (type, turn, player, visibility).
+ * Type-specific fields are written by the rule engine and passed through.
+ */
+export function validateGameEvent(data: unknown, path: string = '$'): asserts data is GameEvent {
+  const event = expectObject(data, path);
+  expectOneOf(event.type, GAME_EVENT_TYPES, `${path}.type`);
+  expectInteger(event.turn, `${path}.turn`, 1);
+  expectString(event.playerId, `${path}.playerId`);
+  if (event.visibleTo !== undefined) {
+    expectArray(event.visibleTo, `${path}.visibleTo`)
+      .forEach((playerId, index) => expectString(playerId, `${path}.visibleTo[${index}]`));
+  }
+}
+
+/**
+ * Checks the envelope of an action (type, player, payload object). Payload
+ * contents are the rule engine's business and are validated when applied.
+ */
+export function validateAction(data: unknown, path: string = '$'): asserts data is Action {
+  const action = expectObject(data, path);
+  expectOneOf(action.type, ACTION_TYPES, `${path}.type`);
+  expectString(action.playerId, `${path}.playerId`);
+  if (action.payload !== undefined) {
+    expectObject(action.payload, `${path}.payload`);
+  }
+}
+
+function validateCounts(data: unknown, keys: readonly string[], path: string): void {
+  const counts = expectObject(data, path);
+  keys.forEach(key => expectInteger(counts[key], `${path}.${key}`));
+}
+
+function validatePartialCounts(data: unknown, path: string, keys: readonly string[] = RESOURCE_TYPES): void {
+  Object.entries(expectObject(data, path)).forEach(([key, value]) => {
+    expectOneOf(key, keys, `${path}.${key}`);
+    if (value !== undefined) {
+      expectInteger(value, `${path}.${key}`);
+    }
+  });
+}
+
+export function expectObject(value: unknown, path: string): Record<string, any> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ContractValidationError(path, 'must be an object');
+  }
+  return value as Record<string, any>;
+}
+
+export function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new ContractValidationError(path, 'must be an array');
+  }
+  return value;
+}
+
+export function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new ContractValidationError(path, 'must be a non-empty string');
+  }
+  return value;
+}
+
+export function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new ContractValidationError(path, 'must be a boolean');
+  }
+  return value;
+}
+
+export function expectInteger(value: unknown, path: string, min: number = 0, max: number = Infinity): number {
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    throw new ContractValidationError(path, 'must be an integer');
+  }
+  if (value < min || value > max) {
+    throw new ContractValidationError(path, `must be between ${min} and ${max}`);
+  }
+  return value;
+}
+
+export function expectOneOf<T>(value: unknown, allowed: readonly T[], path: string): T {
+  if (!allowed.includes(value as T)) {
+    throw new ContractValidationError(path, `must be one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
@@ -0,0 +1,143 @@
+import {
+  ContractValidationError,
+  Player,
+  isResourceType,
+  isGamePhase,
+  isActionType,
+  validatePlayer,
+  validatePlayerView,
+  validateTile,
+  validateEdge,
+  validateIntersection,
+  validateAction,
+  validateHarbor,
+  validateTradeOffer,
+  validateGameEvent,
+  validateGameRules,
+  validateGameRuleOverrides
+} from '../src';
+
+describe('Contract validators', () => {
+  const player: Player = {
+    id: 'player1',
+    color: 'red',
+    resources: { wood: 1, brick: 0, wool: 2, wheat: 0, ore: 0 },
+    developmentCards: { knight: 0, roadBuilding: 0, invention: 0, monopoly: 0, victoryPoint: 1 },
+    buildings: { roads: ['e_0,0_1,-1'], settlements: ['i_0,0'], cities: [] },
+    specialCards: { longestRoad: false, largestArmy: false },
+    knightsPlayed: 0,
+    victoryPoints: 1,
+    canPlayDevCard: true
+  };
+
+  const expectValidationError = (validate: () => void, path: string) => {
+    try {
+      validate();
+      fail(`expected a ContractValidationError at ${path}`);
+    } catch (error) {
+      expect(error).toBeInstanceOf(ContractValidationError);
+      expect((error as ContractValidationError).path).toBe(path);
+    }
+  };
+
+  it('should recognise the shared enumerations', () => {
+    expect(isResourceType('wheat')).toBe(true);
+    expect(isResourceType('GRAIN')).toBe(false);
+    expect(isGamePhase('PRODUCTION')).toBe(true);
+    expect(isGamePhase('PLAY')).toBe(false);
+    expect(isActionType('END_TURN')).toBe(true);
+    expect(isActionType('DISCARD_CARDS')).toBe(false);
+  });
+
+  it('should accept a well-formed player', () => {
+    expect(() => validatePlayer(player)).not.toThrow();
+  });
+
+  it('should reject players from the old game-engine shape', () => {
+    expectValidationError(
+      () => validatePlayer({ ...player, resources: { BRICK: 0, LUMBER: 0, WOOL: 0, GRAIN: 0, ORE: 0 } }, '$.players[0]'),
+      '$.players[0].resources.wood'
+    );
+    expectValidationError(
+      () => validatePlayer({ ...player, developmentCards: ['KNIGHT'] }),
+      '$.developmentCards'
+    );
+  });
+
+  it('should accept an opponent as a view shows them', () => {
+    const { resources, developmentCards, ...opponent } = player;
+
+    expect(() => validatePlayerView({ ...opponent, resourceCount: 3, developmentCardCount: 1 })).not.toThrow();
+    expectValidationError(() => validatePlayerView(opponent), '$.resourceCount');
+    expectValidationError(() => validatePlayer({ ...opponent, resourceCount: 3, developmentCardCount: 1 }), '$.resources');
+  });
+
+  it('should validate board pieces', () => {
+    expect(() => validateTile({ coordinate: { q: 0, r: 0 }, terrain: 'desert', hasRobber: true })).not.toThrow();
+    expectValidationError(
+      () => validateTile({ coordinate: { q: 0, r: 0 }, terrain: 'hill', numberDisc: 7.5, hasRobber: false }),
+      '$.numberDisc'
+    );
+    expectValidationError(
+      () => validateIntersection({ id: 'i_0,0', hexes: [], edges: [], building: { type: 'castle', playerId: 'p1' } }),
+      '$.building.type'
+    );
+    expectValidationError(
+      () => validateEdge({ id: 'e_0,0_1,-1', intersections: ['i_0,0'] }),
+      '$.intersections'
+    );
+    expect(() => validateHarbor({ edgeId: 'e_0,-3_1,-3', type: 'ore', ratio: 2 })).not.toThrow();
+    expectValidationError(() => validateHarbor({ edgeId: 'e_0,-3_1,-3', type: 'gold', ratio: 2 }), '$.type');
+  });
+
+  it('should validate action envelopes', () => {
+    expect(() => validateAction({ type: 'ROLL_DICE', playerId: 'player1' })).not.toThrow();
+    expectValidationError(() => validateAction({ type: 'PLAY', playerId: 'player1' }, 'action'), 'action.type');
+    expectValidationError(() => validateAction({ type: 'END_TURN', playerId: '' }), '$.playerId');
+    expectValidationError(() => validateAction({ type: 'END_TURN', playerId: 'p1', payload: [] }), '$.payload');
+  });
+
+  it('should validate trade offers', () => {
+    expect(() => validateTradeOffer({ fromPlayerId: 'p1', offering: { wood: 2 }, requesting: { ore: 1 } })).not.toThrow();
+    expectValidationError(
+      () => validateTradeOffer({ fromPlayerId: 'p1', offering: { LUMBER: 2 }, requesting: {} }),
+      '$.offering.LUMBER'
+    );
+  });
+
+  it('should validate event envelopes', () => {
+    expect(() => validateGameEvent({ type: 'TURN_ENDED', turn: 3, playerId: 'p1' })).not.toThrow();
+    expectValidationError(() => validateGameEvent({ type: 'NAPPED', turn: 3, playerId: 'p1' }), '$.type');
+    expectValidationError(() => validateGameEvent({ type: 'TURN_ENDED', turn: 0, playerId: 'p1' }), '$.turn');
+    expectValidationError(
+      () => validateGameEvent({ type: 'RESOURCE_STOLEN', turn: 3, playerId: 'p1', visibleTo: ['p1', 2] }),
+      '$.visibleTo[1]'
+    );
+  });
+
+  it('should validate house rules', () => {
+    const rules = {
+      victoryPointsToWin: 10,
+      discardLimit: 7,
+      friendlyRobber: false,
+      developmentCardDeck: { knight: 14, roadBuilding: 2, invention: 2, monopoly: 2, victoryPoint: 5 },
+      bankTradeRatio: 4,
+      bankResourcesPerType: 19,
+      buildingLimits: { roads: 15, settlements: 5, cities: 4 },
+      allowUndo: true
+    };
+    expect(() => validateGameRules(rules)).not.toThrow();
+    expectValidationError(() => validateGameRules({ ...rules, allowUndo: 'yes' }, 'rules'), 'rules.allowUndo');
+    expectValidationError(() => validateGameRules({ ...rules, victoryPointsToWin: 0 }), '$.victoryPointsToWin');
+    expectValidationError(() => validateGameRules({ allowUndo: true }), '$.victoryPointsToWin');
+  });
+
+  it('should validate partial house rules', () => {
+    expect(() => validateGameRuleOverrides({ victoryPointsToWin: 12, buildingLimits: { roads: 20 } })).not.toThrow();
+    expectValidationError(
+      () => validateGameRuleOverrides({ developmentCardDeck: { knight: -1 } }),
+      '$.developmentCardDeck.knight'
+    );
+    expectValidationError(() => validateGameRuleOverrides({ buildingLimits: { walls: 3 } }), '$.buildingLimits.walls');
+  });
+});